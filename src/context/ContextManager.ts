@@ -3,12 +3,23 @@
  *
  * Single source of truth for conversation context management.
  * Handles message storage, team task, context preparation, and deduplication.
+ *
+ * Compaction: messages that fall out of the context window are folded into a
+ * rolling summary by compact() (see ISummarizer), rendered as [SUMMARY]. Only
+ * messages every recipient may see reach the summarizer; whispered and
+ * rule-hidden messages go into extractive per-member summaries instead.
+ *
+ * Visibility: context is filtered per recipient. Whispered messages
+ * (routing.visibleTo) and the optional visibility filter (team visibility
+ * rules) decide which messages an agent sees.
  */
 
 import { Buffer } from 'buffer';
 import type { ConversationMessage } from '../models/ConversationMessage.js';
 import type { IContextProvider } from './IContextProvider.js';
 import type { IContextAssembler } from './IContextAssembler.js';
+import type { ISummarizer } from './ISummarizer.js';
+import type { ITokenEstimator } from './ITokenEstimator.js';
 import type { ILogger } from '../interfaces/ILogger.js';
 import { SilentLogger } from '../interfaces/ILogger.js';
 import type {
@@ -17,8 +28,12 @@ import type {
   AssemblerOutput,
   ContextManagerOptions,
   ContextSnapshot,
+  ContextVisibilityFilter,
+  ConversationSummary,
   InternalContextMessage,
   PromptContextMessage,
+  PromptHandoff,
+  PromptTeamRoster,
   RouteContextOptions,
   RouteContextResult,
 } from './types.js';
@@ -29,6 +44,7 @@ import {
   DEFAULT_MAX_SIBLINGS,
   DEFAULT_SIBLING_CONTENT_LENGTH,
   DEFAULT_FORCE_PARENT_REINSERTION,
+  DEFAULT_SUMMARY_MAX_LENGTH,
 } from './types.js';
 import type { RoutingItem } from '../models/RoutingItem.js';
 
@@ -37,6 +53,8 @@ import { ClaudeContextAssembler } from './assemblers/ClaudeContextAssembler.js';
 import { CodexContextAssembler } from './assemblers/CodexContextAssembler.js';
 import { GeminiContextAssembler } from './assemblers/GeminiContextAssembler.js';
 import { PlainTextAssembler } from './assemblers/PlainTextAssembler.js';
+import { ExtractiveSummarizer } from './summarizers/ExtractiveSummarizer.js';
+import { createTokenEstimator } from './tokenizers/HeuristicTokenEstimator.js';
 
 // ============================================================================
 // Internal Pure Functions for Marker Stripping
@@ -44,6 +62,9 @@ import { PlainTextAssembler } from './assemblers/PlainTextAssembler.js';
 
 const FROM_PATTERN = /\[FROM:[^\]]+\]/gi;
 const NEXT_PATTERN = /\[NEXT:[^\]]*\]/gi;
+const WHISPER_PATTERN = /\[WHISPER:[^\]]*\]/gi;
+// Payloads are stripped by MessageRouter; only a leftover marker may remain
+const HANDOFF_PATTERN = /\[HANDOFF:[^\]]*\]/gi;
 // Match both forms: [TEAM_TASK: xxx] (inline) and [TEAM_TASK]\n... (block)
 const TEAM_TASK_INLINE_PATTERN = /\[TEAM_TASK:[^\]]*\]/gi;
 const TEAM_TASK_BLOCK_PATTERN = /\[TEAM_TASK\][\s\S]*?(?=\n\n\[|$)/gi;
@@ -57,6 +78,8 @@ function stripAllMarkers(message: string): string {
   result = result.replace(TEAM_TASK_INLINE_PATTERN, '');
   result = result.replace(TEAM_TASK_BLOCK_PATTERN, '');
   result = result.replace(NEXT_PATTERN, '');
+  result = result.replace(WHISPER_PATTERN, '');
+  result = result.replace(HANDOFF_PATTERN, '');
   return cleanupWhitespace(result);
 }
 
@@ -127,6 +150,22 @@ export class ContextManager implements IContextProvider {
   private readonly logger: ILogger;
   private nextMessageId: number = 1;
 
+  // Compaction
+  private summary: ConversationSummary | null = null;
+  private summarizer: ISummarizer;
+  private readonly restrictedSummarizer = new ExtractiveSummarizer();
+  private readonly compactionEnabled: boolean;
+  private readonly summaryMaxLength: number;
+  private readonly compactionBatchSize: number;
+  private compaction: Promise<ConversationSummary | null> | null = null;
+
+  // Visibility
+  private visibilityFilter?: ContextVisibilityFilter;
+  private visibilityRecipients: string[];
+
+  // Token budgets
+  private readonly tokenEstimators: Map<AgentType, ITokenEstimator>;
+
   // v3 configuration
   private readonly defaultMaxSiblings: number;
   private readonly defaultForceParentReinsertion: boolean;
@@ -144,18 +183,41 @@ export class ContextManager implements IContextProvider {
     this.defaultForceParentReinsertion = options?.defaultForceParentReinsertion ?? DEFAULT_FORCE_PARENT_REINSERTION;
     this.siblingContentMaxLength = options?.siblingContentMaxLength ?? DEFAULT_SIBLING_CONTENT_LENGTH;
 
+    // Compaction
+    this.compactionEnabled = options?.compactionEnabled ?? true;
+    this.summarizer = options?.summarizer ?? new ExtractiveSummarizer();
+    this.summaryMaxLength = options?.summaryMaxLength ?? DEFAULT_SUMMARY_MAX_LENGTH;
+    this.compactionBatchSize = Math.max(1, options?.compactionBatchSize ?? Math.ceil(this.contextWindowSize / 2));
+
+    // Visibility
+    this.visibilityFilter = options?.visibilityFilter;
+    this.visibilityRecipients = options?.visibilityRecipients ?? [];
+
+    // Token budgets
+    this.tokenEstimators = new Map();
+    for (const [agentType, estimator] of Object.entries(options?.tokenEstimators ?? {})) {
+      if (estimator) {
+        this.tokenEstimators.set(normalizeAgentType(agentType), estimator);
+      }
+    }
+
     // Initialize assembler map
     this.assemblers = new Map();
     this.assemblers.set('claude-code', new ClaudeContextAssembler());
     this.assemblers.set('openai-codex', new CodexContextAssembler());
     this.assemblers.set('google-gemini', new GeminiContextAssembler());
+    for (const [agentType, assembler] of Object.entries(options?.assemblers ?? {})) {
+      if (assembler) {
+        this.registerAssembler(agentType, assembler);
+      }
+    }
   }
 
   // --------------------------------------------------------------------------
   // Message Management
   // --------------------------------------------------------------------------
 
-  addMessage(msg: Omit<ConversationMessage, 'id'>): ConversationMessage {
+  addMessage(msg: Omit<ConversationMessage, 'id'> & { id?: string }): ConversationMessage {
     // Validate message
     if (!msg) {
       throw new TypeError('Message cannot be null or undefined');
@@ -170,9 +232,9 @@ export class ContextManager implements IContextProvider {
       throw new TypeError('Message speaker.id is required');
     }
 
-    // Generate ID and create full message
-    const id = `msg-${this.nextMessageId++}`;
-    const fullMsg: ConversationMessage = { id, ...msg } as ConversationMessage;
+    // Generate ID unless caller supplies one (e.g. coordinator keeps session message IDs)
+    const id = msg.id ?? `msg-${this.nextMessageId++}`;
+    const fullMsg: ConversationMessage = { ...msg, id } as ConversationMessage;
 
     // Store message
     this.messages.push(fullMsg);
@@ -230,6 +292,9 @@ export class ContextManager implements IContextProvider {
       windowSizeOverride?: number;
       systemInstruction?: string | string[];
       instructionFileText?: string;
+      teamInstructionText?: string;
+      maxTokens?: number;
+      teamRoster?: PromptTeamRoster;
     }
   ): AssemblerInput {
     // Get latest message
@@ -243,7 +308,10 @@ export class ContextManager implements IContextProvider {
         teamTask: this.teamTask,
         systemInstruction: options?.systemInstruction,
         instructionFileText: options?.instructionFileText,
+        teamInstructionText: options?.teamInstructionText,
         maxBytes: this.maxBytes,
+        maxTokens: options?.maxTokens,
+        teamRoster: options?.teamRoster,
       };
     }
 
@@ -253,9 +321,10 @@ export class ContextManager implements IContextProvider {
     // Determine window size
     const windowSize = options?.windowSizeOverride ?? this.contextWindowSize;
 
-    // Extract context messages (all except last)
-    const allExceptLast = this.messages.slice(0, -1);
-    const contextMessages = allExceptLast.slice(-windowSize);
+    // Extract context messages (all except last, visible to the agent)
+    const allExceptLast = this.messages.slice(0, -1).filter(m => this.isVisibleTo(m, agentId));
+    const contextMessages = allExceptLast.slice(-(windowSize + this.getPendingEvictions(this.messages.length - 1, windowSize)));
+    const summary = this.getSummaryBefore(this.messages.length - 1, agentId);
 
     // Convert to internal format with marker stripping
     const internalContext: InternalContextMessage[] = contextMessages.map(msg => ({
@@ -284,7 +353,27 @@ export class ContextManager implements IContextProvider {
       teamTask: this.teamTask,
       systemInstruction: options?.systemInstruction,
       instructionFileText: options?.instructionFileText,
+      teamInstructionText: options?.teamInstructionText,
       maxBytes: this.maxBytes,
+      maxTokens: options?.maxTokens,
+      summary,
+      handoff: this.getHandoffFor(latestMsg, agentId),
+      teamRoster: options?.teamRoster,
+    };
+  }
+
+  /**
+   * [HANDOFF] payload a message carries for a recipient
+   */
+  private getHandoffFor(message: ConversationMessage, recipientId: string): PromptHandoff | undefined {
+    const handoff = message.routing?.handoffs?.find(h => h.memberId === recipientId);
+    if (!handoff) {
+      return undefined;
+    }
+    return {
+      from: message.speaker.name,
+      payload: handoff.payload,
+      ...(handoff.errors ? { errors: handoff.errors } : {}),
     };
   }
 
@@ -362,8 +451,12 @@ export class ContextManager implements IContextProvider {
       windowSizeOverride,
       systemInstruction,
       instructionFileText,
+      teamInstructionText,
       maxSiblings = this.defaultMaxSiblings,
       forceParentReinsertion = this.defaultForceParentReinsertion,
+      sinceMessageId,
+      maxTokens,
+      teamRoster,
     } = options ?? {};
 
     const windowSize = windowSizeOverride ?? this.contextWindowSize;
@@ -390,11 +483,32 @@ export class ContextManager implements IContextProvider {
       };
     }
 
-    // Step 2: Build context window
+    // Step 2: Build context window (messages visible to the agent)
+    // The parent is always shown: the agent was asked to respond to it
     const parentIndex = this.messages.indexOf(parentMsg);
     const contextEndIndex = parentIndex; // Does not include parent message itself
-    const contextStartIndex = Math.max(0, contextEndIndex - windowSize);
-    const contextMessages = this.messages.slice(contextStartIndex, contextEndIndex);
+    let contextMessages = this.messages
+      .slice(0, contextEndIndex)
+      .filter(m => this.isVisibleTo(m, agentId))
+      .slice(-(windowSize + this.getPendingEvictions(parentIndex, windowSize)));
+
+    // Summary of compacted messages (only the part preceding the parent)
+    let summary = this.getSummaryBefore(parentIndex, agentId);
+
+    // Step 2b: Delta mode - only what the agent's live session has not seen yet
+    if (sinceMessageId) {
+      const sinceIndex = this.messages.findIndex(m => m.id === sinceMessageId);
+      if (sinceIndex >= 0 && sinceIndex <= parentIndex) {
+        contextMessages = this.messages
+          .slice(sinceIndex + 1, contextEndIndex)
+          .filter(m => m.speaker.id !== agentId && this.isVisibleTo(m, agentId));
+        summary = undefined; // The live session saw the summarized messages
+      } else {
+        this.logger.debug(
+          `[ContextManager] sinceMessageId ${sinceMessageId} not found before parent, using full window`
+        );
+      }
+    }
 
     // Step 3: Check if parent message is in window
     const parentInWindow = contextMessages.some(m => m.id === parentMsg.id);
@@ -402,7 +516,8 @@ export class ContextManager implements IContextProvider {
     // Step 4: Collect sibling messages (completed messages with same parent)
     const { siblings, totalCount, truncated } = this.collectSiblings(
       route.parentMessageId,
-      maxSiblings
+      maxSiblings,
+      agentId
     );
 
     // Step 5: Convert to internal format
@@ -448,13 +563,18 @@ export class ContextManager implements IContextProvider {
       teamTask: this.teamTask,
       systemInstruction,
       instructionFileText,
+      teamInstructionText,
       maxBytes: this.maxBytes,
+      maxTokens,
       parentContext,
       siblingContext,
       routeMeta: {
         parentMessageId: route.parentMessageId,
         intent: route.intent,
       },
+      summary,
+      handoff: this.getHandoffFor(parentMsg, agentId),
+      teamRoster,
       meta: {
         parentMessageId: route.parentMessageId,
         intent: route.intent,
@@ -478,18 +598,20 @@ export class ContextManager implements IContextProvider {
    *
    * @param parentMessageId - Parent message ID
    * @param maxCount - Maximum number of siblings
+   * @param recipientId - Agent the context is built for (hidden siblings are skipped)
    * @returns { siblings, totalCount, truncated }
    */
   private collectSiblings(
     parentMessageId: string,
-    maxCount: number
+    maxCount: number,
+    recipientId: string
   ): { siblings: ConversationMessage[]; totalCount: number; truncated: boolean } {
     // Step 1: Collect all siblings (no truncation)
     const allSiblings: ConversationMessage[] = [];
 
     for (let i = this.messages.length - 1; i >= 0; i--) {
       const msg = this.messages[i];
-      if (msg.routing?.parentMessageId === parentMessageId) {
+      if (msg.routing?.parentMessageId === parentMessageId && this.isVisibleTo(msg, recipientId)) {
         allSiblings.push(msg);
       }
     }
@@ -594,19 +716,239 @@ export class ContextManager implements IContextProvider {
     return null;
   }
 
+  // --------------------------------------------------------------------------
+  // Compaction
+  // --------------------------------------------------------------------------
+
+  /**
+   * Fold messages that fell out of the context window into the rolling summary
+   *
+   * Messages older than the window of the latest message (contextWindowSize
+   * messages before it) are summarized once; later calls only fold new evictions,
+   * and only once compactionBatchSize of them piled up (until then they stay in
+   * the context window). Concurrent calls share one run. Summarizer failures are logged and leave the
+   * summary unchanged.
+   *
+   * @returns The current summary (null if nothing was compacted yet)
+   */
+  async compact(): Promise<ConversationSummary | null> {
+    if (!this.compactionEnabled) {
+      return this.summary;
+    }
+    if (!this.compaction) {
+      this.compaction = this.runCompaction().finally(() => {
+        this.compaction = null;
+      });
+    }
+    return this.compaction;
+  }
+
+  getSummary(): ConversationSummary | null {
+    return this.summary;
+  }
+
+  /**
+   * Replace the summarizer (e.g. a team member acting as summarizer)
+   */
+  setSummarizer(summarizer: ISummarizer): void {
+    this.summarizer = summarizer;
+  }
+
+  private async runCompaction(): Promise<ConversationSummary | null> {
+    const startIndex = this.summary
+      ? this.messages.findIndex(m => m.id === this.summary!.throughMessageId) + 1
+      : 0;
+    // Window of the latest message: the contextWindowSize messages before it
+    const endIndex = this.messages.length - 1 - this.contextWindowSize;
+    if (startIndex <= 0 && this.summary) {
+      // Summarized messages are gone (history replaced), start over
+      this.summary = null;
+      return this.runCompaction();
+    }
+    if (endIndex - startIndex < this.compactionBatchSize) {
+      return this.summary;
+    }
+
+    const evicted = this.messages.slice(startIndex, endIndex);
+    const shared = evicted.filter(msg => this.isSharedWithAll(msg));
+    const restricted = evicted.filter(msg => !shared.includes(msg));
+    const previous = this.summary;
+
+    try {
+      const text = shared.length > 0
+        ? await this.summarizer.summarize({
+          previousSummary: previous?.text ?? null,
+          messages: shared.map(msg => this.toSummarizerMessage(msg)),
+          teamTask: this.teamTask,
+          maxLength: this.summaryMaxLength,
+        })
+        : previous?.text ?? '';
+      const restrictedByMember = await this.summarizeRestricted(restricted, previous?.restrictedByMember);
+
+      // History was replaced while summarizing (clear/import); discard the result
+      if (this.summary !== previous || this.messages[endIndex - 1] !== evicted[evicted.length - 1]) {
+        return this.summary;
+      }
+
+      this.summary = {
+        text,
+        throughMessageId: evicted[evicted.length - 1].id,
+        messageCount: (previous?.messageCount ?? 0) + evicted.length,
+        updatedAt: Date.now(),
+        ...(restrictedByMember ? { restrictedByMember } : {}),
+      };
+      this.logger.debug(
+        `[ContextManager] Compacted ${evicted.length} messages into summary (${this.summary.messageCount} total)`
+      );
+    } catch (err) {
+      this.logger.warn(`[ContextManager] Summarizer failed, keeping previous summary: ${(err as Error).message}`);
+    }
+
+    return this.summary;
+  }
+
+  /**
+   * Fold restricted messages into the summaries of the members allowed to see them
+   *
+   * Always extractive, so restricted content never reaches a summarizer agent
+   * (e.g. the team member acting as summarizer).
+   */
+  private async summarizeRestricted(
+    messages: ConversationMessage[],
+    previous?: Record<string, string>
+  ): Promise<Record<string, string> | undefined> {
+    const summaries: Record<string, string> = { ...previous };
+    const recipients = new Set([
+      ...this.visibilityRecipients,
+      ...messages.flatMap(msg => msg.routing?.visibleTo ?? []),
+    ]);
+
+    for (const recipientId of recipients) {
+      const visible = messages.filter(msg => this.isVisibleTo(msg, recipientId));
+      if (visible.length === 0) {
+        continue;
+      }
+      summaries[recipientId] = await this.restrictedSummarizer.summarize({
+        previousSummary: summaries[recipientId] ?? null,
+        messages: visible.map(msg => this.toSummarizerMessage(msg)),
+        teamTask: this.teamTask,
+        maxLength: this.summaryMaxLength,
+      });
+    }
+
+    return Object.keys(summaries).length > 0 ? summaries : undefined;
+  }
+
+  private toSummarizerMessage(msg: ConversationMessage): PromptContextMessage {
+    return {
+      from: msg.speaker.name,
+      to: this.formatAddressees(msg.routing?.resolvedAddressees?.map(a => a.identifier)),
+      content: stripAllMarkers(msg.content),
+    };
+  }
+
+  /**
+   * Summary text for a recipient when it only covers messages before the given index
+   *
+   * The shared summary is followed by the recipient's summary of restricted messages.
+   */
+  /**
+   * Messages before the window of the message at `index` that are not summarized yet
+   * (compaction waits for a full batch); they are kept in the context meanwhile
+   */
+  private getPendingEvictions(index: number, windowSize: number): number {
+    if (!this.compactionEnabled) {
+      return 0;
+    }
+    const throughIndex = this.summary
+      ? this.messages.findIndex(m => m.id === this.summary!.throughMessageId)
+      : -1;
+    const pending = index - windowSize - (throughIndex + 1);
+    return Math.max(0, Math.min(pending, this.compactionBatchSize - 1));
+  }
+
+  private getSummaryBefore(index: number, recipientId: string): string | undefined {
+    if (!this.summary) {
+      return undefined;
+    }
+    const throughIndex = this.messages.findIndex(m => m.id === this.summary!.throughMessageId);
+    if (throughIndex < 0 || throughIndex >= index) {
+      return undefined;
+    }
+    const text = [this.summary.text, this.summary.restrictedByMember?.[recipientId] ?? '']
+      .map(part => part.trim())
+      .filter(Boolean)
+      .join('\n');
+    return text || undefined;
+  }
+
+  // --------------------------------------------------------------------------
+  // Visibility
+  // --------------------------------------------------------------------------
+
+  /**
+   * Replace the per-recipient visibility filter (undefined: no team rules)
+   *
+   * @param recipients - Member IDs the filter is checked against when compacting
+   *                     (shared summary vs. per-member summaries)
+   */
+  setVisibilityFilter(filter: ContextVisibilityFilter | undefined, recipients: string[] = []): void {
+    this.visibilityFilter = filter;
+    this.visibilityRecipients = recipients;
+  }
+
+  /**
+   * Whether a message may appear in the context of the given member
+   *
+   * - Speakers always see their own messages
+   * - Whispered messages are limited to routing.visibleTo
+   * - Everything else is up to the visibility filter
+   */
+  isVisibleTo(message: ConversationMessage, recipientId: string): boolean {
+    if (message.speaker.id === recipientId) {
+      return true;
+    }
+    const visibleTo = message.routing?.visibleTo;
+    if (visibleTo && !visibleTo.includes(recipientId)) {
+      return false;
+    }
+    return this.visibilityFilter?.(message, recipientId) ?? true;
+  }
+
+  /**
+   * Whether every recipient may see a message (whispers never qualify)
+   */
+  private isSharedWithAll(message: ConversationMessage): boolean {
+    if (message.routing?.visibleTo) {
+      return false;
+    }
+    return this.visibilityRecipients.every(recipientId => this.isVisibleTo(message, recipientId));
+  }
+
   // --------------------------------------------------------------------------
   // Prompt Assembly
   // --------------------------------------------------------------------------
 
+  /**
+   * Registers an assembler for an agent type, replacing the built-in one if present
+   * (e.g. a TemplateContextAssembler to change the prompt layout per model)
+   */
+  registerAssembler(agentType: AgentType, assembler: IContextAssembler): void {
+    this.assemblers.set(normalizeAgentType(agentType), assembler);
+  }
+
   /**
    * Assembles the prompt using the appropriate assembler.
+   *
+   * @param assembler - Assembler to use instead of the one registered for agentType
+   *                    (member prompt templates); agentType still selects the token estimator
    */
-  assemblePrompt(agentType: AgentType, input: AssemblerInput): AssemblerOutput {
+  assemblePrompt(agentType: AgentType, input: AssemblerInput, assembler?: IContextAssembler): AssemblerOutput {
     // Normalize agent type
     const normalizedType = normalizeAgentType(agentType);
 
     // Find assembler
-    let assembler = this.assemblers.get(normalizedType);
+    assembler ??= this.assemblers.get(normalizedType);
 
     // Fallback to PlainTextAssembler
     if (!assembler) {
@@ -616,9 +958,22 @@ export class ContextManager implements IContextProvider {
       assembler = new PlainTextAssembler();
     }
 
+    // Token budget: estimate with the agent type's tokenizer profile
+    if (input.maxTokens !== undefined && !input.tokenEstimator) {
+      input = { ...input, tokenEstimator: this.getTokenEstimator(normalizedType) };
+    }
+
     return assembler.assemble(input);
   }
 
+  /**
+   * Token estimator for an agent type (configured estimator or heuristic profile)
+   */
+  getTokenEstimator(agentType: AgentType): ITokenEstimator {
+    const normalizedType = normalizeAgentType(agentType);
+    return this.tokenEstimators.get(normalizedType) ?? createTokenEstimator(normalizedType);
+  }
+
   // --------------------------------------------------------------------------
   // Lifecycle
   // --------------------------------------------------------------------------
@@ -626,6 +981,7 @@ export class ContextManager implements IContextProvider {
   clear(): void {
     this.messages = [];
     this.teamTask = null;
+    this.summary = null;
     this.nextMessageId = 1;
     this.onTeamTaskChanged?.(null);
   }
@@ -640,6 +996,7 @@ export class ContextManager implements IContextProvider {
       teamTask: this.teamTask,
       timestamp: Date.now(),
       version: 1,
+      ...(this.summary ? { summary: { ...this.summary } } : {}),
     };
   }
 
@@ -655,6 +1012,9 @@ export class ContextManager implements IContextProvider {
     // Restore team task
     this.teamTask = snapshot.teamTask;
 
+    // Restore rolling summary
+    this.summary = snapshot.summary ? { ...snapshot.summary } : null;
+
     // Recalculate next message ID
     this.nextMessageId = this.calculateNextMessageId();
 
@@ -0,0 +1,37 @@
+/**
+ * ISummarizer Interface
+ *
+ * Defines the contract for context compaction summarizers.
+ */
+
+import type { PromptContextMessage } from './types.js';
+
+/**
+ * Input for a summarizer: messages that fell out of the context window
+ */
+export interface SummarizerInput {
+  /** Rolling summary produced so far, or null on first compaction */
+  previousSummary: string | null;
+
+  /** Messages to fold into the summary (oldest first, markers stripped) */
+  messages: PromptContextMessage[];
+
+  /** Current team task, for summarizers that prioritise relevant content */
+  teamTask: string | null;
+
+  /** Maximum summary length in characters */
+  maxLength: number;
+}
+
+/**
+ * Interface for summarizers that fold old messages into the rolling [SUMMARY] section.
+ */
+export interface ISummarizer {
+  /**
+   * Produces the new rolling summary (previous summary + evicted messages).
+   *
+   * @param input - Previous summary and the messages to fold in
+   * @returns Summary text (at most input.maxLength characters)
+   */
+  summarize(input: SummarizerInput): Promise<string>;
+}
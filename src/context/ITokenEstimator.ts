@@ -0,0 +1,18 @@
+/**
+ * ITokenEstimator Interface
+ *
+ * Defines the contract for token count estimators used by token budgets.
+ */
+
+/**
+ * Interface for estimators that approximate how many model tokens a text uses.
+ */
+export interface ITokenEstimator {
+  /**
+   * Estimates the token count of a text.
+   *
+   * @param text - Prompt text
+   * @returns Estimated token count (estimates should err on the high side)
+   */
+  estimate(text: string): number;
+}
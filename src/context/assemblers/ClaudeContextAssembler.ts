@@ -5,6 +5,10 @@
  * Uses --append-system-prompt for system instructions (separated from main prompt).
  *
  * v3 extension: Added PARENT_CONTEXT, RELATED_CONTEXT, and ROUTING_META sections
+ * Compaction: [SUMMARY] carries the rolling summary of messages outside the window
+ * Handoffs: [HANDOFF] carries the structured payload addressed to this agent
+ * Roster: [TEAM] lists addressable members and the routing marker syntax
+ * Team instructions: [TEAM_INSTRUCTIONS] precedes the member's own [SYSTEM] instructions
  * @see docs/design/route_rule/V3/detail/04-prompt-assembly.md
  */
 
@@ -17,6 +21,10 @@ import type {
   PromptContextMessage,
 } from '../types.js';
 import { normalizeSystemInstruction } from '../../utils/normalizeSystemInstruction.js';
+import { fitToTokenBudget } from '../tokenBudget.js';
+import { formatHandoffBody } from '../formatHandoff.js';
+import { formatTeamRoster } from '../formatTeamRoster.js';
+import { formatTeamInstructions } from '../formatTeamInstructions.js';
 
 export class ClaudeContextAssembler implements IContextAssembler {
   getAgentType(): AgentType {
@@ -24,35 +32,69 @@ export class ClaudeContextAssembler implements IContextAssembler {
   }
 
   assemble(input: AssemblerInput): AssemblerOutput {
+    // Build system instruction text (for --append-system-prompt AND inline [SYSTEM])
+    const systemText = this.buildSystemFlag(input.systemInstruction, input.instructionFileText);
+
+    // Apply token budget (trims sections of the input before rendering)
+    const budgeted = fitToTokenBudget(input, candidate => this.buildPrompt(candidate, systemText), systemText);
+    const prompt = this.buildPrompt(budgeted, systemText);
+
+    // Apply byte budget (systemFlag is now embedded in prompt, pass as undefined for --append-system-prompt)
+    return this.applyByteBudgetV3(prompt, systemText, budgeted.maxBytes, {
+      contextMessages: budgeted.contextMessages,
+      parentContext: budgeted.parentContext,
+      siblingContext: budgeted.siblingContext,
+      summary: budgeted.summary,
+      teamRoster: budgeted.teamRoster,
+    });
+  }
+
+  /**
+   * Renders the prompt sections (no budget applied)
+   */
+  private buildPrompt(input: AssemblerInput, systemText: string | undefined): string {
     const {
       contextMessages,
       currentMessage,
       teamTask,
-      systemInstruction,
-      instructionFileText,
-      maxBytes,
       // v3 new fields
       parentContext,
       siblingContext,
       routeMeta,
+      summary,
+      handoff,
+      teamRoster,
+      teamInstructionText,
     } = input;
 
-    // Build system instruction text (for --append-system-prompt AND inline [SYSTEM])
-    const systemText = this.buildSystemFlag(systemInstruction, instructionFileText);
-
-    // Build sections - order: [SYSTEM], [TEAM_TASK], [CONTEXT], [PARENT_CONTEXT], [RELATED_CONTEXT], [MESSAGE], [ROUTING_META]
+    // Build sections - order: [TEAM_INSTRUCTIONS], [SYSTEM], [TEAM], [TEAM_TASK], [SUMMARY], [CONTEXT], [PARENT_CONTEXT], [RELATED_CONTEXT], [MESSAGE], [HANDOFF], [ROUTING_META]
     const sections: string[] = [];
 
+    // [TEAM_INSTRUCTIONS] - team-wide rules; the member's [SYSTEM] overrides them
+    if (teamInstructionText?.trim()) {
+      sections.push(`[TEAM_INSTRUCTIONS]\n${formatTeamInstructions(teamInstructionText, 'your own [SYSTEM] instructions')}`);
+    }
+
     // [SYSTEM] - embed system instruction in prompt (before MESSAGE)
     if (systemText?.trim()) {
       sections.push(`[SYSTEM]\n${systemText.trim()}`);
     }
 
+    // [TEAM] - addressable members and routing marker syntax
+    if (teamRoster) {
+      sections.push(`[TEAM]\n${formatTeamRoster(teamRoster)}`);
+    }
+
     // [TEAM_TASK] - only if content exists
     if (teamTask?.trim()) {
       sections.push(`[TEAM_TASK]\n${teamTask.trim()}`);
     }
 
+    // [SUMMARY] - rolling summary of messages that fell out of the window
+    if (summary?.trim()) {
+      sections.push(`[SUMMARY]\n(Earlier conversation, summarized)\n${summary.trim()}`);
+    }
+
     // [CONTEXT] - only if messages exist
     if (contextMessages.length > 0) {
       const contextLines = contextMessages.map(msg =>
@@ -87,6 +129,11 @@ export class ClaudeContextAssembler implements IContextAssembler {
       sections.push(`[MESSAGE]\n${currentMessage.trim()}`);
     }
 
+    // [HANDOFF] - structured payload the sender handed to this agent
+    if (handoff) {
+      sections.push(`[HANDOFF]\n(Structured handoff from ${handoff.from})\n${formatHandoffBody(handoff)}`);
+    }
+
     // v3: [ROUTING_META] - optional debugging/advanced prompting info
     if (routeMeta) {
       const metaLines: string[] = [];
@@ -101,16 +148,7 @@ export class ClaudeContextAssembler implements IContextAssembler {
       }
     }
 
-    let prompt = sections.join('\n\n');
-
-    // Apply byte budget (systemFlag is now embedded in prompt, pass as undefined for --append-system-prompt)
-    const result = this.applyByteBudgetV3(prompt, systemText, maxBytes, {
-      contextMessages,
-      parentContext,
-      siblingContext,
-    });
-
-    return result;
+    return sections.join('\n\n');
   }
 
   /**
@@ -171,11 +209,13 @@ export class ClaudeContextAssembler implements IContextAssembler {
    *
    * Priority order (highest to lowest):
    * 1. [MESSAGE] - cannot be truncated
-   * 2. [SYSTEM] - cannot be truncated
+   * 2. [SYSTEM], [TEAM_INSTRUCTIONS] - cannot be truncated
    * 3. [TEAM_TASK] - can truncate (keep first 5KB)
    * 4. [PARENT_CONTEXT] - can truncate (keep first 1KB)
    * 5. [RELATED_CONTEXT] - can be removed or truncated
-   * 6. [CONTEXT] - remove oldest messages first
+   * 6. [SUMMARY] - can be removed
+   * 7. [CONTEXT] - remove oldest messages first
+   * 8. [TEAM] - removed when nothing else is left to trim
    */
   private applyByteBudgetV3(
     prompt: string,
@@ -185,9 +225,11 @@ export class ClaudeContextAssembler implements IContextAssembler {
       contextMessages: PromptContextMessage[];
       parentContext?: PromptContextMessage;
       siblingContext?: PromptContextMessage[];
+      summary?: string;
+      teamRoster?: AssemblerInput['teamRoster'];
     }
   ): AssemblerOutput {
-    const { contextMessages, parentContext, siblingContext } = sections;
+    const { contextMessages, parentContext, siblingContext, summary, teamRoster } = sections;
 
     let currentBytes = Buffer.byteLength(prompt, 'utf8');
     const systemBytes = systemFlag ? Buffer.byteLength(systemFlag, 'utf8') : 0;
@@ -218,7 +260,16 @@ export class ClaudeContextAssembler implements IContextAssembler {
       }
     }
 
-    // Step 3: Remove context messages from oldest
+    // Step 3: Remove the rolling summary ([SUMMARY])
+    if (summary?.trim()) {
+      trimmedPrompt = this.removeSummarySection(trimmedPrompt);
+      currentBytes = Buffer.byteLength(trimmedPrompt, 'utf8');
+      if (currentBytes + systemBytes <= maxBytes) {
+        return { prompt: trimmedPrompt, systemFlag };
+      }
+    }
+
+    // Step 4: Remove context messages from oldest
     let remainingContext = [...contextMessages];
     while (remainingContext.length > 0 && currentBytes + systemBytes > maxBytes) {
       remainingContext = remainingContext.slice(1); // Remove oldest
@@ -226,7 +277,13 @@ export class ClaudeContextAssembler implements IContextAssembler {
       currentBytes = Buffer.byteLength(trimmedPrompt, 'utf8');
     }
 
-    // Step 4: If still too large, truncate the entire prompt
+    // Step 5: Remove the team roster ([TEAM])
+    if (teamRoster && currentBytes + systemBytes > maxBytes) {
+      trimmedPrompt = this.removeTeamSection(trimmedPrompt);
+      currentBytes = Buffer.byteLength(trimmedPrompt, 'utf8');
+    }
+
+    // Step 6: If still too large, truncate the entire prompt
     if (currentBytes + systemBytes > maxBytes) {
       const availableForPrompt = maxBytes - systemBytes;
       if (availableForPrompt > 0) {
@@ -246,6 +303,20 @@ export class ClaudeContextAssembler implements IContextAssembler {
     return prompt.replace(/\[RELATED_CONTEXT\]\n[\s\S]*?(?=\n\n\[|$)/, '').trim();
   }
 
+  /**
+   * Remove [SUMMARY] section from prompt
+   */
+  private removeSummarySection(prompt: string): string {
+    return prompt.replace(/\[SUMMARY\]\n[\s\S]*?(?:\n\n(?=\[)|$)/, '').trim();
+  }
+
+  /**
+   * Remove [TEAM] section from prompt
+   */
+  private removeTeamSection(prompt: string): string {
+    return prompt.replace(/\[TEAM\]\n[\s\S]*?(?:\n\n(?=\[)|$)/, '').trim();
+  }
+
   /**
    * Truncate [PARENT_CONTEXT] section to maxBytes
    */
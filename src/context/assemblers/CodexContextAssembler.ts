@@ -3,6 +3,10 @@
  *
  * Assembles prompts for OpenAI Codex CLI.
  * System instruction is inlined in [SYSTEM] section.
+ * [SUMMARY] carries the rolling summary of messages outside the window.
+ * [HANDOFF] carries the structured payload addressed to this agent.
+ * [TEAM] lists addressable members and the routing marker syntax.
+ * [TEAM_INSTRUCTIONS] precedes the member's own [SYSTEM] instructions.
  */
 
 import { Buffer } from 'buffer';
@@ -14,6 +18,10 @@ import type {
   PromptContextMessage,
 } from '../types.js';
 import { normalizeSystemInstruction } from '../../utils/normalizeSystemInstruction.js';
+import { fitToTokenBudget } from '../tokenBudget.js';
+import { formatHandoffBody } from '../formatHandoff.js';
+import { formatTeamRoster } from '../formatTeamRoster.js';
+import { formatTeamInstructions } from '../formatTeamInstructions.js';
 
 export class CodexContextAssembler implements IContextAssembler {
   getAgentType(): AgentType {
@@ -21,32 +29,63 @@ export class CodexContextAssembler implements IContextAssembler {
   }
 
   assemble(input: AssemblerInput): AssemblerOutput {
+    // Apply token budget (trims sections of the input before rendering)
+    const budgeted = fitToTokenBudget(input, candidate => this.buildPrompt(candidate));
+
+    // Apply byte budget
+    const prompt = this.applyByteBudget(this.buildPrompt(budgeted), budgeted.maxBytes, budgeted.contextMessages, budgeted.teamInstructionText);
+
+    return { prompt, systemFlag: undefined };
+  }
+
+  /**
+   * Renders the prompt sections (no budget applied)
+   */
+  private buildPrompt(input: AssemblerInput): string {
     const {
       contextMessages,
       currentMessage,
       teamTask,
       systemInstruction,
       instructionFileText,
-      maxBytes,
       // v3 new fields
       parentContext,
       siblingContext,
       routeMeta,
+      summary,
+      handoff,
+      teamRoster,
+      teamInstructionText,
     } = input;
 
     const sections: string[] = [];
 
+    // [TEAM_INSTRUCTIONS] - team-wide rules; the member's [SYSTEM] overrides them
+    if (teamInstructionText?.trim()) {
+      sections.push(this.renderTeamInstructions(teamInstructionText));
+    }
+
     // [SYSTEM] - inline system instruction
     const systemBody = this.buildSystemBody(systemInstruction, instructionFileText);
     if (systemBody) {
       sections.push(`[SYSTEM]\n${systemBody}`);
     }
 
+    // [TEAM] - addressable members and routing marker syntax
+    if (teamRoster) {
+      sections.push(`[TEAM]\n${formatTeamRoster(teamRoster)}`);
+    }
+
     // [TEAM_TASK]
     if (teamTask?.trim()) {
       sections.push(`[TEAM_TASK]\n${teamTask.trim()}`);
     }
 
+    // [SUMMARY] - rolling summary of messages that fell out of the window
+    if (summary?.trim()) {
+      sections.push(`[SUMMARY]\n(Earlier conversation, summarized)\n${summary.trim()}`);
+    }
+
     // [CONTEXT]
     if (contextMessages.length > 0) {
       const contextLines = contextMessages.map(msg =>
@@ -81,6 +120,11 @@ export class CodexContextAssembler implements IContextAssembler {
       sections.push(`[MESSAGE]\n${currentMessage.trim()}`);
     }
 
+    // [HANDOFF] - structured payload the sender handed to this agent
+    if (handoff) {
+      sections.push(`[HANDOFF]\n(Structured handoff from ${handoff.from})\n${formatHandoffBody(handoff)}`);
+    }
+
     // v3: [ROUTING_META]
     if (routeMeta) {
       const metaLines: string[] = [];
@@ -95,12 +139,7 @@ export class CodexContextAssembler implements IContextAssembler {
       }
     }
 
-    let prompt = sections.join('\n\n');
-
-    // Apply byte budget
-    prompt = this.applyByteBudget(prompt, maxBytes, contextMessages);
-
-    return { prompt, systemFlag: undefined };
+    return sections.join('\n\n');
   }
 
   /**
@@ -124,28 +163,39 @@ export class CodexContextAssembler implements IContextAssembler {
     return parts.length > 0 ? parts.join('\n\n') : null;
   }
 
+  /**
+   * Renders the [TEAM_INSTRUCTIONS] section
+   */
+  private renderTeamInstructions(teamInstructionText: string): string {
+    return `[TEAM_INSTRUCTIONS]\n${formatTeamInstructions(teamInstructionText, 'your own [SYSTEM] instructions')}`;
+  }
+
   /**
    * Applies byte budget by trimming context.
    */
   private applyByteBudget(
     prompt: string,
     maxBytes: number,
-    contextMessages: PromptContextMessage[]
+    contextMessages: PromptContextMessage[],
+    teamInstructionText?: string
   ): string {
     if (Buffer.byteLength(prompt, 'utf8') <= maxBytes) {
       return prompt;
     }
 
-    return this.trimPromptToFit(prompt, maxBytes, contextMessages);
+    const teamInstructionsSection = teamInstructionText?.trim() ? this.renderTeamInstructions(teamInstructionText) : '';
+    return this.trimPromptToFit(prompt, maxBytes, contextMessages, teamInstructionsSection);
   }
 
   /**
    * Trims the prompt to fit within byte limit.
+   * Team instructions are free text, so they are passed in rather than parsed back out.
    */
   private trimPromptToFit(
     prompt: string,
     maxBytes: number,
-    contextMessages: PromptContextMessage[]
+    contextMessages: PromptContextMessage[],
+    teamInstructionsSection: string
   ): string {
     if (Buffer.byteLength(prompt, 'utf8') <= maxBytes) {
       return prompt;
@@ -153,10 +203,12 @@ export class CodexContextAssembler implements IContextAssembler {
 
     // Extract sections
     const systemMatch = prompt.match(/\[SYSTEM\]\n([\s\S]*?)(?=\n\n\[|$)/);
+    const teamMatch = prompt.match(/\[TEAM\]\n([\s\S]*?)(?=\n\n\[|$)/);
     const teamTaskMatch = prompt.match(/\[TEAM_TASK\]\n([\s\S]*?)(?=\n\n\[|$)/);
     const messageMatch = prompt.match(/\[MESSAGE\]\n([\s\S]*)$/);
 
     const systemSection = systemMatch ? `[SYSTEM]\n${systemMatch[1]}` : '';
+    const teamSection = teamMatch ? `[TEAM]\n${teamMatch[1]}` : '';
     const teamTaskSection = teamTaskMatch ? `[TEAM_TASK]\n${teamTaskMatch[1]}` : '';
     const messageSection = messageMatch ? `[MESSAGE]\n${messageMatch[1]}` : '';
 
@@ -166,7 +218,9 @@ export class CodexContextAssembler implements IContextAssembler {
     while (remainingContext.length > 0) {
       const sections: string[] = [];
 
+      if (teamInstructionsSection) sections.push(teamInstructionsSection);
       if (systemSection) sections.push(systemSection);
+      if (teamSection) sections.push(teamSection);
       if (teamTaskSection) sections.push(teamTaskSection);
 
       if (remainingContext.length > 0) {
@@ -189,11 +243,18 @@ export class CodexContextAssembler implements IContextAssembler {
 
     // No context left
     const finalSections: string[] = [];
+    if (teamInstructionsSection) finalSections.push(teamInstructionsSection);
     if (systemSection) finalSections.push(systemSection);
+    if (teamSection) finalSections.push(teamSection);
     if (teamTaskSection) finalSections.push(teamTaskSection);
     if (messageSection) finalSections.push(messageSection);
 
-    const finalPrompt = finalSections.join('\n\n');
+    let finalPrompt = finalSections.join('\n\n');
+
+    // Drop the team roster before truncating
+    if (teamSection && Buffer.byteLength(finalPrompt, 'utf8') > maxBytes) {
+      finalPrompt = finalSections.filter(section => section !== teamSection).join('\n\n');
+    }
 
     if (Buffer.byteLength(finalPrompt, 'utf8') > maxBytes) {
       return this.truncateToBytes(finalPrompt, maxBytes);
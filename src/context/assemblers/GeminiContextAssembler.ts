@@ -3,6 +3,7 @@
  *
  * Assembles prompts for Google Gemini CLI.
  * Uses natural language headers (no brackets).
+ * Team instructions precede the member's own instructions.
  */
 
 import { Buffer } from 'buffer';
@@ -14,6 +15,10 @@ import type {
   PromptContextMessage,
 } from '../types.js';
 import { normalizeSystemInstruction } from '../../utils/normalizeSystemInstruction.js';
+import { fitToTokenBudget } from '../tokenBudget.js';
+import { formatHandoffBody } from '../formatHandoff.js';
+import { formatTeamRoster } from '../formatTeamRoster.js';
+import { formatTeamInstructions } from '../formatTeamInstructions.js';
 
 export class GeminiContextAssembler implements IContextAssembler {
   getAgentType(): AgentType {
@@ -21,32 +26,63 @@ export class GeminiContextAssembler implements IContextAssembler {
   }
 
   assemble(input: AssemblerInput): AssemblerOutput {
+    // Apply token budget (trims sections of the input before rendering)
+    const budgeted = fitToTokenBudget(input, candidate => this.buildPrompt(candidate));
+
+    // Apply byte budget
+    const prompt = this.applyByteBudget(this.buildPrompt(budgeted), budgeted.maxBytes, budgeted.contextMessages, budgeted.teamInstructionText);
+
+    return { prompt, systemFlag: undefined };
+  }
+
+  /**
+   * Renders the prompt sections (no budget applied)
+   */
+  private buildPrompt(input: AssemblerInput): string {
     const {
       contextMessages,
       currentMessage,
       teamTask,
       systemInstruction,
       instructionFileText,
-      maxBytes,
       // v3 new fields
       parentContext,
       siblingContext,
       routeMeta,
+      summary,
+      handoff,
+      teamRoster,
+      teamInstructionText,
     } = input;
 
     const sections: string[] = [];
 
+    // Team instructions: (the member's Instructions override them)
+    if (teamInstructionText?.trim()) {
+      sections.push(this.renderTeamInstructions(teamInstructionText));
+    }
+
     // Instructions:
     const instructionsBody = this.buildInstructionsBody(systemInstruction, instructionFileText);
     if (instructionsBody) {
       sections.push(`Instructions:\n${instructionsBody}`);
     }
 
+    // Team roster (starts with its own "Team: <name>" line)
+    if (teamRoster) {
+      sections.push(formatTeamRoster(teamRoster));
+    }
+
     // Team Task:
     if (teamTask?.trim()) {
       sections.push(`Team Task:\n${teamTask.trim()}`);
     }
 
+    // Earlier conversation (rolling summary of messages outside the window)
+    if (summary?.trim()) {
+      sections.push(`Earlier conversation (summary):\n${summary.trim()}`);
+    }
+
     // Conversation so far:
     if (contextMessages.length > 0) {
       const contextLines = contextMessages.map(msg =>
@@ -79,6 +115,11 @@ export class GeminiContextAssembler implements IContextAssembler {
       sections.push(`Last message:\n${currentMessage.trim()}`);
     }
 
+    // Structured handoff from the sender
+    if (handoff) {
+      sections.push(`Handoff from ${handoff.from}:\n${formatHandoffBody(handoff)}`);
+    }
+
     // v3: Routing metadata (optional)
     if (routeMeta && (routeMeta.parentMessageId || routeMeta.intent)) {
       const metaParts: string[] = [];
@@ -91,12 +132,7 @@ export class GeminiContextAssembler implements IContextAssembler {
       sections.push(`Routing info:\n${metaParts.join('\n')}`);
     }
 
-    let prompt = sections.join('\n\n');
-
-    // Apply byte budget
-    prompt = this.applyByteBudget(prompt, maxBytes, contextMessages);
-
-    return { prompt, systemFlag: undefined };
+    return sections.join('\n\n');
   }
 
   /**
@@ -120,28 +156,39 @@ export class GeminiContextAssembler implements IContextAssembler {
     return parts.length > 0 ? parts.join('\n\n') : null;
   }
 
+  /**
+   * Renders the "Team instructions:" section
+   */
+  private renderTeamInstructions(teamInstructionText: string): string {
+    return `Team instructions:\n${formatTeamInstructions(teamInstructionText, 'your own instructions below')}`;
+  }
+
   /**
    * Applies byte budget by trimming context.
    */
   private applyByteBudget(
     prompt: string,
     maxBytes: number,
-    contextMessages: PromptContextMessage[]
+    contextMessages: PromptContextMessage[],
+    teamInstructionText?: string
   ): string {
     if (Buffer.byteLength(prompt, 'utf8') <= maxBytes) {
       return prompt;
     }
 
-    return this.trimPromptToFit(prompt, maxBytes, contextMessages);
+    const teamInstructionsSection = teamInstructionText?.trim() ? this.renderTeamInstructions(teamInstructionText) : '';
+    return this.trimPromptToFit(prompt, maxBytes, contextMessages, teamInstructionsSection);
   }
 
   /**
    * Trims the prompt to fit within byte limit.
+   * Team instructions are free text, so they are passed in rather than parsed back out.
    */
   private trimPromptToFit(
     prompt: string,
     maxBytes: number,
-    contextMessages: PromptContextMessage[]
+    contextMessages: PromptContextMessage[],
+    teamInstructionsSection: string
   ): string {
     if (Buffer.byteLength(prompt, 'utf8') <= maxBytes) {
       return prompt;
@@ -149,10 +196,12 @@ export class GeminiContextAssembler implements IContextAssembler {
 
     // Extract sections using Gemini's format
     const instructionsMatch = prompt.match(/Instructions:\n([\s\S]*?)(?=\n\n[A-Z]|$)/);
+    const teamMatch = prompt.match(/(?:^|\n\n)(Team: [\s\S]*?)(?=\n\n[A-Z]|$)/);
     const teamTaskMatch = prompt.match(/Team Task:\n([\s\S]*?)(?=\n\n[A-Z]|$)/);
     const lastMessageMatch = prompt.match(/Last message:\n([\s\S]*)$/);
 
     const instructionsSection = instructionsMatch ? `Instructions:\n${instructionsMatch[1]}` : '';
+    const teamSection = teamMatch ? teamMatch[1] : '';
     const teamTaskSection = teamTaskMatch ? `Team Task:\n${teamTaskMatch[1]}` : '';
     const lastMessageSection = lastMessageMatch ? `Last message:\n${lastMessageMatch[1]}` : '';
 
@@ -162,7 +211,9 @@ export class GeminiContextAssembler implements IContextAssembler {
     while (remainingContext.length > 0) {
       const sections: string[] = [];
 
+      if (teamInstructionsSection) sections.push(teamInstructionsSection);
       if (instructionsSection) sections.push(instructionsSection);
+      if (teamSection) sections.push(teamSection);
       if (teamTaskSection) sections.push(teamTaskSection);
 
       if (remainingContext.length > 0) {
@@ -185,11 +236,18 @@ export class GeminiContextAssembler implements IContextAssembler {
 
     // No context left
     const finalSections: string[] = [];
+    if (teamInstructionsSection) finalSections.push(teamInstructionsSection);
     if (instructionsSection) finalSections.push(instructionsSection);
+    if (teamSection) finalSections.push(teamSection);
     if (teamTaskSection) finalSections.push(teamTaskSection);
     if (lastMessageSection) finalSections.push(lastMessageSection);
 
-    const finalPrompt = finalSections.join('\n\n');
+    let finalPrompt = finalSections.join('\n\n');
+
+    // Drop the team roster before truncating
+    if (teamSection && Buffer.byteLength(finalPrompt, 'utf8') > maxBytes) {
+      finalPrompt = finalSections.filter(section => section !== teamSection).join('\n\n');
+    }
 
     if (Buffer.byteLength(finalPrompt, 'utf8') > maxBytes) {
       return this.truncateToBytes(finalPrompt, maxBytes);
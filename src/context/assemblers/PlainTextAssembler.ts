@@ -14,6 +14,10 @@ import type {
   PromptContextMessage,
 } from '../types.js';
 import { normalizeSystemInstruction } from '../../utils/normalizeSystemInstruction.js';
+import { fitToTokenBudget } from '../tokenBudget.js';
+import { formatHandoffBody } from '../formatHandoff.js';
+import { formatTeamRoster } from '../formatTeamRoster.js';
+import { formatTeamInstructions } from '../formatTeamInstructions.js';
 
 export class PlainTextAssembler implements IContextAssembler {
   getAgentType(): AgentType {
@@ -21,28 +25,59 @@ export class PlainTextAssembler implements IContextAssembler {
   }
 
   assemble(input: AssemblerInput): AssemblerOutput {
+    // Apply token budget (trims sections of the input before rendering)
+    const budgeted = fitToTokenBudget(input, candidate => this.buildPrompt(candidate));
+
+    // Apply byte budget
+    const prompt = this.applyByteBudget(this.buildPrompt(budgeted), budgeted.maxBytes, budgeted.contextMessages, budgeted.teamRoster);
+
+    return { prompt, systemFlag: undefined };
+  }
+
+  /**
+   * Renders the prompt sections (no budget applied)
+   */
+  private buildPrompt(input: AssemblerInput): string {
     const {
       contextMessages,
       currentMessage,
       teamTask,
       systemInstruction,
       instructionFileText,
-      maxBytes,
+      summary,
+      handoff,
+      teamRoster,
+      teamInstructionText,
     } = input;
 
     const parts: string[] = [];
 
+    // Team instructions (ahead of the member's own instructions, which override them)
+    if (teamInstructionText?.trim()) {
+      parts.push(`Team instructions:\n${formatTeamInstructions(teamInstructionText, 'your own instructions below')}`);
+    }
+
     // System body (no title)
     const systemBody = this.buildSystemBody(systemInstruction, instructionFileText);
     if (systemBody) {
       parts.push(systemBody);
     }
 
+    // Team roster (starts with its own "Team: <name>" line)
+    if (teamRoster) {
+      parts.push(formatTeamRoster(teamRoster));
+    }
+
     // Team task (no title)
     if (teamTask?.trim()) {
       parts.push(teamTask.trim());
     }
 
+    // Rolling summary of messages outside the window
+    if (summary?.trim()) {
+      parts.push(`Earlier conversation (summary):\n${summary.trim()}`);
+    }
+
     // Context messages (simple format)
     if (contextMessages.length > 0) {
       const contextLines = contextMessages.map(msg =>
@@ -56,12 +91,12 @@ export class PlainTextAssembler implements IContextAssembler {
       parts.push(currentMessage.trim());
     }
 
-    let prompt = parts.join('\n\n');
-
-    // Apply byte budget
-    prompt = this.applyByteBudget(prompt, maxBytes, contextMessages);
+    // Structured handoff from the sender
+    if (handoff) {
+      parts.push(`Handoff from ${handoff.from}:\n${formatHandoffBody(handoff)}`);
+    }
 
-    return { prompt, systemFlag: undefined };
+    return parts.join('\n\n');
   }
 
   /**
@@ -86,18 +121,19 @@ export class PlainTextAssembler implements IContextAssembler {
   }
 
   /**
-   * Applies byte budget by trimming context.
+   * Applies byte budget by trimming context, then the team roster.
    */
   private applyByteBudget(
     prompt: string,
     maxBytes: number,
-    contextMessages: PromptContextMessage[]
+    contextMessages: PromptContextMessage[],
+    teamRoster?: AssemblerInput['teamRoster']
   ): string {
     if (Buffer.byteLength(prompt, 'utf8') <= maxBytes) {
       return prompt;
     }
 
-    return this.trimPromptToFit(prompt, maxBytes, contextMessages);
+    return this.trimPromptToFit(prompt, maxBytes, contextMessages, teamRoster ? formatTeamRoster(teamRoster) : undefined);
   }
 
   /**
@@ -107,7 +143,8 @@ export class PlainTextAssembler implements IContextAssembler {
   private trimPromptToFit(
     prompt: string,
     maxBytes: number,
-    contextMessages: PromptContextMessage[]
+    contextMessages: PromptContextMessage[],
+    rosterPart?: string
   ): string {
     if (Buffer.byteLength(prompt, 'utf8') <= maxBytes) {
       return prompt;
@@ -162,6 +199,15 @@ export class PlainTextAssembler implements IContextAssembler {
       }
     }
 
+    // Drop the team roster (and context) before truncating
+    if (rosterPart) {
+      const trimmedContext = contextMessages.length > 0 ? contextPartIndex : -1;
+      const promptWithoutRoster = parts
+        .filter((part, i) => part !== rosterPart && i !== trimmedContext)
+        .join('\n\n');
+      return this.truncateToBytes(promptWithoutRoster, maxBytes);
+    }
+
     // Last resort: truncate
     return this.truncateToBytes(prompt, maxBytes);
   }
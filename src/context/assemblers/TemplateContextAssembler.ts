@@ -0,0 +1,81 @@
+/**
+ * TemplateContextAssembler
+ *
+ * Assembles prompts from a PromptTemplate instead of a built-in section layout.
+ * Register it with ContextManager.registerAssembler() to change the prompt shape
+ * for an agent type, or configure promptTemplate on a team/member.
+ *
+ * Budgets: the token budget trims sections before rendering (see fitToTokenBudget);
+ * the byte budget trims the same sections in the same order, then truncates.
+ */
+
+import { Buffer } from 'buffer';
+import type { IContextAssembler } from '../IContextAssembler.js';
+import type { AgentType, AssemblerInput, AssemblerOutput } from '../types.js';
+import type { ITokenEstimator } from '../ITokenEstimator.js';
+import { PromptTemplate } from '../templates/PromptTemplate.js';
+import { fitToTokenBudget } from '../tokenBudget.js';
+
+/**
+ * Counts UTF-8 bytes so the byte budget can reuse the token budget trim order
+ */
+const byteEstimator: ITokenEstimator = {
+  estimate: text => Buffer.byteLength(text, 'utf8'),
+};
+
+export class TemplateContextAssembler implements IContextAssembler {
+  private readonly template: PromptTemplate;
+
+  /**
+   * @param template - Parsed template or template source (validated here)
+   * @param agentType - Agent type reported by getAgentType()
+   * @throws PromptTemplateError when the template source is invalid
+   */
+  constructor(template: PromptTemplate | string, private readonly agentType: AgentType = 'template') {
+    this.template = typeof template === 'string' ? PromptTemplate.parse(template) : template;
+  }
+
+  getAgentType(): AgentType {
+    return this.agentType;
+  }
+
+  assemble(input: AssemblerInput): AssemblerOutput {
+    const render = (candidate: AssemblerInput) => this.template.render(candidate);
+
+    // Apply token budget (trims sections of the input before rendering)
+    const budgeted = fitToTokenBudget(input, render);
+
+    // Apply byte budget
+    const fitted = fitToTokenBudget(
+      { ...budgeted, maxTokens: budgeted.maxBytes, tokenEstimator: byteEstimator },
+      render
+    );
+
+    return { prompt: this.truncateToBytes(render(fitted), budgeted.maxBytes), systemFlag: undefined };
+  }
+
+  /**
+   * Truncates string to fit within byte limit (last resort when fixed slots exceed it).
+   */
+  private truncateToBytes(str: string, maxBytes: number): string {
+    const encoder = new TextEncoder();
+
+    if (encoder.encode(str).length <= maxBytes) {
+      return str;
+    }
+
+    let low = 0;
+    let high = str.length;
+
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (encoder.encode(str.slice(0, mid)).length <= maxBytes) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return str.slice(0, low);
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Handoff formatting shared by the assemblers
+ *
+ * Each assembler adds its own section title ([HANDOFF], "Handoff from ...:").
+ */
+
+import type { PromptHandoff } from './types.js';
+
+/**
+ * Renders a handoff payload as a JSON block, followed by its problems if any
+ */
+export function formatHandoffBody(handoff: PromptHandoff): string {
+  const lines = ['```json', JSON.stringify(handoff.payload, null, 2), '```'];
+
+  if (handoff.errors && handoff.errors.length > 0) {
+    lines.push(`(Payload problems - ask ${handoff.from} for the missing details)`);
+    lines.push(...handoff.errors.map(error => `- ${error}`));
+  }
+
+  return lines.join('\n');
+}
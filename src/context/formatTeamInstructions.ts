@@ -0,0 +1,13 @@
+/**
+ * Team instruction formatting shared by the assemblers
+ *
+ * Each assembler adds its own section title ([TEAM_INSTRUCTIONS], "Team instructions:")
+ * and names the member instructions that override the team's.
+ */
+
+/**
+ * Renders the team instruction file text behind a precedence statement
+ */
+export function formatTeamInstructions(text: string, memberInstructions: string): string {
+  return `(Shared by the whole team - where ${memberInstructions} differ, they take precedence)\n${text.trim()}`;
+}
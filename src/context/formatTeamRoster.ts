@@ -0,0 +1,38 @@
+/**
+ * Team roster formatting shared by the assemblers
+ *
+ * Each assembler adds its own section title ([TEAM], "Team:").
+ */
+
+import type { PromptTeamRoster } from './types.js';
+
+/**
+ * Renders the addressable members and, unless disabled, the routing marker syntax
+ */
+export function formatTeamRoster(roster: PromptTeamRoster): string {
+  const lines = [`Team: ${roster.teamName}`, 'Members (use these names in routing markers):'];
+
+  for (const member of roster.members) {
+    const displayName = member.displayName !== member.name ? ` (${member.displayName})` : '';
+    const self = member.self ? ' - you' : '';
+    const description = member.roleDescription ? `: ${member.roleDescription}` : '';
+    lines.push(`- ${member.name}${displayName} - ${member.role}, ${member.type}${self}${description}`);
+  }
+
+  if (roster.markerSyntax !== false) {
+    lines.push(
+      'Routing markers:',
+      '- [NEXT: name] or [NEXT: name1, name2] choose who speaks next',
+      '- [NEXT: name!P1] urgent interruption; !P2 direct reply (default); !P3 follow-up when the queue is idle',
+      '- [DROP: name] or [DROP: ALL] cancel pending turns for a member or the whole queue',
+    );
+    if (roster.membershipMarkers) {
+      lines.push(
+        '- [INVITE: name as role using agent] add a teammate run by a registered agent (e.g. claude)',
+        '- [DISMISS: name] remove a teammate',
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
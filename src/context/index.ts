@@ -10,6 +10,8 @@ export { ContextManager } from './ContextManager.js';
 // Interfaces
 export type { IContextProvider } from './IContextProvider.js';
 export type { IContextAssembler } from './IContextAssembler.js';
+export type { ISummarizer, SummarizerInput } from './ISummarizer.js';
+export type { ITokenEstimator } from './ITokenEstimator.js';
 
 // Types
 export type {
@@ -18,8 +20,13 @@ export type {
   AssemblerOutput,
   ContextManagerOptions,
   ContextSnapshot,
+  ConversationSummary,
+  ContextVisibilityFilter,
   InternalContextMessage,
   PromptContextMessage,
+  PromptHandoff,
+  PromptTeamRoster,
+  PromptRosterMember,
 } from './types.js';
 
 // Constants
@@ -27,6 +34,7 @@ export {
   DEFAULT_CONTEXT_WINDOW_SIZE,
   DEFAULT_MAX_BYTES,
   MAX_TEAM_TASK_BYTES,
+  DEFAULT_SUMMARY_MAX_LENGTH,
 } from './types.js';
 
 // Assemblers
@@ -34,3 +42,25 @@ export { ClaudeContextAssembler } from './assemblers/ClaudeContextAssembler.js';
 export { CodexContextAssembler } from './assemblers/CodexContextAssembler.js';
 export { GeminiContextAssembler } from './assemblers/GeminiContextAssembler.js';
 export { PlainTextAssembler } from './assemblers/PlainTextAssembler.js';
+export { TemplateContextAssembler } from './assemblers/TemplateContextAssembler.js';
+
+// Prompt templates
+export {
+  PromptTemplate,
+  PromptTemplateError,
+  PROMPT_TEMPLATE_SLOTS,
+} from './templates/PromptTemplate.js';
+
+// Summarizers
+export { ExtractiveSummarizer } from './summarizers/ExtractiveSummarizer.js';
+export { AgentSummarizer, type SummarizerAgentRunner } from './summarizers/AgentSummarizer.js';
+
+// Token budgets
+export {
+  HeuristicTokenEstimator,
+  createTokenEstimator,
+  TOKEN_ESTIMATOR_PROFILES,
+  DEFAULT_TOKEN_ESTIMATOR_PROFILE,
+  type TokenEstimatorProfile,
+} from './tokenizers/HeuristicTokenEstimator.js';
+export { fitToTokenBudget } from './tokenBudget.js';
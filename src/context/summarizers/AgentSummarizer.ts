@@ -0,0 +1,60 @@
+/**
+ * AgentSummarizer
+ *
+ * Summarizer backed by a team member acting as summarizer.
+ * The caller supplies how to run the member (ConversationCoordinator runs it
+ * through AgentManager); this class only builds the prompt and checks the reply.
+ * Falls back to another summarizer (default: extractive) when the agent fails
+ * or returns nothing.
+ */
+
+import type { ISummarizer, SummarizerInput } from '../ISummarizer.js';
+import { ExtractiveSummarizer } from './ExtractiveSummarizer.js';
+
+/**
+ * Runs the summarizer agent with a prompt and returns its reply text
+ */
+export type SummarizerAgentRunner = (prompt: string) => Promise<string>;
+
+export class AgentSummarizer implements ISummarizer {
+  constructor(
+    private readonly runAgent: SummarizerAgentRunner,
+    private readonly fallback: ISummarizer = new ExtractiveSummarizer()
+  ) {}
+
+  async summarize(input: SummarizerInput): Promise<string> {
+    try {
+      const reply = (await this.runAgent(this.buildPrompt(input))).trim();
+      if (reply) {
+        return reply.length > input.maxLength ? reply.slice(0, input.maxLength) : reply;
+      }
+    } catch {
+      // Fall through to the fallback summarizer
+    }
+    return this.fallback.summarize(input);
+  }
+
+  /**
+   * Builds the summarization prompt
+   */
+  buildPrompt(input: SummarizerInput): string {
+    const sections: string[] = [
+      `You maintain the running summary of a multi-agent conversation. ` +
+      `Update the summary with the new messages below. Keep decisions, open questions, ` +
+      `assigned work and important facts; drop pleasantries. ` +
+      `Reply with the updated summary only, at most ${input.maxLength} characters.`,
+    ];
+
+    if (input.teamTask?.trim()) {
+      sections.push(`[TEAM_TASK]\n${input.teamTask.trim()}`);
+    }
+    if (input.previousSummary?.trim()) {
+      sections.push(`[SUMMARY]\n${input.previousSummary.trim()}`);
+    }
+
+    const messageLines = input.messages.map(msg => `- ${msg.from} -> ${msg.to ?? 'all'}: ${msg.content}`);
+    sections.push(`[NEW_MESSAGES]\n${messageLines.join('\n')}`);
+
+    return sections.join('\n\n');
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * ExtractiveSummarizer
+ *
+ * Default summarizer for context compaction.
+ * Keeps the first sentence of each message as "- speaker: sentence" lines;
+ * when the summary grows beyond maxLength, the oldest lines are dropped.
+ * Deterministic and free (no agent call).
+ */
+
+import type { ISummarizer, SummarizerInput } from '../ISummarizer.js';
+
+const DEFAULT_SENTENCE_MAX_LENGTH = 160;
+const OMITTED_MARKER = '- ...';
+
+export class ExtractiveSummarizer implements ISummarizer {
+  constructor(private readonly sentenceMaxLength: number = DEFAULT_SENTENCE_MAX_LENGTH) {}
+
+  async summarize(input: SummarizerInput): Promise<string> {
+    const lines = input.previousSummary ? input.previousSummary.split('\n') : [];
+
+    for (const msg of input.messages) {
+      const sentence = this.extractLeadSentence(msg.content);
+      if (sentence) {
+        lines.push(`- ${msg.from}: ${sentence}`);
+      }
+    }
+
+    return this.fitToLength(lines, input.maxLength);
+  }
+
+  /**
+   * First sentence of the message, code blocks and line breaks removed
+   */
+  private extractLeadSentence(content: string): string {
+    const text = content
+      .replace(/```[\s\S]*?```/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+    const match = text.match(/^.+?[.!?。！？](?=\s|$)/);
+    const sentence = match ? match[0] : text;
+
+    if (sentence.length > this.sentenceMaxLength) {
+      return sentence.slice(0, this.sentenceMaxLength) + '...';
+    }
+    return sentence;
+  }
+
+  /**
+   * Drop the oldest lines until the summary fits
+   */
+  private fitToLength(lines: string[], maxLength: number): string {
+    let kept = lines.filter(line => line !== OMITTED_MARKER);
+    let dropped = kept.length !== lines.length;
+
+    while (kept.length > 0 && this.join(kept, dropped).length > maxLength) {
+      kept = kept.slice(1);
+      dropped = true;
+    }
+
+    const summary = this.join(kept, dropped);
+    return summary.length > maxLength ? summary.slice(0, maxLength) : summary;
+  }
+
+  private join(lines: string[], dropped: boolean): string {
+    return (dropped ? [OMITTED_MARKER, ...lines] : lines).join('\n');
+  }
+}
@@ -0,0 +1,347 @@
+/**
+ * PromptTemplate - Prompt layout from a template file
+ *
+ * Lets a team/member replace the built-in section layout of the assemblers.
+ * Templates are validated when parsed (unknown slots, unbalanced blocks), so
+ * config errors surface at load time instead of on the first agent turn.
+ *
+ * Syntax:
+ * - {{slot}} / {{parent.content}}       insert a slot value
+ * - {{#if slot}}...{{else}}...{{/if}}   conditional (also {{#unless slot}})
+ * - {{#each context}}...{{/each}}       per-message formatting ({{from}}, {{to}}, {{content}}, {{index}})
+ * - {{handoff.payload}}                 handoff JSON (also handoff.from, handoff.errors)
+ * - {{! comment }}                      ignored
+ *
+ * Block tags and comments on a line of their own do not leave blank lines.
+ */
+
+import type { AssemblerInput, PromptContextMessage } from '../types.js';
+import { normalizeSystemInstruction } from '../../utils/normalizeSystemInstruction.js';
+import { formatTeamRoster } from '../formatTeamRoster.js';
+
+// ----------------------------------------------------------------------------
+// Slots
+// ----------------------------------------------------------------------------
+
+type SlotKind = 'text' | 'list' | 'message' | 'route' | 'handoff';
+
+/**
+ * Top-level slots available to templates
+ */
+export const PROMPT_TEMPLATE_SLOTS: Readonly<Record<string, SlotKind>> = {
+  system: 'text',         // systemInstruction (normalized)
+  instructions: 'text',   // instruction file content
+  teamInstructions: 'text', // team instruction file content
+  team: 'text',           // team roster and routing marker syntax
+  teamTask: 'text',
+  summary: 'text',        // rolling summary of compacted messages
+  context: 'list',        // context window messages
+  parent: 'message',      // parent message (route-based context)
+  siblings: 'list',       // sibling responses (route-based context)
+  route: 'route',         // routing metadata
+  message: 'text',        // current message
+  handoff: 'handoff',     // structured handoff for this agent
+};
+
+const MESSAGE_FIELDS = ['from', 'to', 'content'];
+const EACH_ITEM_FIELDS = [...MESSAGE_FIELDS, 'index'];
+const ROUTE_FIELDS = ['parentMessageId', 'intent'];
+const HANDOFF_FIELDS = ['from', 'payload', 'errors'];
+
+// ----------------------------------------------------------------------------
+// AST
+// ----------------------------------------------------------------------------
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'slot'; path: string[] }
+  | { type: 'if'; path: string[]; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: string[]; body: TemplateNode[] };
+
+type ScopeValue = string | number | PromptContextMessage | PromptContextMessage[] | Record<string, unknown> | undefined;
+type Scope = Record<string, ScopeValue>;
+
+/**
+ * Template syntax or slot error, with the 1-based line of the offending tag
+ */
+export class PromptTemplateError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+const TAG_PATTERN = /\{\{\s*([#/!]?)\s*([\s\S]*?)\s*\}\}/g;
+
+export class PromptTemplate {
+  private constructor(
+    private readonly nodes: TemplateNode[],
+    public readonly source: string
+  ) {}
+
+  /**
+   * Parses and validates a template
+   *
+   * @throws PromptTemplateError on unknown slots or malformed blocks
+   */
+  static parse(source: string): PromptTemplate {
+    return new PromptTemplate(new TemplateParser(source).parse(), source);
+  }
+
+  /**
+   * Renders the template for an assembler input (no budget applied)
+   */
+  render(input: AssemblerInput): string {
+    const scope: Scope = {
+      system: normalizeSystemInstruction(input.systemInstruction),
+      instructions: input.instructionFileText?.trim() || undefined,
+      teamInstructions: input.teamInstructionText?.trim() || undefined,
+      team: input.teamRoster && formatTeamRoster(input.teamRoster),
+      teamTask: input.teamTask?.trim() || undefined,
+      summary: input.summary?.trim() || undefined,
+      context: input.contextMessages,
+      parent: input.parentContext,
+      siblings: input.siblingContext ?? [],
+      route: input.routeMeta as Record<string, unknown> | undefined,
+      message: input.currentMessage?.trim() ?? '',
+      handoff: input.handoff && {
+        from: input.handoff.from,
+        payload: JSON.stringify(input.handoff.payload, null, 2),
+        errors: input.handoff.errors?.join('\n'),
+      },
+    };
+    return renderNodes(this.nodes, [scope]).trim();
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Parser
+// ----------------------------------------------------------------------------
+
+interface OpenBlock {
+  tag: 'if' | 'unless' | 'each';
+  line: number;
+  node: Extract<TemplateNode, { type: 'if' | 'each' }>;
+  hasElse: boolean;
+}
+
+class TemplateParser {
+  private readonly root: TemplateNode[] = [];
+  private readonly stack: OpenBlock[] = [];
+
+  constructor(private readonly source: string) {}
+
+  parse(): TemplateNode[] {
+    let cursor = 0;
+    TAG_PATTERN.lastIndex = 0;
+
+    for (let match = TAG_PATTERN.exec(this.source); match; match = TAG_PATTERN.exec(this.source)) {
+      const [raw, sigil, body] = match;
+      const line = this.lineAt(match.index);
+      const isBlockTag = sigil !== '' || body === 'else';
+
+      let textEnd = match.index;
+      let tagEnd = match.index + raw.length;
+      if (isBlockTag) {
+        // Standalone tag: drop its indentation and line break
+        const lineStart = this.source.lastIndexOf('\n', match.index - 1) + 1;
+        const newline = this.source.indexOf('\n', tagEnd);
+        const lineEnd = newline === -1 ? this.source.length : newline + 1;
+        if (lineStart >= cursor &&
+            /^[ \t]*$/.test(this.source.slice(lineStart, match.index)) &&
+            /^[ \t]*\r?\n?$/.test(this.source.slice(tagEnd, lineEnd))) {
+          textEnd = lineStart;
+          tagEnd = lineEnd;
+        }
+      }
+
+      this.pushText(this.source.slice(cursor, textEnd));
+      cursor = tagEnd;
+      TAG_PATTERN.lastIndex = Math.max(TAG_PATTERN.lastIndex, tagEnd);
+
+      if (sigil === '!') {
+        continue;
+      }
+      if (sigil === '#') {
+        this.openBlock(body, line);
+      } else if (sigil === '/') {
+        this.closeBlock(body, line);
+      } else if (body === 'else') {
+        this.elseBranch(line);
+      } else {
+        this.current().push({ type: 'slot', path: this.resolvePath(body, line, 'slot') });
+      }
+    }
+
+    this.pushText(this.source.slice(cursor));
+
+    const unclosed = this.stack[this.stack.length - 1];
+    if (unclosed) {
+      throw new PromptTemplateError(`Unclosed {{#${unclosed.tag}}} block`, unclosed.line);
+    }
+    return this.root;
+  }
+
+  private openBlock(body: string, line: number): void {
+    const [tag, operand, ...rest] = body.split(/\s+/);
+    if (tag !== 'if' && tag !== 'unless' && tag !== 'each') {
+      throw new PromptTemplateError(`Unknown block "#${tag}"`, line);
+    }
+    if (!operand || rest.length > 0) {
+      throw new PromptTemplateError(`{{#${tag}}} takes exactly one slot`, line);
+    }
+
+    let node: OpenBlock['node'];
+    if (tag === 'each') {
+      const path = this.resolvePath(operand, line, 'list');
+      node = { type: 'each', path, body: [] };
+    } else {
+      const path = this.resolvePath(operand, line, 'condition');
+      node = { type: 'if', path, negate: tag === 'unless', then: [], otherwise: [] };
+    }
+
+    this.current().push(node);
+    this.stack.push({ tag, line, node, hasElse: false });
+  }
+
+  private closeBlock(body: string, line: number): void {
+    const open = this.stack.pop();
+    if (!open) {
+      throw new PromptTemplateError(`Unexpected {{/${body}}}`, line);
+    }
+    if (open.tag !== body) {
+      throw new PromptTemplateError(`{{/${body}}} does not match {{#${open.tag}}} (line ${open.line})`, line);
+    }
+  }
+
+  private elseBranch(line: number): void {
+    const open = this.stack[this.stack.length - 1];
+    if (!open || open.tag === 'each' || open.hasElse) {
+      throw new PromptTemplateError('Unexpected {{else}}', line);
+    }
+    open.hasElse = true;
+  }
+
+  /**
+   * Validates a dotted slot path against the slots in scope
+   */
+  private resolvePath(expression: string, line: number, usage: 'slot' | 'list' | 'condition'): string[] {
+    const path = expression.split('.');
+    const [head, field, ...rest] = path;
+    const inEach = this.stack.some(block => block.tag === 'each');
+
+    if (inEach && EACH_ITEM_FIELDS.includes(head) && path.length === 1) {
+      if (usage === 'list') {
+        throw new PromptTemplateError(`"${head}" is not a list`, line);
+      }
+      return path;
+    }
+
+    const kind = PROMPT_TEMPLATE_SLOTS[head];
+    if (!kind || rest.length > 0) {
+      throw new PromptTemplateError(`Unknown template slot "${expression}"`, line);
+    }
+
+    if (field !== undefined) {
+      const fields = kind === 'message' ? MESSAGE_FIELDS
+        : kind === 'route' ? ROUTE_FIELDS
+        : kind === 'handoff' ? HANDOFF_FIELDS
+        : [];
+      if (!fields.includes(field)) {
+        throw new PromptTemplateError(`Unknown template slot "${expression}"`, line);
+      }
+      if (usage === 'list') {
+        throw new PromptTemplateError(`"${expression}" is not a list`, line);
+      }
+      return path;
+    }
+
+    if (usage === 'list' && kind !== 'list') {
+      throw new PromptTemplateError(`"${expression}" is not a list`, line);
+    }
+    if (usage === 'slot' && kind !== 'text') {
+      throw new PromptTemplateError(`"${expression}" must be rendered with {{#each}} or a field (e.g. ${expression}.content)`, line);
+    }
+    return path;
+  }
+
+  private current(): TemplateNode[] {
+    const open = this.stack[this.stack.length - 1];
+    if (!open) {
+      return this.root;
+    }
+    if (open.node.type === 'each') {
+      return open.node.body;
+    }
+    return open.hasElse ? open.node.otherwise : open.node.then;
+  }
+
+  private pushText(value: string): void {
+    if (value) {
+      this.current().push({ type: 'text', value });
+    }
+  }
+
+  private lineAt(index: number): number {
+    return this.source.slice(0, index).split('\n').length;
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Rendering
+// ----------------------------------------------------------------------------
+
+function renderNodes(nodes: TemplateNode[], scopes: Scope[]): string {
+  let output = '';
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'slot': {
+        const value = lookup(node.path, scopes);
+        output += typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+        break;
+      }
+      case 'if': {
+        const truthy = isTruthy(lookup(node.path, scopes));
+        output += renderNodes(truthy !== node.negate ? node.then : node.otherwise, scopes);
+        break;
+      }
+      case 'each': {
+        const items = lookup(node.path, scopes);
+        if (Array.isArray(items)) {
+          items.forEach((item, i) => {
+            const itemScope: Scope = { from: item.from, to: item.to, content: item.content, index: i + 1 };
+            output += renderNodes(node.body, [itemScope, ...scopes]);
+          });
+        }
+        break;
+      }
+    }
+  }
+  return output;
+}
+
+function lookup(path: string[], scopes: Scope[]): unknown {
+  const [head, field] = path;
+  const scope = scopes.find(candidate => head in candidate);
+  const value = scope?.[head];
+  if (field === undefined) {
+    return value;
+  }
+  return value && typeof value === 'object' ? (value as Record<string, unknown>)[field] : undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  if (typeof value === 'string') {
+    return value.trim().length > 0;
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).some(entry => entry !== undefined);
+  }
+  return value !== undefined && value !== null;
+}
@@ -0,0 +1,103 @@
+/**
+ * Token budget for assembled prompts
+ *
+ * Trims the optional sections of an AssemblerInput until the rendered prompt
+ * fits AssemblerInput.maxTokens. Assemblers apply it before their byte budget,
+ * which remains the hard limit.
+ *
+ * Trim order (lowest priority first):
+ * 1. [RELATED_CONTEXT] - sibling responses, oldest first
+ * 2. [SUMMARY] - removed
+ * 3. [CONTEXT] - oldest messages first
+ * 4. [PARENT_CONTEXT] - content truncated to what still fits, then removed
+ * 5. [TEAM] - removed
+ *
+ * [TEAM_INSTRUCTIONS], [SYSTEM], [TEAM_TASK] and [MESSAGE] are never trimmed here.
+ */
+
+import type { AssemblerInput } from './types.js';
+import type { ITokenEstimator } from './ITokenEstimator.js';
+import { HeuristicTokenEstimator } from './tokenizers/HeuristicTokenEstimator.js';
+
+const TRUNCATION_SUFFIX = '...';
+
+/**
+ * Fits an assembler input to its token budget
+ *
+ * @param input - Assembler input (returned unchanged without maxTokens)
+ * @param render - Renders the prompt for an input (no byte budget applied)
+ * @param reservedText - Text sent alongside the prompt that counts against the budget (e.g. a system flag)
+ * @returns Input with trimmed sections
+ */
+export function fitToTokenBudget(
+  input: AssemblerInput,
+  render: (input: AssemblerInput) => string,
+  reservedText?: string
+): AssemblerInput {
+  if (input.maxTokens === undefined) {
+    return input;
+  }
+
+  const estimator: ITokenEstimator = input.tokenEstimator ?? new HeuristicTokenEstimator();
+  const budget = input.maxTokens - (reservedText ? estimator.estimate(reservedText) : 0);
+  const fits = (candidate: AssemblerInput) => estimator.estimate(render(candidate)) <= budget;
+
+  let fitted: AssemblerInput = { ...input };
+  if (fits(fitted)) {
+    return input;
+  }
+
+  // Step 1: Siblings (newest first), drop from the end
+  const siblings = [...(fitted.siblingContext ?? [])];
+  while (siblings.length > 0) {
+    siblings.pop();
+    fitted = { ...fitted, siblingContext: [...siblings] };
+    if (fits(fitted)) return fitted;
+  }
+
+  // Step 2: Rolling summary
+  if (fitted.summary) {
+    fitted = { ...fitted, summary: undefined };
+    if (fits(fitted)) return fitted;
+  }
+
+  // Step 3: Context messages, oldest first
+  const context = [...fitted.contextMessages];
+  while (context.length > 0) {
+    context.shift();
+    fitted = { ...fitted, contextMessages: [...context] };
+    if (fits(fitted)) return fitted;
+  }
+
+  // Step 4: Parent context - keep the longest prefix that fits
+  const parent = fitted.parentContext;
+  if (parent) {
+    let low = 0;
+    let high = parent.content.length;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      const candidate = { ...fitted, parentContext: truncateContent(parent, mid) };
+      if (fits(candidate)) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    fitted = { ...fitted, parentContext: low > 0 ? truncateContent(parent, low) : undefined };
+    if (fits(fitted)) return fitted;
+  }
+
+  // Step 5: Team roster
+  if (fitted.teamRoster) {
+    fitted = { ...fitted, teamRoster: undefined };
+  }
+
+  return fitted;
+}
+
+function truncateContent<T extends { content: string }>(entry: T, length: number): T {
+  if (length >= entry.content.length) {
+    return entry;
+  }
+  return { ...entry, content: entry.content.slice(0, length) + TRUNCATION_SUFFIX };
+}
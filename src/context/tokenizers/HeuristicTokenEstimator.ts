@@ -0,0 +1,65 @@
+/**
+ * HeuristicTokenEstimator
+ *
+ * Local token estimate without a tokenizer: Latin text is counted by characters
+ * per token, CJK text by tokens per character (a byte budget undercounts
+ * CJK-heavy prompts by roughly 3x). Profiles are tuned per agent type and
+ * deliberately err on the high side.
+ */
+
+import type { ITokenEstimator } from '../ITokenEstimator.js';
+import type { AgentType } from '../types.js';
+
+/**
+ * Estimation ratios for one model family
+ */
+export interface TokenEstimatorProfile {
+  /** Average characters per token for non-CJK text */
+  charsPerToken: number;
+  /** Average tokens per CJK character (Han, Kana, Hangul, full-width forms) */
+  cjkTokensPerChar: number;
+}
+
+// Han (incl. extensions), CJK punctuation, Hiragana/Katakana, Hangul, compatibility ideographs, full-width forms
+const CJK_PATTERN = /[\u3000-\u303f\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef\u{20000}-\u{2fa1f}]/gu;
+
+/**
+ * Profiles by normalized agent type
+ */
+export const TOKEN_ESTIMATOR_PROFILES: Record<string, TokenEstimatorProfile> = {
+  'claude-code': { charsPerToken: 3.5, cjkTokensPerChar: 1.2 },
+  'openai-codex': { charsPerToken: 4, cjkTokensPerChar: 1 },
+  'google-gemini': { charsPerToken: 4, cjkTokensPerChar: 1 },
+};
+
+/**
+ * Profile for unknown agent types (the most conservative one)
+ */
+export const DEFAULT_TOKEN_ESTIMATOR_PROFILE: TokenEstimatorProfile = { charsPerToken: 3.5, cjkTokensPerChar: 1.2 };
+
+export class HeuristicTokenEstimator implements ITokenEstimator {
+  constructor(private readonly profile: TokenEstimatorProfile = DEFAULT_TOKEN_ESTIMATOR_PROFILE) {}
+
+  estimate(text: string): number {
+    if (!text) {
+      return 0;
+    }
+
+    let cjkChars = 0;
+    let cjkCodeUnits = 0;
+    for (const match of text.matchAll(CJK_PATTERN)) {
+      cjkChars++;
+      cjkCodeUnits += match[0].length;
+    }
+    const otherChars = text.length - cjkCodeUnits;
+
+    return Math.ceil(cjkChars * this.profile.cjkTokensPerChar + otherChars / this.profile.charsPerToken);
+  }
+}
+
+/**
+ * Creates the heuristic estimator for a normalized agent type
+ */
+export function createTokenEstimator(agentType: AgentType): ITokenEstimator {
+  return new HeuristicTokenEstimator(TOKEN_ESTIMATOR_PROFILES[agentType] ?? DEFAULT_TOKEN_ESTIMATOR_PROFILE);
+}
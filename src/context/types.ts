@@ -10,6 +10,9 @@
 import type { ConversationMessage } from '../models/ConversationMessage.js';
 import type { ILogger } from '../interfaces/ILogger.js';
 import type { RoutingIntent } from '../models/RoutingItem.js';
+import type { ISummarizer } from './ISummarizer.js';
+import type { ITokenEstimator } from './ITokenEstimator.js';
+import type { IContextAssembler } from './IContextAssembler.js';
 
 /**
  * Supported agent types for context assembly
@@ -49,6 +52,13 @@ export interface AssemblerInput {
   instructionFileText?: string;
   maxBytes: number;
 
+  /**
+   * Team instruction file content (team.instructionFile)
+   * Rendered as the [TEAM_INSTRUCTIONS] section ahead of the member's own
+   * instructions, which take precedence; never trimmed by budgets
+   */
+  teamInstructionText?: string;
+
   // === v3 New Fields (optional for backward compatibility) ===
 
   /**
@@ -70,6 +80,84 @@ export interface AssemblerInput {
     parentMessageId?: string;
     intent?: RoutingIntent;
   };
+
+  /**
+   * Rolling summary of messages that fell out of the context window
+   * Rendered as the [SUMMARY] section
+   */
+  summary?: string;
+
+  /**
+   * Token budget for the prompt (member/agent contextTokenBudget)
+   * Applied before maxBytes, trimming [RELATED_CONTEXT], [SUMMARY], [CONTEXT]
+   * and [PARENT_CONTEXT] in that order (see fitToTokenBudget)
+   */
+  maxTokens?: number;
+
+  /** Estimator for maxTokens (set by ContextManager.assemblePrompt per agent type) */
+  tokenEstimator?: ITokenEstimator;
+
+  /**
+   * Structured handoff addressed to this agent by the current message
+   * Rendered as the [HANDOFF] section; never trimmed by budgets
+   */
+  handoff?: PromptHandoff;
+
+  /**
+   * Team roster and routing marker syntax
+   * Rendered as the [TEAM] section; dropped only when nothing else can be trimmed
+   */
+  teamRoster?: PromptTeamRoster;
+}
+
+/**
+ * Team roster for the [TEAM] section
+ */
+export interface PromptTeamRoster {
+  /** Team display name */
+  teamName: string;
+
+  /** Members in team order */
+  members: PromptRosterMember[];
+
+  /** Explain the NEXT/DROP marker syntax (default true) */
+  markerSyntax?: boolean;
+
+  /** Also explain the INVITE/DISMISS markers (the recipient may change the membership) */
+  membershipMarkers?: boolean;
+}
+
+/**
+ * Addressable team member
+ */
+export interface PromptRosterMember {
+  /** Name used in routing markers */
+  name: string;
+  displayName: string;
+  type: 'ai' | 'human';
+
+  /** Role display name */
+  role: string;
+
+  /** Role description from the team's roleDefinitions */
+  roleDescription?: string;
+
+  /** The agent receiving the prompt */
+  self?: boolean;
+}
+
+/**
+ * Handoff payload for the [HANDOFF] section
+ */
+export interface PromptHandoff {
+  /** Sender name */
+  from: string;
+
+  /** JSON payload */
+  payload: Record<string, unknown>;
+
+  /** Malformed JSON or handoffSchema violations (shown so the receiver can follow up) */
+  errors?: string[];
 }
 
 /**
@@ -116,6 +204,85 @@ export interface ContextManagerOptions {
 
   /** Max bytes for parent reinsertion (default 1024) */
   parentReinsertionMaxBytes?: number;
+
+  // === Compaction ===
+
+  /**
+   * Fold messages that fall out of the window into a rolling summary (default true)
+   * Compaction runs in compact(); the summary is rendered as [SUMMARY]
+   */
+  compactionEnabled?: boolean;
+
+  /** Summarizer used by compact() (default ExtractiveSummarizer) */
+  summarizer?: ISummarizer;
+
+  /** Max rolling summary length in chars (default 2000) */
+  summaryMaxLength?: number;
+
+  /**
+   * Minimum number of evicted messages folded per compaction (default: half the
+   * context window). Until then they stay in the context, so the summarizer
+   * (possibly an agent) does not run on every turn.
+   */
+  compactionBatchSize?: number;
+
+  // === Visibility ===
+
+  /**
+   * Per-recipient visibility check (team visibility rules)
+   * Whispered messages (routing.visibleTo) are filtered regardless
+   */
+  visibilityFilter?: ContextVisibilityFilter;
+
+  /**
+   * Member IDs the visibility filter is checked against when compacting: messages
+   * some of them cannot see are kept out of the shared summary
+   */
+  visibilityRecipients?: string[];
+
+  // === Token budgets ===
+
+  /** Token estimators by agent type, replacing the heuristic defaults */
+  tokenEstimators?: Partial<Record<AgentType, ITokenEstimator>>;
+
+  // === Assemblers ===
+
+  /**
+   * Assemblers by agent type, added to the built-ins (claude-code, openai-codex, google-gemini)
+   * An entry for a built-in type (or its alias, e.g. "claude") replaces it.
+   * Agent types without an assembler fall back to PlainTextAssembler.
+   */
+  assemblers?: Partial<Record<AgentType, IContextAssembler>>;
+}
+
+/**
+ * Decides whether a message may appear in the context built for a recipient
+ *
+ * @param recipientId - Member ID of the agent receiving the context
+ */
+export type ContextVisibilityFilter = (message: ConversationMessage, recipientId: string) => boolean;
+
+/**
+ * Rolling summary of compacted messages
+ */
+export interface ConversationSummary {
+  /** Summary text */
+  text: string;
+
+  /** Last message folded into the summary (inclusive) */
+  throughMessageId: string;
+
+  /** Number of messages folded into the summary */
+  messageCount: number;
+
+  /** Last update timestamp (Unix milliseconds) */
+  updatedAt: number;
+
+  /**
+   * Extractive summaries of whispered or rule-hidden messages, by ID of the
+   * member allowed to see them (appended to that member's [SUMMARY])
+   */
+  restrictedByMember?: Record<string, string>;
 }
 
 /**
@@ -126,6 +293,8 @@ export interface ContextSnapshot {
   teamTask: string | null;
   timestamp: number;
   version: 1;
+  /** Rolling summary of compacted messages (absent until the first compaction) */
+  summary?: ConversationSummary;
 }
 
 /**
@@ -134,6 +303,7 @@ export interface ContextSnapshot {
 export const DEFAULT_CONTEXT_WINDOW_SIZE = 10;
 export const DEFAULT_MAX_BYTES = 768 * 1024; // 768KB
 export const MAX_TEAM_TASK_BYTES = 5 * 1024; // 5KB
+export const DEFAULT_SUMMARY_MAX_LENGTH = 2000;
 
 // v3 constants
 export const DEFAULT_MAX_SIBLINGS = 5;
@@ -154,11 +324,28 @@ export interface RouteContextOptions {
   /** Instruction file content */
   instructionFileText?: string;
 
+  /** Team instruction file content */
+  teamInstructionText?: string;
+
   /** Max sibling context count (default 5) */
   maxSiblings?: number;
 
   /** Force parent message reinsertion (default true) */
   forceParentReinsertion?: boolean;
+
+  /**
+   * Delta mode for agents with a live session (stateful execution):
+   * only messages after this ID are included, excluding the target agent's own
+   * messages (the session already holds them). The window size does not apply.
+   * Falls back to the regular window when the message is not found.
+   */
+  sinceMessageId?: string;
+
+  /** Token budget for the assembled prompt (see AssemblerInput.maxTokens) */
+  maxTokens?: number;
+
+  /** Team roster for the [TEAM] section */
+  teamRoster?: PromptTeamRoster;
 }
 
 /**
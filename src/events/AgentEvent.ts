@@ -12,6 +12,8 @@ export interface AgentEventBase {
 
 export interface SessionStartedEvent extends AgentEventBase {
   type: 'session.started';
+  /** Native CLI session identifier (Claude session_id, Codex thread_id, Gemini session_id) */
+  sessionId?: string;
 }
 
 export interface TextEvent extends AgentEventBase {
@@ -41,6 +43,23 @@ export interface TurnCompletedEvent extends AgentEventBase {
   finishReason: 'done' | 'error' | 'cancelled' | 'timeout';
 }
 
+/**
+ * Token usage (and cost, when reported) for one agent turn.
+ * Parsers emit it right before turn.completed.
+ */
+export interface UsageEvent extends AgentEventBase {
+  type: 'usage';
+  /** Prompt tokens, including cached tokens */
+  inputTokens: number;
+  /** Completion tokens */
+  outputTokens: number;
+  /** Prompt tokens served from cache */
+  cachedInputTokens?: number;
+  totalTokens?: number;
+  /** Cost in USD (Claude Code only) */
+  costUsd?: number;
+}
+
 export interface ErrorEvent extends AgentEventBase {
   type: 'error';
   error: string;
@@ -103,4 +122,5 @@ export type AgentEvent =
   | ToolCompletedEvent
   | TurnCompletedEvent
   | ErrorEvent
-  | TodoListEvent;
+  | TodoListEvent
+  | UsageEvent;
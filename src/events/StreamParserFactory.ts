@@ -7,10 +7,62 @@ import type { AgentType } from './AgentEvent.js';
 import type { AgentEvent } from './AgentEvent.js';
 import { randomUUID } from 'crypto';
 
+// ===== Parser Registry =====
+
+/**
+ * Constructor signature shared by all stream parsers
+ */
+export type StreamParserClass = new (agentId: string, teamContext: TeamContext) => StreamParser;
+
+const parserRegistry: Map<string, StreamParserClass> = new Map();
+
+/**
+ * Register a stream parser for an agent type
+ * Used by host applications to add structured event parsing for new CLI agents.
+ * A registered parser takes precedence over the built-in parser for the same type.
+ *
+ * @param agentType - Agent type (must match IAgentAdapter.agentType)
+ * @param parserClass - Parser class
+ */
+export function registerStreamParser(
+  agentType: string,
+  parserClass: StreamParserClass
+): void {
+  parserRegistry.set(agentType, parserClass);
+}
+
+/**
+ * Remove a registered stream parser
+ *
+ * @returns true if a parser was registered for the agent type
+ */
+export function unregisterStreamParser(agentType: string): boolean {
+  return parserRegistry.delete(agentType);
+}
+
+/**
+ * Get all agent types with a registered stream parser
+ */
+export function getRegisteredStreamParserTypes(): string[] {
+  return Array.from(parserRegistry.keys());
+}
+
+/**
+ * Check if a stream parser is registered for an agent type
+ */
+export function isStreamParserRegistered(agentType: string): boolean {
+  return parserRegistry.has(agentType);
+}
+
 export class StreamParserFactory {
   static create(agentType: string, agentId: string, teamContext: TeamContext): StreamParser {
     const normalized = agentType === 'codex' ? 'openai-codex' : (agentType as AgentType);
 
+    const RegisteredParser = parserRegistry.get(agentType) ?? parserRegistry.get(normalized);
+    if (RegisteredParser) {
+      return new RegisteredParser(agentId, teamContext);
+    }
+
     switch (normalized) {
       case 'claude-code':
         return new ClaudeCodeParser(agentId, teamContext);
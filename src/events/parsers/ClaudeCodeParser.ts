@@ -64,7 +64,11 @@ export class ClaudeCodeParser implements StreamParser {
     switch (json.type) {
       case 'system':
         if (json.subtype === 'init') {
-          return [{ ...base, type: 'session.started' }];
+          return [{
+            ...base,
+            type: 'session.started',
+            sessionId: typeof json.session_id === 'string' ? json.session_id : undefined
+          }];
         }
         return [];
       case 'content_block_delta':
@@ -160,6 +164,10 @@ export class ClaudeCodeParser implements StreamParser {
             category: 'result'
           });
         }
+        const usage = this.parseUsageEvent(json, base);
+        if (usage) {
+          evs.push(usage);
+        }
         evs.push({
           ...base,
           eventId: randomUUID(),
@@ -175,6 +183,34 @@ export class ClaudeCodeParser implements StreamParser {
     }
   }
 
+  /**
+   * Parse usage/cost from a Claude `result` line.
+   * Claude reports cache tokens separately from input_tokens, so they are added back in.
+   */
+  private parseUsageEvent(json: any, base: any): AgentEvent | null {
+    const usage = json.usage;
+    const cost = json.total_cost_usd ?? json.cost_usd;
+    if (!usage && typeof cost !== 'number') {
+      return null;
+    }
+
+    const cacheRead = Number(usage?.cache_read_input_tokens) || 0;
+    const cacheCreation = Number(usage?.cache_creation_input_tokens) || 0;
+    const inputTokens = (Number(usage?.input_tokens) || 0) + cacheRead + cacheCreation;
+    const outputTokens = Number(usage?.output_tokens) || 0;
+
+    return {
+      ...base,
+      eventId: randomUUID(),
+      type: 'usage',
+      inputTokens,
+      outputTokens,
+      cachedInputTokens: cacheRead,
+      totalTokens: inputTokens + outputTokens,
+      costUsd: typeof cost === 'number' ? cost : undefined
+    };
+  }
+
   /**
    * Parse Claude TodoWrite tool call into unified TodoListEvent.
    */
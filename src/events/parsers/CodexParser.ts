@@ -8,11 +8,11 @@ import type { TeamContext } from '../../models/Team.js';
  * Parse Codex --json (JSONL) streaming output into unified AgentEvent objects.
  *
  * Key event mappings (see design/streaming-event-display.md):
- * - thread.started -> session.started
+ * - thread.started -> session.started (thread_id as sessionId)
  * - item.started (command_execution/file_change) -> tool.started
  * - item.completed (reasoning/agent_message) -> text
  * - item.completed (command_execution/file_change) -> tool.completed
- * - turn.completed -> turn.completed
+ * - turn.completed -> usage + turn.completed
  */
 export class CodexParser implements StreamParser {
   private buffer = '';
@@ -32,8 +32,7 @@ export class CodexParser implements StreamParser {
 
       try {
         const json = JSON.parse(line);
-        const ev = this.jsonToEvent(json);
-        if (ev) events.push(ev);
+        events.push(...this.jsonToEvents(json));
       } catch (err: any) {
         events.push(this.parseErrorEvent(err));
         events.push(this.fallbackTextEvent(line));
@@ -48,8 +47,8 @@ export class CodexParser implements StreamParser {
       this.buffer = '';
       try {
         const json = JSON.parse(text);
-        const ev = this.jsonToEvent(json);
-        if (ev) return [ev];
+        const evs = this.jsonToEvents(json);
+        if (evs.length) return evs;
       } catch {
         // fall through to text
       }
@@ -63,6 +62,42 @@ export class CodexParser implements StreamParser {
     this.toolIdToName.clear();
   }
 
+  private jsonToEvents(json: any): AgentEvent[] {
+    const ev = this.jsonToEvent(json);
+    const events = ev ? [ev] : [];
+    if (json.type === 'turn.completed') {
+      // usage must precede turn.completed (AgentManager resolves on turn.completed)
+      const usage = this.parseUsageEvent(json);
+      if (usage) events.unshift(usage);
+    }
+    return events;
+  }
+
+  /**
+   * Parse turn.completed usage: { input_tokens, cached_input_tokens, output_tokens }
+   */
+  private parseUsageEvent(json: any): AgentEvent | null {
+    const usage = json.usage;
+    if (!usage) {
+      return null;
+    }
+
+    const inputTokens = Number(usage.input_tokens) || 0;
+    const outputTokens = Number(usage.output_tokens) || 0;
+    return {
+      eventId: randomUUID(),
+      agentId: this.agentId,
+      agentType: this.agentType,
+      teamMetadata: this.teamContext,
+      timestamp: Date.now(),
+      type: 'usage',
+      inputTokens,
+      outputTokens,
+      cachedInputTokens: Number(usage.cached_input_tokens) || 0,
+      totalTokens: inputTokens + outputTokens
+    };
+  }
+
   private jsonToEvent(json: any): AgentEvent | null {
     const base = {
       eventId: randomUUID(),
@@ -74,7 +109,11 @@ export class CodexParser implements StreamParser {
 
     switch (json.type) {
       case 'thread.started':
-        return { ...base, type: 'session.started' };
+        return {
+          ...base,
+          type: 'session.started',
+          sessionId: typeof json.thread_id === 'string' ? json.thread_id : undefined
+        };
 
       case 'item.started':
       case 'item.updated': {
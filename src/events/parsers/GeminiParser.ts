@@ -22,8 +22,7 @@ export class GeminiParser implements StreamParser {
       if (!line.trim()) continue;
       try {
         const json = JSON.parse(line);
-        const ev = this.jsonToEvent(json);
-        if (ev) events.push(ev);
+        events.push(...this.jsonToEvents(json));
       } catch (err: any) {
         events.push({
           type: 'error',
@@ -46,8 +45,8 @@ export class GeminiParser implements StreamParser {
       this.buffer = '';
       try {
         const json = JSON.parse(text);
-        const ev = this.jsonToEvent(json);
-        if (ev) return [ev];
+        const evs = this.jsonToEvents(json);
+        if (evs.length) return evs;
       } catch {
         // fall through
       }
@@ -69,6 +68,42 @@ export class GeminiParser implements StreamParser {
     this.toolIdToName.clear();
   }
 
+  private jsonToEvents(json: any): AgentEvent[] {
+    const ev = this.jsonToEvent(json);
+    const events = ev ? [ev] : [];
+    if (json.type === 'result') {
+      // usage must precede turn.completed (AgentManager resolves on turn.completed)
+      const usage = this.parseUsageEvent(json);
+      if (usage) events.unshift(usage);
+    }
+    return events;
+  }
+
+  /**
+   * Parse result stats: { total_tokens, input_tokens, output_tokens, cached? }
+   */
+  private parseUsageEvent(json: any): AgentEvent | null {
+    const stats = json.stats;
+    if (!stats) {
+      return null;
+    }
+
+    const inputTokens = Number(stats.input_tokens) || 0;
+    const outputTokens = Number(stats.output_tokens) || 0;
+    return {
+      eventId: randomUUID(),
+      agentId: this.agentId,
+      agentType: this.agentType,
+      teamMetadata: this.teamContext,
+      timestamp: Date.now(),
+      type: 'usage',
+      inputTokens,
+      outputTokens,
+      cachedInputTokens: stats.cached !== undefined ? Number(stats.cached) || 0 : undefined,
+      totalTokens: Number(stats.total_tokens) || inputTokens + outputTokens
+    };
+  }
+
   private jsonToEvent(json: any): AgentEvent | null {
     const base = {
       eventId: randomUUID(),
@@ -80,7 +115,11 @@ export class GeminiParser implements StreamParser {
 
     switch (json.type) {
       case 'init':
-        return { ...base, type: 'session.started' };
+        return {
+          ...base,
+          type: 'session.started',
+          sessionId: typeof json.session_id === 'string' ? json.session_id : undefined
+        };
       case 'message':
         // Skip user messages (echo of prompt) - only process assistant/system messages
         if (json.role === 'user') {
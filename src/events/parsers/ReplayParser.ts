@@ -0,0 +1,65 @@
+import { randomUUID } from 'crypto';
+import type { AgentEvent, AgentType } from '../AgentEvent.js';
+import type { StreamParser } from '../StreamParser.js';
+import type { TeamContext } from '../../models/Team.js';
+
+/**
+ * Parse recorded AgentEvent JSONL (as written by ContextEventCollector) back into events.
+ *
+ * Used with ReplayExecutionEnvironment: each stdout line already is a serialized
+ * AgentEvent, so events pass through unchanged (eventId/timestamp included) to keep
+ * a replayed event log byte-comparable with the original recording.
+ */
+export class ReplayParser implements StreamParser {
+  private buffer = '';
+
+  constructor(private agentId: string, private teamContext: TeamContext) {}
+
+  parseChunk(chunk: Buffer): AgentEvent[] {
+    this.buffer += chunk.toString('utf-8');
+    const events: AgentEvent[] = [];
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      events.push(this.lineToEvent(line));
+    }
+    return events;
+  }
+
+  flush(): AgentEvent[] {
+    if (this.buffer.trim()) {
+      const line = this.buffer;
+      this.buffer = '';
+      return [this.lineToEvent(line)];
+    }
+    return [];
+  }
+
+  reset(): void {
+    this.buffer = '';
+  }
+
+  private lineToEvent(line: string): AgentEvent {
+    try {
+      const json = JSON.parse(line);
+      if (!json || typeof json.type !== 'string') {
+        throw new Error('missing event type');
+      }
+      return json as AgentEvent;
+    } catch (err: any) {
+      return {
+        type: 'error',
+        eventId: randomUUID(),
+        agentId: this.agentId,
+        // Replay has no native agent type; keep the field for consumers that display it
+        agentType: 'replay' as AgentType,
+        teamMetadata: this.teamContext,
+        timestamp: Date.now(),
+        error: `Failed to parse recorded event: ${err?.message ?? String(err)}`,
+        code: 'JSONL_PARSE_ERROR'
+      };
+    }
+  }
+}
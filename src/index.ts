@@ -42,14 +42,28 @@ export type {
 // Services
 // ═══════════════════════════════════════════════════════════════
 export { ConversationCoordinator } from './services/ConversationCoordinator.js';
-export type { ConversationStatus } from './services/ConversationCoordinator.js';
+export type {
+  ConversationStatus,
+  MaxRoundsReachedEvent,
+  SessionBudgetExceededEvent,
+  TeamReloadOptions,
+  TeamReloadResult
+} from './services/ConversationCoordinator.js';
+export { SessionBudget } from './services/SessionBudget.js';
+export type {
+  SessionBudgetLimits,
+  SessionBudgetReason,
+  SessionBudgetBreach,
+  SessionBudgetUsage
+} from './services/SessionBudget.js';
 
 export { AgentManager } from './services/AgentManager.js';
+export type { SendOptions, SendResult } from './services/AgentManager.js';
 export { MessageRouter } from './services/MessageRouter.js';
-export type { ParsedAddressee, ParseResult } from './services/MessageRouter.js';
+export type { ParsedAddressee, ParsedHandoff, ParsedInvite, ParseResult } from './services/MessageRouter.js';
 export { TeamManager } from './services/TeamManager.js';
 export { AgentConfigManager } from './services/AgentConfigManager.js';
-export { ContextEventCollector } from './services/ContextEventCollector.js';
+export { ContextEventCollector, type ContextSummary } from './services/ContextEventCollector.js';
 
 // v3: RoutingQueue
 export { RoutingQueue } from './services/RoutingQueue.js';
@@ -60,12 +74,30 @@ export type {
   EnqueueResult,
 } from './services/RoutingQueue.js';
 
+export {
+  RoutingRuleEngine,
+  HUMAN_ROUTE_TARGET,
+  ROLE_ROUTE_PREFIX,
+  type RoutingRuleMatch
+} from './services/RoutingRuleEngine.js';
+
+export {
+  VisibilityRuleEngine,
+  ALL_AGENTS_VISIBILITY_TARGET
+} from './services/VisibilityRuleEngine.js';
+
+export { WorkspaceManager, type WorkspaceManagerOptions } from './services/WorkspaceManager.js';
+
 export {
   initializeServices,
   type InitializeServicesOptions,
   type InitializeServicesResult,
   hasFlag,
-  withBypassArgs
+  withBypassArgs,
+  loadPromptTemplate,
+  type LoadedPromptTemplate,
+  diffTeamConfig,
+  type TeamConfigDiff
 } from './services/ServiceInitializer.js';
 
 // ═══════════════════════════════════════════════════════════════
@@ -85,15 +117,36 @@ export type {
   RoleDefinitionConfig
 } from './models/CLIConfig.js';
 
-export type { Team, Member, RoleDefinition, TeamContext } from './models/Team.js';
+export type { Team, Member, RoleDefinition, TeamContext, TeamMembershipConfig, TeamRosterConfig } from './models/Team.js';
+export type { RoutingRule, RoutingRuleCondition, RoutingRuleMode } from './models/RoutingRule.js';
+export type { VisibilityRule, VisibilityCondition } from './models/VisibilityRule.js';
+export type {
+  WorkspaceConfig,
+  WorkspaceMode,
+  MemberWorkspace,
+  WorkspaceDiff,
+  WorkspaceMergeResult
+} from './models/Workspace.js';
 export { TeamUtils } from './models/Team.js';
 
-export type { ConversationMessage } from './models/ConversationMessage.js';
+export type { ConversationMessage, MessageHandoff } from './models/ConversationMessage.js';
 export type { SpeakerInfo } from './models/SpeakerInfo.js';
 export type { ConversationSession } from './models/ConversationSession.js';
 export type { AgentConfig, TestResult } from './models/AgentConfig.js';
 export { AgentConfigUtils } from './models/AgentConfig.js';
-export type { SessionSnapshot, SessionSummary } from './models/SessionSnapshot.js';
+export type {
+  SessionSnapshot,
+  SessionSummary,
+  SessionLineage,
+  NativeSessionRef,
+  MembershipChange,
+  SessionSnapshotSchemaVersion,
+} from './models/SessionSnapshot.js';
+export {
+  forkSessionSnapshot,
+  SESSION_SNAPSHOT_SCHEMA_VERSION,
+  SUPPORTED_SESSION_SNAPSHOT_SCHEMA_VERSIONS,
+} from './models/SessionSnapshot.js';
 
 // ═══════════════════════════════════════════════════════════════
 // Events
@@ -107,7 +160,7 @@ export type {
 } from './models/QueueEvent.js';
 
 // v3: RoutingItem types
-export type { RoutingItem, RoutingIntent, ShortIntent } from './models/RoutingItem.js';
+export type { RoutingItem, RoutingIntent, ShortIntent, RoutingQueueState } from './models/RoutingItem.js';
 export {
   generateRoutingItemId,
   intentToEnum,
@@ -119,9 +172,20 @@ export type {
   AgentEvent,
   TodoItem,
   TodoStatus,
-  TodoListEvent
+  TodoListEvent,
+  UsageEvent
 } from './events/AgentEvent.js';
 
+// Token/cost usage accounting
+export type { UsageDelta, UsageTotals, SessionUsageStats } from './models/UsageStats.js';
+export {
+  createEmptyUsageTotals,
+  createEmptySessionUsage,
+  addUsage,
+  mergeUsageDelta,
+  recordMemberUsage,
+} from './models/UsageStats.js';
+
 // ═══════════════════════════════════════════════════════════════
 // Validation
 // ═══════════════════════════════════════════════════════════════
@@ -153,16 +217,57 @@ export type {
   AssemblerInput,
   AssemblerOutput,
   PromptContextMessage,
+  PromptHandoff,
+  PromptTeamRoster,
+  PromptRosterMember,
   RouteContextOptions,
   RouteContextResult,
   ContextManagerOptions,
+  ConversationSummary,
+  ContextVisibilityFilter,
 } from './context/types.js';
+export type { ISummarizer, SummarizerInput } from './context/ISummarizer.js';
+export { ExtractiveSummarizer } from './context/summarizers/ExtractiveSummarizer.js';
+export { AgentSummarizer, type SummarizerAgentRunner } from './context/summarizers/AgentSummarizer.js';
+export type { ITokenEstimator } from './context/ITokenEstimator.js';
+export {
+  HeuristicTokenEstimator,
+  createTokenEstimator,
+  type TokenEstimatorProfile
+} from './context/tokenizers/HeuristicTokenEstimator.js';
+export { fitToTokenBudget } from './context/tokenBudget.js';
+export type { IContextAssembler } from './context/IContextAssembler.js';
+export { TemplateContextAssembler } from './context/assemblers/TemplateContextAssembler.js';
+export {
+  PromptTemplate,
+  PromptTemplateError,
+  PROMPT_TEMPLATE_SLOTS
+} from './context/templates/PromptTemplate.js';
 
 // ═══════════════════════════════════════════════════════════════
 // Infrastructure
 // ═══════════════════════════════════════════════════════════════
 export { MockStorageService } from './infrastructure/StorageService.js';
 export { SessionStorageService } from './infrastructure/SessionStorageService.js';
+export { type ISessionStorage, listSessionForks, searchSessionStorage } from './infrastructure/ISessionStorage.js';
+export {
+  SessionSearchIndex,
+  type SessionSearchQuery,
+  type SessionSearchHit
+} from './infrastructure/SessionSearchIndex.js';
+export {
+  ReplayExecutionEnvironment,
+  parseRecordedEvents,
+  groupRecordedTurns,
+  type RecordedTurn,
+  type ReplaySpawnRecord
+} from './infrastructure/ReplayExecutionEnvironment.js';
+export {
+  ReplayAdapterFactory,
+  ReplayAdapter,
+  REPLAY_AGENT_TYPE
+} from './infrastructure/ReplayAdapterFactory.js';
+export { PtyProcess } from './infrastructure/PtyProcess.js';
 
 // ═══════════════════════════════════════════════════════════════
 // Utils
@@ -181,9 +286,33 @@ export { detectAllTools, type ToolStatus } from './utils/ToolDetector.js';
 export { getDefaultAgentConfig, type AgentType } from './utils/AgentDefaults.js';
 export { colorize, colors, type ColorName } from './utils/colors.js';
 export { normalizeSystemInstruction } from './utils/normalizeSystemInstruction.js';
+export { stripAnsi } from './utils/stripAnsi.js';
+export {
+  buildTranscript,
+  exportTranscript,
+  parseContextSummaries,
+  renderMarkdown,
+  renderHtml,
+  renderJsonl,
+  type Transcript,
+  type TranscriptFormat,
+  type TranscriptExportOptions,
+  type TranscriptHeader,
+  type TranscriptMessage,
+  type TranscriptSpeaker,
+  type TranscriptToolCall
+} from './utils/TranscriptExporter.js';
 
 // ═══════════════════════════════════════════════════════════════
 // Stream Parsers
 // ═══════════════════════════════════════════════════════════════
 export type { StreamParser } from './events/StreamParser.js';
-export { StreamParserFactory } from './events/StreamParserFactory.js';
+export {
+  StreamParserFactory,
+  registerStreamParser,
+  unregisterStreamParser,
+  getRegisteredStreamParserTypes,
+  isStreamParserRegistered,
+  type StreamParserClass,
+} from './events/StreamParserFactory.js';
+export { ReplayParser } from './events/parsers/ReplayParser.js';
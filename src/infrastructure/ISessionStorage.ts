@@ -7,6 +7,7 @@
  */
 
 import type { SessionSnapshot, SessionSummary } from '../models/SessionSnapshot.js';
+import { SessionSearchIndex, type SessionSearchQuery, type SessionSearchHit } from './SessionSearchIndex.js';
 
 /**
  * Session storage interface
@@ -55,6 +56,32 @@ export interface ISessionStorage {
    */
   listSessions(teamId: string): Promise<SessionSummary[]>;
 
+  /**
+   * List sessions forked directly from a session (summaries only)
+   *
+   * Optional: callers go through listSessionForks(), which filters
+   * listSessions() for storages that do not implement it.
+   *
+   * @param teamId - Team identifier
+   * @param sessionId - Source session identifier
+   * @returns Array of SessionSummary whose forkedFrom.sessionId matches,
+   *          sorted by updatedAt descending (newest first)
+   */
+  listForks?(teamId: string, sessionId: string): Promise<SessionSummary[]>;
+
+  /**
+   * Full-text search across persisted sessions
+   *
+   * Optional: callers go through searchSessionStorage(), which indexes one
+   * team's sessions on the fly for storages that do not implement it.
+   *
+   * @param query - Text, speaker and/or date range (optionally scoped to a team)
+   * @returns Matching messages with session IDs and snippets,
+   *          best matches first (ties: newest first)
+   * @throws Error if the query has no criteria
+   */
+  searchSessions?(query: SessionSearchQuery): Promise<SessionSearchHit[]>;
+
   /**
    * Delete a session
    *
@@ -65,3 +92,47 @@ export interface ISessionStorage {
    */
   deleteSession(teamId: string, sessionId: string): Promise<void>;
 }
+
+/**
+ * Sessions forked directly from a session, for any storage
+ *
+ * Uses storage.listForks when implemented, otherwise filters listSessions().
+ */
+export async function listSessionForks(
+  storage: ISessionStorage,
+  teamId: string,
+  sessionId: string
+): Promise<SessionSummary[]> {
+  if (storage.listForks) {
+    return storage.listForks(teamId, sessionId);
+  }
+  const sessions = await storage.listSessions(teamId);
+  return sessions.filter(s => s.forkedFrom?.sessionId === sessionId);
+}
+
+/**
+ * Full-text search, for any storage
+ *
+ * Uses storage.searchSessions when implemented, otherwise loads and indexes
+ * the sessions of query.teamId in memory (required in that case).
+ */
+export async function searchSessionStorage(
+  storage: ISessionStorage,
+  query: SessionSearchQuery
+): Promise<SessionSearchHit[]> {
+  if (storage.searchSessions) {
+    return storage.searchSessions(query);
+  }
+  if (!query.teamId) {
+    throw new Error('Session storage does not support search across teams; set query.teamId');
+  }
+
+  const index = new SessionSearchIndex();
+  for (const summary of await storage.listSessions(query.teamId)) {
+    const snapshot = await storage.loadSession(query.teamId, summary.sessionId);
+    if (snapshot) {
+      await index.upsert(query.teamId, snapshot);
+    }
+  }
+  return index.search(query);
+}
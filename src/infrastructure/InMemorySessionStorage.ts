@@ -10,6 +10,7 @@
 import type { ISessionStorage } from './ISessionStorage.js';
 import type { SessionSnapshot, SessionSummary } from '../models/SessionSnapshot.js';
 import { extractSessionSummary } from '../models/SessionSnapshot.js';
+import { SessionSearchIndex, type SessionSearchQuery, type SessionSearchHit } from './SessionSearchIndex.js';
 
 /**
  * In-memory session storage for unit testing
@@ -17,6 +18,7 @@ import { extractSessionSummary } from '../models/SessionSnapshot.js';
 export class InMemorySessionStorage implements ISessionStorage {
   // Map<teamId, Map<sessionId, SessionSnapshot>>
   private sessions: Map<string, Map<string, SessionSnapshot>> = new Map();
+  private searchIndex = new SessionSearchIndex();
 
   async saveSession(teamId: string, snapshot: SessionSnapshot): Promise<void> {
     if (!this.sessions.has(teamId)) {
@@ -32,6 +34,7 @@ export class InMemorySessionStorage implements ISessionStorage {
     };
 
     this.sessions.get(teamId)!.set(snapshot.sessionId, cloned);
+    await this.searchIndex.upsert(teamId, cloned);
   }
 
   async loadSession(teamId: string, sessionId: string): Promise<SessionSnapshot | null> {
@@ -80,8 +83,18 @@ export class InMemorySessionStorage implements ISessionStorage {
       );
   }
 
+  async listForks(teamId: string, sessionId: string): Promise<SessionSummary[]> {
+    const sessions = await this.listSessions(teamId);
+    return sessions.filter(s => s.forkedFrom?.sessionId === sessionId);
+  }
+
   async deleteSession(teamId: string, sessionId: string): Promise<void> {
     this.sessions.get(teamId)?.delete(sessionId);
+    await this.searchIndex.remove(teamId, sessionId);
+  }
+
+  async searchSessions(query: SessionSearchQuery): Promise<SessionSearchHit[]> {
+    return this.searchIndex.search(query);
   }
 
   // Test helpers
@@ -91,6 +104,7 @@ export class InMemorySessionStorage implements ISessionStorage {
    */
   clear(): void {
     this.sessions.clear();
+    this.searchIndex.clear();
   }
 
   /**
@@ -0,0 +1,91 @@
+/**
+ * PtyProcess - Exposes a PTY as an IProcess
+ *
+ * @file src/infrastructure/PtyProcess.ts
+ *
+ * Lets AgentManager run agents that refuse to produce output without a TTY
+ * (AgentConfig.usePty) through the same turn handling as spawned processes.
+ *
+ * - Terminal output is stripped of ANSI escape sequences and carriage returns
+ *   before it reaches stdout, so stream parsers see plain lines
+ * - A PTY merges stdout and stderr; stderr stays empty
+ * - exit/close are emitted after all output has been read
+ */
+
+import { EventEmitter, once } from 'events';
+import { PassThrough, Writable } from 'stream';
+import type { IProcess, IPty } from '../interfaces/IExecutionEnvironment.js';
+import { splitPendingEscape, stripAnsi } from '../utils/stripAnsi.js';
+
+export class PtyProcess extends EventEmitter implements IProcess {
+  readonly stdin: Writable;
+  readonly stdout = new PassThrough();
+  readonly stderr = new PassThrough();
+  private pendingEscape = '';
+  private exited = false;
+
+  constructor(private pty: IPty) {
+    super();
+    this.stdin = new Writable({
+      write: (chunk: Buffer | string, _encoding, callback) => {
+        this.pty.write(chunk.toString());
+        callback();
+      }
+    });
+
+    pty.onData(data => this.handleData(data));
+    pty.onExit((exitCode, signal) => this.handleExit(exitCode, signal));
+  }
+
+  get pid(): number {
+    return this.pty.pid;
+  }
+
+  /**
+   * Resize the terminal (some CLIs lay out their output by terminal width)
+   */
+  resize(cols: number, rows: number): void {
+    if (!this.exited) {
+      this.pty.resize(cols, rows);
+    }
+  }
+
+  kill(signal?: NodeJS.Signals | number): boolean {
+    if (this.exited) {
+      return false;
+    }
+    this.pty.kill(signal === undefined ? undefined : String(signal));
+    return true;
+  }
+
+  private handleData(data: string): void {
+    const [complete, pending] = splitPendingEscape(this.pendingEscape + data);
+    this.pendingEscape = pending;
+    const text = stripAnsi(complete);
+    if (text) {
+      this.stdout.write(text);
+    }
+  }
+
+  private handleExit(exitCode: number, signal?: number): void {
+    if (this.exited) {
+      return;
+    }
+    this.exited = true;
+    // An escape sequence cut off by the exit carries no text
+    this.pendingEscape = '';
+
+    // Emit exit only once listeners have received the remaining output
+    const ended = once(this.stdout, 'end');
+    this.stdout.end();
+    this.stderr.end();
+    this.stdout.resume();
+    this.stderr.resume();
+
+    const signalName = signal ? String(signal) : null;
+    ended.then(() => {
+      this.emit('exit', exitCode, signalName);
+      this.emit('close', exitCode, signalName);
+    });
+  }
+}
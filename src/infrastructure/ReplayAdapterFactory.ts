@@ -0,0 +1,75 @@
+/**
+ * ReplayAdapterFactory - Adapter factory for replaying recorded agent event logs
+ *
+ * @file src/infrastructure/ReplayAdapterFactory.ts
+ *
+ * Pairs with ReplayExecutionEnvironment: every agent config resolves to a
+ * ReplayAdapter, whose agent type selects ReplayParser so recorded events
+ * pass through AgentManager unchanged.
+ */
+
+import type { IAdapterFactory, AdapterFactoryFn } from '../interfaces/IAdapterFactory.js';
+import type { IAgentAdapter, AgentSpawnConfig, AgentSpawnResult } from '../interfaces/IAgentAdapter.js';
+import type { AgentConfig } from '../models/AgentConfig.js';
+import { registerStreamParser } from '../events/StreamParserFactory.js';
+import { ReplayParser } from '../events/parsers/ReplayParser.js';
+
+/**
+ * Agent type used by replay adapters
+ */
+export const REPLAY_AGENT_TYPE = 'replay';
+
+/**
+ * Adapter whose output comes from ReplayExecutionEnvironment
+ */
+export class ReplayAdapter implements IAgentAdapter {
+  readonly agentType = REPLAY_AGENT_TYPE;
+  readonly executionMode = 'stateless' as const;
+
+  constructor(readonly command: string = REPLAY_AGENT_TYPE) {}
+
+  async spawn(_config: AgentSpawnConfig): Promise<AgentSpawnResult> {
+    throw new Error('ReplayAdapter does not spawn processes; use ReplayExecutionEnvironment');
+  }
+
+  async validate(): Promise<boolean> {
+    return true;
+  }
+
+  getDefaultArgs(): string[] {
+    return [];
+  }
+}
+
+export class ReplayAdapterFactory implements IAdapterFactory {
+  private factories: Map<string, AdapterFactoryFn> = new Map();
+
+  constructor() {
+    registerStreamParser(REPLAY_AGENT_TYPE, ReplayParser);
+  }
+
+  /**
+   * Any type resolves to a replay adapter unless overridden via register()
+   */
+  create(type: string): IAgentAdapter {
+    const factory = this.factories.get(type);
+    return factory ? factory() : new ReplayAdapter();
+  }
+
+  createAdapter(config: AgentConfig): IAgentAdapter {
+    const factory = this.factories.get(config.type);
+    return factory ? factory() : new ReplayAdapter(config.command);
+  }
+
+  register(type: string, factory: AdapterFactoryFn): void {
+    this.factories.set(type, factory);
+  }
+
+  has(_type: string): boolean {
+    return true;
+  }
+
+  getRegisteredTypes(): string[] {
+    return [REPLAY_AGENT_TYPE, ...this.factories.keys()];
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * ReplayExecutionEnvironment - Deterministic replay of recorded agent event logs
+ *
+ * @file src/infrastructure/ReplayExecutionEnvironment.ts
+ *
+ * Feeds the raw AgentEvent JSONL recorded by ContextEventCollector
+ * (.agent-chatter/logs/<sessionId>.jsonl) back into AgentManager.sendAndReceive
+ * instead of spawning real agent CLIs. Combined with ReplayAdapterFactory this
+ * re-runs a whole conversation (routing, DROP handling, context assembly) offline.
+ *
+ * Recorded events are split into turns per member (at turn.completed or a
+ * process failure). Each spawn consumes the next recorded turn of the member it
+ * runs for (SpawnOptions.agentId), or the next turn overall when no member is given.
+ */
+
+import fs from 'fs';
+import { EventEmitter, once } from 'events';
+import { PassThrough } from 'stream';
+import type { IExecutionEnvironment, IProcess, SpawnOptions } from '../interfaces/IExecutionEnvironment.js';
+import type { AgentEvent } from '../events/AgentEvent.js';
+
+/**
+ * One recorded agent turn
+ */
+export interface RecordedTurn {
+  agentId: string;
+  /** Events written to stdout, in recorded order */
+  events: AgentEvent[];
+  /** Exit code of the replayed process (non-zero reproduces a crash) */
+  exitCode: number;
+  /** stderr of the replayed process (only set for crashes) */
+  stderr?: string;
+  /** Set when the original process failed to spawn */
+  spawnError?: string;
+}
+
+/**
+ * A spawn served by the replay environment
+ * The prompt is the assembled context, useful for regression comparisons
+ */
+export interface ReplaySpawnRecord {
+  agentId?: string;
+  command: string;
+  args: string[];
+  prompt: string;
+}
+
+// Synthetic errors emitted by AgentManager; replay reproduces them from the process instead
+const EXIT_ERROR_PATTERN = /exited unexpectedly with code (-?\d+)\. stderr: ([\s\S]*)$/;
+const SPAWN_ERROR_PATTERN = /^Failed to spawn \S+ process: ([\s\S]*)$/;
+
+/**
+ * Parse a recorded event log (invalid lines are skipped)
+ */
+export function parseRecordedEvents(content: string): AgentEvent[] {
+  const events: AgentEvent[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const event = JSON.parse(line);
+      if (event && typeof event.type === 'string' && typeof event.agentId === 'string') {
+        events.push(event as AgentEvent);
+      }
+    } catch {
+      // Partially written line; ignore
+    }
+  }
+  return events;
+}
+
+/**
+ * Split recorded events into turns
+ *
+ * Events of parallel turns may be interleaved, so turns are buffered per member.
+ * Turns are ordered by their first recorded event.
+ */
+export function groupRecordedTurns(events: AgentEvent[]): RecordedTurn[] {
+  const turns: RecordedTurn[] = [];
+  const open = new Map<string, RecordedTurn>();
+
+  const current = (agentId: string): RecordedTurn => {
+    let turn = open.get(agentId);
+    if (!turn) {
+      turn = { agentId, events: [], exitCode: 0 };
+      open.set(agentId, turn);
+      turns.push(turn);
+    }
+    return turn;
+  };
+
+  for (const event of events) {
+    const turn = current(event.agentId);
+
+    if (event.type === 'error' && event.code === 'PROCESS_EXIT') {
+      const match = EXIT_ERROR_PATTERN.exec(event.error);
+      turn.exitCode = match ? Number(match[1]) : 1;
+      turn.stderr = match ? match[2] : '';
+      open.delete(event.agentId);
+      continue;
+    }
+
+    if (event.type === 'error' && event.code === 'PROCESS_SPAWN_ERROR') {
+      const match = SPAWN_ERROR_PATTERN.exec(event.error);
+      turn.spawnError = match ? match[1] : event.error;
+      open.delete(event.agentId);
+      continue;
+    }
+
+    turn.events.push(event);
+    if (event.type === 'turn.completed') {
+      open.delete(event.agentId);
+    }
+  }
+
+  return turns;
+}
+
+export class ReplayExecutionEnvironment implements IExecutionEnvironment {
+  readonly type = 'local' as const;
+  private turns: Array<RecordedTurn & { consumed: boolean }>;
+  private spawnLog: ReplaySpawnRecord[] = [];
+
+  constructor(events: AgentEvent[]) {
+    this.turns = groupRecordedTurns(events).map(turn => ({ ...turn, consumed: false }));
+  }
+
+  /**
+   * Create from recorded JSONL content
+   */
+  static fromJsonl(content: string): ReplayExecutionEnvironment {
+    return new ReplayExecutionEnvironment(parseRecordedEvents(content));
+  }
+
+  /**
+   * Create from a recorded log file (e.g. .agent-chatter/logs/<sessionId>.jsonl)
+   */
+  static async fromFile(filePath: string): Promise<ReplayExecutionEnvironment> {
+    const content = await fs.promises.readFile(filePath, 'utf-8');
+    return ReplayExecutionEnvironment.fromJsonl(content);
+  }
+
+  spawn(command: string, args: string[], options?: SpawnOptions): IProcess {
+    const agentId = options?.agentId;
+    this.spawnLog.push({ agentId, command, args: [...args], prompt: args[args.length - 1] ?? '' });
+
+    const turn = this.turns.find(t => !t.consumed && (agentId === undefined || t.agentId === agentId));
+    if (turn) {
+      turn.consumed = true;
+    }
+    return new ReplayProcess(
+      turn,
+      agentId === undefined
+        ? 'Replay log has no recorded turns left'
+        : `Replay log has no recorded turn left for '${agentId}'`
+    );
+  }
+
+  /**
+   * Spawns served so far, in order
+   */
+  getSpawnLog(): ReplaySpawnRecord[] {
+    return this.spawnLog.map(record => ({ ...record, args: [...record.args] }));
+  }
+
+  /**
+   * Number of recorded turns not yet replayed (optionally for one member)
+   */
+  getRemainingTurns(agentId?: string): number {
+    return this.turns.filter(t => !t.consumed && (agentId === undefined || t.agentId === agentId)).length;
+  }
+}
+
+/**
+ * Fake process that writes one recorded turn to stdout and exits
+ */
+class ReplayProcess extends EventEmitter implements IProcess {
+  readonly stdin = null;
+  readonly stdout = new PassThrough();
+  readonly stderr = new PassThrough();
+  readonly pid = undefined;
+  private exited = false;
+  private pending: NodeJS.Immediate;
+
+  constructor(private turn: RecordedTurn | undefined, private exhaustedMessage: string) {
+    super();
+    // Deferred so AgentManager can attach listeners first
+    this.pending = setImmediate(() => this.play());
+  }
+
+  kill(signal?: NodeJS.Signals | number): boolean {
+    if (this.exited) {
+      return false;
+    }
+    clearImmediate(this.pending);
+    setImmediate(() => this.finish(null, signal === undefined ? 'SIGTERM' : String(signal)));
+    return true;
+  }
+
+  private play(): void {
+    const turn = this.turn;
+    if (!turn || turn.spawnError !== undefined) {
+      this.exited = true;
+      this.emit('error', new Error(turn?.spawnError ?? this.exhaustedMessage));
+      return;
+    }
+
+    const ended = Promise.all([once(this.stdout, 'end'), once(this.stderr, 'end')]);
+    this.stdout.resume();
+    this.stderr.resume();
+
+    if (turn.stderr) {
+      this.stderr.write(turn.stderr);
+    }
+    for (const event of turn.events) {
+      this.stdout.write(JSON.stringify(event) + '\n');
+    }
+    this.stdout.end();
+    this.stderr.end();
+
+    ended.then(() => this.finish(turn.exitCode, null));
+  }
+
+  private finish(code: number | null, signal: string | null): void {
+    if (this.exited) {
+      return;
+    }
+    this.exited = true;
+    this.emit('exit', code, signal);
+    this.emit('close', code, signal);
+  }
+}
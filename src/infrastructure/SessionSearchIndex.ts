@@ -0,0 +1,424 @@
+/**
+ * SessionSearchIndex - Local full-text index over persisted sessions
+ *
+ * - In-memory inverted index (token -> messages), rebuilt from the journal on load
+ * - Optional on-disk journal (JSONL of upsert/delete records) appended on every
+ *   save, so indexing cost is proportional to the saved session, not the corpus
+ * - Journal is compacted when it grows well beyond the number of live sessions
+ *
+ * Tokenization: lowercase letter/digit runs; CJK ideographs are indexed per
+ * character so queries without spaces still match.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { SessionSnapshot } from '../models/SessionSnapshot.js';
+import type { ILogger } from '../interfaces/ILogger.js';
+import { SilentLogger } from '../interfaces/ILogger.js';
+import { migrateMessageSpeaker } from '../utils/speakerMigration.js';
+
+/**
+ * Search criteria (all provided criteria must match)
+ */
+export interface SessionSearchQuery {
+  /** Words to find in message content (all words must match, case-insensitive) */
+  text?: string;
+  /** Speaker id, name or displayName (case-insensitive exact match) */
+  speaker?: string;
+  /** Earliest message timestamp (inclusive) */
+  from?: Date | string;
+  /** Latest message timestamp (inclusive) */
+  to?: Date | string;
+  /** Restrict to one team (default: all teams) */
+  teamId?: string;
+  /** Maximum number of hits (default: 50) */
+  limit?: number;
+}
+
+/**
+ * A matching message
+ */
+export interface SessionSearchHit {
+  teamId: string;
+  sessionId: string;
+  messageId: string;
+  speaker: {
+    id: string;
+    name: string;
+    displayName: string;
+  };
+  timestamp: string;
+  /** Content excerpt around the first match */
+  snippet: string;
+  /** Number of term occurrences (higher is better) */
+  score: number;
+}
+
+interface IndexedMessage {
+  id: string;
+  speakerId: string;
+  speakerName: string;
+  displayName: string;
+  timestamp: string;
+  content: string;
+}
+
+interface IndexedSession {
+  teamId: string;
+  sessionId: string;
+  /** Source file relative to the sessions directory (file-based storage only) */
+  file?: string;
+  updatedAt: string;
+  messages: IndexedMessage[];
+}
+
+type JournalRecord =
+  | { op: 'upsert'; session: IndexedSession }
+  | { op: 'delete'; teamId: string; sessionId: string };
+
+const DEFAULT_LIMIT = 50;
+const SNIPPET_RADIUS = 60;
+const MIN_JOURNAL_LINES_BEFORE_COMPACT = 200;
+
+export class SessionSearchIndex {
+  private sessions: Map<string, IndexedSession> = new Map();
+  /** token -> message keys (`<sessionKey>#<messageIndex>`) */
+  private postings: Map<string, Set<string>> = new Map();
+  private loading: Promise<void> | null = null;
+  private journalLines = 0;
+  private writeChain: Promise<void> = Promise.resolve();
+  private readonly logger: ILogger;
+
+  /**
+   * @param journalPath - Journal file; omit for a purely in-memory index
+   * @param logger - Optional logger for diagnostics
+   */
+  constructor(private readonly journalPath?: string, logger?: ILogger) {
+    this.logger = logger ?? new SilentLogger();
+  }
+
+  /**
+   * Load the journal (once). Corrupted lines are skipped.
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readJournal();
+    }
+    return this.loading;
+  }
+
+  private async readJournal(): Promise<void> {
+    if (!this.journalPath || !fs.existsSync(this.journalPath)) {
+      return;
+    }
+
+    const content = await fs.promises.readFile(this.journalPath, 'utf-8');
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      this.journalLines++;
+      try {
+        const record = JSON.parse(line) as JournalRecord;
+        if (record.op === 'upsert') {
+          this.applyUpsert(record.session);
+        } else if (record.op === 'delete') {
+          this.applyDelete(record.teamId, record.sessionId);
+        }
+      } catch {
+        this.logger.warn(`[SessionSearchIndex] Skipping corrupted journal line in ${this.journalPath}`);
+      }
+    }
+
+    await this.compactIfNeeded();
+  }
+
+  /**
+   * Index (or re-index) a session snapshot and append it to the journal
+   */
+  async upsert(teamId: string, snapshot: SessionSnapshot, file?: string): Promise<void> {
+    await this.load();
+    const session = toIndexedSession(teamId, snapshot, file);
+    this.applyUpsert(session);
+    await this.append({ op: 'upsert', session });
+  }
+
+  /**
+   * Remove a session from the index
+   */
+  async remove(teamId: string, sessionId: string): Promise<void> {
+    await this.load();
+    if (!this.sessions.has(sessionKey(teamId, sessionId))) {
+      return;
+    }
+    this.applyDelete(teamId, sessionId);
+    await this.append({ op: 'delete', teamId, sessionId });
+  }
+
+  /**
+   * Indexed source files (relative paths), keyed by session
+   */
+  getIndexedFiles(): Map<string, { teamId: string; sessionId: string }> {
+    const files = new Map<string, { teamId: string; sessionId: string }>();
+    for (const session of this.sessions.values()) {
+      if (session.file) {
+        files.set(session.file, { teamId: session.teamId, sessionId: session.sessionId });
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Number of indexed sessions
+   */
+  size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Drop all in-memory entries (the journal is left untouched)
+   */
+  clear(): void {
+    this.sessions.clear();
+    this.postings.clear();
+  }
+
+  /**
+   * Search indexed messages
+   *
+   * @throws Error if the query has no criteria
+   */
+  search(query: SessionSearchQuery): SessionSearchHit[] {
+    const terms = tokenize(query.text ?? '');
+    const speaker = query.speaker?.trim().toLowerCase();
+    const from = query.from !== undefined ? toTime(query.from, 'from') : undefined;
+    const to = query.to !== undefined ? toTime(query.to, 'to') : undefined;
+
+    if (terms.length === 0 && !speaker && from === undefined && to === undefined) {
+      throw new Error('Search query requires text, speaker or a date range');
+    }
+
+    const hits: Array<SessionSearchHit & { time: number }> = [];
+    for (const key of this.candidateKeys(terms)) {
+      const [sKey, index] = splitMessageKey(key);
+      const session = this.sessions.get(sKey);
+      const message = session?.messages[index];
+      if (!session || !message) continue;
+
+      if (query.teamId && session.teamId !== query.teamId) continue;
+      if (speaker && ![message.speakerId, message.speakerName, message.displayName]
+        .some(value => value.toLowerCase() === speaker)) continue;
+
+      const time = new Date(message.timestamp).getTime();
+      if (from !== undefined && time < from) continue;
+      if (to !== undefined && time > to) continue;
+
+      const lowered = message.content.toLowerCase();
+      let score = 0;
+      let allPresent = true;
+      for (const term of terms) {
+        const count = countOccurrences(lowered, term);
+        if (count === 0) {
+          allPresent = false;
+          break;
+        }
+        score += count;
+      }
+      if (!allPresent) continue;
+
+      hits.push({
+        teamId: session.teamId,
+        sessionId: session.sessionId,
+        messageId: message.id,
+        speaker: { id: message.speakerId, name: message.speakerName, displayName: message.displayName },
+        timestamp: message.timestamp,
+        snippet: makeSnippet(message.content, terms[0]),
+        score,
+        time,
+      });
+    }
+
+    return hits
+      .sort((a, b) => b.score - a.score || b.time - a.time)
+      .slice(0, query.limit ?? DEFAULT_LIMIT)
+      .map(({ time: _time, ...hit }) => hit);
+  }
+
+  // ---- Internal ----
+
+  private candidateKeys(terms: string[]): Iterable<string> {
+    if (terms.length === 0) {
+      const all: string[] = [];
+      for (const [key, session] of this.sessions) {
+        session.messages.forEach((_, i) => all.push(`${key}#${i}`));
+      }
+      return all;
+    }
+
+    // Intersect per-term candidates; a term matches any token it prefixes
+    let result: Set<string> | null = null;
+    for (const term of terms) {
+      const matches = new Set<string>();
+      for (const [token, keys] of this.postings) {
+        if (token.startsWith(term)) {
+          for (const key of keys) {
+            if (!result || result.has(key)) matches.add(key);
+          }
+        }
+      }
+      result = matches;
+      if (result.size === 0) break;
+    }
+    return result ?? [];
+  }
+
+  private applyUpsert(session: IndexedSession): void {
+    const key = sessionKey(session.teamId, session.sessionId);
+    if (this.sessions.has(key)) {
+      this.applyDelete(session.teamId, session.sessionId);
+    }
+    this.sessions.set(key, session);
+    session.messages.forEach((message, i) => {
+      const messageKey = `${key}#${i}`;
+      for (const token of new Set(tokenize(message.content))) {
+        let keys = this.postings.get(token);
+        if (!keys) {
+          keys = new Set();
+          this.postings.set(token, keys);
+        }
+        keys.add(messageKey);
+      }
+    });
+  }
+
+  private applyDelete(teamId: string, sessionId: string): void {
+    const key = sessionKey(teamId, sessionId);
+    const session = this.sessions.get(key);
+    if (!session) return;
+
+    session.messages.forEach((message, i) => {
+      const messageKey = `${key}#${i}`;
+      for (const token of new Set(tokenize(message.content))) {
+        const keys = this.postings.get(token);
+        keys?.delete(messageKey);
+        if (keys && keys.size === 0) {
+          this.postings.delete(token);
+        }
+      }
+    });
+    this.sessions.delete(key);
+  }
+
+  private append(record: JournalRecord): Promise<void> {
+    if (!this.journalPath) {
+      return Promise.resolve();
+    }
+    const journalPath = this.journalPath;
+    this.writeChain = this.writeChain
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(journalPath), { recursive: true });
+        await fs.promises.appendFile(journalPath, JSON.stringify(record) + '\n', 'utf-8');
+        this.journalLines++;
+      })
+      .then(() => this.compactIfNeeded())
+      .catch(err => {
+        this.logger.warn(`[SessionSearchIndex] Failed to write journal: ${(err as Error).message}`);
+      });
+    return this.writeChain;
+  }
+
+  private async compactIfNeeded(): Promise<void> {
+    const threshold = Math.max(MIN_JOURNAL_LINES_BEFORE_COMPACT, this.sessions.size * 4);
+    if (this.journalLines > threshold) {
+      await this.rewriteJournal();
+    }
+  }
+
+  /**
+   * Rewrite the journal with one upsert per live session (write temp, then rename)
+   */
+  async rewriteJournal(): Promise<void> {
+    if (!this.journalPath) {
+      return;
+    }
+    await fs.promises.mkdir(path.dirname(this.journalPath), { recursive: true });
+    const lines = [...this.sessions.values()]
+      .map(session => JSON.stringify({ op: 'upsert', session } satisfies JournalRecord));
+    const tempPath = `${this.journalPath}.tmp`;
+    await fs.promises.writeFile(tempPath, lines.length ? lines.join('\n') + '\n' : '', 'utf-8');
+    await fs.promises.rename(tempPath, this.journalPath);
+    this.journalLines = lines.length;
+  }
+}
+
+// ---- Helpers ----
+
+function sessionKey(teamId: string, sessionId: string): string {
+  return `${teamId}\u0000${sessionId}`;
+}
+
+function splitMessageKey(key: string): [string, number] {
+  const hash = key.lastIndexOf('#');
+  return [key.slice(0, hash), Number(key.slice(hash + 1))];
+}
+
+function toIndexedSession(teamId: string, snapshot: SessionSnapshot, file?: string): IndexedSession {
+  return {
+    teamId,
+    sessionId: snapshot.sessionId,
+    file,
+    updatedAt: snapshot.updatedAt,
+    messages: snapshot.context.messages.map(msg => {
+      // Accept legacy speaker format (roleId/roleName/roleTitle)
+      const speaker = migrateMessageSpeaker(msg.speaker);
+      return {
+        id: msg.id,
+        speakerId: speaker.id,
+        speakerName: speaker.name,
+        displayName: speaker.displayName,
+        timestamp: msg.timestamp,
+        content: msg.content,
+      };
+    }),
+  };
+}
+
+/**
+ * Lowercase word tokens; CJK ideographs become one token per character
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of text.toLowerCase().matchAll(/[\p{L}\p{N}_]+/gu)) {
+    for (const part of match[0].split(/(\p{Script=Han}|\p{Script=Hiragana}|\p{Script=Katakana}|\p{Script=Hangul})/u)) {
+      if (part) tokens.push(part);
+    }
+  }
+  return tokens;
+}
+
+function toTime(value: Date | string, field: string): number {
+  const time = new Date(value).getTime();
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid '${field}' date: ${String(value)}`);
+  }
+  return time;
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    count++;
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return count;
+}
+
+function makeSnippet(content: string, term?: string): string {
+  const flat = content.replace(/\s+/g, ' ').trim();
+  if (!term) {
+    return flat.length > SNIPPET_RADIUS * 2 ? `${flat.slice(0, SNIPPET_RADIUS * 2)}…` : flat;
+  }
+  const index = flat.toLowerCase().indexOf(term);
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(flat.length, index + term.length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+}
@@ -9,9 +9,15 @@ import * as path from 'path';
 import * as os from 'os';
 import type { ISessionStorage } from './ISessionStorage.js';
 import type { SessionSnapshot, SessionSummary } from '../models/SessionSnapshot.js';
-import { SESSION_SNAPSHOT_SCHEMA_VERSION, extractSessionSummary } from '../models/SessionSnapshot.js';
+import { SUPPORTED_SESSION_SNAPSHOT_SCHEMA_VERSIONS, extractSessionSummary } from '../models/SessionSnapshot.js';
 import type { ILogger } from '../interfaces/ILogger.js';
 import { SilentLogger } from '../interfaces/ILogger.js';
+import { SessionSearchIndex, type SessionSearchQuery, type SessionSearchHit } from './SessionSearchIndex.js';
+
+/**
+ * Search index journal, stored next to the team directories
+ */
+const SEARCH_INDEX_FILENAME = '.search-index.jsonl';
 
 /**
  * File-based session storage service
@@ -19,6 +25,7 @@ import { SilentLogger } from '../interfaces/ILogger.js';
 export class SessionStorageService implements ISessionStorage {
   private readonly baseDir: string;
   private readonly logger: ILogger;
+  private readonly searchIndex: SessionSearchIndex;
 
   /**
    * @param baseDir - Override base directory (default: ~/.agent-chatter/sessions)
@@ -27,6 +34,7 @@ export class SessionStorageService implements ISessionStorage {
   constructor(baseDir?: string, logger?: ILogger) {
     this.baseDir = baseDir ?? path.join(os.homedir(), '.agent-chatter', 'sessions');
     this.logger = logger ?? new SilentLogger();
+    this.searchIndex = new SessionSearchIndex(path.join(this.baseDir, SEARCH_INDEX_FILENAME), this.logger);
   }
 
   /**
@@ -55,6 +63,13 @@ export class SessionStorageService implements ISessionStorage {
       'utf-8'
     );
     await fs.promises.rename(tempPath, filePath);
+
+    // Incremental search indexing (failure must not break saving)
+    try {
+      await this.searchIndex.upsert(teamId, snapshotToSave, path.relative(this.baseDir, filePath));
+    } catch (err) {
+      this.logger.warn(`Failed to index session ${snapshot.sessionId}: ${(err as Error).message}`);
+    }
   }
 
   /**
@@ -176,6 +191,14 @@ export class SessionStorageService implements ISessionStorage {
     );
   }
 
+  /**
+   * List sessions forked from a session (summaries only)
+   */
+  async listForks(teamId: string, sessionId: string): Promise<SessionSummary[]> {
+    const sessions = await this.listSessions(teamId);
+    return sessions.filter(s => s.forkedFrom?.sessionId === sessionId);
+  }
+
   /**
    * Delete a session
    */
@@ -193,16 +216,80 @@ export class SessionStorageService implements ISessionStorage {
 
     if (matchingFile) {
       await fs.promises.unlink(path.join(teamDir, matchingFile));
+      await this.searchIndex.remove(teamId, sessionId);
     }
   }
 
+  /**
+   * Full-text search across all teams' sessions
+   *
+   * Files written outside this instance (or before the index existed) are
+   * picked up by a directory scan before each search; only new or changed
+   * files are read.
+   */
+  async searchSessions(query: SessionSearchQuery): Promise<SessionSearchHit[]> {
+    await this.syncSearchIndex();
+    return this.searchIndex.search(query);
+  }
+
   /**
    * Check if schema version is compatible with current version
-   * Currently: exact match only
-   * Future: semver comparison for backwards compatibility
+   * Accepts every supported version (1.1 only adds optional fields)
    */
   private isSchemaVersionCompatible(version: string): boolean {
-    return version === SESSION_SNAPSHOT_SCHEMA_VERSION;
+    return (SUPPORTED_SESSION_SNAPSHOT_SCHEMA_VERSIONS as readonly string[]).includes(version);
+  }
+
+  /**
+   * Bring the search index in line with the files on disk
+   *
+   * Indexes the newest file of each session that is not yet indexed and
+   * drops entries whose file no longer exists.
+   */
+  private async syncSearchIndex(): Promise<void> {
+    await this.searchIndex.load();
+
+    // Newest file per session: <teamDir>/<timestamp>-<sessionId>.json
+    const latestFiles = new Map<string, string>();
+    if (fs.existsSync(this.baseDir)) {
+      const entries = await fs.promises.readdir(this.baseDir, { withFileTypes: true });
+      for (const entry of entries.filter(e => e.isDirectory())) {
+        const files = await fs.promises.readdir(path.join(this.baseDir, entry.name));
+        for (const file of files.filter(f => f.endsWith('.json') && !f.endsWith('.tmp'))) {
+          const key = `${entry.name}/${file.slice(file.indexOf('-') + 1)}`;
+          const relative = path.join(entry.name, file);
+          const current = latestFiles.get(key);
+          if (!current || parseInt(path.basename(relative), 10) > parseInt(path.basename(current), 10)) {
+            latestFiles.set(key, relative);
+          }
+        }
+      }
+    }
+
+    const indexedFiles = this.searchIndex.getIndexedFiles();
+    for (const relative of latestFiles.values()) {
+      if (indexedFiles.has(relative)) continue;
+
+      try {
+        const content = await fs.promises.readFile(path.join(this.baseDir, relative), 'utf-8');
+        const rawData = JSON.parse(content);
+        if (!this.isSchemaVersionCompatible(rawData.schemaVersion)) {
+          continue;
+        }
+        await this.searchIndex.upsert(rawData.teamId, rawData as SessionSnapshot, relative);
+      } catch {
+        // Skip corrupted files silently
+        continue;
+      }
+    }
+
+    // Drop entries whose file was deleted (superseded files were replaced above)
+    const liveFiles = new Set(latestFiles.values());
+    for (const [file, ref] of this.searchIndex.getIndexedFiles()) {
+      if (!liveFiles.has(file)) {
+        await this.searchIndex.remove(ref.teamId, ref.sessionId);
+      }
+    }
   }
 
   /**
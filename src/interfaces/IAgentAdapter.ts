@@ -92,7 +92,9 @@ export interface IAgentAdapter {
 
   /**
    * Execution mode for this adapter
-   * - stateful: Spawns long-running process, sends messages via stdin (e.g., Claude Code)
+   * - stateful: Spawns long-running process, sends messages via stdin (e.g., Claude Code).
+   *   Adapters without formatStatefulInput (other than Claude Code) instead run one process
+   *   per turn and resume the previous turn's native session (see getResumeArgs)
    * - stateless: Executes command once per message with CLI arguments (e.g., Codex)
    */
   readonly executionMode: AgentExecutionMode;
@@ -131,4 +133,24 @@ export interface IAgentAdapter {
    * @throws Error if execution fails or if called on stateful adapter
    */
   executeOneShot?(message: string, config: AgentSpawnConfig): Promise<string>;
+
+  /**
+   * Format one turn's message for the stdin of a long-lived process (stateful mode only)
+   * Claude Code defaults to a stream-json user message line; other stateful adapters
+   * need this hook to keep a process alive across turns
+   *
+   * @param message - The prepared message to send
+   * @returns Data written to stdin
+   */
+  formatStatefulInput?(message: string): string;
+
+  /**
+   * CLI arguments that continue a native agent session (e.g. Codex thread)
+   * Claude Code defaults to `--resume <sessionId>`, Codex to `exec ... resume <sessionId>`;
+   * other agents need this hook to resume.
+   *
+   * @param sessionId - Native session ID reported in session.started
+   * @returns Arguments inserted before the prompt
+   */
+  getResumeArgs?(sessionId: string): string[];
 }
@@ -55,6 +55,8 @@ export interface SpawnOptions {
   shell?: boolean;
   /** Inherit parent process environment variables (default: true) */
   inheritEnv?: boolean;
+  /** Member ID the process runs for (informational, e.g. for replay or container naming) */
+  agentId?: string;
 }
 
 /**
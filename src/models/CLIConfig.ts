@@ -4,17 +4,24 @@
  * 从 ConversationStarter 迁移，作为独立的配置模型
  */
 
+import type { RoutingRule } from './RoutingRule.js';
+import type { VisibilityRule } from './VisibilityRule.js';
+import type { WorkspaceConfig } from './Workspace.js';
+import type { TeamMembershipConfig, TeamRosterConfig } from './Team.js';
+
 export interface AgentDefinition {
   name: string;
   command?: string; // Optional in schema 1.1 when referencing registry agent
   args?: string[];
   usePty?: boolean;
+  contextTokenBudget?: number;  // Default prompt token budget for members using this agent
 }
 
 export interface RoleDefinitionConfig {
   name: string;
   displayName?: string;
   description?: string;
+  handoffSchema?: Record<string, unknown>;  // JSON schema for [HANDOFF] payloads received by this role
 }
 
 export interface TeamMemberConfig {
@@ -29,21 +36,34 @@ export interface TeamMemberConfig {
   instructionFile?: string;
   env?: Record<string, string>;
   systemInstruction?: string | string[]; // Schema 1.2+, supports array for multi-line
+  contextTokenBudget?: number;  // Prompt token budget; overrides the agent's contextTokenBudget
+  promptTemplate?: string;  // Prompt template file (relative to baseDir); overrides the team's promptTemplate
 }
 
 export interface TeamConfig {
   name: string;
   displayName?: string;
   description: string;
-  instructionFile?: string;
+  instructionFile?: string;  // Team instructions for every prompt (relative to the project root); member instructions take precedence
   roleDefinitions?: RoleDefinitionConfig[];
   members: TeamMemberConfig[];
+  routingRules?: RoutingRule[];  // Declarative routing rules, evaluated when agents omit NEXT (or always)
+  visibilityRules?: VisibilityRule[];  // Per-recipient context visibility (private channels, role scoping)
+  promptTemplate?: string;  // Prompt template file for AI members (relative to the working directory)
+  workspaces?: WorkspaceConfig;  // Working directory per AI member (baseDir, git worktree or shared project root)
+  roster?: TeamRosterConfig;  // [TEAM] section listing members and routing markers in every agent prompt (default: enabled)
+  membership?: TeamMembershipConfig;  // AI members that may [INVITE] / [DISMISS] teammates mid-session (humans always can)
 }
 
 export interface ConversationConfig {
   maxAgentResponseTime?: number;  // Maximum timeout for agent response in ms (default: 1800000 = 30 minutes)
   showThinkingTimer?: boolean;     // Show timer when agent is thinking in REPL (default: true)
   allowEscCancel?: boolean;         // Allow ESC key to cancel agent execution in REPL (default: true)
+  maxSessionDuration?: number;      // Session wall-clock budget in ms; pauses for a human when exceeded (default: unlimited)
+  maxAgentTurns?: number;           // Session agent-turn budget; pauses for a human when exceeded (default: unlimited)
+  maxTotalTokens?: number;          // Session token budget across all members (default: unlimited)
+  maxTotalCostUsd?: number;         // Session cost budget in USD, for CLIs that report cost (default: unlimited)
+  summarizerMember?: string;        // AI member that summarizes messages falling out of the context window (default: extractive summary)
 }
 
 export interface CLIConfig {
@@ -95,6 +95,41 @@ export interface MessageRouting {
    * @see docs/design/route_rule/V3/queue-cleaning-protocol-engineering.md
    */
   dropTargets?: string[];
+
+  /**
+   * Member IDs a whispered message is restricted to ([WHISPER: ...])
+   *
+   * @remarks
+   * - Only the speaker and these members see the message in their context
+   * - undefined means visible to everyone (subject to team visibility rules)
+   */
+  visibleTo?: string[];
+
+  /**
+   * Structured handoffs from [HANDOFF: name]{json} markers
+   *
+   * @remarks
+   * - Rendered as [HANDOFF] in the prompt of the receiving member
+   * - Unresolved receivers are not recorded
+   */
+  handoffs?: MessageHandoff[];
+}
+
+/**
+ * Structured handoff payload addressed to one member
+ */
+export interface MessageHandoff {
+  /** Receiving member ID */
+  memberId: string;
+
+  /** JSON payload (empty when the payload could not be parsed) */
+  payload: Record<string, unknown>;
+
+  /**
+   * Payload problems: malformed JSON or violations of the receiver role's handoffSchema
+   * undefined means the payload is valid
+   */
+  errors?: string[];
 }
 
 /**
@@ -147,6 +182,34 @@ export interface ParsedAddressee {
   intent: 'P1' | 'P2' | 'P3';
 }
 
+/**
+ * Structured handoff parsed from [HANDOFF: name]{json}
+ */
+export interface ParsedHandoff {
+  /** Receiver name (raw, pre-normalization) */
+  target: string;
+
+  /** JSON object following the marker (undefined when missing or malformed) */
+  payload?: Record<string, unknown>;
+
+  /** Why the payload could not be parsed */
+  error?: string;
+}
+
+/**
+ * New member requested by an [INVITE: name as role using agent] marker
+ */
+export interface ParsedInvite {
+  /** Name of the new member (used in routing markers) */
+  name: string;
+
+  /** Role of the new member (RoleDefinition name) */
+  role: string;
+
+  /** Agent type to run the member with (e.g. claude) */
+  agentType: string;
+}
+
 /**
  * ParseResult - Message parsing result
  *
@@ -154,6 +217,9 @@ export interface ParsedAddressee {
  *
  * v3 extension: Added parsedAddressees with intent information
  * v3.1 extension: Added dropTargets for Queue Cleaning Protocol
+ * Added whisperTargets for private messages
+ * Added handoffs for structured handoff payloads
+ * Added invites/dismissTargets for mid-session membership changes
  */
 export interface ParseResult {
   /** Parsed addressee identifiers (legacy, for backward compatibility) */
@@ -187,6 +253,29 @@ export interface ParseResult {
    * @see docs/design/route_rule/V3/queue-cleaning-protocol-engineering.md
    */
   dropTargets: string[];
+
+  /**
+   * Members named in [WHISPER: ...] markers (raw, pre-normalization)
+   * Empty array means the message is visible to everyone
+   */
+  whisperTargets: string[];
+
+  /**
+   * Handoffs parsed from [HANDOFF: name]{json} markers, one per receiver
+   * Receivers are also included in addressees (routed like NEXT)
+   */
+  handoffs: ParsedHandoff[];
+
+  /**
+   * Members requested by [INVITE: name as role using agent] markers
+   * Malformed invitations are skipped
+   */
+  invites: ParsedInvite[];
+
+  /**
+   * Members named in [DISMISS: ...] markers (raw, pre-normalization)
+   */
+  dismissTargets: string[];
 }
 
 /**
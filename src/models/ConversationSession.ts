@@ -1,4 +1,6 @@
 import type { ConversationMessage } from './ConversationMessage.js';
+import type { SessionUsageStats } from './UsageStats.js';
+import type { SessionLineage, NativeSessionRef, MembershipChange } from './SessionSnapshot.js';
 
 /**
  * ConversationSession - 对话会话
@@ -19,6 +21,15 @@ export interface ConversationSession {
   // 团队任务上下文
   teamTask: string | null;
 
+  // 分叉来源（从其他会话分叉时存在）
+  forkedFrom?: SessionLineage;
+
+  // 各成员的 Agent CLI 原生会话（member ID -> session），用于恢复时续接
+  nativeSessions?: Record<string, NativeSessionRef>;
+
+  // 会话中通过 [INVITE] / [DISMISS] 增减的成员（按发生顺序），用于恢复时重放
+  membershipChanges?: MembershipChange[];
+
   // 消息历史
   messages: ConversationMessage[];
 
@@ -27,6 +38,8 @@ export interface ConversationSession {
     totalMessages: number;
     messagesByRole: Record<string, number>;
     duration: number;  // 毫秒
+    agentTurns?: number;  // 已执行的 Agent 轮次（用于 maxRounds 预算）
+    usage?: SessionUsageStats;  // Token/费用统计（总计 + 按成员）
   };
 }
 
@@ -56,7 +69,8 @@ export class SessionUtils {
       stats: {
         totalMessages: 0,
         messagesByRole: {},
-        duration: 0
+        duration: 0,
+        agentTurns: 0
       }
     };
   }
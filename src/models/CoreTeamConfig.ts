@@ -18,6 +18,16 @@ import type { TeamConfig, AgentDefinition } from './CLIConfig.js';
 export interface CoreConversationConfig {
   /** Agent 响应超时时间（毫秒） */
   maxAgentResponseTime?: number;
+  /** 会话时长预算（毫秒），超出后暂停并等待 Human */
+  maxSessionDuration?: number;
+  /** 会话 Agent 轮次预算，超出后暂停并等待 Human（队列保留） */
+  maxAgentTurns?: number;
+  /** 会话 Token 预算（所有成员合计） */
+  maxTotalTokens?: number;
+  /** 会话费用预算（美元，仅统计上报费用的 CLI） */
+  maxTotalCostUsd?: number;
+  /** 负责摘要的 AI 成员名称（上下文窗口外的消息折叠为 [SUMMARY]；未设置时使用抽取式摘要） */
+  summarizerMember?: string;
 }
 
 /**
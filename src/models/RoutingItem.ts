@@ -2,7 +2,7 @@
  * RoutingItem - Routing queue item
  *
  * Internal data structure for the routing queue.
- * Not persisted to storage.
+ * Pending items are persisted via RoutingQueueState (session snapshot 1.1+).
  *
  * @see docs/design/route_rule/V3/detail/01-data-model.md
  */
@@ -67,6 +67,22 @@ export interface RoutingItem {
   enqueuedAt: number;
 }
 
+/**
+ * Serializable RoutingQueue state
+ *
+ * Stored in SessionSnapshot (schema 1.1+) so pending routes survive a resume.
+ */
+export interface RoutingQueueState {
+  /** Pending items in queue order */
+  items: RoutingItem[];
+  /** Last completed message ID (local set anchor) */
+  lastCompletedMessageId: string | null;
+  /** Consecutive local scheduling count */
+  localSeqCount: number;
+  /** Deduplication keys: parentMessageId:targetMemberId:intent */
+  dedupeKeys: string[];
+}
+
 /**
  * Generate a unique routing item ID
  */
@@ -0,0 +1,52 @@
+/**
+ * RoutingRule - Declarative routing rules from team config
+ *
+ * Rules make deterministic workflows independent of agents emitting
+ * [NEXT: ...] markers, e.g. "after any coder message route to reviewer"
+ * or "if the message matches /LGTM/ route to the human".
+ *
+ * Evaluated by RoutingRuleEngine in ConversationCoordinator.routeToNext.
+ */
+
+import type { ShortIntent } from './RoutingItem.js';
+
+/**
+ * When a rule applies
+ * - fallback: only when the message has no explicit NEXT marker (default)
+ * - always: in addition to explicit NEXT markers
+ */
+export type RoutingRuleMode = 'fallback' | 'always';
+
+/**
+ * Rule predicates (all present predicates must match; empty matches every message)
+ */
+export interface RoutingRuleCondition {
+  /** Speaker role(s), matched against Member.role */
+  fromRole?: string | string[];
+  /** Speaker member name(s) or ID(s) */
+  fromMember?: string | string[];
+  /** Speaker type */
+  speakerType?: 'ai' | 'human';
+  /** Regular expression tested against the message content (markers already stripped) */
+  matches?: string;
+  /** RegExp flags for `matches`, e.g. "i" */
+  matchFlags?: string;
+}
+
+/**
+ * Declarative routing rule
+ */
+export interface RoutingRule {
+  /** Optional name, used in logs */
+  name?: string;
+  when?: RoutingRuleCondition;
+  /**
+   * Target(s): member name/ID, "role:<role>" (all members with that role),
+   * or "$human" (first human by order)
+   */
+  routeTo: string | string[];
+  /** Default: 'fallback' */
+  mode?: RoutingRuleMode;
+  /** Routing intent for enqueued targets (default: P2) */
+  intent?: ShortIntent;
+}
@@ -9,15 +9,25 @@
  * - Read path: Accept both formats, migrate legacy to new
  */
 
-import type { ContextSnapshot } from '../context/types.js';
-import type { ConversationMessage } from './ConversationMessage.js';
+import type { ContextSnapshot, ConversationSummary } from '../context/types.js';
+import type { ConversationMessage, MessageHandoff } from './ConversationMessage.js';
 import type { ConversationSession } from './ConversationSession.js';
 import type { SpeakerInfo } from './SpeakerInfo.js';
+import type { SessionUsageStats } from './UsageStats.js';
+import type { RoutingQueueState } from './RoutingItem.js';
 
 /**
  * Current schema version for session snapshots
+ * 1.1: adds the pending routing queue (`routingQueue`) and native agent sessions (`nativeSessions`)
  */
-export const SESSION_SNAPSHOT_SCHEMA_VERSION = '1.0' as const;
+export const SESSION_SNAPSHOT_SCHEMA_VERSION = '1.1' as const;
+
+/**
+ * Schema versions that can still be loaded
+ */
+export const SUPPORTED_SESSION_SNAPSHOT_SCHEMA_VERSIONS = ['1.0', '1.1'] as const;
+
+export type SessionSnapshotSchemaVersion = typeof SUPPORTED_SESSION_SNAPSHOT_SCHEMA_VERSIONS[number];
 
 /**
  * Persisted message format (for session snapshots)
@@ -35,6 +45,12 @@ export interface PersistedMessage {
       memberId: string | null;
       memberName: string | null;
     }>;
+    parentMessageId?: string;
+    intent?: 'P1_INTERRUPT' | 'P2_REPLY' | 'P3_EXTEND';
+    /** Whisper recipients (member IDs), 1.1+ */
+    visibleTo?: string[];
+    /** Structured handoffs ([HANDOFF] markers), 1.1+ */
+    handoffs?: MessageHandoff[];
   };
 }
 
@@ -47,6 +63,8 @@ export interface PersistedContextSnapshot {
   teamTask: string | null;
   timestamp: number;
   version: 1;
+  /** Rolling summary of compacted messages (1.1+) */
+  summary?: ConversationSummary;
 }
 
 /**
@@ -69,6 +87,90 @@ export interface SessionMetadata {
    * Format: "{count} messages - \"{preview}...\""
    */
   summary?: string;
+
+  /**
+   * Number of agent turns executed in this session
+   * Restored on resume so the maxRounds budget carries across restarts
+   */
+  agentTurns?: number;
+
+  /**
+   * Token/cost usage aggregated per session and per member
+   */
+  usage?: SessionUsageStats;
+}
+
+/**
+ * Lineage of a forked session
+ */
+export interface SessionLineage {
+  /**
+   * Session the fork was created from
+   */
+  sessionId: string;
+
+  /**
+   * Last message kept in the fork (inclusive)
+   */
+  messageId: string;
+
+  /**
+   * Fork creation timestamp
+   * Format: ISO 8601
+   */
+  forkedAt: string;
+}
+
+/**
+ * Native agent CLI session of a member (Claude session_id, Codex thread_id, Gemini session_id)
+ */
+export interface NativeSessionRef {
+  /**
+   * Session identifier reported by the agent CLI (session.started)
+   */
+  sessionId: string;
+
+  /**
+   * Last message delivered to the native session (parent of the member's last turn)
+   * On resume, only later messages are sent
+   */
+  lastMessageId: string;
+}
+
+/**
+ * Member added or removed mid-session by an [INVITE] / [DISMISS] marker
+ *
+ * Replayed in order on top of the configured team when the session is restored.
+ */
+export interface MembershipChange {
+  action: 'invite' | 'dismiss';
+
+  /**
+   * Member ID and name (invite: the new member; dismiss: the removed member)
+   */
+  memberId: string;
+  memberName: string;
+
+  /**
+   * invite: role and agent type the member was provisioned with
+   */
+  role?: string;
+  agentType?: string;
+
+  /**
+   * Member whose message carried the marker
+   */
+  requestedBy: string;
+
+  /**
+   * Message carrying the marker (forks keep changes up to the fork point)
+   */
+  messageId: string;
+
+  /**
+   * Format: ISO 8601
+   */
+  timestamp: string;
 }
 
 /**
@@ -78,9 +180,9 @@ export interface SessionMetadata {
 export interface SessionSnapshot {
   /**
    * Schema version for file format migration
-   * Current: "1.0"
+   * Current: "1.1" ("1.0" snapshots are still loaded)
    */
-  schemaVersion: '1.0';
+  schemaVersion: SessionSnapshotSchemaVersion;
 
   /**
    * Team identifier
@@ -118,6 +220,29 @@ export interface SessionSnapshot {
    * Additional metadata for restore logic and display
    */
   metadata: SessionMetadata;
+
+  /**
+   * Present when this session was forked from another session
+   */
+  forkedFrom?: SessionLineage;
+
+  /**
+   * Pending routing queue at save time (schema 1.1+)
+   * Rehydrated on resume when SetTeamOptions.restoreRoutingQueue is set
+   */
+  routingQueue?: RoutingQueueState;
+
+  /**
+   * Native agent CLI sessions by member ID (schema 1.1+)
+   * Continued on resume when SetTeamOptions.resumeNativeSessions is set
+   */
+  nativeSessions?: Record<string, NativeSessionRef>;
+
+  /**
+   * Members invited or dismissed during the session, in order (schema 1.1+)
+   * Replayed on restore
+   */
+  membershipChanges?: MembershipChange[];
 }
 
 /**
@@ -130,6 +255,7 @@ export interface SessionSummary {
   updatedAt: string;
   messageCount: number;
   summary?: string;
+  forkedFrom?: SessionLineage;
 }
 
 /**
@@ -145,6 +271,10 @@ function toPersistedMessage(msg: ConversationMessage): PersistedMessage {
       memberId: addr.memberId,
       memberName: addr.memberName,
     })),
+    parentMessageId: msg.routing.parentMessageId,
+    intent: msg.routing.intent,
+    visibleTo: msg.routing.visibleTo,
+    handoffs: msg.routing.handoffs,
   } : undefined;
 
   return {
@@ -160,10 +290,13 @@ function toPersistedMessage(msg: ConversationMessage): PersistedMessage {
 
 /**
  * Create a new SessionSnapshot from current session state
+ *
+ * @param routingQueue - Pending routing queue state (omitted when empty)
  */
 export function createSessionSnapshot(
   session: ConversationSession,
-  contextSnapshot: ContextSnapshot
+  contextSnapshot: ContextSnapshot,
+  routingQueue?: RoutingQueueState
 ): SessionSnapshot {
   const messages = contextSnapshot.messages;
   const lastMessage = messages[messages.length - 1];
@@ -175,6 +308,7 @@ export function createSessionSnapshot(
     teamTask: contextSnapshot.teamTask,
     timestamp: contextSnapshot.timestamp,
     version: 1,
+    summary: contextSnapshot.summary,
   };
 
   return {
@@ -188,14 +322,20 @@ export function createSessionSnapshot(
       lastSpeakerId: lastMessage?.speaker.id,
       messageCount: messages.length,
       summary: generateSummary(messages),
+      agentTurns: session.stats.agentTurns ?? 0,
+      usage: session.stats.usage,
     },
+    forkedFrom: session.forkedFrom,
+    routingQueue: routingQueue && routingQueue.items.length > 0 ? routingQueue : undefined,
+    nativeSessions: session.nativeSessions,
+    membershipChanges: session.membershipChanges,
   };
 }
 
 /**
  * Generate human-readable summary from messages
  */
-function generateSummary(messages: ConversationMessage[]): string {
+function generateSummary(messages: Array<Pick<ConversationMessage, 'content'>>): string {
   if (messages.length === 0) {
     return 'Empty conversation';
   }
@@ -218,5 +358,70 @@ export function extractSessionSummary(snapshot: SessionSnapshot): SessionSummary
     updatedAt: snapshot.updatedAt,
     messageCount: snapshot.metadata.messageCount,
     summary: snapshot.metadata.summary,
+    forkedFrom: snapshot.forkedFrom,
+  };
+}
+
+/**
+ * Fork a session snapshot at a historical message
+ *
+ * The fork keeps messages up to and including `messageId`, gets a new
+ * sessionId and records its lineage in `forkedFrom`. Agent turns are
+ * recounted from the kept AI messages; usage stats start empty because
+ * they cannot be attributed to individual messages.
+ *
+ * @param snapshot - Source session snapshot
+ * @param messageId - Last message to keep
+ * @param newSessionId - Session ID for the fork
+ * @throws Error if messageId is not part of the source session
+ */
+export function forkSessionSnapshot(
+  snapshot: SessionSnapshot,
+  messageId: string,
+  newSessionId: string
+): SessionSnapshot {
+  const index = snapshot.context.messages.findIndex(m => m.id === messageId);
+  if (index === -1) {
+    throw new Error(
+      `Message '${messageId}' not found in session '${snapshot.sessionId}'`
+    );
+  }
+
+  const messages = snapshot.context.messages.slice(0, index + 1);
+  const lastMessage = messages[messages.length - 1];
+  const now = new Date().toISOString();
+
+  // Keep the rolling summary only if it covers nothing after the fork point
+  const summary = snapshot.context.summary;
+  const keepSummary = summary !== undefined && messages.some(m => m.id === summary.throughMessageId);
+
+  // Membership changes made after the fork point are not part of the fork
+  const keptIds = new Set(messages.map(m => m.id));
+  const membershipChanges = snapshot.membershipChanges?.filter(change => keptIds.has(change.messageId));
+
+  return {
+    schemaVersion: SESSION_SNAPSHOT_SCHEMA_VERSION,
+    teamId: snapshot.teamId,
+    sessionId: newSessionId,
+    createdAt: now,
+    updatedAt: now,
+    context: {
+      ...snapshot.context,
+      messages,
+      timestamp: Date.now(),
+      summary: keepSummary ? summary : undefined,
+    },
+    metadata: {
+      lastSpeakerId: lastMessage.speaker.id,
+      messageCount: messages.length,
+      summary: generateSummary(messages),
+      agentTurns: messages.filter(m => m.speaker.type === 'ai').length,
+    },
+    forkedFrom: {
+      sessionId: snapshot.sessionId,
+      messageId,
+      forkedAt: now,
+    },
+    membershipChanges: membershipChanges && membershipChanges.length > 0 ? membershipChanges : undefined,
   };
 }
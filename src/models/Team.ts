@@ -2,22 +2,46 @@
  * Team 数据结构定义
  */
 
+import type { RoutingRule } from './RoutingRule.js';
+import type { VisibilityRule } from './VisibilityRule.js';
+
 export interface Team {
   id: string;
   name: string;
   displayName?: string;
   description: string;
-  instructionFile?: string;
+  instructionFile?: string;  // 团队级指令文件，作为 [TEAM_INSTRUCTIONS] 注入每个 Prompt（成员指令优先）
   roleDefinitions?: RoleDefinition[];
   members: Member[];
+  routingRules?: RoutingRule[];  // 声明式路由规则（无 NEXT 或追加 NEXT 时生效）
+  visibilityRules?: VisibilityRule[];  // 按接收者过滤上下文的可见性规则
+  roster?: TeamRosterConfig;  // Prompt 中的 [TEAM] 成员名单
+  membership?: TeamMembershipConfig;  // 会话中通过 [INVITE] / [DISMISS] 增减成员的权限
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * [TEAM] 成员名单配置（默认启用）
+ */
+export interface TeamRosterConfig {
+  enabled?: boolean;  // 是否在每个 Agent 的 prompt 中列出成员（默认 true）
+  markerSyntax?: boolean;  // 是否附带 NEXT/DROP 标记语法说明（默认 true）
+}
+
+/**
+ * 会话中增减成员（[INVITE] / [DISMISS] 标记）的配置
+ * Human 成员始终可以使用这些标记
+ */
+export interface TeamMembershipConfig {
+  leads?: string[];  // 同样可以邀请/移除成员的 AI 成员名称
+}
+
 export interface RoleDefinition {
   name: string;
   displayName?: string;
   description?: string;
+  handoffSchema?: Record<string, unknown>;  // 该角色接收的 [HANDOFF] 负载的 JSON Schema
 }
 
 /**
@@ -35,11 +59,15 @@ export interface Member {
   agentConfigId?: string;
   themeColor?: string;
   baseDir?: string;
+  workDir?: string;  // Agent 进程的工作目录（baseDir、git worktree 或项目根目录）
   instructionFile?: string;
   env?: Record<string, string>;
   systemInstruction?: string | string[];
   instructionFileText?: string; // Resolved content of instructionFile for prompt assembly
   additionalArgs?: string[];  // 成员特定的额外 CLI 参数（用于 Adapter）
+  contextTokenBudget?: number;  // Prompt 的 token 预算（成员配置优先，否则取 agent 配置）
+  promptTemplate?: string;  // Prompt 模板文件路径（成员配置优先，否则取团队配置）
+  promptTemplateText?: string;  // Resolved content of promptTemplate for prompt assembly
   order?: number;  // Optional: member order for fallback routing (default: array index)
 }
 
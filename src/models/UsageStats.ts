@@ -0,0 +1,117 @@
+/**
+ * Usage Stats
+ *
+ * Token and cost accounting aggregated from `usage` AgentEvents.
+ * Kept on ConversationSession.stats and persisted in SessionSnapshot metadata.
+ */
+
+/**
+ * Usage reported for a single agent turn
+ * Mirrors the payload of UsageEvent
+ */
+export interface UsageDelta {
+  /** Prompt tokens, including cached tokens */
+  inputTokens: number;
+  /** Completion tokens */
+  outputTokens: number;
+  /** Prompt tokens served from cache (subset of inputTokens) */
+  cachedInputTokens?: number;
+  /** Total tokens (defaults to input + output when the CLI does not report it) */
+  totalTokens?: number;
+  /** Cost in USD (only reported by some CLIs, e.g. Claude Code) */
+  costUsd?: number;
+}
+
+/**
+ * Accumulated usage
+ */
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  /** Number of turns that reported usage */
+  turns: number;
+}
+
+/**
+ * Per-session usage, broken down by member ID
+ */
+export interface SessionUsageStats {
+  total: UsageTotals;
+  byMember: Record<string, UsageTotals>;
+}
+
+/**
+ * Create zeroed usage totals
+ */
+export function createEmptyUsageTotals(): UsageTotals {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cachedInputTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+    turns: 0,
+  };
+}
+
+/**
+ * Create empty session usage stats
+ */
+export function createEmptySessionUsage(): SessionUsageStats {
+  return {
+    total: createEmptyUsageTotals(),
+    byMember: {},
+  };
+}
+
+/**
+ * Add a single turn's usage to existing totals (returns new object)
+ */
+export function addUsage(totals: UsageTotals, delta: UsageDelta): UsageTotals {
+  return {
+    inputTokens: totals.inputTokens + delta.inputTokens,
+    outputTokens: totals.outputTokens + delta.outputTokens,
+    cachedInputTokens: totals.cachedInputTokens + (delta.cachedInputTokens ?? 0),
+    totalTokens: totals.totalTokens + (delta.totalTokens ?? delta.inputTokens + delta.outputTokens),
+    costUsd: totals.costUsd + (delta.costUsd ?? 0),
+    turns: totals.turns + 1,
+  };
+}
+
+/**
+ * Merge two usage deltas reported within the same turn
+ */
+export function mergeUsageDelta(a: UsageDelta, b: UsageDelta): UsageDelta {
+  const sumOptional = (x?: number, y?: number) =>
+    x === undefined && y === undefined ? undefined : (x ?? 0) + (y ?? 0);
+
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cachedInputTokens: sumOptional(a.cachedInputTokens, b.cachedInputTokens),
+    totalTokens: a.totalTokens === undefined && b.totalTokens === undefined
+      ? undefined
+      : (a.totalTokens ?? a.inputTokens + a.outputTokens) + (b.totalTokens ?? b.inputTokens + b.outputTokens),
+    costUsd: sumOptional(a.costUsd, b.costUsd),
+  };
+}
+
+/**
+ * Record a member's turn usage into session usage stats (returns new object)
+ */
+export function recordMemberUsage(
+  stats: SessionUsageStats,
+  memberId: string,
+  delta: UsageDelta
+): SessionUsageStats {
+  return {
+    total: addUsage(stats.total, delta),
+    byMember: {
+      ...stats.byMember,
+      [memberId]: addUsage(stats.byMember[memberId] ?? createEmptyUsageTotals(), delta),
+    },
+  };
+}
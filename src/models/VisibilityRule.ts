@@ -0,0 +1,48 @@
+/**
+ * VisibilityRule - Per-member context visibility from team config
+ *
+ * By default every AI member sees the same shared context window. Visibility
+ * rules scope it per recipient, e.g. "security-reviewer only sees messages
+ * addressed to it or from coder", or "human side notes are hidden from agents".
+ *
+ * Evaluated by VisibilityRuleEngine; ContextManager filters each recipient's
+ * context with it. Independently of rules, a message carrying a
+ * [WHISPER: ...] marker is only visible to its speaker and the listed members.
+ */
+
+/**
+ * Message predicates (all present predicates must match)
+ */
+export interface VisibilityCondition {
+  /** Speaker role(s), matched against Member.role */
+  fromRole?: string | string[];
+  /** Speaker member name(s) or ID(s) */
+  fromMember?: string | string[];
+  /** Speaker type */
+  speakerType?: 'ai' | 'human';
+  /** Whether the message was routed to the recipient (NEXT marker or routing rule) */
+  addressedToSelf?: boolean;
+}
+
+/**
+ * Declarative visibility rule
+ *
+ * @remarks
+ * - A message is visible to a recipient if it matches any `visibleWhen`
+ *   condition (when present) and no `hiddenWhen` condition
+ * - When several rules apply to a recipient, the message must pass all of them
+ * - A member always sees its own messages
+ */
+export interface VisibilityRule {
+  /** Optional name, used in logs */
+  name?: string;
+  /**
+   * Recipients the rule applies to: member name/ID, "role:<role>",
+   * or "*" (every AI member)
+   */
+  appliesTo: string | string[];
+  /** Allowlist: only messages matching one of these conditions are visible */
+  visibleWhen?: VisibilityCondition[];
+  /** Denylist: messages matching one of these conditions are hidden */
+  hiddenWhen?: VisibilityCondition[];
+}
@@ -0,0 +1,63 @@
+/**
+ * Workspace - Per-member working directories from team config
+ *
+ * Each AI member's CLI runs in its own working directory so concurrent
+ * members do not edit the same files:
+ * - baseDir (default): the member's baseDir
+ * - worktree: a git worktree of the project on a per-member branch,
+ *   reviewed and merged back through WorkspaceManager
+ * - shared: every member runs in the project root (previous behavior)
+ */
+
+export type WorkspaceMode = 'baseDir' | 'worktree' | 'shared';
+
+/**
+ * team.workspaces configuration
+ */
+export interface WorkspaceConfig {
+  /** Working directory strategy (default: baseDir) */
+  mode?: WorkspaceMode;
+  /** worktree: directory holding member worktrees (default: "<repo>-worktrees" next to the repository) */
+  root?: string;
+  /** worktree: branch or commit member branches start from (default: HEAD) */
+  baseRef?: string;
+  /** worktree: member branch name prefix (default: "agent-chatter/") */
+  branchPrefix?: string;
+}
+
+/**
+ * A member's provisioned git worktree
+ */
+export interface MemberWorkspace {
+  memberId: string;
+  /** Absolute worktree path (the agent's working directory) */
+  path: string;
+  /** Branch checked out in the worktree */
+  branch: string;
+}
+
+/**
+ * Changes made in a member workspace, committed or not
+ */
+export interface WorkspaceDiff {
+  memberId: string;
+  branch: string;
+  /** Changed paths, relative to the repository root */
+  files: string[];
+  /** Unified diff against the merge base with the project checkout (empty when unchanged) */
+  patch: string;
+}
+
+/**
+ * Result of merging a member branch into the project checkout
+ */
+export interface WorkspaceMergeResult {
+  memberId: string;
+  branch: string;
+  /** false when the merge was aborted because of conflicts */
+  merged: boolean;
+  /** Commit created for uncommitted workspace changes before merging */
+  workspaceCommit?: string;
+  /** Conflicting paths (merge aborted, project checkout unchanged) */
+  conflicts: string[];
+}
@@ -1,5 +1,5 @@
 // 导出所有数据模型
-export type { Team, Member, RoleDefinition } from './Team.js';
+export type { Team, Member, RoleDefinition, TeamMembershipConfig, TeamRosterConfig } from './Team.js';
 export { TeamUtils } from './Team.js';
 export type { ValidationResult as TeamValidationResult } from './Team.js';
 
@@ -13,11 +13,26 @@ export type { ValidationResult as AgentValidationResult } from './AgentConfig.js
 export type * from './ConversationMessage.js';
 export type * from './ConversationSession.js';
 
+// Token/cost usage accounting
+export type {
+  UsageDelta,
+  UsageTotals,
+  SessionUsageStats,
+} from './UsageStats.js';
+export {
+  createEmptyUsageTotals,
+  createEmptySessionUsage,
+  addUsage,
+  mergeUsageDelta,
+  recordMemberUsage,
+} from './UsageStats.js';
+
 // v3: RoutingItem and related types
 export type {
   RoutingItem,
   RoutingIntent,
   ShortIntent,
+  RoutingQueueState,
 } from './RoutingItem.js';
 export {
   generateRoutingItemId,
@@ -27,6 +42,28 @@ export {
   compareIntents,
 } from './RoutingItem.js';
 
+// Declarative routing rules (team config)
+export type {
+  RoutingRule,
+  RoutingRuleCondition,
+  RoutingRuleMode,
+} from './RoutingRule.js';
+
+// Context visibility rules (team config)
+export type {
+  VisibilityRule,
+  VisibilityCondition,
+} from './VisibilityRule.js';
+
+// Per-member workspaces (team config)
+export type {
+  WorkspaceConfig,
+  WorkspaceMode,
+  MemberWorkspace,
+  WorkspaceDiff,
+  WorkspaceMergeResult,
+} from './Workspace.js';
+
 // v3: Queue events with extended types
 export type {
   QueueUpdateEvent,
@@ -7,10 +7,13 @@
  * - AI members have agentConfigId
  * - Member names are unique
  * - At least 2 members in the team
+ * - Routing rules reference existing members/roles and use valid patterns
  *
  * Schema Version: 1.1 and 1.2 supported
  */
 
+import { checkHandoffSchema } from '../utils/handoffSchema.js';
+
 export const TeamConfigSchema = {
   $schema: "http://json-schema.org/draft-07/schema#",
   type: "object",
@@ -30,7 +33,8 @@ export const TeamConfigSchema = {
         properties: {
           name: { type: "string" },
           args: { type: "array", items: { type: "string" } },
-          usePty: { type: "boolean" }
+          usePty: { type: "boolean" },
+          contextTokenBudget: { type: "integer", minimum: 1 }
         },
         additionalProperties: false
       }
@@ -56,6 +60,47 @@ export const TeamConfigSchema = {
           type: "string",
           description: "Path to team instruction file"
         },
+        promptTemplate: {
+          type: "string",
+          minLength: 1,
+          description: "Path to prompt template file for AI members"
+        },
+        workspaces: {
+          type: "object",
+          description: "Working directory of each AI member's CLI",
+          properties: {
+            mode: {
+              type: "string",
+              enum: ["baseDir", "worktree", "shared"],
+              description: "baseDir (default), worktree (git worktree per member) or shared (project root)"
+            },
+            root: { type: "string", minLength: 1 },
+            baseRef: { type: "string", minLength: 1 },
+            branchPrefix: { type: "string" }
+          },
+          additionalProperties: false
+        },
+        roster: {
+          type: "object",
+          description: "[TEAM] member roster in agent prompts",
+          properties: {
+            enabled: { type: "boolean", description: "Include the roster (default: true)" },
+            markerSyntax: { type: "boolean", description: "Explain NEXT/DROP markers (default: true)" }
+          },
+          additionalProperties: false
+        },
+        membership: {
+          type: "object",
+          description: "Mid-session [INVITE] / [DISMISS] markers",
+          properties: {
+            leads: {
+              type: "array",
+              items: { type: "string", minLength: 1 },
+              description: "AI members that may invite or dismiss teammates (humans always can)"
+            }
+          },
+          additionalProperties: false
+        },
         roleDefinitions: {
           type: "array",
           description: "Role definitions for team members",
@@ -75,6 +120,10 @@ export const TeamConfigSchema = {
               description: {
                 type: "string",
                 description: "Role description"
+              },
+              handoffSchema: {
+                type: "object",
+                description: "JSON schema for [HANDOFF] payloads received by this role"
               }
             }
           }
@@ -156,9 +205,117 @@ export const TeamConfigSchema = {
                 type: "number",
                 minimum: 0,
                 description: "Member order in round-robin rotation"
+              },
+              contextTokenBudget: {
+                type: "integer",
+                minimum: 1,
+                description: "Prompt token budget (overrides the agent's budget)"
+              },
+              promptTemplate: {
+                type: "string",
+                minLength: 1,
+                description: "Path to prompt template file (overrides the team's template)"
               }
             },
           }
+        },
+        routingRules: {
+          type: "array",
+          description: "Declarative routing rules (evaluated in order)",
+          items: {
+            type: "object",
+            required: ["routeTo"],
+            properties: {
+              name: {
+                type: "string",
+                description: "Rule name (used in logs)"
+              },
+              when: {
+                type: "object",
+                description: "Predicates; all present predicates must match",
+                properties: {
+                  fromRole: {
+                    oneOf: [
+                      { type: "string" },
+                      { type: "array", items: { type: "string" } }
+                    ],
+                    description: "Speaker role(s)"
+                  },
+                  fromMember: {
+                    oneOf: [
+                      { type: "string" },
+                      { type: "array", items: { type: "string" } }
+                    ],
+                    description: "Speaker member name(s)"
+                  },
+                  speakerType: {
+                    type: "string",
+                    enum: ["ai", "human"],
+                    description: "Speaker type"
+                  },
+                  matches: {
+                    type: "string",
+                    description: "Regular expression tested against the message content"
+                  },
+                  matchFlags: {
+                    type: "string",
+                    description: "RegExp flags for matches (e.g. \"i\")"
+                  }
+                },
+                additionalProperties: false
+              },
+              routeTo: {
+                oneOf: [
+                  { type: "string", minLength: 1 },
+                  { type: "array", minItems: 1, items: { type: "string", minLength: 1 } }
+                ],
+                description: "Member name, \"role:<role>\" or \"$human\""
+              },
+              mode: {
+                type: "string",
+                enum: ["fallback", "always"],
+                description: "fallback: only without NEXT markers (default); always: in addition to NEXT"
+              },
+              intent: {
+                type: "string",
+                enum: ["P1", "P2", "P3"],
+                description: "Routing intent for rule targets (default: P2)"
+              }
+            },
+            additionalProperties: false
+          }
+        },
+        visibilityRules: {
+          type: "array",
+          description: "Per-recipient context visibility rules",
+          items: {
+            type: "object",
+            required: ["appliesTo"],
+            properties: {
+              name: {
+                type: "string",
+                description: "Rule name (used in logs)"
+              },
+              appliesTo: {
+                oneOf: [
+                  { type: "string", minLength: 1 },
+                  { type: "array", minItems: 1, items: { type: "string", minLength: 1 } }
+                ],
+                description: "Recipient member name, \"role:<role>\" or \"*\" (every AI member)"
+              },
+              visibleWhen: {
+                type: "array",
+                description: "Allowlist: only messages matching one of these conditions are visible",
+                items: { type: "object" }
+              },
+              hiddenWhen: {
+                type: "array",
+                description: "Denylist: messages matching one of these conditions are hidden",
+                items: { type: "object" }
+              }
+            },
+            additionalProperties: false
+          }
         }
       }
     },
@@ -345,8 +502,66 @@ export function validateTeamConfig(config: any): SchemaValidationResult {
         });
       }
     }
+
+    if (member.contextTokenBudget !== undefined &&
+        (!Number.isInteger(member.contextTokenBudget) || member.contextTokenBudget < 1)) {
+      errors.push({
+        path: `${basePath}.contextTokenBudget`,
+        message: 'Member contextTokenBudget must be a positive integer'
+      });
+    }
+
+    if (member.promptTemplate !== undefined &&
+        (typeof member.promptTemplate !== 'string' || !member.promptTemplate.trim())) {
+      errors.push({
+        path: `${basePath}.promptTemplate`,
+        message: 'Member promptTemplate must be a non-empty file path'
+      });
+    }
   });
 
+  if (team.promptTemplate !== undefined &&
+      (typeof team.promptTemplate !== 'string' || !team.promptTemplate.trim())) {
+    errors.push({
+      path: 'team.promptTemplate',
+      message: 'team.promptTemplate must be a non-empty file path'
+    });
+  }
+
+  // Validate workspaces if present
+  if (team.workspaces !== undefined) {
+    errors.push(...validateWorkspaces(team));
+  }
+
+  // Validate roster if present
+  if (team.roster !== undefined) {
+    if (typeof team.roster !== 'object' || team.roster === null || Array.isArray(team.roster)) {
+      errors.push({
+        path: 'team.roster',
+        message: 'team.roster must be an object'
+      });
+    } else {
+      for (const key of Object.keys(team.roster)) {
+        if (key !== 'enabled' && key !== 'markerSyntax') {
+          errors.push({
+            path: `team.roster.${key}`,
+            message: `Unknown roster field "${key}"`
+          });
+        } else if (typeof team.roster[key] !== 'boolean') {
+          errors.push({
+            path: `team.roster.${key}`,
+            message: `team.roster.${key} must be a boolean`
+          });
+        }
+      }
+    }
+  }
+
+  // Validate membership if present
+  if (team.membership !== undefined) {
+    errors.push(...validateMembership(team));
+  }
+
   // Validate roleDefinitions if present
   if (team.roleDefinitions !== undefined) {
     if (!Array.isArray(team.roleDefinitions)) {
@@ -362,10 +577,33 @@ export function validateTeamConfig(config: any): SchemaValidationResult {
             message: 'RoleDefinition name is required and must be a string'
           });
         }
+
+        if (roleDef.handoffSchema !== undefined) {
+          const schemaError = typeof roleDef.handoffSchema === 'object' && roleDef.handoffSchema !== null &&
+            !Array.isArray(roleDef.handoffSchema)
+            ? checkHandoffSchema(roleDef)
+            : 'RoleDefinition handoffSchema must be a JSON schema object';
+          if (schemaError) {
+            errors.push({
+              path: `team.roleDefinitions[${index}].handoffSchema`,
+              message: schemaError
+            });
+          }
+        }
       });
     }
   }
 
+  // Validate routingRules if present
+  if (team.routingRules !== undefined) {
+    errors.push(...validateRoutingRules(team));
+  }
+
+  // Validate visibilityRules if present
+  if (team.visibilityRules !== undefined) {
+    errors.push(...validateVisibilityRules(team));
+  }
+
   // Validate maxRounds if present (0 = unlimited)
   if (config.maxRounds !== undefined) {
     if (typeof config.maxRounds !== 'number' || config.maxRounds < 0) {
@@ -376,8 +614,366 @@ export function validateTeamConfig(config: any): SchemaValidationResult {
     }
   }
 
+  // Validate conversation budgets if present (0 = unlimited)
+  for (const key of CONVERSATION_BUDGET_KEYS) {
+    const value = config.conversation?.[key];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      errors.push({
+        path: `conversation.${key}`,
+        message: `conversation.${key} must be a number >= 0 (0 = unlimited)`
+      });
+    }
+  }
+
   return {
     valid: errors.length === 0,
     errors
   };
 }
+
+const CONVERSATION_BUDGET_KEYS = ['maxSessionDuration', 'maxAgentTurns', 'maxTotalTokens', 'maxTotalCostUsd'];
+
+const RULE_CONDITION_KEYS = ['fromRole', 'fromMember', 'speakerType', 'matches', 'matchFlags'];
+const RULE_KEYS = ['name', 'when', 'routeTo', 'mode', 'intent'];
+
+const VISIBILITY_CONDITION_KEYS = ['fromRole', 'fromMember', 'speakerType', 'addressedToSelf'];
+const VISIBILITY_RULE_KEYS = ['name', 'appliesTo', 'visibleWhen', 'hiddenWhen'];
+
+function isStringOrStringArray(value: unknown, allowEmpty = true): boolean {
+  if (typeof value === 'string') {
+    return allowEmpty || value.length > 0;
+  }
+  return Array.isArray(value) &&
+    (allowEmpty || value.length > 0) &&
+    value.every(item => typeof item === 'string' && (allowEmpty || item.length > 0));
+}
+
+/**
+ * Validate team.routingRules
+ * Targets must reference an existing member name, a role used by the team, or $human
+ */
+function validateRoutingRules(team: any): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+
+  if (!Array.isArray(team.routingRules)) {
+    errors.push({
+      path: 'team.routingRules',
+      message: 'team.routingRules must be an array'
+    });
+    return errors;
+  }
+
+  const members: any[] = Array.isArray(team.members) ? team.members : [];
+  const memberNames = new Set(members.map(m => m?.name).filter(Boolean));
+  const roles = new Set<string>([
+    ...members.map(m => m?.role),
+    ...(Array.isArray(team.roleDefinitions) ? team.roleDefinitions.map((r: any) => r?.name) : [])
+  ].filter(Boolean));
+
+  team.routingRules.forEach((rule: any, index: number) => {
+    const basePath = `team.routingRules[${index}]`;
+
+    if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+      errors.push({ path: basePath, message: 'Routing rule must be an object' });
+      return;
+    }
+
+    for (const key of Object.keys(rule)) {
+      if (!RULE_KEYS.includes(key)) {
+        errors.push({ path: `${basePath}.${key}`, message: `Unknown routing rule property: ${key}` });
+      }
+    }
+
+    if (rule.name !== undefined && typeof rule.name !== 'string') {
+      errors.push({ path: `${basePath}.name`, message: 'Routing rule name must be a string' });
+    }
+
+    if (rule.mode !== undefined && !['fallback', 'always'].includes(rule.mode)) {
+      errors.push({ path: `${basePath}.mode`, message: 'Routing rule mode must be "fallback" or "always"' });
+    }
+
+    if (rule.intent !== undefined && !['P1', 'P2', 'P3'].includes(rule.intent)) {
+      errors.push({ path: `${basePath}.intent`, message: 'Routing rule intent must be "P1", "P2" or "P3"' });
+    }
+
+    // routeTo
+    if (!isStringOrStringArray(rule.routeTo, false)) {
+      errors.push({
+        path: `${basePath}.routeTo`,
+        message: 'Routing rule routeTo must be a non-empty string or array of strings'
+      });
+    } else {
+      const targets: string[] = Array.isArray(rule.routeTo) ? rule.routeTo : [rule.routeTo];
+      for (const target of targets) {
+        if (target === '$human') continue;
+        if (target.startsWith('role:')) {
+          const role = target.slice('role:'.length);
+          if (!roles.has(role)) {
+            errors.push({ path: `${basePath}.routeTo`, message: `Routing rule targets unknown role: ${role}` });
+          }
+        } else if (!memberNames.has(target)) {
+          errors.push({ path: `${basePath}.routeTo`, message: `Routing rule targets unknown member: ${target}` });
+        }
+      }
+    }
+
+    // when
+    const when = rule.when;
+    if (when === undefined) {
+      return;
+    }
+    if (!when || typeof when !== 'object' || Array.isArray(when)) {
+      errors.push({ path: `${basePath}.when`, message: 'Routing rule when must be an object' });
+      return;
+    }
+
+    for (const key of Object.keys(when)) {
+      if (!RULE_CONDITION_KEYS.includes(key)) {
+        errors.push({ path: `${basePath}.when.${key}`, message: `Unknown routing rule condition: ${key}` });
+      }
+    }
+
+    for (const key of ['fromRole', 'fromMember']) {
+      if (when[key] !== undefined && !isStringOrStringArray(when[key])) {
+        errors.push({ path: `${basePath}.when.${key}`, message: `${key} must be a string or array of strings` });
+      }
+    }
+
+    if (when.speakerType !== undefined && !['ai', 'human'].includes(when.speakerType)) {
+      errors.push({ path: `${basePath}.when.speakerType`, message: 'speakerType must be "ai" or "human"' });
+    }
+
+    if (when.matchFlags !== undefined && typeof when.matchFlags !== 'string') {
+      errors.push({ path: `${basePath}.when.matchFlags`, message: 'matchFlags must be a string' });
+    }
+
+    if (when.matches !== undefined) {
+      if (typeof when.matches !== 'string') {
+        errors.push({ path: `${basePath}.when.matches`, message: 'matches must be a string (regular expression)' });
+      } else {
+        try {
+          new RegExp(when.matches, typeof when.matchFlags === 'string' ? when.matchFlags : undefined);
+        } catch (err) {
+          errors.push({
+            path: `${basePath}.when.matches`,
+            message: `Invalid regular expression: ${(err as Error).message}`
+          });
+        }
+      }
+    }
+  });
+
+  return errors;
+}
+
+const WORKSPACE_MODES = ['baseDir', 'worktree', 'shared'];
+const WORKSPACE_KEYS = ['mode', 'root', 'baseRef', 'branchPrefix'];
+
+/**
+ * Validate team.workspaces
+ */
+function validateWorkspaces(team: any): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+  const workspaces = team.workspaces;
+
+  if (typeof workspaces !== 'object' || workspaces === null || Array.isArray(workspaces)) {
+    errors.push({
+      path: 'team.workspaces',
+      message: 'team.workspaces must be an object'
+    });
+    return errors;
+  }
+
+  for (const key of Object.keys(workspaces)) {
+    if (!WORKSPACE_KEYS.includes(key)) {
+      errors.push({
+        path: `team.workspaces.${key}`,
+        message: `Unknown workspaces field "${key}"`
+      });
+    }
+  }
+
+  if (workspaces.mode !== undefined && !WORKSPACE_MODES.includes(workspaces.mode)) {
+    errors.push({
+      path: 'team.workspaces.mode',
+      message: `team.workspaces.mode must be one of: ${WORKSPACE_MODES.join(', ')}`
+    });
+  }
+
+  for (const key of ['root', 'baseRef']) {
+    if (workspaces[key] !== undefined && (typeof workspaces[key] !== 'string' || !workspaces[key].trim())) {
+      errors.push({
+        path: `team.workspaces.${key}`,
+        message: `team.workspaces.${key} must be a non-empty string`
+      });
+    }
+  }
+
+  if (workspaces.branchPrefix !== undefined && typeof workspaces.branchPrefix !== 'string') {
+    errors.push({
+      path: 'team.workspaces.branchPrefix',
+      message: 'team.workspaces.branchPrefix must be a string'
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Validate team.visibilityRules
+ * appliesTo must reference an existing member name, a role used by the team, or *
+ */
+function validateVisibilityRules(team: any): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+
+  if (!Array.isArray(team.visibilityRules)) {
+    errors.push({
+      path: 'team.visibilityRules',
+      message: 'team.visibilityRules must be an array'
+    });
+    return errors;
+  }
+
+  const members: any[] = Array.isArray(team.members) ? team.members : [];
+  const memberNames = new Set(members.map(m => m?.name).filter(Boolean));
+  const roles = new Set<string>([
+    ...members.map(m => m?.role),
+    ...(Array.isArray(team.roleDefinitions) ? team.roleDefinitions.map((r: any) => r?.name) : [])
+  ].filter(Boolean));
+
+  team.visibilityRules.forEach((rule: any, index: number) => {
+    const basePath = `team.visibilityRules[${index}]`;
+
+    if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+      errors.push({ path: basePath, message: 'Visibility rule must be an object' });
+      return;
+    }
+
+    for (const key of Object.keys(rule)) {
+      if (!VISIBILITY_RULE_KEYS.includes(key)) {
+        errors.push({ path: `${basePath}.${key}`, message: `Unknown visibility rule property: ${key}` });
+      }
+    }
+
+    if (rule.name !== undefined && typeof rule.name !== 'string') {
+      errors.push({ path: `${basePath}.name`, message: 'Visibility rule name must be a string' });
+    }
+
+    // appliesTo
+    if (!isStringOrStringArray(rule.appliesTo, false)) {
+      errors.push({
+        path: `${basePath}.appliesTo`,
+        message: 'Visibility rule appliesTo must be a non-empty string or array of strings'
+      });
+    } else {
+      const targets: string[] = Array.isArray(rule.appliesTo) ? rule.appliesTo : [rule.appliesTo];
+      for (const target of targets) {
+        if (target === '*') continue;
+        if (target.startsWith('role:')) {
+          const role = target.slice('role:'.length);
+          if (!roles.has(role)) {
+            errors.push({ path: `${basePath}.appliesTo`, message: `Visibility rule applies to unknown role: ${role}` });
+          }
+        } else if (!memberNames.has(target)) {
+          errors.push({ path: `${basePath}.appliesTo`, message: `Visibility rule applies to unknown member: ${target}` });
+        }
+      }
+    }
+
+    // visibleWhen / hiddenWhen
+    for (const listKey of ['visibleWhen', 'hiddenWhen']) {
+      const conditions = rule[listKey];
+      if (conditions === undefined) continue;
+      if (!Array.isArray(conditions)) {
+        errors.push({ path: `${basePath}.${listKey}`, message: `${listKey} must be an array of conditions` });
+        continue;
+      }
+
+      conditions.forEach((condition: any, conditionIndex: number) => {
+        const conditionPath = `${basePath}.${listKey}[${conditionIndex}]`;
+        if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+          errors.push({ path: conditionPath, message: 'Visibility condition must be an object' });
+          return;
+        }
+
+        for (const key of Object.keys(condition)) {
+          if (!VISIBILITY_CONDITION_KEYS.includes(key)) {
+            errors.push({ path: `${conditionPath}.${key}`, message: `Unknown visibility condition: ${key}` });
+          }
+        }
+
+        for (const key of ['fromRole', 'fromMember']) {
+          if (condition[key] !== undefined && !isStringOrStringArray(condition[key])) {
+            errors.push({ path: `${conditionPath}.${key}`, message: `${key} must be a string or array of strings` });
+          }
+        }
+
+        if (condition.speakerType !== undefined && !['ai', 'human'].includes(condition.speakerType)) {
+          errors.push({ path: `${conditionPath}.speakerType`, message: 'speakerType must be "ai" or "human"' });
+        }
+
+        if (condition.addressedToSelf !== undefined && typeof condition.addressedToSelf !== 'boolean') {
+          errors.push({ path: `${conditionPath}.addressedToSelf`, message: 'addressedToSelf must be a boolean' });
+        }
+      });
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Validate team.membership
+ *
+ * Leads must name AI members of the team (humans can always invite/dismiss).
+ */
+function validateMembership(team: any): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+  const membership = team.membership;
+
+  if (typeof membership !== 'object' || membership === null || Array.isArray(membership)) {
+    errors.push({
+      path: 'team.membership',
+      message: 'team.membership must be an object'
+    });
+    return errors;
+  }
+
+  for (const key of Object.keys(membership)) {
+    if (key !== 'leads') {
+      errors.push({
+        path: `team.membership.${key}`,
+        message: `Unknown membership field "${key}"`
+      });
+    }
+  }
+
+  if (membership.leads === undefined) {
+    return errors;
+  }
+  if (!Array.isArray(membership.leads)) {
+    errors.push({
+      path: 'team.membership.leads',
+      message: 'team.membership.leads must be an array of member names'
+    });
+    return errors;
+  }
+
+  const members: any[] = Array.isArray(team.members) ? team.members : [];
+  membership.leads.forEach((lead: unknown, index: number) => {
+    const member = members.find(m => m?.name === lead);
+    if (typeof lead !== 'string' || !member) {
+      errors.push({
+        path: `team.membership.leads[${index}]`,
+        message: `Lead "${String(lead)}" is not a team member`
+      });
+    } else if (member.type !== 'ai') {
+      errors.push({
+        path: `team.membership.leads[${index}]`,
+        message: `Lead "${lead}" must be an AI member (humans can always invite and dismiss)`
+      });
+    }
+  });
+
+  return errors;
+}
@@ -6,21 +6,31 @@
  * 维护 Role ID 到 Agent Instance 的映射
  *
  * Core 层实现：仅依赖接口，不依赖具体执行实现
+ *
+ * 执行模式：
+ * - stateless：每次 sendAndReceive 启动新进程，消息作为 CLI 参数传入
+ * - stateful：每个成员保持一个长驻进程，消息通过 stdin 逐轮写入
+ *
+ * usePty：stateless 进程在伪终端中运行（部分 CLI 没有 TTY 时不输出），
+ * 输出去除 ANSI 控制序列后再交给 stream parser；执行环境不支持 PTY 时回退为普通进程
  */
 
 import { AgentConfigManager } from './AgentConfigManager.js';
 import type { IAdapterFactory } from '../interfaces/IAdapterFactory.js';
-import type { IExecutionEnvironment, IProcess } from '../interfaces/IExecutionEnvironment.js';
+import type { IExecutionEnvironment, IProcess, SpawnOptions } from '../interfaces/IExecutionEnvironment.js';
 import type { AgentSpawnConfig, IAgentAdapter } from '../interfaces/IAgentAdapter.js';
 import type { TeamContext } from '../models/Team.js';
 import { EventEmitter } from 'events';
 import { StreamParserFactory } from '../events/StreamParserFactory.js';
+import { mergeUsageDelta, type UsageDelta } from '../models/UsageStats.js';
 import type { AgentEvent, AgentType } from '../events/AgentEvent.js';
+import type { StreamParser } from '../events/StreamParser.js';
 import { randomUUID } from 'crypto';
 import type { ILogger } from '../interfaces/ILogger.js';
 import { SilentLogger } from '../interfaces/ILogger.js';
 import { sanitizeProxyUrl } from './validation/ConnectivityChecker.js';
 import { loadGeminiApiKeyFromStorage } from '../utils/GeminiApiKeyLoader.js';
+import { PtyProcess } from '../infrastructure/PtyProcess.js';
 
 /**
  * Agent 实例信息
@@ -32,7 +42,35 @@ interface AgentInstance {
   cleanup?: () => Promise<void>;  // Adapter cleanup function
   adapter: IAgentAdapter;
   systemInstruction?: string | string[];  // Store for use in sendAndReceive()
-  currentStatelessProcess?: IProcess;  // For cancellation
+  currentStatelessProcess?: IProcess;  // For cancellation (PtyProcess when running under a PTY)
+  statefulSession?: StatefulSession;  // Long-lived process (stateful adapters only)
+  resumableSessionId?: string;  // Native session continued by the next turn (stateful adapters without a stdin protocol)
+}
+
+/**
+ * Long-lived agent process kept across turns (stateful mode)
+ */
+interface StatefulSession {
+  process: IProcess;
+  parser: StreamParser;
+  stderr: string;
+  /** Handlers of the turn currently waiting for output */
+  activeTurn?: StatefulTurnHandlers;
+}
+
+interface StatefulTurnHandlers {
+  onEvents: (events: AgentEvent[]) => void;
+  onError: (error: Error) => void;
+  onExit: (code: number | null) => void;
+}
+
+/**
+ * Text/usage collected while a turn is running
+ */
+interface TurnAccumulator {
+  accumulatedText: string;
+  usage?: UsageDelta;
+  nativeSessionId?: string;
 }
 
 /**
@@ -45,6 +83,24 @@ export interface MemberSpawnConfig {
   systemInstruction?: string | string[];
 }
 
+/**
+ * Result of sendAndReceive
+ */
+export interface SendResult {
+  success: boolean;
+  finishReason?: 'done' | 'error' | 'cancelled' | 'timeout';
+  accumulatedText?: string;
+  usage?: UsageDelta;
+  /**
+   * True when the agent's native session stays alive after the turn (stateful mode:
+   * long-lived process, or native resume for agents without a stdin protocol).
+   * The next turn only needs the messages the agent has not seen yet.
+   */
+  sessionRetained?: boolean;
+  /** Native CLI session ID reported during the turn (Claude session_id, Codex thread_id, ...) */
+  nativeSessionId?: string;
+}
+
 /**
  * Options for sendAndReceive
  */
@@ -52,6 +108,8 @@ export interface SendOptions {
   maxTimeout?: number;  // Maximum response timeout (ms), default 300000ms (5min)
   systemFlag?: string;  // System prompt flag for Claude
   teamContext: TeamContext;
+  /** Continue this native CLI session instead of starting a new one (see supportsNativeResume) */
+  resumeSessionId?: string;
 }
 
 /**
@@ -73,21 +131,35 @@ export interface AgentManagerOptions {
    * Logger for diagnostic messages
    */
   logger?: ILogger;
+
+  /**
+   * Initial terminal size for agents running under a PTY (AgentConfig.usePty)
+   * Default: 120 x 40. Change later with resizeTerminal().
+   */
+  ptySize?: { cols: number; rows: number };
 }
 
+const DEFAULT_PTY_SIZE = { cols: 120, rows: 40 };
+
 /**
  * AgentManager 类
  *
  * Core 层：仅依赖 IExecutionEnvironment 和 IAdapterFactory 接口
- * 所有 Agent 都是 stateless（每次 sendAndReceive 启动新进程）
+ * stateless Agent 每次 sendAndReceive 启动新进程；
+ * stateful Agent 首轮启动长驻进程，后续轮次复用（见 hasLiveSession）。
+ * 没有 stdin 协议的 stateful Agent（Codex/Gemini 读 stdin 直到 EOF）每轮启动新进程，
+ * 通过原生 resume 参数续接上一轮的会话
  */
 export class AgentManager {
   // Role ID -> Agent Instance 的映射
   private agents: Map<string, AgentInstance> = new Map();
   // Track cancellation flags for agents
   private cancellations: Map<string, boolean> = new Map();
+  // Role ID -> native CLI session ID (last reported; survives process restarts)
+  private nativeSessionIds: Map<string, string> = new Map();
   private logger: ILogger;
   private proxyUrl?: string;
+  private ptySize: { cols: number; rows: number };
   // Event bus for streaming events
   private eventEmitter: EventEmitter = new EventEmitter();
 
@@ -99,6 +171,7 @@ export class AgentManager {
   ) {
     this.logger = options?.logger ?? new SilentLogger();
     this.proxyUrl = options?.proxyUrl;
+    this.ptySize = options?.ptySize ?? DEFAULT_PTY_SIZE;
   }
 
   getEventEmitter(): EventEmitter {
@@ -135,8 +208,8 @@ export class AgentManager {
     // 创建适配器 (using injected IAdapterFactory)
     const adapter = this.adapterFactory.createAdapter(config);
 
-    // All agents are stateless: Don't spawn persistent process
-    // Just store adapter and configuration for later use in sendAndReceive
+    // Don't spawn any process yet: stateless agents spawn per turn,
+    // stateful agents spawn their long-lived process on the first turn
     const agentInstance: AgentInstance = {
       roleId,
       configId,
@@ -153,12 +226,14 @@ export class AgentManager {
    * 发送消息并等待响应
    *
    * Stateless 模式：每次调用启动新进程执行命令
+   * Stateful 模式：复用（或首次启动）长驻进程，消息写入 stdin；
+   * 适配器没有 stdin 协议时每轮启动新进程，并 resume 上一轮的原生会话
    */
   async sendAndReceive(
     roleId: string,
     message: string,
     options: SendOptions
-  ): Promise<{ success: boolean; finishReason?: 'done' | 'error' | 'cancelled' | 'timeout'; accumulatedText?: string }> {
+  ): Promise<SendResult> {
     const agent = this.agents.get(roleId);
     if (!agent) {
       throw new Error(`Role ${roleId} has no running agent`);
@@ -184,8 +259,25 @@ export class AgentManager {
       args.push('--append-system-prompt', options.systemFlag);
     }
 
-    // Add the message as the final argument
-    args.push(message);
+    const stateful = agent.adapter.executionMode === 'stateful' && this.supportsStatefulInput(agent.adapter);
+    // Stateful without a stdin protocol: one process per turn, continuing the previous turn's native session
+    const resumeTurns = agent.adapter.executionMode === 'stateful' && !stateful;
+
+    // Continue the member's native CLI session (e.g. after restoring a conversation)
+    const resumeSessionId = options.resumeSessionId ?? (resumeTurns ? agent.resumableSessionId : undefined);
+    if (resumeSessionId) {
+      const resumeArgs = this.getResumeArgs(agent.adapter, resumeSessionId, args);
+      if (resumeArgs) {
+        args.push(...resumeArgs);
+      } else {
+        this.logger.warn(`[AgentManager] ${agent.adapter.agentType} does not support session resume, starting fresh for ${roleId}`);
+      }
+    }
+
+    if (stateful && agent.adapter.agentType === 'claude-code') {
+      // Keep reading user messages from stdin instead of exiting after one prompt
+      args.push('--input-format', 'stream-json');
+    }
 
     const spawnConfig: AgentSpawnConfig = {
       workDir: config?.cwd || process.cwd(),
@@ -245,15 +337,58 @@ export class AgentManager {
     // Clear any previous cancellation flag
     this.cancellations.delete(roleId);
 
+    const teamContext = options.teamContext;
+    const spawnOptions: SpawnOptions = {
+      cwd: spawnConfig.workDir,
+      env: envWithProxy,
+      inheritEnv: true,
+      agentId: roleId
+    };
+
+    if (stateful) {
+      if (config?.usePty) {
+        // Input written to a PTY is echoed back into the output stream
+        this.logger.warn(`[AgentManager] usePty is not supported in stateful mode, using a plain process for ${roleId}`);
+      }
+      return this.sendToStatefulSession(agent, message, options, () =>
+        this.executionEnv.spawn(agent.adapter.command, args, spawnOptions)
+      );
+    }
+
+    // Add the message as the final argument
+    args.push(message);
+
+    const result = this.runStatelessTurn(agent, args, spawnOptions, options, config?.usePty);
+    if (!resumeTurns) {
+      return result;
+    }
+    return result.then(
+      turnResult => this.retainResumableSession(agent, turnResult, resumeSessionId),
+      (error: unknown) => {
+        agent.resumableSessionId = undefined;
+        throw error;
+      }
+    );
+  }
+
+  /**
+   * 启动一次性进程执行一轮，等待 turn.completed 或进程退出
+   */
+  private runStatelessTurn(
+    agent: AgentInstance,
+    args: string[],
+    spawnOptions: SpawnOptions,
+    options: SendOptions,
+    usePty?: boolean
+  ): Promise<SendResult> {
+    const roleId = agent.roleId;
     const teamContext = options.teamContext;
 
     return new Promise((resolve, reject) => {
       // Use IExecutionEnvironment for spawning process
-      const iProcess = this.executionEnv.spawn(agent.adapter.command, args, {
-        cwd: spawnConfig.workDir,
-        env: envWithProxy,
-        inheritEnv: true
-      });
+      const iProcess = usePty
+        ? this.spawnWithPty(agent, args, spawnOptions)
+        : this.executionEnv.spawn(agent.adapter.command, args, spawnOptions);
       const parser = StreamParserFactory.create(agent.adapter.agentType, roleId, teamContext);
 
       // Store process for cancellation
@@ -261,67 +396,35 @@ export class AgentManager {
 
       let stderr = '';
       let hasCompleted = false;
-      let accumulatedText = '';  // Accumulate result text for routing queue
+      const turn: TurnAccumulator = { accumulatedText: '' };  // Result text + usage for routing queue
       const logPrefix = `[Agent:${agent.adapter.agentType}:${roleId}]`;
 
       const emitEvents = (events: AgentEvent[]) => {
         for (const event of events) {
           this.eventEmitter.emit('agent-event', event);
-
-          // Accumulate text from text events for routing queue
-          // Only accumulate from 'result' category (Claude's final result) or 'message' category (Codex/Gemini)
-          // Skip 'assistant-message' (streaming chunks) and 'reasoning' (internal thoughts) to avoid duplicates
-          if (event.type === 'text' && event.text) {
-            const category = event.category;
-            // For Claude, ignore category-less text (typically fallback raw JSON) to avoid leaking raw JSON
-            const isClaude = event.agentType === 'claude-code';
-            if (isClaude && category === undefined) {
-              continue;
-            }
-            // Claude: use 'result' (final complete response from result event)
-            // Codex/Gemini: use 'message' or undefined (their text events are final)
-            if (category === 'result' || category === 'message' || category === undefined) {
-              accumulatedText += event.text;
-            }
-          }
+          this.collectTurnOutput(turn, event);
 
           if (event.type === 'turn.completed' && !hasCompleted) {
             hasCompleted = true;
             clearTimeout(timeoutHandle);
-            resolve({ success: event.finishReason === 'done', finishReason: event.finishReason, accumulatedText });
+            resolve({ success: event.finishReason === 'done', finishReason: event.finishReason, ...turn });
           }
         }
       };
 
       const emitSynthetic = (event: any) => {
-        emitEvents([{
-          ...event,
-          eventId: randomUUID(),
-          agentId: roleId,
-          agentType: agent.adapter.agentType as AgentType,
-          teamMetadata: teamContext,
-          timestamp: Date.now()
-        } as AgentEvent]);
+        emitEvents([this.createSyntheticEvent(agent, teamContext, event)]);
       };
 
       iProcess.stdout?.on('data', (chunk: Buffer) => {
         const events = parser.parseChunk(chunk);
         emitEvents(events);
-
-        for (const line of chunk.toString().split(/\r?\n/)) {
-          if (line.trim()) {
-            this.logger.debug(`${logPrefix} stdout ${line}`);
-          }
-        }
+        this.logOutput(`${logPrefix} stdout`, chunk);
       });
 
       iProcess.stderr?.on('data', (chunk: Buffer) => {
         stderr += chunk.toString();
-        for (const line of chunk.toString().split(/\r?\n/)) {
-          if (line.trim()) {
-            this.logger.debug(`${logPrefix} stderr ${line}`);
-          }
-        }
+        this.logOutput(`${logPrefix} stderr`, chunk);
       });
 
       const timeoutMs = options?.maxTimeout ?? 300000; // default 5min
@@ -330,7 +433,7 @@ export class AgentManager {
           hasCompleted = true;
           iProcess.kill('SIGTERM');
           emitSynthetic({ type: 'turn.completed', finishReason: 'timeout' });
-          resolve({ success: false, finishReason: 'timeout', accumulatedText });
+          resolve({ success: false, finishReason: 'timeout', ...turn });
         }
       }, timeoutMs);
 
@@ -365,7 +468,7 @@ export class AgentManager {
             hasCompleted = true;
             clearTimeout(timeoutHandle);
             emitSynthetic({ type: 'turn.completed', finishReason: 'cancelled' });
-            resolve({ success: false, finishReason: 'cancelled', accumulatedText });
+            resolve({ success: false, finishReason: 'cancelled', ...turn });
           }
           return;
         }
@@ -387,12 +490,291 @@ export class AgentManager {
 
           // code is 0/null but no turn.completed observed — emit a fallback completion
           emitSynthetic({ type: 'turn.completed', finishReason: 'done' });
-          resolve({ success: true, finishReason: 'done', accumulatedText });
+          resolve({ success: true, finishReason: 'done', ...turn });
         }
       });
     });
   }
 
+  /**
+   * Keep the native session for the next turn of a stateful agent without a stdin protocol
+   *
+   * Only successful turns whose session can be resumed are retained; otherwise the
+   * next turn starts fresh with the full context.
+   */
+  private retainResumableSession(agent: AgentInstance, result: SendResult, resumedSessionId?: string): SendResult {
+    const sessionId = result.success ? result.nativeSessionId ?? resumedSessionId : undefined;
+    agent.resumableSessionId = sessionId && this.supportsNativeResume(agent.roleId) ? sessionId : undefined;
+    return { ...result, sessionRetained: agent.resumableSessionId !== undefined };
+  }
+
+  /**
+   * Stateful 模式：向长驻进程写入一轮消息，等待 turn.completed
+   *
+   * 进程在首轮按需启动；进程退出、超时或被取消后会话失效，下一轮重新启动
+   */
+  private sendToStatefulSession(
+    agent: AgentInstance,
+    message: string,
+    options: SendOptions,
+    spawnProcess: () => IProcess
+  ): Promise<SendResult> {
+    const roleId = agent.roleId;
+    const agentType = agent.adapter.agentType;
+    const teamContext = options.teamContext;
+
+    return new Promise((resolve, reject) => {
+      const session = agent.statefulSession ?? this.startStatefulSession(agent, spawnProcess(), teamContext);
+      session.stderr = '';
+
+      const turn: TurnAccumulator = { accumulatedText: '' };
+      let hasCompleted = false;
+
+      const emitSynthetic = (event: any) => {
+        this.eventEmitter.emit('agent-event', this.createSyntheticEvent(agent, teamContext, event));
+      };
+
+      const finish = (result: Pick<SendResult, 'success' | 'finishReason'>) => {
+        hasCompleted = true;
+        clearTimeout(timeoutHandle);
+        session.activeTurn = undefined;
+        resolve({ ...result, ...turn, sessionRetained: agent.statefulSession === session });
+      };
+
+      const fail = (error: string, code: string) => {
+        hasCompleted = true;
+        clearTimeout(timeoutHandle);
+        session.activeTurn = undefined;
+        emitSynthetic({ type: 'error', error, code });
+        reject(new Error(error));
+      };
+
+      session.activeTurn = {
+        onEvents: (events) => {
+          for (const event of events) {
+            this.eventEmitter.emit('agent-event', event);
+            if (hasCompleted) continue;
+            this.collectTurnOutput(turn, event);
+            if (event.type === 'turn.completed') {
+              finish({ success: event.finishReason === 'done', finishReason: event.finishReason });
+            }
+          }
+        },
+        onError: (error) => {
+          if (!hasCompleted) {
+            fail(`Failed to spawn ${agentType} process: ${error.message}`, 'PROCESS_SPAWN_ERROR');
+          }
+        },
+        onExit: (code) => {
+          const wasCancelled = this.cancellations.get(roleId);
+          this.cancellations.delete(roleId);
+          if (hasCompleted) return;
+
+          if (wasCancelled) {
+            emitSynthetic({ type: 'turn.completed', finishReason: 'cancelled' });
+            finish({ success: false, finishReason: 'cancelled' });
+          } else if (code !== 0 && code !== null) {
+            fail(
+              `${agentType} process exited unexpectedly with code ${code}. stderr: ${session.stderr}`,
+              'PROCESS_EXIT'
+            );
+          } else {
+            emitSynthetic({ type: 'turn.completed', finishReason: 'done' });
+            finish({ success: true, finishReason: 'done' });
+          }
+        }
+      };
+
+      const timeoutMs = options.maxTimeout ?? 300000; // default 5min
+      const timeoutHandle = setTimeout(() => {
+        if (!hasCompleted) {
+          // The session is in an unknown state: drop it so the next turn starts fresh
+          if (agent.statefulSession === session) {
+            agent.statefulSession = undefined;
+          }
+          session.process.kill('SIGTERM');
+          emitSynthetic({ type: 'turn.completed', finishReason: 'timeout' });
+          finish({ success: false, finishReason: 'timeout' });
+        }
+      }, timeoutMs);
+
+      const stdin = session.process.stdin;
+      if (!stdin) {
+        if (agent.statefulSession === session) {
+          agent.statefulSession = undefined;
+        }
+        session.process.kill('SIGTERM');
+        fail(`${agentType} process has no stdin for stateful execution`, 'PROCESS_SPAWN_ERROR');
+        return;
+      }
+      stdin.write(this.formatStatefulInput(agent.adapter, message));
+    });
+  }
+
+  /**
+   * 启动长驻进程，输出分发给当前轮次（空闲时直接转发事件）
+   */
+  private startStatefulSession(agent: AgentInstance, iProcess: IProcess, teamContext: TeamContext): StatefulSession {
+    const session: StatefulSession = {
+      process: iProcess,
+      parser: StreamParserFactory.create(agent.adapter.agentType, agent.roleId, teamContext),
+      stderr: ''
+    };
+    const logPrefix = `[Agent:${agent.adapter.agentType}:${agent.roleId}]`;
+
+    const dispatch = (events: AgentEvent[]) => {
+      if (session.activeTurn) {
+        session.activeTurn.onEvents(events);
+      } else {
+        for (const event of events) {
+          this.eventEmitter.emit('agent-event', event);
+        }
+      }
+    };
+
+    iProcess.stdout?.on('data', (chunk: Buffer) => {
+      dispatch(session.parser.parseChunk(chunk));
+      this.logOutput(`${logPrefix} stdout`, chunk);
+    });
+
+    iProcess.stderr?.on('data', (chunk: Buffer) => {
+      session.stderr += chunk.toString();
+      this.logOutput(`${logPrefix} stderr`, chunk);
+    });
+
+    iProcess.on('error', (error) => {
+      if (agent.statefulSession === session) {
+        agent.statefulSession = undefined;
+      }
+      session.activeTurn?.onError(error);
+    });
+
+    iProcess.on('exit', (code) => {
+      if (agent.statefulSession === session) {
+        agent.statefulSession = undefined;
+      }
+      dispatch(session.parser.flush());
+      session.activeTurn?.onExit(code);
+      this.logger.debug(`${logPrefix} stateful process exited with code ${code}`);
+    });
+
+    agent.statefulSession = session;
+    return session;
+  }
+
+  /**
+   * Run the agent under a PTY, falling back to a plain process when the
+   * execution environment has no PTY support
+   */
+  private spawnWithPty(agent: AgentInstance, args: string[], spawnOptions: SpawnOptions): IProcess {
+    const pty = this.executionEnv.createPty?.(agent.adapter.command, args, {
+      ...spawnOptions,
+      ...this.ptySize
+    });
+    if (!pty) {
+      this.logger.warn(
+        `[AgentManager] ${this.executionEnv.type} execution environment does not support PTY, spawning ${agent.adapter.agentType} without a terminal for ${agent.roleId}`
+      );
+      return this.executionEnv.spawn(agent.adapter.command, args, spawnOptions);
+    }
+    return new PtyProcess(pty);
+  }
+
+  /**
+   * Whether a long-lived process of the adapter reads turns from stdin
+   * (other CLIs read the prompt from stdin until EOF)
+   */
+  private supportsStatefulInput(adapter: IAgentAdapter): boolean {
+    return adapter.formatStatefulInput !== undefined || adapter.agentType === 'claude-code';
+  }
+
+  /**
+   * Stateful 模式下写入 stdin 的一轮输入
+   */
+  private formatStatefulInput(adapter: IAgentAdapter, message: string): string {
+    if (adapter.formatStatefulInput) {
+      return adapter.formatStatefulInput(message);
+    }
+    // Claude Code --input-format stream-json: one user message per line
+    return JSON.stringify({
+      type: 'user',
+      message: { role: 'user', content: [{ type: 'text', text: message }] }
+    }) + '\n';
+  }
+
+  /**
+   * @param args - Arguments collected so far (Codex resume is an `exec` subcommand)
+   */
+  private getResumeArgs(adapter: IAgentAdapter, sessionId: string, args: string[]): string[] | undefined {
+    if (adapter.getResumeArgs) {
+      return adapter.getResumeArgs(sessionId);
+    }
+    if (adapter.agentType === 'claude-code') {
+      return ['--resume', sessionId];
+    }
+    if (adapter.agentType === 'openai-codex') {
+      // codex exec [options] resume <threadId> <prompt>
+      return args.includes('exec') ? ['resume', sessionId] : ['exec', 'resume', sessionId];
+    }
+    return undefined;
+  }
+
+  /**
+   * Accumulate text/usage/native session ID from a turn's events
+   */
+  private collectTurnOutput(turn: TurnAccumulator, event: AgentEvent): void {
+    if (event.type === 'session.started' && event.sessionId) {
+      turn.nativeSessionId = event.sessionId;
+      this.nativeSessionIds.set(event.agentId, event.sessionId);
+    }
+
+    // Only accumulate from 'result' category (Claude's final result) or 'message' category (Codex/Gemini)
+    // Skip 'assistant-message' (streaming chunks) and 'reasoning' (internal thoughts) to avoid duplicates
+    if (event.type === 'text' && event.text) {
+      const category = event.category;
+      // For Claude, ignore category-less text (typically fallback raw JSON) to avoid leaking raw JSON
+      const isClaude = event.agentType === 'claude-code';
+      if (isClaude && category === undefined) {
+        return;
+      }
+      // Claude: use 'result' (final complete response from result event)
+      // Codex/Gemini: use 'message' or undefined (their text events are final)
+      if (category === 'result' || category === 'message' || category === undefined) {
+        turn.accumulatedText += event.text;
+      }
+    }
+
+    if (event.type === 'usage') {
+      const delta: UsageDelta = {
+        inputTokens: event.inputTokens,
+        outputTokens: event.outputTokens,
+        cachedInputTokens: event.cachedInputTokens,
+        totalTokens: event.totalTokens,
+        costUsd: event.costUsd,
+      };
+      turn.usage = turn.usage ? mergeUsageDelta(turn.usage, delta) : delta;
+    }
+  }
+
+  private createSyntheticEvent(agent: AgentInstance, teamContext: TeamContext, event: any): AgentEvent {
+    return {
+      ...event,
+      eventId: randomUUID(),
+      agentId: agent.roleId,
+      agentType: agent.adapter.agentType as AgentType,
+      teamMetadata: teamContext,
+      timestamp: Date.now()
+    } as AgentEvent;
+  }
+
+  private logOutput(prefix: string, chunk: Buffer): void {
+    for (const line of chunk.toString().split(/\r?\n/)) {
+      if (line.trim()) {
+        this.logger.debug(`${prefix} ${line}`);
+      }
+    }
+  }
+
   /**
    * 停止 Agent
    */
@@ -411,6 +793,7 @@ export class AgentManager {
     if (agent.currentStatelessProcess) {
       agent.currentStatelessProcess.kill('SIGTERM');
     }
+    this.endStatefulSession(agent);
 
     this.agents.delete(roleId);
   }
@@ -429,9 +812,9 @@ export class AgentManager {
     // This ensures the exit handler will resolve with 'cancelled'
     this.cancellations.set(roleId, true);
 
-    // Kill the currently executing process
-    if (agent.currentStatelessProcess) {
-      const proc = agent.currentStatelessProcess;
+    // Kill the currently executing process (stateful: the long-lived process)
+    const proc = agent.currentStatelessProcess ?? agent.statefulSession?.process;
+    if (proc) {
       proc.kill('SIGTERM');
       // Force kill after 5 seconds if still running
       setTimeout(() => {
@@ -451,6 +834,60 @@ export class AgentManager {
     this.agents.delete(roleId);
   }
 
+  /**
+   * Resize the terminal of agents running under a PTY
+   * Also applies to PTYs started later
+   */
+  resizeTerminal(cols: number, rows: number): void {
+    this.ptySize = { cols, rows };
+    for (const agent of this.agents.values()) {
+      if (agent.currentStatelessProcess instanceof PtyProcess) {
+        agent.currentStatelessProcess.resize(cols, rows);
+      }
+    }
+  }
+
+  /**
+   * Whether the member's long-lived process is alive (stateful mode)
+   *
+   * When true, the agent remembers previous turns and only needs new messages
+   * (also for stateful agents that resume their native session each turn)
+   */
+  hasLiveSession(roleId: string): boolean {
+    const agent = this.agents.get(roleId);
+    return agent?.statefulSession !== undefined || agent?.resumableSessionId !== undefined;
+  }
+
+  /**
+   * Last native CLI session ID reported by the member's agent
+   */
+  getNativeSessionId(roleId: string): string | undefined {
+    return this.nativeSessionIds.get(roleId);
+  }
+
+  /**
+   * Whether the member's agent can continue a native session (SendOptions.resumeSessionId)
+   */
+  supportsNativeResume(roleId: string): boolean {
+    const agent = this.agents.get(roleId);
+    if (!agent) {
+      return false;
+    }
+    return agent.adapter.getResumeArgs !== undefined
+      || agent.adapter.agentType === 'claude-code'
+      || agent.adapter.agentType === 'openai-codex';
+  }
+
+  private endStatefulSession(agent: AgentInstance): void {
+    const session = agent.statefulSession;
+    if (!session) {
+      return;
+    }
+    agent.statefulSession = undefined;
+    session.process.stdin?.end();
+    session.process.kill('SIGTERM');
+  }
+
   /**
    * 检查 Agent 是否在运行
    */
@@ -467,9 +904,11 @@ export class AgentManager {
       if (agent.currentStatelessProcess) {
         agent.currentStatelessProcess.kill('SIGTERM');
       }
+      this.endStatefulSession(agent);
     }
     this.agents.clear();
     this.cancellations.clear();
+    this.nativeSessionIds.clear();
   }
 
   /**
@@ -2,6 +2,7 @@ import fs from 'fs';
 import path from 'path';
 import { EventEmitter } from 'events';
 import type { AgentEvent } from '../events/AgentEvent.js';
+import { mergeUsageDelta, type UsageDelta } from '../models/UsageStats.js';
 
 export interface ContextSummary {
   agentId: string;
@@ -16,6 +17,7 @@ export interface ContextSummary {
     error?: string;
   }>;
   errors: string[];
+  usage?: UsageDelta;
   timestamp: number;
 }
 
@@ -118,6 +120,7 @@ export class ContextEventCollector {
     const errors: string[] = [];
     let ts = Date.now();
     let agentName: string | undefined;
+    let usage: UsageDelta | undefined;
 
     for (const ev of events) {
       ts = ev.timestamp || ts;
@@ -132,6 +135,15 @@ export class ContextEventCollector {
         tools.push({ name: 'tool-result', id: ev.toolId, output: ev.output, error: ev.error });
       } else if (ev.type === 'error' && ev.error) {
         errors.push(ev.error);
+      } else if (ev.type === 'usage') {
+        const delta: UsageDelta = {
+          inputTokens: ev.inputTokens,
+          outputTokens: ev.outputTokens,
+          cachedInputTokens: ev.cachedInputTokens,
+          totalTokens: ev.totalTokens,
+          costUsd: ev.costUsd
+        };
+        usage = usage ? mergeUsageDelta(usage, delta) : delta;
       }
     }
 
@@ -142,6 +154,7 @@ export class ContextEventCollector {
       text: texts.join('\n'),
       tools,
       errors,
+      usage,
       timestamp: ts
     };
   }
@@ -15,8 +15,10 @@
  * - AI 完成回复后自动路由到下一位成员
  */
 
+import { isDeepStrictEqual } from 'util';
 import type { Team, Member } from '../models/Team.js';
-import type { ConversationMessage } from '../models/ConversationMessage.js';
+import { TeamUtils } from '../models/Team.js';
+import type { ConversationMessage, MessageHandoff, ParsedHandoff, ParsedInvite, ParseResult } from '../models/ConversationMessage.js';
 import { MessageUtils } from '../models/ConversationMessage.js';
 import type { ConversationSession } from '../models/ConversationSession.js';
 import { SessionUtils } from '../models/ConversationSession.js';
@@ -25,10 +27,22 @@ import { MessageRouter } from './MessageRouter.js';
 import type { ConversationConfig } from '../models/CLIConfig.js';
 import { formatJsonl } from '../utils/JsonlMessageFormatter.js';
 import { ContextManager } from '../context/ContextManager.js';
-import type { AgentType, RouteContextResult } from '../context/types.js';
+import type { AgentType, ContextManagerOptions, PromptTeamRoster, RouteContextResult } from '../context/types.js';
+import type { ISummarizer } from '../context/ISummarizer.js';
+import type { IContextAssembler } from '../context/IContextAssembler.js';
+import { TemplateContextAssembler } from '../context/assemblers/TemplateContextAssembler.js';
+import { ExtractiveSummarizer } from '../context/summarizers/ExtractiveSummarizer.js';
+import { AgentSummarizer } from '../context/summarizers/AgentSummarizer.js';
 import type { ISessionStorage } from '../infrastructure/ISessionStorage.js';
 import { SessionStorageService } from '../infrastructure/SessionStorageService.js';
-import { createSessionSnapshot, type SessionSnapshot, type PersistedMessage } from '../models/SessionSnapshot.js';
+import {
+  createSessionSnapshot,
+  forkSessionSnapshot,
+  type SessionSnapshot,
+  type PersistedMessage,
+  type NativeSessionRef,
+  type MembershipChange,
+} from '../models/SessionSnapshot.js';
 import type { ILogger } from '../interfaces/ILogger.js';
 import { SilentLogger } from '../interfaces/ILogger.js';
 import type { SpeakerInfo } from '../models/SpeakerInfo.js';
@@ -38,6 +52,14 @@ import type { QueueUpdateEvent } from '../models/QueueEvent.js';
 import { RoutingQueue, type RoutingQueueConfig, type EnqueueInput } from './RoutingQueue.js';
 import type { RoutingItem, RoutingIntent } from '../models/RoutingItem.js';
 import { intentToEnum } from '../models/RoutingItem.js';
+import { SessionBudget, type SessionBudgetBreach, type SessionBudgetLimits } from './SessionBudget.js';
+import { RoutingRuleEngine } from './RoutingRuleEngine.js';
+import { VisibilityRuleEngine } from './VisibilityRuleEngine.js';
+import { HandoffValidator } from './HandoffValidator.js';
+import { InstructionFileCache } from '../utils/InstructionFileCache.js';
+import type { WorkspaceManager } from './WorkspaceManager.js';
+import type { WorkspaceDiff, WorkspaceMergeResult } from '../models/Workspace.js';
+import { createEmptySessionUsage, recordMemberUsage, type SessionUsageStats, type UsageDelta } from '../models/UsageStats.js';
 
 export type ConversationStatus = 'active' | 'paused' | 'completed';
 
@@ -60,6 +82,70 @@ export interface SetTeamOptions {
    * If provided, will attempt to restore from saved snapshot
    */
   resumeSessionId?: string;
+
+  /**
+   * Rehydrate the pending routing queue saved with the session (default: false)
+   * Items targeting members no longer in the team are dropped.
+   * The conversation stays paused; call resumeRouting() to continue.
+   */
+  restoreRoutingQueue?: boolean;
+
+  /**
+   * Continue each member's native agent CLI session saved with the session (default: false)
+   * Applies to agents that support resume (AgentManager.supportsNativeResume);
+   * their first turn only receives messages the native session has not seen.
+   */
+  resumeNativeSessions?: boolean;
+}
+
+/**
+ * Options for reloadTeam method
+ */
+export interface TeamReloadOptions {
+  /** New routing queue limits (only the given fields change) */
+  routingQueueConfig?: Partial<RoutingQueueConfig>;
+  /** New agent turn limit (CoreTeamConfig.maxRounds) */
+  maxRounds?: number;
+  /**
+   * New conversation settings (CoreTeamConfig.conversation); replaces the current ones.
+   * Session budgets missing here become unlimited.
+   */
+  conversationConfig?: ConversationConfig;
+}
+
+/**
+ * Member changes applied by reloadTeam (member names)
+ */
+export interface TeamReloadResult {
+  added: string[];
+  removed: string[];
+  updated: string[];
+  /** Queued routing items dropped because their target was removed */
+  purgedRoutes: number;
+}
+
+/**
+ * maxRounds 预算耗尽事件
+ */
+export interface MaxRoundsReachedEvent {
+  /** 本会话已执行的 Agent 轮次 */
+  agentTurns: number;
+  /** 配置的轮次上限 */
+  maxRounds: number;
+  /** 被丢弃的待处理路由数量 */
+  droppedRoutes: number;
+  /** 暂停后等待输入的 Human 成员 ID */
+  waitingForMemberId: string | null;
+}
+
+/**
+ * 会话预算（时长 / Agent 轮次 / Token / 费用）超限事件
+ */
+export interface SessionBudgetExceededEvent extends SessionBudgetBreach {
+  /** 保留在队列中、等待恢复的路由数量 */
+  pendingRoutes: number;
+  /** 暂停后等待输入的 Human 成员 ID */
+  waitingForMemberId: string | null;
 }
 
 /**
@@ -117,6 +203,50 @@ export interface ConversationCoordinatorOptions {
    * v3: Routing queue configuration
    */
   routingQueueConfig?: Partial<RoutingQueueConfig>;
+
+  /**
+   * 每个会话允许的 Agent 轮次上限（来自 CoreTeamConfig.maxRounds）
+   * 0 或未设置表示不限制
+   */
+  maxRounds?: number;
+  /**
+   * maxRounds 预算耗尽时的回调
+   * 触发时队列已清空，会话已暂停并等待首个 Human
+   */
+  onMaxRoundsReached?: (event: MaxRoundsReachedEvent) => void;
+  /**
+   * 会话预算超限时的回调（预算来自 ConversationConfig）
+   * 触发时队列保留，会话已暂停并等待首个 Human；
+   * 调用 raiseSessionBudget() 后可通过 resumeRouting() 继续
+   */
+  onSessionBudgetExceeded?: (event: SessionBudgetExceededEvent) => void;
+  /**
+   * Prompt assemblers by agent type (see ContextManagerOptions.assemblers)
+   * Adds formats for new CLI agents or overrides the built-in ones
+   */
+  assemblers?: ContextManagerOptions['assemblers'];
+  /**
+   * Member git worktrees (team.workspaces.mode = "worktree")
+   * Enables getWorkspaceDiff() / mergeWorkspace()
+   */
+  workspaceManager?: WorkspaceManager;
+  /**
+   * Builds the member requested by an [INVITE: name as role using agent] marker
+   * Should reject agent types that are not registered; without it INVITE markers are rejected.
+   * Also used to re-provision invited members when a session is restored.
+   */
+  provisionMember?: (invitation: ParsedInvite) => Promise<Member>;
+}
+
+type AgentTurnResult = Awaited<ReturnType<AgentManager['sendAndReceive']>>;
+
+function describeTeamReload(result: TeamReloadResult): string {
+  const changes = [
+    result.added.length > 0 ? `added ${result.added.join(', ')}` : '',
+    result.removed.length > 0 ? `removed ${result.removed.join(', ')}` : '',
+    result.updated.length > 0 ? `updated ${result.updated.join(', ')}` : '',
+  ].filter(Boolean);
+  return changes.length > 0 ? changes.join('; ') : 'no member changes';
 }
 
 function normalizeAgentType(type?: string): string {
@@ -135,10 +265,14 @@ function normalizeAgentType(type?: string): string {
 export class ConversationCoordinator {
   private session: ConversationSession | null = null;
   private team: Team | null = null;
+  /** Team as configured (setTeam/reloadTeam), before the session's [INVITE]/[DISMISS] changes */
+  private configuredTeam: Team | null = null;
   private status: ConversationStatus = 'active';
   private contextMessageCount: number;
   private waitingForMemberId: string | null = null;  // 等待哪个成员的输入
   private currentExecutingMember: Member | null = null;  // Currently executing agent (for cancellation)
+  /** Members running concurrently in parallel mode (for cancellation) */
+  private parallelExecutingMembers: Map<string, Member> = new Map();
   /** @deprecated v3: Use routingQueueV3 instead */
   private routingQueue: Array<{ member: Member }> = [];
   /** v3: New priority-based routing queue */
@@ -149,6 +283,20 @@ export class ConversationCoordinator {
   private contextManager: ContextManager;
   private sessionStorage: ISessionStorage;
   private logger: ILogger;
+  private maxRounds: number;
+  private sessionBudget: SessionBudget;
+  private routingRules: RoutingRuleEngine = new RoutingRuleEngine();
+  /** Stateful agents: member ID -> last parent message delivered to its live session */
+  private liveSessionCursors: Map<string, string> = new Map();
+  /** Native CLI sessions to continue on each member's next turn (after restore) */
+  private pendingNativeResumes: Map<string, NativeSessionRef> = new Map();
+  /** Member ID -> assembler for members with a prompt template */
+  private memberAssemblers: Map<string, IContextAssembler> = new Map();
+  private handoffValidator: HandoffValidator = new HandoffValidator();
+  /** team.instructionFile contents (re-read when the file changes) */
+  private teamInstructionFiles: InstructionFileCache;
+  /** Member ID -> team instructions last delivered to its live session */
+  private deliveredTeamInstructions: Map<string, string | undefined> = new Map();
   /**
    * 获取下一个轮到的成员（循环轮询）
    *
@@ -179,11 +327,22 @@ export class ConversationCoordinator {
   ) {
     this.contextMessageCount = options.contextMessageCount || 5;
     this.logger = options.logger ?? new SilentLogger();
+    this.teamInstructionFiles = new InstructionFileCache((filePath, text) => {
+      this.logger.info(`[Team] Team instructions ${text === undefined ? 'removed' : 'reloaded'}: ${filePath}`);
+    });
+    this.maxRounds = options.maxRounds ?? 0;
+    this.sessionBudget = new SessionBudget({
+      maxSessionDuration: options.conversationConfig?.maxSessionDuration,
+      maxAgentTurns: options.conversationConfig?.maxAgentTurns,
+      maxTotalTokens: options.conversationConfig?.maxTotalTokens,
+      maxTotalCostUsd: options.conversationConfig?.maxTotalCostUsd,
+    });
 
     // Initialize ContextManager with matching window size and logger
     this.contextManager = new ContextManager({
       contextWindowSize: this.contextMessageCount,
       logger: this.logger,
+      assemblers: options.assemblers,
     });
 
     // Initialize session storage (default: file-based, with logger injection)
@@ -211,6 +370,7 @@ export class ConversationCoordinator {
   async setTeam(team: Team, options?: SetTeamOptions): Promise<void> {
     // 1. Reset state
     this.team = team;
+    this.configuredTeam = team;
     this.session = null;
     this.waitingForMemberId = null;
     this.routingQueue = [];
@@ -218,11 +378,120 @@ export class ConversationCoordinator {
     this.currentRoutingItem = null;
     this.status = 'active';
     this.contextManager.clear();
+    this.applyTeamDefinition(team);
+    this.pendingNativeResumes.clear();
+    this.deliveredTeamInstructions.clear();
+    await this.releaseLiveSessions();
 
     // 2. Attempt restore if requested
     if (options?.resumeSessionId) {
-      await this.restoreSession(options.resumeSessionId);
+      await this.restoreSession(options.resumeSessionId, {
+        restoreRoutingQueue: options.restoreRoutingQueue,
+        resumeNativeSessions: options.resumeNativeSessions,
+      });
+    }
+  }
+
+  /**
+   * Apply a reloaded definition of the current team (config hot reload)
+   *
+   * Unlike setTeam(), the session, history and routing queue are kept:
+   * - removed members: queued routes to them are dropped and their agents stopped
+   * - updated members: agents stopped, so their next turn starts with the new config
+   * - routing/visibility rules, roles, roster and prompt templates follow the new team
+   * - the session's [INVITE]/[DISMISS] changes are applied on top of the new team
+   * A system message listing the changes is recorded in the history.
+   *
+   * @throws Error when no team is set, the team ID differs, or a removed/updated member is executing
+   */
+  async reloadTeam(team: Team, options?: TeamReloadOptions): Promise<TeamReloadResult> {
+    const previous = this.team;
+    if (!previous) {
+      throw new Error('No team to reload; call setTeam() first');
+    }
+    if (team.id !== previous.id) {
+      throw new Error(`Cannot reload team ${previous.id} with team ${team.id}`);
+    }
+    const configured = team;
+    team = await this.replayMembershipChanges(team, this.session?.membershipChanges ?? [], previous.members);
+
+    const nextMembers = new Map(team.members.map(m => [m.id, m]));
+    const previousIds = new Set(previous.members.map(m => m.id));
+    const added = team.members.filter(m => !previousIds.has(m.id));
+    const removed = previous.members.filter(m => !nextMembers.has(m.id));
+    const updated = previous.members.filter(m => {
+      const next = nextMembers.get(m.id);
+      return next !== undefined && !isDeepStrictEqual(next, m);
+    });
+
+    const executing = [...removed, ...updated].filter(m =>
+      this.currentExecutingMember?.id === m.id || this.parallelExecutingMembers.has(m.id)
+    );
+    if (executing.length > 0) {
+      throw new Error(
+        `Cannot reload the team while ${executing.map(m => m.name).join(', ')} ${executing.length === 1 ? 'is' : 'are'} executing`
+      );
+    }
+
+    this.team = team;
+    this.configuredTeam = configured;
+    if (options?.conversationConfig) {
+      // Before applyTeamDefinition so summarizerMember follows the new settings
+      this.applyConversationConfig(options.conversationConfig);
+    }
+    this.applyTeamDefinition(team);
+    if (options?.routingQueueConfig) {
+      this.routingQueueV3.updateConfig(options.routingQueueConfig);
+    }
+    if (options?.maxRounds !== undefined) {
+      this.setMaxRounds(options.maxRounds);
+    }
+
+    const purgedRoutes = await this.retireMembers([...removed, ...updated], team);
+
+    const result: TeamReloadResult = {
+      added: added.map(m => m.name),
+      removed: removed.map(m => m.name),
+      updated: updated.map(m => nextMembers.get(m.id)!.name),
+      purgedRoutes,
+    };
+    this.logger.info(`[Reload] Team ${team.name} reloaded: ${describeTeamReload(result)}`);
+
+    if (this.session) {
+      const message = MessageUtils.createSystemMessage(`Team configuration reloaded: ${describeTeamReload(result)}`);
+      this.storeMessage(message);
+      this.notifyMessage(message);
+      this.notifyQueueUpdate();
+      this.saveCurrentSession().catch(() => {});
+    }
+
+    return result;
+  }
+
+  /**
+   * Stop members' agents and forget their per-member session state
+   * Queued routes to members no longer in `team` are dropped.
+   *
+   * @returns Number of queued routes dropped
+   */
+  private async retireMembers(members: Member[], team: Team): Promise<number> {
+    const remaining = new Set(team.members.map(m => m.id));
+    let purgedRoutes = 0;
+    for (const member of members) {
+      if (remaining.has(member.id)) {
+        this.logger.debug(`[Reload] Restarting ${member.name} with its new configuration`);
+      } else {
+        purgedRoutes += this.routingQueueV3.removeByTarget(member.id);
+      }
+      this.liveSessionCursors.delete(member.id);
+      this.pendingNativeResumes.delete(member.id);
+      this.deliveredTeamInstructions.delete(member.id);
+      await this.agentManager.stopAgent(member.id);
     }
+    if (this.waitingForMemberId && !remaining.has(this.waitingForMemberId)) {
+      this.waitingForMemberId = this.getFirstHumanMemberId();
+    }
+    return purgedRoutes;
   }
 
   hasActiveSession(): boolean {
@@ -240,6 +509,7 @@ export class ConversationCoordinator {
         throw new Error('No team loaded. Use /team deploy <config> first');
       }
       this.session = SessionUtils.createSession(this.team.id, this.team.name);
+      this.sessionBudget.start();
     }
 
     // Parse message markers
@@ -274,6 +544,8 @@ export class ConversationCoordinator {
         resolvedAddressees: [],
         parsedAddressees: parsed.parsedAddressees,
         dropTargets: parsed.dropTargets,
+        visibleTo: this.resolveWhisperTargets(parsed.whisperTargets),
+        handoffs: this.resolveHandoffs(parsed.handoffs),
       }
     );
 
@@ -283,6 +555,9 @@ export class ConversationCoordinator {
     // Clear waitingForMemberId (if user buzzed in or responded)
     this.waitingForMemberId = null;
 
+    // Apply [INVITE] / [DISMISS] before routing, so NEXT can address new members
+    await this.applyMembershipMarkers(sender, message, parsed);
+
     // Route to next member(s)
     await this.routeToNext(message);
   }
@@ -359,6 +634,270 @@ export class ConversationCoordinator {
     });
   }
 
+  /**
+   * Resolve [WHISPER: ...] names to member IDs
+   *
+   * @returns undefined when the message is not whispered; unknown names are ignored,
+   *          so a whisper to nobody known stays private to its speaker
+   */
+  private resolveWhisperTargets(names: string[]): string[] | undefined {
+    if (names.length === 0) {
+      return undefined;
+    }
+    const memberIds: string[] = [];
+    for (const name of names) {
+      const member = this.resolveMemberFromIdentifier(name);
+      if (!member) {
+        this.logger.warn(`[Routing] WHISPER target not found: "${name}" (ignored)`);
+      } else if (!memberIds.includes(member.id)) {
+        memberIds.push(member.id);
+      }
+    }
+    return memberIds;
+  }
+
+  /**
+   * Resolve [HANDOFF: ...] receivers and validate payloads against their role's handoffSchema
+   *
+   * @returns undefined when the message has no resolvable handoff; invalid payloads are
+   *          kept with their errors so the receiver can see what is missing
+   */
+  private resolveHandoffs(parsed: ParsedHandoff[]): MessageHandoff[] | undefined {
+    const handoffs: MessageHandoff[] = [];
+    for (const handoff of parsed) {
+      const member = this.resolveMemberFromIdentifier(handoff.target);
+      if (!member) {
+        this.logger.warn(`[Routing] HANDOFF target not found: "${handoff.target}" (ignored)`);
+        continue;
+      }
+
+      const payload = handoff.payload ?? {};
+      const errors = handoff.error
+        ? [handoff.error]
+        : this.handoffValidator.validate(member.role, payload);
+      if (errors.length > 0) {
+        this.logger.warn(`[Routing] HANDOFF to ${member.name} does not match the ${member.role} handoff schema: ${errors.join('; ')}`);
+      }
+
+      handoffs.push({ memberId: member.id, payload, ...(errors.length > 0 ? { errors } : {}) });
+    }
+    return handoffs.length > 0 ? handoffs : undefined;
+  }
+
+  // --------------------------------------------------------------------------
+  // Dynamic membership ([INVITE] / [DISMISS])
+  // --------------------------------------------------------------------------
+
+  /**
+   * Apply the [INVITE] / [DISMISS] markers of a stored message
+   *
+   * Humans and team.membership.leads may change the membership. Every accepted
+   * or rejected change is recorded as a system message; rejections never
+   * interrupt routing, so the message is still routed afterwards.
+   */
+  private async applyMembershipMarkers(
+    speaker: Member,
+    message: ConversationMessage,
+    parsed: Pick<ParseResult, 'invites' | 'dismissTargets'>
+  ): Promise<void> {
+    if (parsed.invites.length === 0 && parsed.dismissTargets.length === 0) {
+      return;
+    }
+
+    const notices: string[] = [];
+    if (!this.canManageMembers(speaker)) {
+      notices.push(`${speaker.name} cannot invite or dismiss members (only humans and team.membership.leads can)`);
+    } else {
+      for (const invitation of parsed.invites) {
+        notices.push(await this.inviteMember(invitation, speaker, message.id).catch(
+          error => `Invitation of ${invitation.name} rejected: ${error instanceof Error ? error.message : String(error)}`
+        ));
+      }
+      for (const name of parsed.dismissTargets) {
+        notices.push(await this.dismissMember(name, speaker, message.id).catch(
+          error => `Dismissal of ${name} rejected: ${error instanceof Error ? error.message : String(error)}`
+        ));
+      }
+    }
+
+    for (const notice of notices) {
+      this.logger.info(`[Membership] ${notice}`);
+      const system = MessageUtils.createSystemMessage(notice);
+      this.storeMessage(system);
+      this.notifyMessage(system);
+    }
+    this.saveCurrentSession().catch(() => {});
+  }
+
+  private canManageMembers(member: Member): boolean {
+    return member.type === 'human' || (this.team?.membership?.leads ?? []).includes(member.name);
+  }
+
+  /**
+   * Add the member requested by an [INVITE] marker
+   *
+   * The name and role are checked with TeamUtils.validateTeam before
+   * provisionMember (which validates the agent type against the registry) runs.
+   *
+   * @returns Notice for the conversation
+   * @throws Error when the invitation is rejected
+   */
+  private async inviteMember(invitation: ParsedInvite, speaker: Member, messageId: string): Promise<string> {
+    const team = this.team!;
+    if (!this.options.provisionMember) {
+      throw new Error('inviting members is not enabled');
+    }
+    if (this.resolveMemberFromIdentifier(invitation.name)) {
+      throw new Error(`${invitation.name} is already a member`);
+    }
+
+    const candidate: Member = {
+      id: invitation.name,
+      name: invitation.name,
+      displayName: invitation.name,
+      role: invitation.role,
+      type: 'ai',
+      agentType: invitation.agentType,
+    };
+    this.validateMembers(team, [...team.members, candidate]);
+
+    const provisioned = await this.options.provisionMember(invitation);
+    if (team.members.some(m => m.id === provisioned.id)) {
+      throw new Error(`member ID ${provisioned.id} is already in use`);
+    }
+    const member: Member = { ...provisioned, order: this.nextMemberOrder(team) };
+    this.setMembers(team, [...team.members, member]);
+
+    this.recordMembershipChange({
+      action: 'invite',
+      memberId: member.id,
+      memberName: member.name,
+      role: member.role,
+      agentType: member.agentType,
+      requestedBy: speaker.id,
+      messageId,
+      timestamp: new Date().toISOString(),
+    });
+    return `${member.name} joined the team as ${member.role} (${member.agentType}), invited by ${speaker.name}`;
+  }
+
+  /**
+   * Remove the member named by a [DISMISS] marker
+   *
+   * Queued routes to the member are dropped and its agent stopped.
+   *
+   * @returns Notice for the conversation
+   * @throws Error when the dismissal is rejected
+   */
+  private async dismissMember(name: string, speaker: Member, messageId: string): Promise<string> {
+    const team = this.team!;
+    const member = this.resolveMemberFromIdentifier(name);
+    if (!member) {
+      throw new Error(`${name} is not a member`);
+    }
+    if (member.id === speaker.id) {
+      throw new Error('members cannot dismiss themselves');
+    }
+    if (this.currentExecutingMember?.id === member.id || this.parallelExecutingMembers.has(member.id)) {
+      throw new Error(`${member.name} is executing`);
+    }
+
+    const members = team.members.filter(m => m.id !== member.id);
+    this.validateMembers(team, members);
+    const next = this.setMembers(team, members);
+    const purgedRoutes = await this.retireMembers([member], next);
+    this.notifyQueueUpdate();
+
+    this.recordMembershipChange({
+      action: 'dismiss',
+      memberId: member.id,
+      memberName: member.name,
+      requestedBy: speaker.id,
+      messageId,
+      timestamp: new Date().toISOString(),
+    });
+    const dropped = purgedRoutes > 0 ? ` (${purgedRoutes} queued turn${purgedRoutes === 1 ? '' : 's'} dropped)` : '';
+    return `${member.name} was dismissed by ${speaker.name}${dropped}`;
+  }
+
+  /**
+   * @throws Error with the TeamUtils.validateTeam errors when the members are not a valid team
+   */
+  private validateMembers(team: Team, members: Member[]): void {
+    const validation = TeamUtils.validateTeam({ ...team, members });
+    if (!validation.valid) {
+      throw new Error(validation.errors.join('; '));
+    }
+  }
+
+  /**
+   * Switch to a new member list (RoutingQueue resolves members through this.team)
+   */
+  private setMembers(team: Team, members: Member[]): Team {
+    const next: Team = { ...team, members, updatedAt: new Date() };
+    this.team = next;
+    this.applyTeamDefinition(next);
+    return next;
+  }
+
+  private nextMemberOrder(team: Team): number {
+    return team.members.reduce((max, m, idx) => Math.max(max, m.order ?? idx), -1) + 1;
+  }
+
+  private recordMembershipChange(change: MembershipChange): void {
+    if (this.session) {
+      this.session.membershipChanges = [...(this.session.membershipChanges ?? []), change];
+    }
+  }
+
+  /**
+   * Apply a session's membership changes, in order, on top of a team
+   *
+   * Invited members are taken from `current` when present (keeping their agents),
+   * otherwise provisioned again. Changes that no longer apply (member already in
+   * the team, provisioning failed, team would become invalid) are skipped.
+   */
+  private async replayMembershipChanges(
+    team: Team,
+    changes: MembershipChange[],
+    current: Member[] = []
+  ): Promise<Team> {
+    let members = team.members;
+    for (const change of changes) {
+      let next: Member[];
+      if (change.action === 'dismiss') {
+        next = members.filter(m => m.id !== change.memberId);
+      } else if (members.some(m => m.id === change.memberId || m.name === change.memberName)) {
+        continue;
+      } else {
+        let member = current.find(m => m.id === change.memberId);
+        if (!member && this.options.provisionMember && change.role && change.agentType) {
+          member = await this.options.provisionMember({
+            name: change.memberName,
+            role: change.role,
+            agentType: change.agentType,
+          }).catch(error => {
+            this.logger.warn(`[Membership] Cannot provision ${change.memberName}: ${String(error)}`);
+            return undefined;
+          });
+        }
+        if (!member) {
+          this.logger.warn(`[Membership] Skipping invitation of ${change.memberName}`);
+          continue;
+        }
+        next = [...members, current.includes(member) ? member : { ...member, order: this.nextMemberOrder({ ...team, members }) }];
+      }
+
+      const validation = TeamUtils.validateTeam({ ...team, members: next });
+      if (validation.valid) {
+        members = next;
+      } else {
+        this.logger.warn(`[Membership] Skipping ${change.action} of ${change.memberName}: ${validation.errors.join('; ')}`);
+      }
+    }
+    return members === team.members ? team : { ...team, members };
+  }
+
   private updateTeamTask(newTask: string): void {
     // Update ContextManager (handles truncation internally)
     this.contextManager.setTeamTask(newTask);
@@ -373,8 +912,11 @@ export class ConversationCoordinator {
    * 处理 Agent 响应
    *
    * v3: Includes parentMessageId and intent from currentRoutingItem when available
+   *
+   * @param route - Routing item that produced this response (defaults to currentRoutingItem;
+   *                required in parallel mode where several routes are in flight)
    */
-  async onAgentResponse(memberId: string, rawResponse: string): Promise<void> {
+  async onAgentResponse(memberId: string, rawResponse: string, route?: RoutingItem): Promise<void> {
     if (!this.session || !this.team) {
       throw new Error('No active conversation');
     }
@@ -394,15 +936,18 @@ export class ConversationCoordinator {
 
     // v3: Build routing with parentMessageId, intent, and parsedAddressees
     // v3.1: Include dropTargets for Queue Cleaning Protocol
+    const sourceRoute = route ?? this.currentRoutingItem;
     const routing = {
       rawNextMarkers: parsed.addressees,
       resolvedAddressees: [],
       // v3 fields
       parsedAddressees: parsed.parsedAddressees,
-      parentMessageId: this.currentRoutingItem?.parentMessageId,
-      intent: this.currentRoutingItem?.intent,
+      parentMessageId: sourceRoute?.parentMessageId,
+      intent: sourceRoute?.intent,
       // v3.1 fields
       dropTargets: parsed.dropTargets,
+      visibleTo: this.resolveWhisperTargets(parsed.whisperTargets),
+      handoffs: this.resolveHandoffs(parsed.handoffs),
     };
 
     // 创建 ConversationMessage
@@ -419,6 +964,9 @@ export class ConversationCoordinator {
     this.storeMessage(message);
     this.notifyMessage(message);
 
+    // 成员变更（[INVITE] / [DISMISS]）先于路由生效
+    await this.applyMembershipMarkers(member, message, parsed);
+
     // 路由到下一个接收者
     await this.routeToNext(message);
   }
@@ -456,6 +1004,8 @@ export class ConversationCoordinator {
         resolvedAddressees: [],
         parsedAddressees: parsed.parsedAddressees,
         dropTargets: parsed.dropTargets,
+        visibleTo: this.resolveWhisperTargets(parsed.whisperTargets),
+        handoffs: this.resolveHandoffs(parsed.handoffs),
       }
     );
 
@@ -469,6 +1019,9 @@ export class ConversationCoordinator {
       this.notifyStatusChange();
     }
 
+    // 成员变更（[INVITE] / [DISMISS]）先于路由生效
+    await this.applyMembershipMarkers(member, message, parsed);
+
     // 路由到下一个接收者
     await this.routeToNext(message);
   }
@@ -504,29 +1057,41 @@ export class ConversationCoordinator {
       `[v3 Routing] Using saved parsedAddressees: ${JSON.stringify(parsedAddressees)}`
     );
 
+    // 声明式路由规则（team.routingRules）：无 NEXT 时走 fallback 规则，always 规则始终追加
+    const ruleMatches = this.routingRules.evaluate(message, this.team, addressees.length > 0);
+    const ruleIntents = new Map(ruleMatches.map(match => [match.member.id, match.intent]));
+    if (ruleMatches.length > 0) {
+      this.logger.debug(
+        `[Routing] Rules matched: ${ruleMatches.map(m => `${m.rule.name ?? 'unnamed'}->${m.member.name}`).join(', ')}`
+      );
+    }
+
     let resolvedMembers: Member[] = [];
 
     if (addressees.length === 0) {
-      // 没有指定接收者，如果队列已有待处理路由则继续处理队列
-      // v3: Only check routingQueueV3 (single source of truth)
-      if (!this.routingQueueV3.isEmpty()) {
+      // 没有指定接收者，优先使用路由规则
+      if (ruleMatches.length > 0) {
+        resolvedMembers = ruleMatches.map(match => match.member);
+      } else if (!this.routingQueueV3.isEmpty()) {
+        // 如果队列已有待处理路由则继续处理队列
+        // v3: Only check routingQueueV3 (single source of truth)
         await this.processRoutingQueue();
         return;
-      }
-
-      // 队列为空，兜底路由到第一个 human 成员
-      const firstHuman = this.team.members.find(m => m.type === 'human');
-      if (firstHuman) {
-        resolvedMembers = [firstHuman];
+      } else {
+        // 队列为空，兜底路由到第一个 human 成员
+        const firstHuman = this.team.members.find(m => m.type === 'human');
+        if (firstHuman) {
+          resolvedMembers = [firstHuman];
+        }
       }
     } else {
-      // 解析接收者
+      // 解析接收者，always 规则的目标追加在 NEXT 之后
       const resolveResult = this.resolveAddressees(addressees);
-      resolvedMembers = resolveResult.resolved;
+      resolvedMembers = [...resolveResult.resolved, ...ruleMatches.map(match => match.member)];
 
       // 部分解析失败通知（resolved 非空 且 unresolved 非空）
       // 注意：resolved 为空时走 onUnresolvedAddressees，不要混用这两个回调
-      if (resolveResult.unresolved.length > 0 && resolveResult.resolved.length > 0) {
+      if (resolveResult.unresolved.length > 0 && resolvedMembers.length > 0) {
         this.notifyPartialResolveFailure(resolveResult.unresolved);
       }
     }
@@ -610,7 +1175,7 @@ export class ConversationCoordinator {
                  normalizedPa === normalizedMemberName ||
                  normalizedPa === normalizedMemberDisplayName;
         });
-        const shortIntent = matchingParsed?.intent ?? 'P2';
+        const shortIntent = matchingParsed?.intent ?? ruleIntents.get(member.id) ?? 'P2';
         const intent = intentToEnum(shortIntent);
 
         enqueueInputs.push({
@@ -652,6 +1217,13 @@ export class ConversationCoordinator {
 
     // v3: Use routingQueueV3 as single source of truth
     while (!this.routingQueueV3.isEmpty()) {
+      // Session budget: 超限时停止调度，保留队列并交还给 Human
+      const breach = this.checkSessionBudget();
+      if (breach) {
+        this.handleSessionBudgetExceeded(breach);
+        break;
+      }
+
       const route = this.routingQueueV3.selectNext();
       if (!route) {
         this.logger.debug('[ProcessQueue] selectNext returned null, queue empty');
@@ -681,6 +1253,20 @@ export class ConversationCoordinator {
       this.logger.debug(`[ProcessQueue] Processing ${member.name} (${member.type}), latest message from: ${latestMessage?.speaker.name}`);
 
       if (member.type === 'ai') {
+        // maxRounds: 预算耗尽时清空队列并交还给 Human
+        if (this.isRoundBudgetExhausted()) {
+          this.handleMaxRoundsReached(route);
+          break;
+        }
+
+        // 并发模式：同父的 AI 兄弟路由一起执行
+        const batch = this.collectParallelBatch(member, route);
+        if (batch.length > 1) {
+          await this.sendToAgentsInParallel(batch);
+          this.currentRoutingItem = null;
+          continue;
+        }
+
         await this.sendToAgent(member, messageContent, route);
         // Clear current routing item after completion
         this.currentRoutingItem = null;
@@ -743,73 +1329,7 @@ export class ConversationCoordinator {
     }
 
     try {
-      // 准备 member-specific spawn configuration
-      const memberConfig = {
-        env: member.env,
-        additionalArgs: member.additionalArgs,
-        systemInstruction: member.systemInstruction
-      };
-
-      // 确保 Agent 已启动
-      await this.agentManager.ensureAgentStarted(member.id, member.agentConfigId, memberConfig);
-
-      // Use ContextManager to prepare context and assemble prompt
-      const agentType = normalizeAgentType(member.agentType) as AgentType;
-
-      // v3: Use getContextForRoute when RoutingItem is available
-      let contextInput;
-      if (route) {
-        contextInput = this.contextManager.getContextForRoute(
-          member.id,
-          agentType,
-          route,
-          {
-            systemInstruction: member.systemInstruction,
-            instructionFileText: member.instructionFileText,
-          }
-        );
-        this.logger.debug(
-          `[v3] Using getContextForRoute for ${member.name}, ` +
-          `parent=${route.parentMessageId}, intent=${route.intent}`
-        );
-      } else {
-        // Legacy: use getContextForAgent
-        contextInput = this.contextManager.getContextForAgent(
-          member.id,
-          agentType,
-          {
-            systemInstruction: member.systemInstruction,
-            instructionFileText: member.instructionFileText,
-          }
-        );
-      }
-
-      const prompt = this.contextManager.assemblePrompt(agentType, contextInput);
-
-      // Get timeout from conversation config (default: 30 minutes)
-      const maxTimeout = this.options.conversationConfig?.maxAgentResponseTime ?? 1800000;
-
-      // 发送并等待响应
-      this.logger.debug(`[Send] to ${member.name} (${member.id}):\n${prompt.prompt}`);
-
-      const teamContext = {
-        teamName: this.team!.name,
-        teamDisplayName: this.team!.displayName,
-        memberName: member.name,
-        memberDisplayName: member.displayName,
-        memberRole: member.role,
-        memberDisplayRole: member.displayRole,
-        themeColor: member.themeColor
-      };
-
-      const response = await this.agentManager.sendAndReceive(
-        member.id,
-        prompt.prompt,
-        { maxTimeout, systemFlag: prompt.systemFlag, teamContext }
-      );
-
-      // 停止 Agent（因为我们关闭了 stdin，进程会退出，下次需要重新启动）
-      await this.agentManager.stopAgent(member.id);
+      const response = await this.runAgentTurn(member, route);
 
       // Notify that agent has completed
       if (this.options.onAgentCompleted) {
@@ -824,34 +1344,10 @@ export class ConversationCoordinator {
       // Store accumulated AI response to ContextManager for subsequent AI routing
       // This ensures the next AI in routingQueue receives the previous AI's response
       if (response.accumulatedText && response.accumulatedText.trim()) {
-        await this.onAgentResponse(member.id, response.accumulatedText);
-      }
-
-      // 如果路由队列中已有待处理的 NEXT，优先继续处理队列
-      // v3: Only check routingQueueV3 (single source of truth)
-      if (!this.routingQueueV3.isEmpty()) {
-        await this.processRoutingQueue();
-        return;
+        await this.onAgentResponse(member.id, response.accumulatedText, route);
       }
 
-      // Fallback: 路由到首个 Human（替换 round-robin）
-      // 按 order 排序找到第一个 human（无 order 则按数组位置）
-      const firstHuman = this.team!.members
-        .map((m, idx) => ({ member: m, defaultOrder: idx }))
-        .sort((a, b) => (a.member.order ?? a.defaultOrder) - (b.member.order ?? b.defaultOrder))
-        .map(x => x.member)
-        .find(m => m.type === 'human');
-
-      if (firstHuman) {
-        this.status = 'paused';
-        this.waitingForMemberId = firstHuman.id;
-        this.notifyStatusChange();
-
-        // AUTO-SAVE on turn completion
-        this.saveCurrentSession().catch(() => {});
-      }
-      // 注意：由于 TeamUtils.validateTeam() 已强制校验至少 1 个 Human，
-      // firstHuman 必定存在，无需 else 分支
+      await this.continueAfterAgentTurn();
     } catch (error) {
       // Notify that agent has completed (even on error)
       if (this.options.onAgentCompleted) {
@@ -874,35 +1370,711 @@ export class ConversationCoordinator {
     }
   }
 
-  // --------------------------------------------------------------------------
-  // v3.1: Queue Cleaning Protocol - DROP Execution
-  // --------------------------------------------------------------------------
-
   /**
-   * Execute DROP targets (v3.1 Queue Cleaning Protocol)
-   *
-   * @param dropTargets - Array of targets ('ALL' or raw member names)
+   * 并发执行同一父消息下的多个 AI 路由
    *
-   * @remarks
-   * - Uses same normalization rules as resolveAddressees (id/name/displayName)
-   * - Only affects routingQueueV3, NOT currentRoutingItem
-   * - Unresolved targets are logged as warnings and ignored
+   * 所有成员基于同一时刻的历史构建上下文并同时运行；
+   * 回复按 batch 顺序（即调度顺序）写入历史，与完成先后无关，保证结果可复现。
    *
-   * @see docs/design/route_rule/V3/queue-cleaning-protocol-engineering.md
+   * @param batch - 已出队的路由（首项为调度器选中的路由，其余为同父兄弟路由）
    */
-  private executeDropTargets(dropTargets: string[]): void {
-    if (dropTargets.includes('ALL')) {
-      // DROP: ALL - clear entire pending queue
-      this.logger.info('[Routing] Executing DROP: ALL (clearing pending queue, current task unaffected)');
-      this.routingQueueV3.clear();
-      return;
+  private async sendToAgentsInParallel(batch: Array<{ member: Member; route: RoutingItem }>): Promise<void> {
+    for (const { member } of batch) {
+      if (!member.agentConfigId) {
+        throw new Error(`Member ${member.id} has no agent config`);
+      }
     }
 
-    // DROP: specific members
-    for (const targetName of dropTargets) {
-      // Reuse existing normalizeIdentifier and member resolution logic
-      const member = this.resolveMemberForDrop(targetName);
-      if (member) {
+    this.logger.debug(
+      `[Parallel] Running ${batch.map(b => b.member.name).join(', ')} ` +
+      `for parent ${batch[0].route.parentMessageId}`
+    );
+
+    for (const { member } of batch) {
+      this.parallelExecutingMembers.set(member.id, member);
+      this.options.onAgentStarted?.(member);
+    }
+
+    const results = await Promise.allSettled(
+      batch.map(({ member, route }) => this.runAgentTurn(member, route))
+    );
+
+    let cancelled = false;
+    let firstError: unknown = null;
+
+    try {
+      // Commit in batch order (deterministic)
+      for (let i = 0; i < batch.length; i++) {
+        const { member, route } = batch[i];
+        const result = results[i];
+
+        if (this.parallelExecutingMembers.delete(member.id)) {
+          this.options.onAgentCompleted?.(member);
+        }
+
+        if (result.status === 'rejected') {
+          const error = result.reason;
+          if (error instanceof Error && error.message === '[CANCELLED_BY_USER]') {
+            cancelled = true;
+          } else if (firstError === null) {
+            firstError = error;
+          }
+          continue;
+        }
+
+        const response = result.value;
+        if (!response.success) {
+          this.logger.debug(`[AgentResult] ${member.id} finished with ${response.finishReason}`);
+        }
+        if (response.accumulatedText && response.accumulatedText.trim()) {
+          await this.onAgentResponse(member.id, response.accumulatedText, route);
+        }
+      }
+    } finally {
+      this.parallelExecutingMembers.clear();
+    }
+
+    if (firstError !== null) {
+      throw firstError;
+    }
+    if (cancelled) {
+      // Cancellation flow already handled by handleUserCancellation()
+      return;
+    }
+
+    await this.continueAfterAgentTurn();
+  }
+
+  /**
+   * 执行单个 Agent 轮次：构建上下文、发送 prompt 并等待结果
+   *
+   * 不写入历史，由调用方决定提交时机
+   */
+  private async runAgentTurn(member: Member, route?: RoutingItem): Promise<AgentTurnResult> {
+    // 准备 member-specific spawn configuration
+    const memberConfig = {
+      env: member.env,
+      additionalArgs: member.additionalArgs,
+      systemInstruction: member.systemInstruction
+    };
+
+    // 确保 Agent 已启动
+    await this.agentManager.ensureAgentStarted(member.id, member.agentConfigId!, memberConfig);
+
+    // Use ContextManager to prepare context and assemble prompt
+    const agentType = normalizeAgentType(member.agentType) as AgentType;
+
+    // Fold messages that fell out of the window into the rolling [SUMMARY]
+    await this.contextManager.compact();
+
+    // Stateful agents with a live session only need the messages they have not seen
+    let sinceMessageId = route ? this.getLiveSessionCursor(member.id) : undefined;
+
+    // Restored conversation: continue the member's native CLI session once
+    let resumeSessionId: string | undefined;
+    const pendingResume = this.pendingNativeResumes.get(member.id);
+    this.pendingNativeResumes.delete(member.id);
+    if (route && !sinceMessageId && pendingResume && this.agentManager.supportsNativeResume(member.id)) {
+      sinceMessageId = pendingResume.lastMessageId;
+      resumeSessionId = pendingResume.sessionId;
+      this.logger.debug(`[Session] Resuming native session ${resumeSessionId} for ${member.name}`);
+    }
+
+    // Team instructions are re-read when team.instructionFile changes; a live
+    // session only gets them again after such a change
+    const teamInstructionText = this.team?.instructionFile
+      ? this.teamInstructionFiles.read(this.team.instructionFile)
+      : undefined;
+    const teamInstructionsChanged = this.deliveredTeamInstructions.get(member.id) !== teamInstructionText;
+    this.deliveredTeamInstructions.set(member.id, teamInstructionText);
+
+    // v3: Use getContextForRoute when RoutingItem is available
+    let contextInput;
+    if (route) {
+      contextInput = this.contextManager.getContextForRoute(
+        member.id,
+        agentType,
+        route,
+        sinceMessageId
+          ? {
+              // Instructions are already part of the live session
+              sinceMessageId,
+              maxTokens: member.contextTokenBudget,
+              teamInstructionText: teamInstructionsChanged ? teamInstructionText : undefined,
+            }
+          : {
+              systemInstruction: member.systemInstruction,
+              instructionFileText: member.instructionFileText,
+              teamInstructionText,
+              maxTokens: member.contextTokenBudget,
+              teamRoster: this.buildTeamRoster(member),
+            }
+      );
+      this.logger.debug(
+        `[v3] Using getContextForRoute for ${member.name}, ` +
+        `parent=${route.parentMessageId}, intent=${route.intent}`
+      );
+    } else {
+      // Legacy: use getContextForAgent
+      contextInput = this.contextManager.getContextForAgent(
+        member.id,
+        agentType,
+        {
+          systemInstruction: member.systemInstruction,
+          instructionFileText: member.instructionFileText,
+          teamInstructionText,
+          maxTokens: member.contextTokenBudget,
+          teamRoster: this.buildTeamRoster(member),
+        }
+      );
+    }
+
+    const prompt = this.contextManager.assemblePrompt(agentType, contextInput, this.memberAssemblers.get(member.id));
+
+    // Get timeout from conversation config (default: 30 minutes)
+    const maxTimeout = this.options.conversationConfig?.maxAgentResponseTime ?? 1800000;
+
+    // 发送并等待响应
+    this.logger.debug(`[Send] to ${member.name} (${member.id}):\n${prompt.prompt}`);
+
+    const teamContext = {
+      teamName: this.team!.name,
+      teamDisplayName: this.team!.displayName,
+      memberName: member.name,
+      memberDisplayName: member.displayName,
+      memberRole: member.role,
+      memberDisplayRole: member.displayRole,
+      themeColor: member.themeColor
+    };
+
+    const response = await this.agentManager.sendAndReceive(
+      member.id,
+      prompt.prompt,
+      { maxTimeout, systemFlag: prompt.systemFlag, teamContext, resumeSessionId }
+    );
+
+    this.recordNativeSession(member.id, response.nativeSessionId, route);
+
+    if (response.sessionRetained && route) {
+      // Stateful: keep the process alive, next turn sends a delta
+      this.liveSessionCursors.set(member.id, route.parentMessageId);
+    } else {
+      // 停止 Agent（因为我们关闭了 stdin，进程会退出，下次需要重新启动）
+      this.liveSessionCursors.delete(member.id);
+      await this.agentManager.stopAgent(member.id);
+    }
+
+    // maxRounds: 记录本会话已执行的 Agent 轮次
+    this.recordAgentTurn();
+
+    // Token/费用统计
+    if (response.usage) {
+      this.recordUsage(member.id, response.usage);
+    }
+
+    return response;
+  }
+
+  /**
+   * Template assemblers for members with a promptTemplate
+   * Templates are validated at config load; an invalid one falls back to the built-in layout
+   */
+  private createMemberAssemblers(team: Team): Map<string, IContextAssembler> {
+    const assemblers = new Map<string, IContextAssembler>();
+    for (const member of team.members) {
+      if (member.type !== 'ai' || !member.promptTemplateText) {
+        continue;
+      }
+      try {
+        assemblers.set(member.id, new TemplateContextAssembler(member.promptTemplateText, member.agentType));
+      } catch (error) {
+        this.logger.warn(`[Prompt] Invalid prompt template for ${member.name}, using the built-in layout: ${String(error)}`);
+      }
+    }
+    return assemblers;
+  }
+
+  /**
+   * Rules, prompt assemblers and validators derived from the team definition
+   */
+  private applyTeamDefinition(team: Team): void {
+    this.routingRules = new RoutingRuleEngine(team.routingRules ?? []);
+    this.contextManager.setSummarizer(this.createSummarizer(team));
+    const visibilityRules = new VisibilityRuleEngine(team.visibilityRules ?? []);
+    this.contextManager.setVisibilityFilter(
+      visibilityRules.hasRules()
+        ? (message, recipientId) => visibilityRules.canSee(message, recipientId, team)
+        : undefined,
+      team.members.filter(m => m.type === 'ai').map(m => m.id)
+    );
+    this.memberAssemblers = this.createMemberAssemblers(team);
+    this.handoffValidator = this.createHandoffValidator(team);
+  }
+
+  /**
+   * [TEAM] roster for a member's prompt (undefined when team.roster.enabled is false)
+   */
+  private buildTeamRoster(recipient: Member): PromptTeamRoster | undefined {
+    const team = this.team!;
+    if (team.roster?.enabled === false) {
+      return undefined;
+    }
+
+    const roles = new Map((team.roleDefinitions ?? []).map(role => [role.name, role]));
+    return {
+      teamName: team.displayName ?? team.name,
+      members: team.members
+        .map((m, idx) => ({ member: m, defaultOrder: idx }))
+        .sort((a, b) => (a.member.order ?? a.defaultOrder) - (b.member.order ?? b.defaultOrder))
+        .map(({ member }) => {
+          const role = roles.get(member.role);
+          return {
+            name: member.name,
+            displayName: member.displayName,
+            type: member.type,
+            role: member.displayRole ?? role?.displayName ?? member.role,
+            roleDescription: role?.description,
+            self: member.id === recipient.id || undefined,
+          };
+        }),
+      markerSyntax: team.roster?.markerSyntax,
+      membershipMarkers: this.canManageMembers(recipient) || undefined,
+    };
+  }
+
+  /**
+   * Payload validator for the team's role handoffSchemas
+   * Schemas are validated at config load; an invalid one disables payload validation
+   */
+  private createHandoffValidator(team: Team): HandoffValidator {
+    try {
+      return new HandoffValidator(team.roleDefinitions);
+    } catch (error) {
+      this.logger.warn(`[Routing] ${String(error)}; HANDOFF payloads will not be validated`);
+      return new HandoffValidator();
+    }
+  }
+
+  /**
+   * Summarizer for context compaction
+   * ConversationConfig.summarizerMember designates an AI member; otherwise extractive
+   */
+  private createSummarizer(team: Team): ISummarizer {
+    const memberName = this.options.conversationConfig?.summarizerMember;
+    if (!memberName) {
+      return new ExtractiveSummarizer();
+    }
+
+    const member = team.members.find(m => m.name === memberName || m.displayName === memberName);
+    if (!member || member.type !== 'ai' || !member.agentConfigId) {
+      this.logger.warn(`[Summary] summarizerMember '${memberName}' is not an AI member of the team, using extractive summary`);
+      return new ExtractiveSummarizer();
+    }
+
+    return new AgentSummarizer(prompt => this.runSummarizerAgent(member, prompt));
+  }
+
+  /**
+   * Run the summarizer member on a summarization prompt
+   *
+   * Uses a separate agent instance so the member's own (live) session is untouched;
+   * nothing is written to the conversation history.
+   */
+  private async runSummarizerAgent(member: Member, prompt: string): Promise<string> {
+    const roleId = `${member.id}:summarizer`;
+    try {
+      await this.agentManager.ensureAgentStarted(roleId, member.agentConfigId!, {
+        env: member.env,
+        additionalArgs: member.additionalArgs,
+      });
+      const response = await this.agentManager.sendAndReceive(roleId, prompt, {
+        maxTimeout: this.options.conversationConfig?.maxAgentResponseTime ?? 1800000,
+        teamContext: {
+          teamName: this.team!.name,
+          teamDisplayName: this.team!.displayName,
+          memberName: member.name,
+          memberDisplayName: member.displayName,
+          memberRole: member.role,
+          memberDisplayRole: member.displayRole,
+          themeColor: member.themeColor
+        }
+      });
+      if (response.usage) {
+        this.recordUsage(member.id, response.usage);
+      }
+      if (!response.success) {
+        throw new Error(`summarizer finished with ${response.finishReason}`);
+      }
+      return response.accumulatedText ?? '';
+    } catch (err) {
+      this.logger.warn(`[Summary] ${member.name} failed to summarize, using extractive summary: ${(err as Error).message}`);
+      throw err;
+    } finally {
+      await this.agentManager.stopAgent(roleId);
+    }
+  }
+
+  /**
+   * Remember the member's native CLI session for persistence
+   */
+  private recordNativeSession(memberId: string, nativeSessionId: string | undefined, route?: RoutingItem): void {
+    if (!this.session || !nativeSessionId || !route) {
+      return;
+    }
+    this.session.nativeSessions = {
+      ...this.session.nativeSessions,
+      [memberId]: { sessionId: nativeSessionId, lastMessageId: route.parentMessageId },
+    };
+  }
+
+  /**
+   * Last parent message delivered to the member's live session (stateful agents)
+   *
+   * @returns undefined when the member has no live session (full context needed)
+   */
+  private getLiveSessionCursor(memberId: string): string | undefined {
+    const cursor = this.liveSessionCursors.get(memberId);
+    if (cursor && !this.agentManager.hasLiveSession(memberId)) {
+      // Process exited, timed out or was cancelled since the last turn
+      this.liveSessionCursors.delete(memberId);
+      return undefined;
+    }
+    return cursor;
+  }
+
+  /**
+   * Stop every live agent session (history changed: new team, restore or fork)
+   */
+  private async releaseLiveSessions(): Promise<void> {
+    const memberIds = Array.from(this.liveSessionCursors.keys());
+    this.liveSessionCursors.clear();
+    for (const memberId of memberIds) {
+      await this.agentManager.stopAgent(memberId);
+    }
+  }
+
+  /**
+   * Agent 轮次结束后的调度：队列非空则继续，否则兜底到首个 Human
+   */
+  private async continueAfterAgentTurn(): Promise<void> {
+    // 如果路由队列中已有待处理的 NEXT，优先继续处理队列
+    // v3: Only check routingQueueV3 (single source of truth)
+    if (!this.routingQueueV3.isEmpty()) {
+      await this.processRoutingQueue();
+      return;
+    }
+
+    // Fallback: 路由到首个 Human（替换 round-robin）
+    // 按 order 排序找到第一个 human（无 order 则按数组位置）
+    const firstHuman = this.team!.members
+      .map((m, idx) => ({ member: m, defaultOrder: idx }))
+      .sort((a, b) => (a.member.order ?? a.defaultOrder) - (b.member.order ?? b.defaultOrder))
+      .map(x => x.member)
+      .find(m => m.type === 'human');
+
+    if (firstHuman) {
+      this.status = 'paused';
+      this.waitingForMemberId = firstHuman.id;
+      this.notifyStatusChange();
+
+      // AUTO-SAVE on turn completion
+      this.saveCurrentSession().catch(() => {});
+    }
+    // 注意：由于 TeamUtils.validateTeam() 已强制校验至少 1 个 Human，
+    // firstHuman 必定存在，无需 else 分支
+  }
+
+  /**
+   * 并发模式：收集可与选中路由同时执行的兄弟路由
+   *
+   * 受 RoutingQueueConfig.maxParallel 与剩余 maxRounds 预算限制
+   */
+  private collectParallelBatch(member: Member, route: RoutingItem): Array<{ member: Member; route: RoutingItem }> {
+    const batch = [{ member, route }];
+    let limit = this.routingQueueV3.getMaxParallel();
+    if (this.maxRounds > 0) {
+      limit = Math.min(limit, this.maxRounds - this.getAgentTurnCount());
+    }
+    limit = Math.min(limit, this.sessionBudget.getRemainingAgentTurns(this.getAgentTurnCount()));
+    if (limit <= 1) {
+      return batch;
+    }
+
+    const siblings = this.routingQueueV3.takeParallelSiblings(route, limit - 1, item => {
+      const target = this.team?.members.find(m => m.id === item.targetMemberId);
+      return target?.type === 'ai' && target.id !== member.id;
+    });
+
+    for (const sibling of siblings) {
+      const siblingMember = this.team!.members.find(m => m.id === sibling.targetMemberId)!;
+      batch.push({ member: siblingMember, route: sibling });
+    }
+    return batch;
+  }
+
+  // --------------------------------------------------------------------------
+  // maxRounds Budget
+  // --------------------------------------------------------------------------
+
+  /**
+   * 获取本会话已执行的 Agent 轮次
+   */
+  getAgentTurnCount(): number {
+    return this.session?.stats.agentTurns ?? 0;
+  }
+
+  /**
+   * 获取当前的轮次上限（0 表示不限制）
+   */
+  getMaxRounds(): number {
+    return this.maxRounds;
+  }
+
+  /**
+   * 调整轮次上限
+   *
+   * 用于预算耗尽后由 Human 提高上限继续对话
+   *
+   * @param maxRounds - 新的上限（0 表示不限制）
+   */
+  setMaxRounds(maxRounds: number): void {
+    if (!Number.isFinite(maxRounds) || maxRounds < 0) {
+      throw new Error(`maxRounds must be a number >= 0 (0 = unlimited), got ${maxRounds}`);
+    }
+    this.maxRounds = Math.floor(maxRounds);
+  }
+
+  private recordAgentTurn(): void {
+    if (!this.session) {
+      return;
+    }
+    this.session.stats.agentTurns = (this.session.stats.agentTurns ?? 0) + 1;
+  }
+
+  /**
+   * 获取本会话的 Token/费用统计（总计 + 按成员）
+   */
+  getUsageStats(): SessionUsageStats {
+    return this.session?.stats.usage ?? createEmptySessionUsage();
+  }
+
+  private recordUsage(memberId: string, delta: UsageDelta): void {
+    if (!this.session) {
+      return;
+    }
+    this.session.stats.usage = recordMemberUsage(
+      this.session.stats.usage ?? createEmptySessionUsage(),
+      memberId,
+      delta
+    );
+  }
+
+  private isRoundBudgetExhausted(): boolean {
+    return this.maxRounds > 0 && this.getAgentTurnCount() >= this.maxRounds;
+  }
+
+  /**
+   * 处理 maxRounds 预算耗尽
+   *
+   * 清空待处理队列（含刚被选中的路由），暂停并等待首个 Human，然后通知 UI
+   *
+   * @param pendingRoute - 已从队列取出但未执行的路由
+   */
+  private handleMaxRoundsReached(pendingRoute: RoutingItem): void {
+    const droppedRoutes = this.routingQueueV3.size() + 1;
+    this.routingQueueV3.clear();
+    this.currentRoutingItem = null;
+
+    const agentTurns = this.getAgentTurnCount();
+    this.logger.info(
+      `[Routing] maxRounds reached (${agentTurns}/${this.maxRounds}), ` +
+      `dropped ${droppedRoutes} pending route(s) starting at ${pendingRoute.id}`
+    );
+
+    const firstHuman = this.team!.members
+      .map((m, idx) => ({ member: m, defaultOrder: idx }))
+      .sort((a, b) => (a.member.order ?? a.defaultOrder) - (b.member.order ?? b.defaultOrder))
+      .map(x => x.member)
+      .find(m => m.type === 'human');
+
+    this.status = 'paused';
+    this.waitingForMemberId = firstHuman?.id ?? null;
+    this.notifyStatusChange();
+    this.notifyQueueUpdate();
+
+    this.options.onMaxRoundsReached?.({
+      agentTurns,
+      maxRounds: this.maxRounds,
+      droppedRoutes,
+      waitingForMemberId: this.waitingForMemberId,
+    });
+
+    // AUTO-SAVE on pause
+    this.saveCurrentSession().catch(() => {});
+  }
+
+  // --------------------------------------------------------------------------
+  // Session Budget
+  // --------------------------------------------------------------------------
+
+  /**
+   * 获取当前的会话预算上限
+   */
+  getSessionBudgetLimits(): SessionBudgetLimits {
+    return this.sessionBudget.getLimits();
+  }
+
+  /**
+   * 获取本会话已运行的时长（毫秒，自本进程内创建或恢复会话起计）
+   */
+  getSessionElapsedMs(): number {
+    return this.sessionBudget.getElapsedMs();
+  }
+
+  /**
+   * 提高会话预算
+   *
+   * 仅修改传入的字段；0 表示取消该项限制
+   */
+  raiseSessionBudget(limits: SessionBudgetLimits): void {
+    this.sessionBudget.raise(limits);
+  }
+
+  /**
+   * 替换对话配置（热重载）
+   *
+   * 预算按新配置重设（未配置的项取消限制）；maxAgentResponseTime 与 summarizerMember 从下一轮起生效
+   */
+  private applyConversationConfig(config: ConversationConfig): void {
+    this.sessionBudget.raise({
+      maxSessionDuration: config.maxSessionDuration ?? 0,
+      maxAgentTurns: config.maxAgentTurns ?? 0,
+      maxTotalTokens: config.maxTotalTokens ?? 0,
+      maxTotalCostUsd: config.maxTotalCostUsd ?? 0,
+    });
+    this.options.conversationConfig = config;
+  }
+
+  // --------------------------------------------------------------------------
+  // Workspaces
+  // --------------------------------------------------------------------------
+
+  /**
+   * 查看成员 worktree 中尚未合并的改动
+   *
+   * @param memberIdentifier - 成员 ID 或名称
+   */
+  async getWorkspaceDiff(memberIdentifier: string): Promise<WorkspaceDiff> {
+    const { manager, member } = this.requireWorkspaceMember(memberIdentifier);
+    return manager.diff(member.id);
+  }
+
+  /**
+   * 将成员 worktree 分支合并回项目目录
+   *
+   * 成员正在执行时拒绝合并（避免提交到一半的改动）；冲突时合并被中止并返回冲突文件
+   *
+   * @param memberIdentifier - 成员 ID 或名称
+   */
+  async mergeWorkspace(memberIdentifier: string, message?: string): Promise<WorkspaceMergeResult> {
+    const { manager, member } = this.requireWorkspaceMember(memberIdentifier);
+    if (this.currentExecutingMember?.id === member.id || this.parallelExecutingMembers.has(member.id)) {
+      throw new Error(`Cannot merge the workspace of ${member.name} while it is executing`);
+    }
+    return manager.merge(member.id, message);
+  }
+
+  private requireWorkspaceMember(memberIdentifier: string): { manager: WorkspaceManager; member: Member } {
+    const manager = this.options.workspaceManager;
+    if (!manager) {
+      throw new Error('Workspaces are not enabled (team.workspaces.mode is not "worktree")');
+    }
+    const member = this.resolveMemberFromIdentifier(memberIdentifier);
+    if (!member || !manager.getWorkspace(member.id)) {
+      throw new Error(`No workspace for member: ${memberIdentifier}`);
+    }
+    return { manager, member };
+  }
+
+  /**
+   * 预算提高后继续处理保留的队列
+   *
+   * 队列为空时保持暂停，等待 Human 输入
+   */
+  async resumeRouting(): Promise<void> {
+    if (!this.session || this.routingInProgress || this.routingQueueV3.isEmpty()) {
+      return;
+    }
+
+    this.status = 'active';
+    this.waitingForMemberId = null;
+    this.notifyStatusChange();
+
+    await this.processRoutingQueue();
+  }
+
+  private checkSessionBudget(): SessionBudgetBreach | null {
+    const usage = this.getUsageStats();
+    return this.sessionBudget.check({
+      agentTurns: this.getAgentTurnCount(),
+      totalTokens: usage.total.totalTokens,
+      totalCostUsd: usage.total.costUsd,
+    });
+  }
+
+  /**
+   * 处理会话预算超限
+   *
+   * 与 maxRounds 不同，待处理队列保留，便于提高预算后继续
+   */
+  private handleSessionBudgetExceeded(breach: SessionBudgetBreach): void {
+    this.currentRoutingItem = null;
+    this.logger.info(`[Routing] ${breach.message}, pausing with ${this.routingQueueV3.size()} pending route(s)`);
+
+    this.status = 'paused';
+    this.waitingForMemberId = this.getFirstHumanMemberId();
+    this.notifyStatusChange();
+    this.notifyQueueUpdate();
+
+    this.options.onSessionBudgetExceeded?.({
+      ...breach,
+      pendingRoutes: this.routingQueueV3.size(),
+      waitingForMemberId: this.waitingForMemberId,
+    });
+
+    // AUTO-SAVE on pause
+    this.saveCurrentSession().catch(() => {});
+  }
+
+  // --------------------------------------------------------------------------
+  // v3.1: Queue Cleaning Protocol - DROP Execution
+  // --------------------------------------------------------------------------
+
+  /**
+   * Execute DROP targets (v3.1 Queue Cleaning Protocol)
+   *
+   * @param dropTargets - Array of targets ('ALL' or raw member names)
+   *
+   * @remarks
+   * - Uses same normalization rules as resolveAddressees (id/name/displayName)
+   * - Only affects routingQueueV3, NOT currentRoutingItem
+   * - Unresolved targets are logged as warnings and ignored
+   *
+   * @see docs/design/route_rule/V3/queue-cleaning-protocol-engineering.md
+   */
+  private executeDropTargets(dropTargets: string[]): void {
+    if (dropTargets.includes('ALL')) {
+      // DROP: ALL - clear entire pending queue
+      this.logger.info('[Routing] Executing DROP: ALL (clearing pending queue, current task unaffected)');
+      this.routingQueueV3.clear();
+      return;
+    }
+
+    // DROP: specific members
+    for (const targetName of dropTargets) {
+      // Reuse existing normalizeIdentifier and member resolution logic
+      const member = this.resolveMemberForDrop(targetName);
+      if (member) {
         this.logger.info(`[Routing] Executing DROP: ${member.name} (${member.id})`);
         this.routingQueueV3.removeByTarget(member.id);
       } else {
@@ -1025,6 +2197,7 @@ export class ConversationCoordinator {
 
     // 停止所有 Agent
     this.agentManager.cleanup();
+    this.liveSessionCursors.clear();
   }
 
   /**
@@ -1040,8 +2213,9 @@ export class ConversationCoordinator {
     }
 
     // Add to ContextManager (new system)
-    // ContextManager expects message without ID, but will ignore if one exists
+    // Keep the session message ID so RoutingItem.parentMessageId resolves in ContextManager
     this.contextManager.addMessage({
+      id: message.id,
       timestamp: message.timestamp,
       speaker: message.speaker,
       content: message.content,
@@ -1119,6 +2293,13 @@ export class ConversationCoordinator {
     return this.session;
   }
 
+  /**
+   * 获取当前团队（reloadTeam 后为重新加载的团队）
+   */
+  getTeam(): Team | null {
+    return this.team;
+  }
+
   /**
    * 获取当前状态
    */
@@ -1184,6 +2365,13 @@ export class ConversationCoordinator {
       this.currentExecutingMember = null;
     }
 
+    // Parallel mode: cancel every in-flight sibling
+    for (const member of this.parallelExecutingMembers.values()) {
+      this.options.onAgentCompleted?.(member);
+      this.agentManager.cancelAgent(member.id);
+    }
+    this.parallelExecutingMembers.clear();
+
     // Find the first human member to resume conversation
     if (this.team) {
       const humanMember = this.team.members.find(m => m.type === 'human');
@@ -1204,13 +2392,68 @@ export class ConversationCoordinator {
   // Session Persistence Methods
   // --------------------------------------------------------------------------
 
+  /**
+   * Fork a session at a historical message and switch to the fork
+   *
+   * The source session is left untouched. The fork keeps messages up to and
+   * including `messageId`, gets a new session ID and records `forkedFrom`.
+   * The coordinator is then restored into the fork (paused, waiting for the
+   * first human), so the next message continues the new branch.
+   *
+   * @param messageId - Last message to keep in the fork
+   * @param sourceSessionId - Session to fork (default: current session)
+   * @returns Session ID of the fork
+   * @throws Error if the session or message is not found, or agents are running
+   */
+  async forkSession(messageId: string, sourceSessionId?: string): Promise<string> {
+    if (!this.team) {
+      throw new Error('Team must be set before forking a session');
+    }
+    if (this.routingInProgress) {
+      throw new Error('Cannot fork a session while agents are running');
+    }
+
+    const sourceId = sourceSessionId ?? this.session?.id;
+    if (!sourceId) {
+      throw new Error('No session to fork');
+    }
+
+    // Persist the latest state before forking the current session
+    if (sourceId === this.session?.id) {
+      await this.saveCurrentSession();
+    }
+
+    const snapshot = await this.sessionStorage.loadSession(this.team.id, sourceId);
+    if (!snapshot) {
+      throw new Error(`Session '${sourceId}' not found for team '${this.team.id}'`);
+    }
+
+    const fork = forkSessionSnapshot(snapshot, messageId, SessionUtils.generateId());
+    await this.sessionStorage.saveSession(this.team.id, fork);
+    this.logger.info(
+      `[Session] Forked ${sourceId} at ${messageId} -> ${fork.sessionId} ` +
+      `(${fork.metadata.messageCount} messages)`
+    );
+
+    // Switch to the fork (same path as resume)
+    this.contextManager.clear();
+    await this.restoreSession(fork.sessionId);
+
+    return fork.sessionId;
+  }
+
   /**
    * Restore a previous session from storage
    *
    * @param sessionId - Session ID to restore
+   * @param options - restoreRoutingQueue: rehydrate the saved routing queue;
+   *                  resumeNativeSessions: continue the saved native agent sessions
    * @throws Error if session not found or teamId mismatch
    */
-  private async restoreSession(sessionId: string): Promise<void> {
+  private async restoreSession(
+    sessionId: string,
+    options: { restoreRoutingQueue?: boolean; resumeNativeSessions?: boolean } = {}
+  ): Promise<void> {
     // 1. Validate team exists
     if (!this.team) {
       throw new Error('Team must be set before restoring session');
@@ -1234,24 +2477,32 @@ export class ConversationCoordinator {
       );
     }
 
-    // 4. Check member consistency (warn, don't block)
+    // 4. Replay the session's [INVITE] / [DISMISS] changes on top of the configured team
+    const configured = this.configuredTeam ?? this.team;
+    this.team = await this.replayMembershipChanges(configured, snapshot.membershipChanges ?? [], this.team.members);
+    this.applyTeamDefinition(this.team);
+
+    // 5. Check member consistency (warn, don't block)
     this.checkMemberConsistency(snapshot);
 
-    // 5. Migrate speaker fields if legacy format
+    // 6. Migrate speaker fields if legacy format
     const migratedMessages = this.migrateMessagesIfNeeded(snapshot.context.messages);
 
-    // 6. Import context
+    // 7. Import context
     this.contextManager.importSnapshot({
       messages: migratedMessages,
       teamTask: snapshot.context.teamTask,
       timestamp: Date.now(),
       version: 1,
+      summary: snapshot.context.summary,
     });
 
-    // 7. Rebuild ConversationSession
+    // 8. Rebuild ConversationSession
     this.session = this.rebuildSession(snapshot, migratedMessages);
+    this.sessionBudget.start();
 
-    // 8. Reset execution state (Ready-Idle principle)
+    // 9. Reset execution state (Ready-Idle principle)
+    await this.releaseLiveSessions(); // Live agent sessions hold the previous history
     this.routingQueue = []; // Legacy (deprecated)
     this.routingQueueV3.clear(); // v3: Clear the routing queue
     this.currentRoutingItem = null;
@@ -1259,8 +2510,33 @@ export class ConversationCoordinator {
     this.status = 'paused';
     this.waitingForMemberId = this.getFirstHumanMemberId();
 
-    // 9. Notify
+    // 10. Optionally rehydrate pending routes (still paused until resumeRouting)
+    if (options.restoreRoutingQueue && snapshot.routingQueue) {
+      const memberIds = new Set(this.team.members.map(m => m.id));
+      const discarded = this.routingQueueV3.importState(
+        snapshot.routingQueue,
+        item => memberIds.has(item.targetMemberId)
+      );
+      if (discarded > 0) {
+        this.logger.warn(
+          `[Session] Dropped ${discarded} queued route(s) targeting members no longer in the team`
+        );
+      }
+    }
+
+    // 11. Continue native agent sessions on each member's next turn
+    this.pendingNativeResumes.clear();
+    if (options.resumeNativeSessions && snapshot.nativeSessions) {
+      for (const [memberId, ref] of Object.entries(snapshot.nativeSessions)) {
+        if (this.team.members.some(m => m.id === memberId)) {
+          this.pendingNativeResumes.set(memberId, ref);
+        }
+      }
+    }
+
+    // 12. Notify
     this.notifyStatusChange();
+    this.notifyQueueUpdate();
   }
 
   /**
@@ -1335,6 +2611,10 @@ export class ConversationCoordinator {
             memberId: (addr as any).memberId ?? (addr as any).roleId ?? null,
             memberName: (addr as any).memberName ?? (addr as any).roleName ?? null,
           })),
+          parentMessageId: routing.parentMessageId,
+          intent: routing.intent,
+          visibleTo: routing.visibleTo,
+          handoffs: routing.handoffs,
         };
       }
 
@@ -1368,11 +2648,16 @@ export class ConversationCoordinator {
       updatedAt: new Date(snapshot.updatedAt),
       status: 'paused', // Always start paused
       teamTask: snapshot.context.teamTask,
+      forkedFrom: snapshot.forkedFrom,
+      nativeSessions: snapshot.nativeSessions,
+      membershipChanges: snapshot.membershipChanges,
       messages: [...messages],
       stats: {
         totalMessages: messages.length,
         messagesByRole: this.calculateMessagesByRole(messages),
         duration: Date.now() - new Date(snapshot.createdAt).getTime(),
+        agentTurns: snapshot.metadata.agentTurns ?? 0,
+        usage: snapshot.metadata.usage,
       },
     };
   }
@@ -1428,7 +2713,11 @@ export class ConversationCoordinator {
     try {
       const contextSnapshot = this.contextManager.exportSnapshot();
 
-      const snapshot = createSessionSnapshot(this.session, contextSnapshot);
+      const snapshot = createSessionSnapshot(
+        this.session,
+        contextSnapshot,
+        this.routingQueueV3.exportState()
+      );
 
       await this.sessionStorage.saveSession(this.team.id, snapshot);
     } catch (err) {
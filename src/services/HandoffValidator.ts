@@ -0,0 +1,47 @@
+/**
+ * HandoffValidator - Validates [HANDOFF] payloads against per-role JSON schemas
+ *
+ * Semantics:
+ * - RoleDefinition.handoffSchema describes the payload a member of that role expects
+ * - Roles without a schema accept any JSON object
+ * - Schemas are compiled once per role
+ */
+
+import Ajv from 'ajv';
+import type { RoleDefinition } from '../models/Team.js';
+import { compileHandoffSchema } from '../utils/handoffSchema.js';
+
+export class HandoffValidator {
+  private readonly ajv = new Ajv.default({ allErrors: true, strict: false });
+  private readonly validators = new Map<string, Ajv.ValidateFunction>();
+
+  /**
+   * @throws Error when a role's handoffSchema is not a valid JSON schema
+   */
+  constructor(roleDefinitions: RoleDefinition[] = []) {
+    for (const role of roleDefinitions) {
+      if (role.handoffSchema) {
+        this.validators.set(role.name, compileHandoffSchema(this.ajv, role));
+      }
+    }
+  }
+
+  hasSchema(role: string): boolean {
+    return this.validators.has(role);
+  }
+
+  /**
+   * Validates a payload for a receiving role
+   *
+   * @returns Violations ("<path> <message>"); empty when valid or the role has no schema
+   */
+  validate(role: string, payload: Record<string, unknown>): string[] {
+    const validate = this.validators.get(role);
+    if (!validate || validate(payload)) {
+      return [];
+    }
+    return (validate.errors ?? []).map(error =>
+      `${error.instancePath || '/'} ${error.message ?? 'is invalid'}`
+    );
+  }
+}
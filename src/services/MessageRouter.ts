@@ -3,6 +3,8 @@
  *
  * 负责解析消息中的 [NEXT: ...] 标记
  * 提取目标接收者并清理消息内容
+ * [HANDOFF: name]{json} 同时路由给 name 并携带结构化负载
+ * [INVITE: name as role using agent] / [DISMISS: name] 在会话中增减成员
  *
  * v3 extension: Added intent parsing support
  * @see docs/design/route_rule/V3/detail/02-parsing.md
@@ -27,11 +29,42 @@ export interface ParsedAddressee {
   intent: 'P1' | 'P2' | 'P3';
 }
 
+/**
+ * Structured handoff parsed from [HANDOFF: name]{json}
+ */
+export interface ParsedHandoff {
+  /** Receiver name (raw, pre-normalization) */
+  target: string;
+
+  /** JSON object following the marker (undefined when missing or malformed) */
+  payload?: Record<string, unknown>;
+
+  /** Why the payload could not be parsed */
+  error?: string;
+}
+
+/**
+ * New member requested by an [INVITE: name as role using agent] marker
+ */
+export interface ParsedInvite {
+  /** Name of the new member (used in routing markers) */
+  name: string;
+
+  /** Role of the new member (RoleDefinition name) */
+  role: string;
+
+  /** Agent type to run the member with (e.g. claude) */
+  agentType: string;
+}
+
 /**
  * 消息解析结果
  *
  * v3 extension: Added parsedAddressees with intent information
  * v3.1 extension: Added dropTargets for Queue Cleaning Protocol
+ * Added whisperTargets for private messages
+ * Added handoffs for structured handoff payloads
+ * Added invites/dismissTargets for mid-session membership changes
  */
 export interface ParseResult {
   /** Parsed addressee identifiers (legacy, for backward compatibility) */
@@ -65,6 +98,38 @@ export interface ParseResult {
    * @see docs/design/route_rule/V3/queue-cleaning-protocol-engineering.md
    */
   dropTargets: string[];
+
+  /**
+   * Members named in [WHISPER: ...] markers (raw, pre-normalization)
+   *
+   * @remarks
+   * - A whispered message only appears in the context of its speaker and these members
+   * - Empty array means the message is visible to everyone
+   */
+  whisperTargets: string[];
+
+  /**
+   * Handoffs parsed from [HANDOFF: name]{json} markers, one per receiver
+   *
+   * @remarks
+   * - Receivers are also included in addressees/parsedAddressees (routed like NEXT)
+   * - The marker and its JSON payload are stripped from cleanContent
+   */
+  handoffs: ParsedHandoff[];
+
+  /**
+   * Members requested by [INVITE: name as role using agent] markers
+   *
+   * @remarks
+   * - Malformed invitations are skipped (with a warning)
+   * - Permission checks and provisioning happen in ConversationCoordinator
+   */
+  invites: ParsedInvite[];
+
+  /**
+   * Members named in [DISMISS: ...] markers (raw, pre-normalization)
+   */
+  dismissTargets: string[];
 }
 
 /**
@@ -87,6 +152,16 @@ export class MessageRouter {
    * @see docs/design/route_rule/V3/queue-cleaning-protocol-engineering.md
    */
   private readonly DROP_PATTERN = /\[DROP:\s*([^\]]*)\]/gi;
+  // 匹配 [WHISPER: name1, name2] 的正则表达式（私聊：仅发送者与列出的成员可见）
+  private readonly WHISPER_PATTERN = /\[WHISPER:\s*([^\]]*)\]/gi;
+  // 匹配 [HANDOFF: name] 的正则表达式（其后紧跟的 {json} 负载由 scanHandoffs 解析）
+  private readonly HANDOFF_PATTERN = /\[HANDOFF:\s*([^\]]*)\]/gi;
+  // 匹配 [INVITE: name as role using agent] 的正则表达式（多个邀请用逗号分隔）
+  private readonly INVITE_PATTERN = /\[INVITE:\s*([^\]]*)\]/gi;
+  // 单个邀请："name as role using agent"（role 可包含空格）
+  private readonly INVITE_SPEC_PATTERN = /^\s*(\S+)\s+as\s+(.+?)\s+using\s+(\S+)\s*$/i;
+  // 匹配 [DISMISS: name1, name2] 的正则表达式
+  private readonly DISMISS_PATTERN = /\[DISMISS:\s*([^\]]*)\]/gi;
 
   /**
    * v3: Single addressee segment parsing regex
@@ -156,7 +231,26 @@ export class MessageRouter {
     // 4. 提取 DROP 标记（v3.1: Queue Cleaning Protocol）
     const dropTargets = this.parseDropTargets(message);
 
-    // 清理内容（移除 NEXT 和 DROP 标记，保留 FROM 和 TEAM_TASK）
+    // 5. 提取 WHISPER 标记（私聊可见范围）
+    const whisperTargets = this.parseWhisperTargets(message);
+
+    // 6. 提取 HANDOFF 标记（接收者同时作为 NEXT 路由目标）
+    const handoffs: ParsedHandoff[] = [];
+    for (const block of this.scanHandoffs(message)) {
+      for (const addr of block.addressees) {
+        handoffs.push({ target: addr.name, payload: block.payload, error: block.error });
+        if (!addressees.some(name => name.toLowerCase() === addr.name.toLowerCase())) {
+          addressees.push(addr.name);
+          parsedAddressees.push(addr);
+        }
+      }
+    }
+
+    // 7. 提取 INVITE / DISMISS 标记（会话中增减成员）
+    const invites = this.parseInvites(message);
+    const dismissTargets = this.parseDismissTargets(message);
+
+    // 清理内容（移除 NEXT、DROP、WHISPER、HANDOFF、INVITE 和 DISMISS 标记，保留 FROM 和 TEAM_TASK）
     const cleanContent = this.stripNextMarkers(message);
 
     return {
@@ -166,6 +260,10 @@ export class MessageRouter {
       fromMember,
       teamTask,
       dropTargets,
+      whisperTargets,
+      handoffs,
+      invites,
+      dismissTargets,
     };
   }
 
@@ -249,37 +347,174 @@ export class MessageRouter {
   }
 
   /**
-   * 移除 [NEXT] 和 [DROP] 标记
+   * Parse WHISPER targets from message
+   *
+   * @param content - Raw message content
+   * @returns Raw member names (normalization happens in ConversationCoordinator)
+   */
+  private parseWhisperTargets(content: string): string[] {
+    const whisperTargets: string[] = [];
+    this.WHISPER_PATTERN.lastIndex = 0;
+
+    let match;
+    while ((match = this.WHISPER_PATTERN.exec(content)) !== null) {
+      const raw = match[1]?.trim();
+      if (!raw) continue;
+
+      // Reuse parseAddresseeList for name splitting; intent suffixes are ignored
+      whisperTargets.push(...this.parseAddresseeList(raw).map(p => p.name));
+    }
+
+    return whisperTargets;
+  }
+
+  /**
+   * Parse [INVITE: name as role using agent] markers
+   *
+   * @returns Well-formed invitations; malformed ones are skipped with a warning
+   */
+  private parseInvites(content: string): ParsedInvite[] {
+    const invites: ParsedInvite[] = [];
+    this.INVITE_PATTERN.lastIndex = 0;
+
+    let match;
+    while ((match = this.INVITE_PATTERN.exec(content)) !== null) {
+      for (const segment of (match[1] ?? '').split(',')) {
+        const spec = this.INVITE_SPEC_PATTERN.exec(segment);
+        if (!spec) {
+          this.logger.warn(`[MessageRouter] Invalid INVITE "${segment.trim()}" (expected "name as role using agent")`);
+          continue;
+        }
+        invites.push({ name: spec[1], role: spec[2], agentType: spec[3] });
+      }
+    }
+
+    return invites;
+  }
+
+  /**
+   * Parse DISMISS targets from message
+   *
+   * @returns Raw member names (normalization happens in ConversationCoordinator)
+   */
+  private parseDismissTargets(content: string): string[] {
+    const dismissTargets: string[] = [];
+    this.DISMISS_PATTERN.lastIndex = 0;
+
+    let match;
+    while ((match = this.DISMISS_PATTERN.exec(content)) !== null) {
+      const raw = match[1]?.trim();
+      if (!raw) continue;
+
+      dismissTargets.push(...this.parseAddresseeList(raw).map(p => p.name));
+    }
+
+    return dismissTargets;
+  }
+
+  /**
+   * Scan [HANDOFF: ...] markers and the JSON object following each one
+   *
+   * @returns Marker spans (start/end include the payload) with parsed receivers and payload
+   */
+  private scanHandoffs(content: string): Array<{
+    start: number;
+    end: number;
+    addressees: ParsedAddressee[];
+    payload?: Record<string, unknown>;
+    error?: string;
+  }> {
+    const blocks: ReturnType<MessageRouter['scanHandoffs']> = [];
+    this.HANDOFF_PATTERN.lastIndex = 0;
+
+    let match;
+    while ((match = this.HANDOFF_PATTERN.exec(content)) !== null) {
+      const addressees = match[1]?.trim() ? this.parseAddresseeList(match[1]) : [];
+      let end = match.index + match[0].length;
+
+      const jsonStart = end + (content.slice(end).match(/^\s*/)?.[0].length ?? 0);
+      const jsonEnd = content[jsonStart] === '{' ? findJsonObjectEnd(content, jsonStart) : -1;
+
+      let payload: Record<string, unknown> | undefined;
+      let error: string | undefined;
+      if (jsonEnd === -1) {
+        error = content[jsonStart] === '{' ? 'Unterminated JSON payload' : 'Missing JSON payload';
+      } else {
+        end = jsonEnd;
+        try {
+          payload = JSON.parse(content.slice(jsonStart, jsonEnd)) as Record<string, unknown>;
+        } catch (err) {
+          error = `Invalid JSON payload: ${err instanceof Error ? err.message : String(err)}`;
+        }
+      }
+
+      if (error) {
+        this.logger.warn(`[MessageRouter] HANDOFF to "${match[1]?.trim()}": ${error}`);
+      }
+      blocks.push({ start: match.index, end, addressees, payload, error });
+      this.HANDOFF_PATTERN.lastIndex = end;
+    }
+
+    return blocks;
+  }
+
+  /**
+   * 移除 [HANDOFF: ...]{json} 标记及其负载
+   */
+  private stripHandoffMarkers(message: string): string {
+    let result = '';
+    let cursor = 0;
+    for (const block of this.scanHandoffs(message)) {
+      result += message.slice(cursor, block.start);
+      cursor = block.end;
+    }
+    return result + message.slice(cursor);
+  }
+
+  /**
+   * 移除 [NEXT]、[DROP]、[WHISPER]、[HANDOFF]、[INVITE] 和 [DISMISS] 标记
    * 保留 [FROM] 和 [TEAM_TASK] 用于历史记录上下文
    */
   stripNextMarkers(message: string): string {
-    let result = message;
+    let result = this.stripHandoffMarkers(message);
 
     this.NEXT_PATTERN.lastIndex = 0;
     this.DROP_PATTERN.lastIndex = 0;
+    this.WHISPER_PATTERN.lastIndex = 0;
+    this.INVITE_PATTERN.lastIndex = 0;
+    this.DISMISS_PATTERN.lastIndex = 0;
 
     result = result.replace(this.NEXT_PATTERN, '');
     result = result.replace(this.DROP_PATTERN, '');
+    result = result.replace(this.WHISPER_PATTERN, '');
+    result = result.replace(this.INVITE_PATTERN, '');
+    result = result.replace(this.DISMISS_PATTERN, '');
 
     return this.cleanupWhitespace(result);
   }
 
   /**
-   * 移除所有标记（包括 FROM、TEAM_TASK、NEXT、DROP）
+   * 移除所有标记（包括 FROM、TEAM_TASK、NEXT、DROP、WHISPER、HANDOFF、INVITE、DISMISS）
    * 用于构建 prompt 上下文，避免重复
    */
   stripAllMarkersForContext(message: string): string {
-    let result = message;
+    let result = this.stripHandoffMarkers(message);
 
     this.FROM_PATTERN.lastIndex = 0;
     this.TEAM_TASK_PATTERN.lastIndex = 0;
     this.NEXT_PATTERN.lastIndex = 0;
     this.DROP_PATTERN.lastIndex = 0;
+    this.WHISPER_PATTERN.lastIndex = 0;
+    this.INVITE_PATTERN.lastIndex = 0;
+    this.DISMISS_PATTERN.lastIndex = 0;
 
     result = result.replace(this.FROM_PATTERN, '');
     result = result.replace(this.TEAM_TASK_PATTERN, '');
     result = result.replace(this.NEXT_PATTERN, '');
     result = result.replace(this.DROP_PATTERN, '');
+    result = result.replace(this.WHISPER_PATTERN, '');
+    result = result.replace(this.INVITE_PATTERN, '');
+    result = result.replace(this.DISMISS_PATTERN, '');
 
     return this.cleanupWhitespace(result);
   }
@@ -299,3 +534,37 @@ export class MessageRouter {
       .trim();
   }
 }
+
+/**
+ * Find the end (exclusive) of the JSON object starting at start
+ *
+ * Tracks string literals so braces inside strings are ignored.
+ *
+ * @returns End index, or -1 when the object is not terminated
+ */
+function findJsonObjectEnd(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') {
+        i++;
+      } else if (ch === '"') {
+        inString = false;
+      }
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+      if (depth === 0) {
+        return i + 1;
+      }
+    }
+  }
+
+  return -1;
+}
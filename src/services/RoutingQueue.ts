@@ -12,7 +12,7 @@
 
 import type { ILogger } from '../interfaces/ILogger.js';
 import { SilentLogger } from '../interfaces/ILogger.js';
-import type { RoutingItem, RoutingIntent } from '../models/RoutingItem.js';
+import type { RoutingItem, RoutingIntent, RoutingQueueState } from '../models/RoutingItem.js';
 import { generateRoutingItemId, getIntentPriority } from '../models/RoutingItem.js';
 import type { Member } from '../models/Team.js';
 import type {
@@ -33,6 +33,11 @@ export interface RoutingQueueConfig {
   maxBranchSize: number;
   /** Maximum consecutive local scheduling (default 5) */
   maxLocalSeq: number;
+  /**
+   * Maximum items with the same parent executed concurrently (default 1)
+   * 1 keeps strictly sequential execution; >1 opts into parallel branches
+   */
+  maxParallel: number;
 }
 
 /**
@@ -70,7 +75,7 @@ export interface EnqueueResult {
  */
 export class RoutingQueue {
   private items: RoutingItem[] = [];
-  private readonly config: RoutingQueueConfig;
+  private config: RoutingQueueConfig;
   private readonly callbacks: RoutingQueueCallbacks;
   private readonly logger: ILogger;
 
@@ -96,6 +101,7 @@ export class RoutingQueue {
       maxQueueSize: options?.config?.maxQueueSize ?? 50,
       maxBranchSize: options?.config?.maxBranchSize ?? 10,
       maxLocalSeq: options?.config?.maxLocalSeq ?? 5,
+      maxParallel: Math.max(1, options?.config?.maxParallel ?? 1),
     };
     this.callbacks = options?.callbacks ?? {};
     this.logger = options?.logger ?? new SilentLogger();
@@ -250,6 +256,58 @@ export class RoutingQueue {
     return this.dequeueItem(sorted[0]);
   }
 
+  /**
+   * Take sibling items that can run alongside an already selected item
+   *
+   * Siblings share the selected item's parentMessageId and are returned in
+   * scheduling order (priority, then enqueue time). Returned items are dequeued.
+   *
+   * @param selected - Item returned by selectNext()
+   * @param limit - Maximum number of siblings to take
+   * @param canRunInParallel - Filter for eligible items (e.g. AI targets only)
+   * @returns Dequeued sibling items
+   */
+  takeParallelSiblings(
+    selected: RoutingItem,
+    limit: number,
+    canRunInParallel: (item: RoutingItem) => boolean = () => true
+  ): RoutingItem[] {
+    if (limit <= 0) {
+      return [];
+    }
+
+    const candidates = this.sortByPriorityAndTime(
+      this.items.filter(i => i.parentMessageId === selected.parentMessageId),
+      ['P1_INTERRUPT', 'P2_REPLY', 'P3_EXTEND']
+    );
+
+    const taken: RoutingItem[] = [];
+    const targets = new Set([selected.targetMemberId]);
+    for (const item of candidates) {
+      if (taken.length >= limit) break;
+      // Same member cannot run twice at once
+      if (targets.has(item.targetMemberId)) continue;
+      if (!canRunInParallel(item)) continue;
+      targets.add(item.targetMemberId);
+      taken.push(this.dequeueItem(item));
+    }
+
+    if (taken.length > 0) {
+      this.logger.debug(
+        `[RoutingQueue] Taking ${taken.length} parallel sibling(s) for parent ${selected.parentMessageId}`
+      );
+    }
+
+    return taken;
+  }
+
+  /**
+   * Get configured maximum parallelism
+   */
+  getMaxParallel(): number {
+    return this.config.maxParallel;
+  }
+
   /**
    * Mark a message as completed
    *
@@ -380,6 +438,65 @@ export class RoutingQueue {
     return this.lastCompletedMessageId;
   }
 
+  /**
+   * Export queue state for persistence
+   *
+   * @returns Deep copy of items, scheduling counters and dedupe keys
+   */
+  exportState(): RoutingQueueState {
+    return {
+      items: this.items.map(item => ({ ...item })),
+      lastCompletedMessageId: this.lastCompletedMessageId,
+      localSeqCount: this.localSeqCount,
+      dedupeKeys: Array.from(this.dedupeSet),
+    };
+  }
+
+  /**
+   * Replace queue state with a previously exported state
+   *
+   * @param state - State from exportState()
+   * @param keepItem - Optional filter (e.g. drop items for members that left the team);
+   *                   the dedupe set is rebuilt when items are filtered out
+   * @returns Number of items discarded by the filter
+   */
+  importState(state: RoutingQueueState, keepItem?: (item: RoutingItem) => boolean): number {
+    const items = state.items.map(item => ({ ...item }));
+    const kept = keepItem ? items.filter(keepItem) : items;
+    const discarded = items.length - kept.length;
+
+    this.items = kept;
+    this.lastCompletedMessageId = state.lastCompletedMessageId;
+    this.localSeqCount = state.localSeqCount;
+    if (discarded > 0) {
+      this.rebuildDedupeSet();
+    } else {
+      this.dedupeSet = new Set(state.dedupeKeys);
+    }
+
+    this.logger.debug(
+      `[RoutingQueue] Imported ${kept.length} items` + (discarded > 0 ? ` (discarded ${discarded})` : '')
+    );
+    this.emitQueueUpdate();
+
+    return discarded;
+  }
+
+  /**
+   * Update queue limits (config hot reload)
+   *
+   * Only the given fields change; queued items are kept even when they exceed
+   * a lowered limit (limits apply to later enqueues).
+   */
+  updateConfig(config: Partial<RoutingQueueConfig>): void {
+    this.config = {
+      maxQueueSize: config.maxQueueSize ?? this.config.maxQueueSize,
+      maxBranchSize: config.maxBranchSize ?? this.config.maxBranchSize,
+      maxLocalSeq: config.maxLocalSeq ?? this.config.maxLocalSeq,
+      maxParallel: Math.max(1, config.maxParallel ?? this.config.maxParallel),
+    };
+  }
+
   /**
    * Set member lookup function
    */
@@ -0,0 +1,141 @@
+/**
+ * RoutingRuleEngine - Evaluates declarative routing rules from team config
+ *
+ * Semantics:
+ * - Rules are evaluated in declaration order
+ * - 'fallback' rules only apply when the message has no explicit NEXT marker;
+ *   the first matching fallback rule wins
+ * - Every matching 'always' rule applies, with or without NEXT markers
+ * - A rule never routes a message back to its speaker
+ */
+
+import type { Team, Member } from '../models/Team.js';
+import type { ConversationMessage } from '../models/ConversationMessage.js';
+import type { RoutingRule } from '../models/RoutingRule.js';
+import type { ShortIntent } from '../models/RoutingItem.js';
+import { normalizeIdentifier, speakerMatches, toList } from './speakerConditions.js';
+
+/**
+ * Target reference for "first human by order"
+ */
+export const HUMAN_ROUTE_TARGET = '$human';
+
+/**
+ * Prefix for role-based targets, e.g. "role:reviewer"
+ */
+export const ROLE_ROUTE_PREFIX = 'role:';
+
+/**
+ * A member selected by a routing rule
+ */
+export interface RoutingRuleMatch {
+  member: Member;
+  intent: ShortIntent;
+  rule: RoutingRule;
+}
+
+interface CompiledRule {
+  rule: RoutingRule;
+  pattern?: RegExp;
+}
+
+export class RoutingRuleEngine {
+  private rules: CompiledRule[];
+
+  constructor(rules: RoutingRule[] = []) {
+    this.rules = rules.map((rule, index) => {
+      const when = rule.when;
+      if (!when?.matches) {
+        return { rule };
+      }
+      try {
+        return { rule, pattern: new RegExp(when.matches, when.matchFlags) };
+      } catch (err) {
+        const label = rule.name ?? `#${index}`;
+        throw new Error(`Routing rule ${label} has an invalid pattern: ${(err as Error).message}`);
+      }
+    });
+  }
+
+  hasRules(): boolean {
+    return this.rules.length > 0;
+  }
+
+  /**
+   * Select rule targets for a message
+   *
+   * @param hasExplicitNext - Whether the message carried NEXT markers
+   * @returns Matched members in rule order, de-duplicated, speaker excluded
+   */
+  evaluate(message: ConversationMessage, team: Team, hasExplicitNext: boolean): RoutingRuleMatch[] {
+    const speaker = team.members.find(m => m.id === message.speaker.id);
+    const matches: RoutingRuleMatch[] = [];
+    const seen = new Set<string>([message.speaker.id]);
+    let fallbackApplied = false;
+
+    for (const { rule, pattern } of this.rules) {
+      const mode = rule.mode ?? 'fallback';
+      if (mode === 'fallback' && (hasExplicitNext || fallbackApplied)) {
+        continue;
+      }
+      if (!this.conditionMatches(rule, pattern, message, speaker)) {
+        continue;
+      }
+      if (mode === 'fallback') {
+        fallbackApplied = true;
+      }
+
+      for (const member of this.resolveTargets(rule.routeTo, team)) {
+        if (seen.has(member.id)) continue;
+        seen.add(member.id);
+        matches.push({ member, intent: rule.intent ?? 'P2', rule });
+      }
+    }
+
+    return matches;
+  }
+
+  private conditionMatches(
+    rule: RoutingRule,
+    pattern: RegExp | undefined,
+    message: ConversationMessage,
+    speaker: Member | undefined
+  ): boolean {
+    if (!speakerMatches(rule.when ?? {}, message, speaker)) {
+      return false;
+    }
+
+    if (pattern) {
+      // Reset lastIndex so global/sticky flags do not make matching stateful
+      pattern.lastIndex = 0;
+      if (!pattern.test(message.content)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private resolveTargets(routeTo: string | string[], team: Team): Member[] {
+    const ordered = team.members
+      .map((member, idx) => ({ member, defaultOrder: idx }))
+      .sort((a, b) => (a.member.order ?? a.defaultOrder) - (b.member.order ?? b.defaultOrder))
+      .map(x => x.member);
+
+    const targets: Member[] = [];
+    for (const target of toList(routeTo)) {
+      if (target === HUMAN_ROUTE_TARGET) {
+        const firstHuman = ordered.find(m => m.type === 'human');
+        if (firstHuman) targets.push(firstHuman);
+      } else if (target.startsWith(ROLE_ROUTE_PREFIX)) {
+        const role = target.slice(ROLE_ROUTE_PREFIX.length);
+        targets.push(...ordered.filter(m => m.role === role));
+      } else {
+        const normalized = normalizeIdentifier(target);
+        const member = team.members.find(m => m.id === target || normalizeIdentifier(m.name) === normalized);
+        if (member) targets.push(member);
+      }
+    }
+    return targets;
+  }
+}
@@ -9,17 +9,18 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { ConversationCoordinator, type ConversationStatus } from './ConversationCoordinator.js';
+import { isDeepStrictEqual } from 'util';
+import { ConversationCoordinator, type ConversationCoordinatorOptions, type ConversationStatus, type MaxRoundsReachedEvent, type SessionBudgetExceededEvent, type TeamReloadOptions, type TeamReloadResult } from './ConversationCoordinator.js';
 import { AgentManager } from './AgentManager.js';
-import { MessageRouter } from './MessageRouter.js';
+import { MessageRouter, type ParsedInvite } from './MessageRouter.js';
 import { AgentConfigManager } from './AgentConfigManager.js';
-import { TeamManager } from './TeamManager.js';
+import { TeamManager, type CreateTeamInput } from './TeamManager.js';
 import { MockStorageService } from '../infrastructure/StorageService.js';
 import type { IExecutionEnvironment } from '../interfaces/IExecutionEnvironment.js';
 import type { IAdapterFactory } from '../interfaces/IAdapterFactory.js';
 import type { Team, Member } from '../models/Team.js';
 import type { ConversationMessage } from '../models/ConversationMessage.js';
-import type { AgentDefinition, TeamMemberConfig } from '../models/CLIConfig.js';
+import type { AgentDefinition, TeamConfig, TeamMemberConfig } from '../models/CLIConfig.js';
 import type { CoreTeamConfig } from '../models/CoreTeamConfig.js';
 import { AgentRegistry, type VerificationResult } from '../registry/AgentRegistry.js';
 import type { AgentDefinition as RegistryAgentDefinition } from '../registry/RegistryStorage.js';
@@ -27,12 +28,24 @@ import { EventEmitter } from 'events';
 import type { ILogger } from '../interfaces/ILogger.js';
 import { SilentLogger } from '../interfaces/ILogger.js';
 import type { QueueUpdateEvent } from '../models/QueueEvent.js';
+import { PromptTemplate } from '../context/templates/PromptTemplate.js';
+import { WorkspaceManager } from './WorkspaceManager.js';
+import { validateTeamConfig } from '../schemas/TeamConfigSchema.js';
 
 interface NormalizedAgent {
   name: string;
   command: string;
   args: string[];
   usePty?: boolean;
+  contextTokenBudget?: number;
+}
+
+/**
+ * Agent definitions and team prompt template members are built from
+ */
+interface MemberSources {
+  agents: Map<string, NormalizedAgent>;
+  teamPromptTemplate?: LoadedPromptTemplate;
 }
 
 interface NormalizedPaths {
@@ -65,6 +78,9 @@ export interface InitializeServicesOptions {
   onAgentCompleted?: (member: Member) => void;  // Callback when agent completes (REPL UI)
   onQueueUpdate?: (event: QueueUpdateEvent) => void;  // Callback for queue visibility updates
   onPartialResolveFailure?: (skipped: string[], availableMembers: string[]) => void;  // Callback for partial resolve failure
+  onMaxRoundsReached?: (event: MaxRoundsReachedEvent) => void;  // Callback when maxRounds budget is exhausted
+  onSessionBudgetExceeded?: (event: SessionBudgetExceededEvent) => void;  // Callback when a conversation budget (time/turns/tokens/cost) is exceeded
+  assemblers?: ConversationCoordinatorOptions['assemblers'];  // Prompt assemblers by agent type (new CLI agents, overrides of built-ins)
 }
 
 /**
@@ -189,6 +205,98 @@ export function loadInstructionContent(filePath?: string): string | undefined {
   return undefined;
 }
 
+/**
+ * Resolved prompt template (file path and validated content)
+ */
+export interface LoadedPromptTemplate {
+  path: string;
+  text: string;
+}
+
+/**
+ * Load and validate a prompt template file
+ *
+ * Unlike instruction files, a configured template must exist and parse:
+ * errors are reported at load time rather than on the first agent turn.
+ */
+export function loadPromptTemplate(templatePath: string, baseDir: string): LoadedPromptTemplate {
+  const filePath = path.isAbsolute(templatePath) ? templatePath : path.resolve(baseDir, templatePath);
+
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    throw new Error(`Cannot read prompt template: ${filePath} (${String(error)})`);
+  }
+
+  try {
+    PromptTemplate.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid prompt template ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return { path: filePath, text };
+}
+
+/**
+ * TeamManager input for a team config and its built members
+ */
+function buildTeamInput(teamConfig: TeamConfig, members: Member[], projectRoot: string): CreateTeamInput {
+  return {
+    id: teamConfig.name, // stable team ID derived from team name
+    name: teamConfig.name,
+    description: teamConfig.description,
+    displayName: teamConfig.displayName,
+    // Team instructions are read (and re-read on change) when prompts are assembled
+    instructionFile: teamConfig.instructionFile && path.resolve(projectRoot, teamConfig.instructionFile),
+    roleDefinitions: teamConfig.roleDefinitions,
+    members,
+    routingRules: teamConfig.routingRules,
+    visibilityRules: teamConfig.visibilityRules,
+    roster: teamConfig.roster,
+    membership: teamConfig.membership
+  };
+}
+
+/**
+ * Member changes between two team configs (member names)
+ */
+export interface TeamConfigDiff {
+  added: string[];
+  removed: string[];
+  updated: string[];
+}
+
+/**
+ * Diff the members of two team configs
+ *
+ * A member counts as updated when its config or its agent definition changed,
+ * or when it uses the team promptTemplate and that changed.
+ */
+export function diffTeamConfig(previous: CoreTeamConfig, next: CoreTeamConfig): TeamConfigDiff {
+  const previousMembers = new Map(previous.team.members.map(m => [m.name, m]));
+  const nextNames = new Set(next.team.members.map(m => m.name));
+  const agentOf = (config: CoreTeamConfig, member: TeamMemberConfig) =>
+    config.agents?.find(agent => agent.name === member.agentType);
+  const teamTemplateChanged = previous.team.promptTemplate !== next.team.promptTemplate;
+
+  const diff: TeamConfigDiff = { added: [], removed: [], updated: [] };
+  for (const member of next.team.members) {
+    const before = previousMembers.get(member.name);
+    if (!before) {
+      diff.added.push(member.name);
+    } else if (
+      !isDeepStrictEqual(before, member) ||
+      !isDeepStrictEqual(agentOf(previous, before), agentOf(next, member)) ||
+      (teamTemplateChanged && member.type === 'ai' && !member.promptTemplate)
+    ) {
+      diff.updated.push(member.name);
+    }
+  }
+  diff.removed = previous.team.members.filter(m => !nextNames.has(m.name)).map(m => m.name);
+  return diff;
+}
+
 /**
  * Load and merge agents from global registry with team config
  */
@@ -236,7 +344,8 @@ async function loadAndMergeAgents(
           name: teamAgent.name,
           command: registryAgent.command,  // Always use registry command
           args: teamAgent.args !== undefined ? teamAgent.args : (registryAgent.args || []),
-          usePty: teamAgent.usePty !== undefined ? teamAgent.usePty : registryAgent.usePty
+          usePty: teamAgent.usePty !== undefined ? teamAgent.usePty : registryAgent.usePty,
+          contextTokenBudget: teamAgent.contextTokenBudget
         });
       } else {
         // Schema 1.0 complete definition mode: Agent not in registry, must provide full definition
@@ -250,7 +359,8 @@ async function loadAndMergeAgents(
           name: teamAgent.name,
           command: teamAgent.command,
           args: teamAgent.args || [],
-          usePty: teamAgent.usePty
+          usePty: teamAgent.usePty,
+          contextTokenBudget: teamAgent.contextTokenBudget
         });
       }
     }
@@ -273,6 +383,18 @@ export interface InitializeServicesResult {
   contextCollector: import('./ContextEventCollector.js').ContextEventCollector;
   /** Verification results for each agent type (CLI layer formats and displays) */
   verificationResults: Map<string, VerificationResult>;
+  /** Member git worktrees (team.workspaces.mode = "worktree" only) */
+  workspaceManager?: WorkspaceManager;
+  /**
+   * Hot-reloads a changed team config into the running coordinator
+   *
+   * Validates with validateTeamConfig and applies the member changes through
+   * TeamManager.reloadTeam and ConversationCoordinator.reloadTeam; the session is kept.
+   * The team name and team.workspaces cannot change. `team` above keeps the
+   * initial team; use coordinator.getTeam() for the reloaded one (which also
+   * includes members invited with [INVITE] markers).
+   */
+  reloadConfig: (config: CoreTeamConfig, options?: TeamReloadOptions) => Promise<TeamReloadResult>;
 }
 
 /**
@@ -338,25 +460,44 @@ export async function initializeServices(
   // Load and merge agents from global registry with team config
   const registryPath = options?.registryPath;
   const agentDefinitionMap = await loadAndMergeAgents(config.agents, registryPath);
-  const teamMembers: Array<Omit<Member, 'id'> & { id?: string }> = [];
+  const teamMembers: Member[] = [];
 
   // Shared registry instance and verification cache to avoid redundant verifications
   const registry = new AgentRegistry(registryPath);
   const verificationCache = new Map<string, VerificationResult>();
 
-  for (const [index, member] of config.team.members.entries()) {
+  // AI members run in their baseDir unless workspaces say otherwise
+  const workspaceMode = config.team.workspaces?.mode ?? 'baseDir';
+  const workspaceManager = workspaceMode === 'worktree'
+    ? new WorkspaceManager({ executionEnv, projectRoot, config: config.team.workspaces, logger })
+    : undefined;
+
+  // Team prompt template applies to AI members without their own
+  const teamPromptTemplate = config.team.promptTemplate
+    ? loadPromptTemplate(config.team.promptTemplate, projectRoot)
+    : undefined;
+
+  // Builds a member from its config: verifies the agent and registers its agent config
+  const buildMember = async (member: TeamMemberConfig, index: number, sources: MemberSources): Promise<Member> => {
     const normalizedPaths = normalizeMemberPaths(member);
     let agentConfigId: string | undefined;
     let env: Record<string, string> | undefined;
+    let contextTokenBudget = member.contextTokenBudget;
+    let promptTemplate: LoadedPromptTemplate | undefined;
+    let workDir: string | undefined;
 
     if (member.type === 'ai') {
       if (!member.agentType) {
         throw new Error(`AI member "${member.name}" is missing agentType`);
       }
-      const agentDef = agentDefinitionMap.get(member.agentType);
+      const agentDef = sources.agents.get(member.agentType);
       if (!agentDef) {
         throw new Error(`Agent type "${member.agentType}" definition not found`);
       }
+      contextTokenBudget ??= agentDef.contextTokenBudget;
+      promptTemplate = member.promptTemplate
+        ? loadPromptTemplate(member.promptTemplate, normalizedPaths.baseDir)
+        : sources.teamPromptTemplate;
 
       // Real-time verification: Validate agent before starting conversation
       let verification = verificationCache.get(member.agentType);
@@ -389,7 +530,10 @@ export async function initializeServices(
       }
 
       env = buildEnv(member.agentType, member);
-      logger.debug(`Working directory: ${projectRoot}`);
+      workDir = workspaceManager
+        ? (await workspaceManager.provision(member.name)).path
+        : workspaceMode === 'shared' ? projectRoot : normalizedPaths.baseDir;
+      logger.debug(`Working directory: ${workDir}`);
 
       // Map agent type name to adapter type
       const adapterType = member.agentType === 'claude' ? 'claude-code' :
@@ -405,7 +549,7 @@ export async function initializeServices(
         command: agentDef.command,
         args: agentArgs,
         env,
-        cwd: projectRoot,
+        cwd: workDir,
         description: `CLI agent: ${member.agentType} (${member.displayName})`,
         usePty: agentDef.usePty ?? false
       });
@@ -414,7 +558,7 @@ export async function initializeServices(
       env = { ...member.env };
     }
 
-    teamMembers.push({
+    return {
       id: member.name, // stable member ID derived from config name
       displayName: member.displayName,
       name: member.name,
@@ -425,23 +569,46 @@ export async function initializeServices(
       agentConfigId,
       themeColor: member.themeColor,
       baseDir: normalizedPaths.baseDir,
+      workDir,
       instructionFile: normalizedPaths.instructionFile,
       instructionFileText: loadInstructionContent(normalizedPaths.instructionFile),
       env,
       systemInstruction: member.systemInstruction,
+      contextTokenBudget,
+      promptTemplate: promptTemplate?.path,
+      promptTemplateText: promptTemplate?.text,
       order: index
-    });
+    };
+  };
+
+  let memberSources: MemberSources = { agents: agentDefinitionMap, teamPromptTemplate };
+  for (const [index, member] of config.team.members.entries()) {
+    teamMembers.push(await buildMember(member, index, memberSources));
   }
 
-  const team = await teamManager.createTeam({
-    id: config.team.name, // stable team ID derived from team name
-    name: config.team.name,
-    description: config.team.description,
-    displayName: config.team.displayName,
-    instructionFile: config.team.instructionFile,
-    roleDefinitions: config.team.roleDefinitions,
-    members: teamMembers
-  });
+  let team = await teamManager.createTeam(buildTeamInput(config.team, teamMembers, projectRoot));
+
+  // [INVITE] markers: the agent must be defined by the team config or registered in the global registry
+  const provisionMember = async (invitation: ParsedInvite): Promise<Member> => {
+    let agents = memberSources.agents;
+    if (!agents.has(invitation.agentType)) {
+      agents = new Map([...await loadAndMergeAgents(undefined, registryPath), ...agents]);
+    }
+    if (!agents.has(invitation.agentType)) {
+      throw new Error(
+        `agent "${invitation.agentType}" is not registered (run 'agent-chatter agents register ${invitation.agentType}' first)`
+      );
+    }
+    return buildMember({
+      name: invitation.name,
+      displayName: invitation.name,
+      role: invitation.role,
+      type: 'ai',
+      agentType: invitation.agentType,
+      // Own directory, like configured members (worktree/shared modes still apply in buildMember)
+      baseDir: path.join(projectRoot, '.agent-chatter', 'members', invitation.name),
+    }, team.members.length, { ...memberSources, agents });
+  };
 
   const coordinator = new ConversationCoordinator(
     agentManager,
@@ -459,13 +626,65 @@ export async function initializeServices(
       }),
       onUnresolvedAddressees: options?.onUnresolvedAddressees,
       conversationConfig: config.conversation,
+      maxRounds: config.maxRounds,
+      onMaxRoundsReached: options?.onMaxRoundsReached,
+      onSessionBudgetExceeded: options?.onSessionBudgetExceeded,
       onAgentStarted: options?.onAgentStarted,
       onAgentCompleted: options?.onAgentCompleted,
       onQueueUpdate: options?.onQueueUpdate,
-      onPartialResolveFailure: options?.onPartialResolveFailure
+      onPartialResolveFailure: options?.onPartialResolveFailure,
+      assemblers: options?.assemblers,
+      workspaceManager,
+      provisionMember
     }
   );
 
+  // Config hot reload: rebuilds added/changed members and keeps the others (and their agents)
+  let currentConfig = config;
+  const reloadConfig = async (nextConfig: CoreTeamConfig, reloadOptions?: TeamReloadOptions): Promise<TeamReloadResult> => {
+    const validation = validateTeamConfig(nextConfig);
+    if (!validation.valid) {
+      throw new Error(`Invalid team configuration: ${validation.errors.map(e => `${e.path}: ${e.message}`).join('; ')}`);
+    }
+    if (nextConfig.team.name !== currentConfig.team.name) {
+      throw new Error(`Cannot reload team "${currentConfig.team.name}" with team "${nextConfig.team.name}"`);
+    }
+    if (!isDeepStrictEqual(nextConfig.team.workspaces, currentConfig.team.workspaces)) {
+      throw new Error('team.workspaces cannot change on reload; start a new conversation instead');
+    }
+
+    const diff = diffTeamConfig(currentConfig, nextConfig);
+    const rebuild = new Set([...diff.added, ...diff.updated]);
+    const sources: MemberSources = {
+      agents: await loadAndMergeAgents(nextConfig.agents, registryPath),
+      teamPromptTemplate: nextConfig.team.promptTemplate
+        ? loadPromptTemplate(nextConfig.team.promptTemplate, projectRoot)
+        : undefined,
+    };
+
+    const members: Member[] = [];
+    for (const [index, memberConfig] of nextConfig.team.members.entries()) {
+      const existing = team.members.find(m => m.id === memberConfig.name);
+      members.push(existing && !rebuild.has(memberConfig.name)
+        ? { ...existing, order: index, instructionFileText: loadInstructionContent(existing.instructionFile) }
+        : await buildMember(memberConfig, index, sources));
+    }
+
+    const reloaded = await teamManager.reloadTeam(team.id, buildTeamInput(nextConfig.team, members, projectRoot));
+    if (!reloaded) {
+      throw new Error(`Team ${team.id} not found`);
+    }
+    const result = await coordinator.reloadTeam(reloaded, {
+      maxRounds: nextConfig.maxRounds ?? 0,
+      conversationConfig: nextConfig.conversation ?? {},
+      ...reloadOptions,
+    });
+    team = reloaded;
+    currentConfig = nextConfig;
+    memberSources = sources;
+    return result;
+  };
+
   return {
     coordinator,
     team,
@@ -473,6 +692,8 @@ export async function initializeServices(
     agentManager,
     eventEmitter,
     contextCollector,
-    verificationResults: verificationCache
+    verificationResults: verificationCache,
+    workspaceManager,
+    reloadConfig
   };
 }
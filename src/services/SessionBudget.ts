@@ -0,0 +1,173 @@
+/**
+ * SessionBudget - Session-level guard rails for unattended runs
+ *
+ * Tracks hard limits per session:
+ * - Wall-clock duration (measured from session start/restore in this process)
+ * - Total agent turns
+ * - Total tokens (and optionally total cost) reported via usage events
+ *
+ * ConversationCoordinator checks the budget before dequeuing each RoutingItem.
+ * Unlike maxRounds, a breach keeps the pending queue intact so a human can
+ * raise the budget and resume where the conversation stopped.
+ */
+
+/**
+ * Session budget limits
+ * Undefined or 0 means unlimited
+ */
+export interface SessionBudgetLimits {
+  /** Maximum session wall-clock time in ms */
+  maxSessionDuration?: number;
+  /** Maximum number of agent turns */
+  maxAgentTurns?: number;
+  /** Maximum total tokens (input + output) across all members */
+  maxTotalTokens?: number;
+  /** Maximum total cost in USD (only counts CLIs that report cost) */
+  maxTotalCostUsd?: number;
+}
+
+/**
+ * Which limit was crossed
+ */
+export type SessionBudgetReason = 'wall_clock' | 'agent_turns' | 'tokens' | 'cost';
+
+/**
+ * Current consumption measured against the limits
+ */
+export interface SessionBudgetUsage {
+  agentTurns: number;
+  totalTokens: number;
+  totalCostUsd: number;
+}
+
+/**
+ * Result of a budget check that crossed a limit
+ */
+export interface SessionBudgetBreach {
+  reason: SessionBudgetReason;
+  limit: number;
+  actual: number;
+  /** Human readable explanation, suitable for display */
+  message: string;
+}
+
+const LIMIT_KEYS: Array<keyof SessionBudgetLimits> = [
+  'maxSessionDuration',
+  'maxAgentTurns',
+  'maxTotalTokens',
+  'maxTotalCostUsd',
+];
+
+export class SessionBudget {
+  private limits: SessionBudgetLimits;
+  private startedAt: number;
+  private now: () => number;
+
+  constructor(limits: SessionBudgetLimits = {}, options?: { now?: () => number }) {
+    SessionBudget.validate(limits);
+    this.limits = { ...limits };
+    this.now = options?.now ?? (() => Date.now());
+    this.startedAt = this.now();
+  }
+
+  /**
+   * Restart the wall-clock (called when a session is created or restored)
+   */
+  start(): void {
+    this.startedAt = this.now();
+  }
+
+  getElapsedMs(): number {
+    return this.now() - this.startedAt;
+  }
+
+  getLimits(): SessionBudgetLimits {
+    return { ...this.limits };
+  }
+
+  /**
+   * Raise (or otherwise adjust) individual limits
+   *
+   * Only the provided keys change; 0 removes a limit
+   */
+  raise(partial: SessionBudgetLimits): void {
+    SessionBudget.validate(partial);
+    for (const key of LIMIT_KEYS) {
+      if (partial[key] !== undefined) {
+        this.limits[key] = partial[key];
+      }
+    }
+  }
+
+  /**
+   * Number of agent turns still allowed (Infinity when unlimited)
+   */
+  getRemainingAgentTurns(agentTurns: number): number {
+    const max = this.limits.maxAgentTurns;
+    return max ? Math.max(0, max - agentTurns) : Infinity;
+  }
+
+  /**
+   * Check usage against the limits
+   *
+   * @returns the first crossed limit, or null when within budget
+   */
+  check(usage: SessionBudgetUsage): SessionBudgetBreach | null {
+    const { maxSessionDuration, maxAgentTurns, maxTotalTokens, maxTotalCostUsd } = this.limits;
+
+    const elapsed = this.getElapsedMs();
+    if (maxSessionDuration && elapsed >= maxSessionDuration) {
+      return {
+        reason: 'wall_clock',
+        limit: maxSessionDuration,
+        actual: elapsed,
+        message: `Session time budget exceeded (${formatDuration(elapsed)} of ${formatDuration(maxSessionDuration)})`,
+      };
+    }
+
+    if (maxAgentTurns && usage.agentTurns >= maxAgentTurns) {
+      return {
+        reason: 'agent_turns',
+        limit: maxAgentTurns,
+        actual: usage.agentTurns,
+        message: `Agent turn budget exceeded (${usage.agentTurns} of ${maxAgentTurns} turns)`,
+      };
+    }
+
+    if (maxTotalTokens && usage.totalTokens >= maxTotalTokens) {
+      return {
+        reason: 'tokens',
+        limit: maxTotalTokens,
+        actual: usage.totalTokens,
+        message: `Token budget exceeded (${usage.totalTokens} of ${maxTotalTokens} tokens)`,
+      };
+    }
+
+    if (maxTotalCostUsd && usage.totalCostUsd >= maxTotalCostUsd) {
+      return {
+        reason: 'cost',
+        limit: maxTotalCostUsd,
+        actual: usage.totalCostUsd,
+        message: `Cost budget exceeded ($${usage.totalCostUsd.toFixed(2)} of $${maxTotalCostUsd.toFixed(2)})`,
+      };
+    }
+
+    return null;
+  }
+
+  private static validate(limits: SessionBudgetLimits): void {
+    for (const key of LIMIT_KEYS) {
+      const value = limits[key];
+      if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+        throw new Error(`${key} must be a number >= 0 (0 = unlimited), got ${value}`);
+      }
+    }
+  }
+}
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
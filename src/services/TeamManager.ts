@@ -7,8 +7,10 @@
 
 import type { IStorageService } from '../infrastructure/StorageService.js';
 import { StorageKeys } from '../infrastructure/StorageService.js';
-import type { Team, Member, RoleDefinition } from '../models/Team.js';
+import type { Team, Member, RoleDefinition, TeamMembershipConfig, TeamRosterConfig } from '../models/Team.js';
 import { TeamUtils } from '../models/Team.js';
+import type { RoutingRule } from '../models/RoutingRule.js';
+import type { VisibilityRule } from '../models/VisibilityRule.js';
 
 export interface CreateTeamInput {
   id?: string;
@@ -18,6 +20,10 @@ export interface CreateTeamInput {
   instructionFile?: string;
   roleDefinitions?: RoleDefinition[];
   members: Array<Omit<Member, 'id'> & { id?: string }>;
+  routingRules?: RoutingRule[];
+  visibilityRules?: VisibilityRule[];
+  roster?: TeamRosterConfig;
+  membership?: TeamMembershipConfig;
 }
 
 export interface UpdateTeamInput {
@@ -28,6 +34,10 @@ export interface UpdateTeamInput {
   roleDefinitions?: RoleDefinition[];
   members?: Array<Partial<Member> & { id?: string }>;
   replaceMembers?: boolean;
+  routingRules?: RoutingRule[];
+  visibilityRules?: VisibilityRule[];
+  roster?: TeamRosterConfig;
+  membership?: TeamMembershipConfig;
 }
 
 /**
@@ -56,6 +66,10 @@ export class TeamManager {
       input.roleDefinitions
     );
     team.displayName = input.displayName;
+    team.routingRules = input.routingRules;
+    team.visibilityRules = input.visibilityRules;
+    team.roster = input.roster;
+    team.membership = input.membership;
     // 如果提供了固定的 teamId，则使用之以保证跨进程稳定
     if (input.id) {
       team.id = input.id;
@@ -166,6 +180,10 @@ export class TeamManager {
       displayName: input.displayName ?? existingTeam.displayName,
       instructionFile: input.instructionFile ?? existingTeam.instructionFile,
       roleDefinitions: input.roleDefinitions ?? existingTeam.roleDefinitions,
+      routingRules: input.routingRules ?? existingTeam.routingRules,
+      visibilityRules: input.visibilityRules ?? existingTeam.visibilityRules,
+      roster: input.roster ?? existingTeam.roster,
+      membership: input.membership ?? existingTeam.membership,
       members: updatedMembers,
       updatedAt: new Date()
     };
@@ -185,6 +203,52 @@ export class TeamManager {
     return updatedTeam;
   }
 
+  /**
+   * 重新加载团队配置（配置热更新）
+   *
+   * 与 updateTeam 的合并语义不同：整体替换团队定义，输入中省略的字段
+   * （如 routingRules）会被清除。保留团队 ID 与 createdAt；成员使用输入中的 ID。
+   */
+  async reloadTeam(teamId: string, input: CreateTeamInput): Promise<Team | undefined> {
+    const teams = await this.loadTeams();
+    const index = teams.findIndex(t => t.id === teamId);
+
+    if (index === -1) {
+      return undefined;
+    }
+
+    const reloadedTeam: Team = {
+      id: teamId,
+      name: input.name,
+      description: input.description,
+      displayName: input.displayName,
+      instructionFile: input.instructionFile,
+      roleDefinitions: input.roleDefinitions,
+      members: input.members.map(member =>
+        member.id
+          ? { ...member } as Member
+          : TeamUtils.createMember(member)
+      ),
+      routingRules: input.routingRules,
+      visibilityRules: input.visibilityRules,
+      roster: input.roster,
+      membership: input.membership,
+      createdAt: teams[index].createdAt,
+      updatedAt: new Date()
+    };
+
+    // 验证
+    const validation = TeamUtils.validateTeam(reloadedTeam);
+    if (!validation.valid) {
+      throw new Error(validation.errors.join('; '));
+    }
+
+    teams[index] = reloadedTeam;
+    await this.storageService.save(StorageKeys.TEAMS, teams);
+
+    return reloadedTeam;
+  }
+
   /**
    * 删除团队
    */
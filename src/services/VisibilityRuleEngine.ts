@@ -0,0 +1,93 @@
+/**
+ * VisibilityRuleEngine - Evaluates context visibility rules from team config
+ *
+ * Semantics:
+ * - Rules apply to recipients selected by appliesTo (name/ID, "role:<role>", "*")
+ * - A message passes a rule if it matches any visibleWhen condition (when present)
+ *   and no hiddenWhen condition; it must pass every rule applying to the recipient
+ * - A member always sees its own messages; members without rules see everything
+ */
+
+import type { Team, Member } from '../models/Team.js';
+import type { ConversationMessage } from '../models/ConversationMessage.js';
+import type { VisibilityCondition, VisibilityRule } from '../models/VisibilityRule.js';
+import { ROLE_ROUTE_PREFIX } from './RoutingRuleEngine.js';
+import { normalizeIdentifier, speakerMatches, toList } from './speakerConditions.js';
+
+/**
+ * appliesTo reference for every AI member
+ */
+export const ALL_AGENTS_VISIBILITY_TARGET = '*';
+
+export class VisibilityRuleEngine {
+  constructor(private rules: VisibilityRule[] = []) {}
+
+  hasRules(): boolean {
+    return this.rules.length > 0;
+  }
+
+  /**
+   * Whether a message may appear in the recipient's context
+   *
+   * @param recipientId - Member ID of the agent the context is built for
+   */
+  canSee(message: ConversationMessage, recipientId: string, team: Team): boolean {
+    if (this.rules.length === 0 || message.speaker.id === recipientId) {
+      return true;
+    }
+
+    const recipient = team.members.find(m => m.id === recipientId);
+    if (!recipient) {
+      return true;
+    }
+    const speaker = team.members.find(m => m.id === message.speaker.id);
+
+    return this.rulesFor(recipient).every(rule => {
+      const matches = (condition: VisibilityCondition) =>
+        this.conditionMatches(condition, message, speaker, recipient);
+
+      if (rule.visibleWhen && !rule.visibleWhen.some(matches)) {
+        return false;
+      }
+      return !(rule.hiddenWhen ?? []).some(matches);
+    });
+  }
+
+  /**
+   * Rules that apply to a recipient, in declaration order
+   */
+  rulesFor(recipient: Member): VisibilityRule[] {
+    return this.rules.filter(rule =>
+      toList(rule.appliesTo).some(target => {
+        if (target === ALL_AGENTS_VISIBILITY_TARGET) {
+          return recipient.type === 'ai';
+        }
+        if (target.startsWith(ROLE_ROUTE_PREFIX)) {
+          return recipient.role === target.slice(ROLE_ROUTE_PREFIX.length);
+        }
+        return target === recipient.id || normalizeIdentifier(target) === normalizeIdentifier(recipient.name);
+      })
+    );
+  }
+
+  private conditionMatches(
+    condition: VisibilityCondition,
+    message: ConversationMessage,
+    speaker: Member | undefined,
+    recipient: Member
+  ): boolean {
+    if (!speakerMatches(condition, message, speaker)) {
+      return false;
+    }
+
+    if (condition.addressedToSelf !== undefined) {
+      const addressed = (message.routing?.resolvedAddressees ?? [])
+        .some(addressee => addressee.memberId === recipient.id);
+      if (addressed !== condition.addressedToSelf) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * WorkspaceManager - Per-member git worktrees (team.workspaces.mode = "worktree")
+ *
+ * Semantics:
+ * - Each AI member gets a worktree of the project repository on its own branch
+ *   (<branchPrefix><member>), so concurrent agents never edit the same checkout
+ * - Existing worktrees/branches are reused, so a restarted team continues where it left off
+ * - diff() shows a member's changes (committed or not) since it branched off
+ * - merge() commits pending workspace changes and merges the branch into the
+ *   project checkout; conflicting merges are aborted and reported
+ *
+ * git runs through the injected IExecutionEnvironment (Core does not use child_process).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { IExecutionEnvironment } from '../interfaces/IExecutionEnvironment.js';
+import type { ILogger } from '../interfaces/ILogger.js';
+import { SilentLogger } from '../interfaces/ILogger.js';
+import type {
+  MemberWorkspace,
+  WorkspaceConfig,
+  WorkspaceDiff,
+  WorkspaceMergeResult,
+} from '../models/Workspace.js';
+
+const DEFAULT_BRANCH_PREFIX = 'agent-chatter/';
+
+export interface WorkspaceManagerOptions {
+  /** Runs git (same environment as the agents) */
+  executionEnv: IExecutionEnvironment;
+  /** Directory inside the project repository (usually process.cwd()) */
+  projectRoot: string;
+  config?: WorkspaceConfig;
+  logger?: ILogger;
+}
+
+export class WorkspaceManager {
+  private readonly workspaces = new Map<string, MemberWorkspace>();
+  private readonly logger: ILogger;
+  private repoRoot: string | null = null;
+
+  constructor(private readonly options: WorkspaceManagerOptions) {
+    this.logger = options.logger ?? new SilentLogger();
+  }
+
+  /**
+   * Creates (or reuses) the worktree for a member
+   *
+   * @throws Error when projectRoot is not in a git repository or git fails
+   */
+  async provision(memberId: string): Promise<MemberWorkspace> {
+    const existing = this.workspaces.get(memberId);
+    if (existing) {
+      return existing;
+    }
+
+    const repoRoot = await this.getRepoRoot();
+    const branch = `${this.options.config?.branchPrefix ?? DEFAULT_BRANCH_PREFIX}${memberId}`;
+    const worktreePath = path.join(this.getWorktreeRoot(repoRoot), memberId);
+
+    const registered = await this.listWorktrees(repoRoot);
+    const registeredBranch = registered.get(realPath(worktreePath));
+    if (registeredBranch !== undefined) {
+      if (registeredBranch !== branch) {
+        throw new Error(`Worktree ${worktreePath} is on "${registeredBranch || 'detached HEAD'}", expected "${branch}"`);
+      }
+      this.logger.debug(`[Workspace] Reusing worktree for ${memberId}: ${worktreePath}`);
+    } else if (await this.branchExists(repoRoot, branch)) {
+      await this.git(['worktree', 'add', worktreePath, branch], repoRoot);
+      this.logger.info(`[Workspace] Checked out ${branch} for ${memberId}: ${worktreePath}`);
+    } else {
+      const baseRef = this.options.config?.baseRef ?? 'HEAD';
+      await this.git(['worktree', 'add', '-b', branch, worktreePath, baseRef], repoRoot);
+      this.logger.info(`[Workspace] Created ${branch} from ${baseRef} for ${memberId}: ${worktreePath}`);
+    }
+
+    const workspace: MemberWorkspace = { memberId, path: worktreePath, branch };
+    this.workspaces.set(memberId, workspace);
+    return workspace;
+  }
+
+  getWorkspace(memberId: string): MemberWorkspace | undefined {
+    return this.workspaces.get(memberId);
+  }
+
+  getWorkspaces(): MemberWorkspace[] {
+    return Array.from(this.workspaces.values());
+  }
+
+  /**
+   * Changes in a member workspace since its branch left the project checkout
+   *
+   * Read-only: the workspace index is left alone (the agent may still be working in it);
+   * untracked files are diffed against /dev/null.
+   */
+  async diff(memberId: string): Promise<WorkspaceDiff> {
+    const workspace = this.requireWorkspace(memberId);
+    const repoRoot = await this.getRepoRoot();
+
+    const base = (await this.git(['merge-base', 'HEAD', workspace.branch], repoRoot)).trim();
+    const tracked = splitLines(await this.git(['diff', '--name-only', base], workspace.path));
+    const untracked = splitLines(await this.git(['ls-files', '--others', '--exclude-standard'], workspace.path));
+
+    let patch = tracked.length > 0 ? await this.git(['diff', base], workspace.path) : '';
+    for (const file of untracked) {
+      // --no-index exits with 1 when the files differ
+      patch += await this.git(['diff', '--no-index', '--', '/dev/null', file], workspace.path, [0, 1]);
+    }
+
+    return { memberId, branch: workspace.branch, files: [...tracked, ...untracked].sort(), patch };
+  }
+
+  /**
+   * Merges a member branch into the project checkout
+   *
+   * Uncommitted workspace changes are committed first. On conflicts the merge
+   * is aborted (project checkout unchanged) and the conflicting paths returned.
+   *
+   * @throws Error when the merge fails for another reason (e.g. local changes in the project checkout)
+   */
+  async merge(memberId: string, message?: string): Promise<WorkspaceMergeResult> {
+    const workspace = this.requireWorkspace(memberId);
+    const repoRoot = await this.getRepoRoot();
+
+    let workspaceCommit: string | undefined;
+    await this.git(['add', '-A'], workspace.path);
+    if ((await this.git(['status', '--porcelain'], workspace.path)).trim()) {
+      await this.git(['commit', '-m', message ?? `${memberId}: workspace changes`], workspace.path);
+      workspaceCommit = (await this.git(['rev-parse', 'HEAD'], workspace.path)).trim();
+    }
+
+    try {
+      await this.git(['merge', '--no-ff', '--no-edit', workspace.branch], repoRoot);
+    } catch (error) {
+      const conflicts = splitLines(await this.git(['diff', '--name-only', '--diff-filter=U'], repoRoot));
+      if (conflicts.length === 0) {
+        throw error;
+      }
+      await this.git(['merge', '--abort'], repoRoot);
+      this.logger.warn(`[Workspace] Merge of ${workspace.branch} aborted, conflicts: ${conflicts.join(', ')}`);
+      return { memberId, branch: workspace.branch, merged: false, workspaceCommit, conflicts };
+    }
+
+    this.logger.info(`[Workspace] Merged ${workspace.branch} into ${repoRoot}`);
+    return { memberId, branch: workspace.branch, merged: true, workspaceCommit, conflicts: [] };
+  }
+
+  /**
+   * Removes a member worktree (discarding uncommitted changes)
+   *
+   * @param deleteBranch - Also delete the member branch (default: false)
+   */
+  async release(memberId: string, deleteBranch = false): Promise<void> {
+    const workspace = this.requireWorkspace(memberId);
+    const repoRoot = await this.getRepoRoot();
+
+    await this.git(['worktree', 'remove', '--force', workspace.path], repoRoot);
+    if (deleteBranch) {
+      await this.git(['branch', '-D', workspace.branch], repoRoot);
+    }
+    this.workspaces.delete(memberId);
+  }
+
+  // --------------------------------------------------------------------------
+  // git helpers
+  // --------------------------------------------------------------------------
+
+  private requireWorkspace(memberId: string): MemberWorkspace {
+    const workspace = this.workspaces.get(memberId);
+    if (!workspace) {
+      throw new Error(`No workspace provisioned for member ${memberId}`);
+    }
+    return workspace;
+  }
+
+  private async getRepoRoot(): Promise<string> {
+    if (!this.repoRoot) {
+      try {
+        this.repoRoot = (await this.git(['rev-parse', '--show-toplevel'], this.options.projectRoot)).trim();
+      } catch (error) {
+        throw new Error(
+          `Worktree workspaces require a git repository: ${this.options.projectRoot} (${error instanceof Error ? error.message : String(error)})`
+        );
+      }
+    }
+    return this.repoRoot;
+  }
+
+  private getWorktreeRoot(repoRoot: string): string {
+    const root = this.options.config?.root;
+    return root
+      ? path.resolve(this.options.projectRoot, root)
+      : path.join(path.dirname(repoRoot), `${path.basename(repoRoot)}-worktrees`);
+  }
+
+  /**
+   * Registered worktrees: real path -> checked out branch ('' when detached)
+   */
+  private async listWorktrees(repoRoot: string): Promise<Map<string, string>> {
+    const worktrees = new Map<string, string>();
+    let current: string | null = null;
+    for (const line of splitLines(await this.git(['worktree', 'list', '--porcelain'], repoRoot))) {
+      if (line.startsWith('worktree ')) {
+        current = realPath(line.slice('worktree '.length));
+        worktrees.set(current, '');
+      } else if (line.startsWith('branch ') && current) {
+        worktrees.set(current, line.slice('branch '.length).replace(/^refs\/heads\//, ''));
+      }
+    }
+    return worktrees;
+  }
+
+  private async branchExists(repoRoot: string, branch: string): Promise<boolean> {
+    try {
+      await this.git(['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`], repoRoot);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private git(args: string[], cwd: string, exitCodes: number[] = [0]): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const proc = this.options.executionEnv.spawn('git', args, { cwd });
+      let stdout = '';
+      let stderr = '';
+      proc.stdout?.on('data', (chunk: Buffer | string) => { stdout += chunk.toString(); });
+      proc.stderr?.on('data', (chunk: Buffer | string) => { stderr += chunk.toString(); });
+      proc.once('error', reject);
+      proc.once('close', (code) => {
+        if (code !== null && exitCodes.includes(code)) {
+          resolve(stdout);
+        } else {
+          reject(new Error(`git ${args.join(' ')} failed (exit ${code}): ${stderr.trim()}`));
+        }
+      });
+    });
+  }
+}
+
+function splitLines(output: string): string[] {
+  return output.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+function realPath(target: string): string {
+  try {
+    return fs.realpathSync(target);
+  } catch {
+    return path.resolve(target);
+  }
+}
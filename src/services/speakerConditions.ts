@@ -0,0 +1,61 @@
+/**
+ * Speaker conditions shared by RoutingRuleEngine and VisibilityRuleEngine
+ *
+ * Both rule kinds select messages by speaker type, role and member name/ID;
+ * member references are matched by ID or by normalized name.
+ */
+
+import type { Member } from '../models/Team.js';
+import type { ConversationMessage } from '../models/ConversationMessage.js';
+
+/**
+ * Speaker predicates common to RoutingRuleCondition and VisibilityCondition
+ */
+export interface SpeakerCondition {
+  fromRole?: string | string[];
+  fromMember?: string | string[];
+  speakerType?: 'ai' | 'human';
+}
+
+/**
+ * Whether the message speaker satisfies every present predicate
+ *
+ * @param speaker - Team member who sent the message (undefined when not in the team)
+ */
+export function speakerMatches(
+  condition: SpeakerCondition,
+  message: ConversationMessage,
+  speaker: Member | undefined
+): boolean {
+  if (condition.speakerType && message.speaker.type !== condition.speakerType) {
+    return false;
+  }
+
+  if (condition.fromRole !== undefined) {
+    const roles = toList(condition.fromRole);
+    if (!speaker || !roles.includes(speaker.role)) {
+      return false;
+    }
+  }
+
+  if (condition.fromMember !== undefined) {
+    const names = toList(condition.fromMember).map(normalizeIdentifier);
+    const speakerIds = [message.speaker.id, message.speaker.name].map(normalizeIdentifier);
+    if (!names.some(name => speakerIds.includes(name))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+export function toList(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Member reference normalization (case, spaces, dashes and underscores ignored)
+ */
+export function normalizeIdentifier(identifier: string): string {
+  return identifier.toLowerCase().replace(/[\s\-_]/g, '');
+}
@@ -0,0 +1,44 @@
+import * as fs from 'fs';
+
+interface CachedInstructionFile {
+  mtimeMs: number;
+  size: number;
+  text: string;
+}
+
+/**
+ * Instruction file contents, re-read when the file changes on disk.
+ *
+ * read() stats the file on every call and only reads it again when its mtime
+ * or size changed, so edits reach the next prompt without a restart.
+ * Missing or unreadable files yield undefined.
+ */
+export class InstructionFileCache {
+  private readonly entries = new Map<string, CachedInstructionFile | null>();
+
+  /**
+   * @param onChange - Called when a file read earlier changed (text is undefined once it is gone)
+   */
+  constructor(private readonly onChange?: (filePath: string, text: string | undefined) => void) {}
+
+  read(filePath: string): string | undefined {
+    const previous = this.entries.get(filePath);
+    let current: CachedInstructionFile | null = null;
+
+    try {
+      const stats = fs.statSync(filePath);
+      if (previous && previous.mtimeMs === stats.mtimeMs && previous.size === stats.size) {
+        return previous.text;
+      }
+      current = { mtimeMs: stats.mtimeMs, size: stats.size, text: fs.readFileSync(filePath, 'utf-8') };
+    } catch {
+      // Missing or unreadable: no instructions
+    }
+
+    this.entries.set(filePath, current);
+    if (previous !== undefined && previous?.text !== current?.text) {
+      this.onChange?.(filePath, current?.text);
+    }
+    return current?.text;
+  }
+}
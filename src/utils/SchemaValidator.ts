@@ -34,7 +34,7 @@ function findSchemaDir(): string {
   ];
 
   for (const dir of candidates) {
-    if (fs.existsSync(dir) && fs.existsSync(path.join(dir, 'session-snapshot-v1.0.json'))) {
+    if (fs.existsSync(dir) && fs.existsSync(path.join(dir, 'session-snapshot-v1.1.json'))) {
       return dir;
     }
   }
@@ -100,7 +100,7 @@ interface VersionConfig {
 const VERSION_CONFIGS: Record<string, VersionConfig> = {
   cliConfig: { name: 'team-config', min: '1.1', max: '1.2' },
   agentRegistry: { name: 'agent-registry', min: '1.1', max: '1.1' },
-  sessionSnapshot: { name: 'session-snapshot', min: '1.0', max: '1.0' },
+  sessionSnapshot: { name: 'session-snapshot', min: '1.0', max: '1.1' },
 };
 
 /**
@@ -172,7 +172,7 @@ function getAgentRegistryValidator(): Ajv.ValidateFunction {
 
 function getSessionSnapshotValidator(): Ajv.ValidateFunction {
   if (!_validators.sessionSnapshot) {
-    const schema = loadSchema('session-snapshot-v1.0.json');
+    const schema = loadSchema('session-snapshot-v1.1.json');
     _validators.sessionSnapshot = getAjv().compile(schema);
   }
   return _validators.sessionSnapshot;
@@ -277,7 +277,7 @@ export function validateSessionSnapshot(content: unknown): SessionSnapshot {
   return validateWithSchema<SessionSnapshot>(
     content,
     getSessionSnapshotValidator(),
-    'session-snapshot-v1.0'
+    'session-snapshot-v1.1'
   );
 }
 
@@ -299,7 +299,7 @@ export function checkSchemaFilesExist(): { exists: boolean; missing: string[]; s
   const schemaFiles = [
     'cli-config-v1.2.json',
     'agent-registry-v1.1.json',
-    'session-snapshot-v1.0.json',
+    'session-snapshot-v1.1.json',
   ];
 
   const missing: string[] = [];
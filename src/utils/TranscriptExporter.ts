@@ -0,0 +1,440 @@
+/**
+ * TranscriptExporter
+ *
+ * Render a saved SessionSnapshot into shareable transcripts:
+ * - markdown: GitHub-flavored Markdown, tool calls folded in <details>
+ * - html: self-contained page (inline CSS, no external assets)
+ * - jsonl: normalized records (one session header + one record per message)
+ *
+ * Agent turns can optionally be enriched with ContextSummary records from
+ * ContextEventCollector (tool calls, errors, usage). Summaries are matched to
+ * AI messages per agent in order, aligned to the most recent turns because the
+ * collector trims its oldest summaries.
+ */
+
+import type { SessionSnapshot, PersistedMessage } from '../models/SessionSnapshot.js';
+import type { Member } from '../models/Team.js';
+import type { ContextSummary } from '../services/ContextEventCollector.js';
+import type { UsageDelta } from '../models/UsageStats.js';
+import { migrateMessageSpeaker, type SpeakerInfoInput } from './speakerMigration.js';
+
+export type TranscriptFormat = 'markdown' | 'html' | 'jsonl';
+
+export interface TranscriptExportOptions {
+  /** Turn summaries from ContextEventCollector (in-memory or parsed from the -summary.jsonl log) */
+  summaries?: ContextSummary[];
+  /** Team members, used to show roles (snapshots only store speaker names) */
+  members?: Array<Pick<Member, 'id' | 'displayName' | 'role'> & { displayRole?: string }>;
+  /** Document title (default: "Session <sessionId>") */
+  title?: string;
+}
+
+/**
+ * Tool call folded from tool.started / tool.completed pairs
+ */
+export interface TranscriptToolCall {
+  name?: string;
+  id?: string;
+  input?: Record<string, any>;
+  output?: string;
+  error?: string;
+}
+
+/**
+ * Normalized speaker
+ */
+export interface TranscriptSpeaker {
+  id: string;
+  name: string;
+  displayName: string;
+  type: 'ai' | 'human' | 'system';
+  role?: string;
+}
+
+/**
+ * Normalized message record (one JSONL line)
+ */
+export interface TranscriptMessage {
+  type: 'message';
+  id: string;
+  timestamp: string;
+  speaker: TranscriptSpeaker;
+  content: string;
+  routedTo: Array<{ identifier: string; memberId: string | null; displayName: string }>;
+  parentMessageId?: string;
+  intent?: 'P1_INTERRUPT' | 'P2_REPLY' | 'P3_EXTEND';
+  tools?: TranscriptToolCall[];
+  errors?: string[];
+  usage?: UsageDelta;
+  finishReason?: ContextSummary['finishReason'];
+}
+
+/**
+ * Session header record (first JSONL line)
+ */
+export interface TranscriptHeader {
+  type: 'session';
+  title: string;
+  sessionId: string;
+  teamId: string;
+  createdAt: string;
+  updatedAt: string;
+  teamTask: string | null;
+  messageCount: number;
+  forkedFrom?: SessionSnapshot['forkedFrom'];
+}
+
+export interface Transcript {
+  header: TranscriptHeader;
+  messages: TranscriptMessage[];
+}
+
+/**
+ * Build the normalized transcript model shared by all renderers
+ */
+export function buildTranscript(snapshot: SessionSnapshot, options: TranscriptExportOptions = {}): Transcript {
+  const memberById = new Map((options.members ?? []).map(m => [m.id, m]));
+  const persisted = snapshot.context.messages;
+  const summaryByMessageId = matchSummaries(persisted, options.summaries ?? []);
+
+  const messages = persisted.map((msg): TranscriptMessage => {
+    const speaker = toTranscriptSpeaker(msg.speaker);
+    const member = memberById.get(speaker.id);
+    if (member) {
+      speaker.role = member.displayRole ?? member.role;
+    }
+
+    const routedTo = (msg.routing?.resolvedAddressees ?? []).map((addr: PersistedAddresseeInput) => {
+      const memberId = addr.memberId ?? addr.roleId ?? null;
+      const target = memberId ? memberById.get(memberId) : undefined;
+      return {
+        identifier: addr.identifier,
+        memberId,
+        displayName: target?.displayName ?? addr.memberName ?? addr.roleName ?? addr.identifier,
+      };
+    });
+
+    const record: TranscriptMessage = {
+      type: 'message',
+      id: msg.id,
+      timestamp: msg.timestamp,
+      speaker,
+      content: msg.content,
+      routedTo,
+      parentMessageId: msg.routing?.parentMessageId,
+      intent: msg.routing?.intent,
+    };
+
+    const summary = summaryByMessageId.get(msg.id);
+    if (summary) {
+      const tools = foldToolCalls(summary.tools);
+      if (tools.length > 0) record.tools = tools;
+      if (summary.errors.length > 0) record.errors = summary.errors;
+      if (summary.usage) record.usage = summary.usage;
+      record.finishReason = summary.finishReason;
+    }
+
+    return record;
+  });
+
+  return {
+    header: {
+      type: 'session',
+      title: options.title ?? `Session ${snapshot.sessionId}`,
+      sessionId: snapshot.sessionId,
+      teamId: snapshot.teamId,
+      createdAt: snapshot.createdAt,
+      updatedAt: snapshot.updatedAt,
+      teamTask: snapshot.context.teamTask,
+      messageCount: messages.length,
+      forkedFrom: snapshot.forkedFrom,
+    },
+    messages,
+  };
+}
+
+/**
+ * Render a snapshot in the requested format
+ */
+export function exportTranscript(
+  snapshot: SessionSnapshot,
+  format: TranscriptFormat,
+  options: TranscriptExportOptions = {}
+): string {
+  const transcript = buildTranscript(snapshot, options);
+  switch (format) {
+    case 'markdown':
+      return renderMarkdown(transcript);
+    case 'html':
+      return renderHtml(transcript);
+    case 'jsonl':
+      return renderJsonl(transcript);
+    default:
+      throw new Error(`Unsupported transcript format: ${format as string}`);
+  }
+}
+
+/**
+ * Parse the collector's -summary.jsonl log (invalid lines are skipped)
+ */
+export function parseContextSummaries(jsonl: string): ContextSummary[] {
+  const summaries: ContextSummary[] = [];
+  for (const line of jsonl.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    try {
+      const parsed = JSON.parse(line);
+      if (parsed && typeof parsed.agentId === 'string') {
+        summaries.push({ tools: [], errors: [], text: '', ...parsed });
+      }
+    } catch {
+      continue;
+    }
+  }
+  return summaries;
+}
+
+// ---- Renderers ----
+
+export function renderJsonl(transcript: Transcript): string {
+  return [transcript.header, ...transcript.messages]
+    .map(record => JSON.stringify(record))
+    .join('\n') + '\n';
+}
+
+export function renderMarkdown(transcript: Transcript): string {
+  const { header } = transcript;
+  const lines: string[] = [`# ${header.title}`, ''];
+
+  lines.push(`- Session: \`${header.sessionId}\``);
+  lines.push(`- Team: \`${header.teamId}\``);
+  lines.push(`- Created: ${header.createdAt}`);
+  if (header.forkedFrom) {
+    lines.push(`- Forked from: \`${header.forkedFrom.sessionId}\` at \`${header.forkedFrom.messageId}\``);
+  }
+  if (header.teamTask) {
+    lines.push(`- Team task: ${header.teamTask}`);
+  }
+  lines.push('');
+
+  for (const msg of transcript.messages) {
+    lines.push('---', '');
+    lines.push(`### ${speakerLabel(msg.speaker)}${routeSuffix(msg)}`);
+    lines.push(`<sub>${metaParts(msg).join(' · ')}</sub>`, '');
+    lines.push(msg.content, '');
+
+    if (msg.tools?.length) {
+      lines.push('<details>', `<summary>Tool calls (${msg.tools.length})</summary>`, '');
+      for (const tool of msg.tools) {
+        const input = tool.input ? ` \`${JSON.stringify(tool.input)}\`` : '';
+        lines.push(`- **${tool.name ?? 'tool'}**${input}`);
+        const result = tool.error ?? tool.output;
+        if (result) {
+          lines.push('', fence(result, '  '), '');
+        }
+      }
+      lines.push('', '</details>', '');
+    }
+
+    if (msg.errors?.length) {
+      for (const error of msg.errors) {
+        lines.push(`> **Error:** ${error}`);
+      }
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function renderHtml(transcript: Transcript): string {
+  const { header } = transcript;
+  const meta = [
+    `Session <code>${escapeHtml(header.sessionId)}</code>`,
+    `Team <code>${escapeHtml(header.teamId)}</code>`,
+    `Created ${escapeHtml(header.createdAt)}`,
+  ];
+  if (header.forkedFrom) {
+    meta.push(
+      `Forked from <code>${escapeHtml(header.forkedFrom.sessionId)}</code> ` +
+      `at <code>${escapeHtml(header.forkedFrom.messageId)}</code>`
+    );
+  }
+
+  const body = transcript.messages.map(msg => {
+    const tools = msg.tools?.length
+      ? `<details class="tools"><summary>Tool calls (${msg.tools.length})</summary><ul>` +
+        msg.tools.map(tool => {
+          const input = tool.input ? ` <code>${escapeHtml(JSON.stringify(tool.input))}</code>` : '';
+          const result = tool.error ?? tool.output;
+          const output = result
+            ? `<pre class="${tool.error ? 'error' : ''}">${escapeHtml(result)}</pre>`
+            : '';
+          return `<li><strong>${escapeHtml(tool.name ?? 'tool')}</strong>${input}${output}</li>`;
+        }).join('') +
+        '</ul></details>'
+      : '';
+    const errors = (msg.errors ?? [])
+      .map(error => `<p class="error">Error: ${escapeHtml(error)}</p>`)
+      .join('');
+
+    return [
+      `<article class="message ${msg.speaker.type}" id="${escapeHtml(msg.id)}">`,
+      `<header><span class="speaker">${escapeHtml(speakerLabel(msg.speaker))}</span>` +
+        `${escapeHtml(routeSuffix(msg))}</header>`,
+      `<div class="meta">${escapeHtml(metaParts(msg).join(' · '))}</div>`,
+      `<div class="content">${escapeHtml(msg.content)}</div>`,
+      tools,
+      errors,
+      '</article>',
+    ].join('\n');
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(header.title)}</title>
+<style>
+body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+h1 { font-size: 1.5rem; }
+.session-meta { color: #59636e; font-size: 0.9rem; }
+.message { border: 1px solid #d1d9e0; border-radius: 6px; padding: 0.75rem 1rem; margin: 1rem 0; }
+.message.human { background: #f6f8fa; }
+.message.system { border-style: dashed; }
+.speaker { font-weight: 600; }
+.meta { color: #59636e; font-size: 0.8rem; margin: 0.25rem 0 0.5rem; }
+.content { white-space: pre-wrap; }
+.tools summary { cursor: pointer; color: #0969da; }
+pre { background: #f6f8fa; padding: 0.5rem; overflow-x: auto; white-space: pre-wrap; }
+.error { color: #d1242f; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(header.title)}</h1>
+<p class="session-meta">${meta.join(' · ')}</p>
+${header.teamTask ? `<p class="session-meta">Team task: ${escapeHtml(header.teamTask)}</p>\n` : ''}${body}
+</body>
+</html>
+`;
+}
+
+// ---- Helpers ----
+
+/**
+ * Resolved addressee as persisted (legacy snapshots used roleId/roleName)
+ */
+type PersistedAddresseeInput = NonNullable<PersistedMessage['routing']>['resolvedAddressees'][number] & {
+  roleId?: string;
+  roleName?: string;
+};
+
+/**
+ * Transcript speaker from either speaker format (copied, role is filled in later)
+ */
+function toTranscriptSpeaker(speaker: SpeakerInfoInput): TranscriptSpeaker {
+  const { id, name, displayName, type } = migrateMessageSpeaker(speaker);
+  return { id, name, displayName, type };
+}
+
+/**
+ * Assign summaries to AI messages per agent, aligned to the most recent turns
+ */
+function matchSummaries(messages: PersistedMessage[], summaries: ContextSummary[]): Map<string, ContextSummary> {
+  const result = new Map<string, ContextSummary>();
+  if (summaries.length === 0) {
+    return result;
+  }
+
+  const summariesByAgent = new Map<string, ContextSummary[]>();
+  for (const summary of [...summaries].sort((a, b) => a.timestamp - b.timestamp)) {
+    // Cancelled turns never produce a message
+    if (summary.finishReason === 'cancelled') continue;
+    const list = summariesByAgent.get(summary.agentId) ?? [];
+    list.push(summary);
+    summariesByAgent.set(summary.agentId, list);
+  }
+
+  const messagesByAgent = new Map<string, PersistedMessage[]>();
+  for (const msg of messages) {
+    const speaker = migrateMessageSpeaker(msg.speaker);
+    if (speaker.type !== 'ai') continue;
+    const list = messagesByAgent.get(speaker.id) ?? [];
+    list.push(msg);
+    messagesByAgent.set(speaker.id, list);
+  }
+
+  for (const [agentId, agentMessages] of messagesByAgent) {
+    const agentSummaries = summariesByAgent.get(agentId) ?? [];
+    const count = Math.min(agentMessages.length, agentSummaries.length);
+    for (let i = 1; i <= count; i++) {
+      result.set(
+        agentMessages[agentMessages.length - i].id,
+        agentSummaries[agentSummaries.length - i]
+      );
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Fold tool.started and tool-result entries sharing an id into one call
+ */
+function foldToolCalls(tools: ContextSummary['tools']): TranscriptToolCall[] {
+  const calls: TranscriptToolCall[] = [];
+  const byId = new Map<string, TranscriptToolCall>();
+
+  for (const tool of tools) {
+    if (tool.name === 'tool-result') {
+      const call = tool.id ? byId.get(tool.id) : undefined;
+      if (call) {
+        call.output = tool.output;
+        call.error = tool.error;
+      } else {
+        calls.push({ id: tool.id, output: tool.output, error: tool.error });
+      }
+      continue;
+    }
+    const call: TranscriptToolCall = { name: tool.name, id: tool.id, input: tool.input };
+    calls.push(call);
+    if (tool.id) byId.set(tool.id, call);
+  }
+
+  return calls;
+}
+
+function speakerLabel(speaker: TranscriptSpeaker): string {
+  return speaker.role ? `${speaker.displayName} (${speaker.role})` : speaker.displayName;
+}
+
+function routeSuffix(msg: TranscriptMessage): string {
+  if (msg.routedTo.length === 0) return '';
+  return ` → ${msg.routedTo.map(r => r.memberId ? r.displayName : `${r.identifier} (unresolved)`).join(', ')}`;
+}
+
+function metaParts(msg: TranscriptMessage): string[] {
+  const parts = [msg.timestamp];
+  if (msg.intent) parts.push(msg.intent);
+  if (msg.parentMessageId) parts.push(`reply to ${msg.parentMessageId}`);
+  if (msg.finishReason && msg.finishReason !== 'done') parts.push(msg.finishReason);
+  if (msg.usage) {
+    const total = msg.usage.totalTokens ?? msg.usage.inputTokens + msg.usage.outputTokens;
+    parts.push(`${total} tokens`);
+  }
+  return parts;
+}
+
+function fence(text: string, indent: string): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map(m => m.length));
+  const marker = '`'.repeat(longest + 1);
+  return [marker, ...text.split('\n'), marker].map(line => indent + line).join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
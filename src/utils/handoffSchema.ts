@@ -0,0 +1,35 @@
+/**
+ * Compilation of per-role handoff schemas (RoleDefinition.handoffSchema)
+ *
+ * Shared by config validation (TeamConfigSchema) and the runtime HandoffValidator
+ */
+
+import Ajv from 'ajv';
+import type { RoleDefinition } from '../models/Team.js';
+
+/**
+ * Checks that a role's handoffSchema compiles
+ *
+ * @returns Compile error message, or undefined when the schema is valid
+ */
+export function checkHandoffSchema(role: RoleDefinition): string | undefined {
+  try {
+    compileHandoffSchema(new Ajv.default({ strict: false }), role);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * @throws Error when the role's handoffSchema is not a valid JSON schema
+ */
+export function compileHandoffSchema(ajv: Ajv.default, role: RoleDefinition): Ajv.ValidateFunction {
+  try {
+    return ajv.compile(role.handoffSchema!);
+  } catch (error) {
+    throw new Error(
+      `Invalid handoffSchema for role "${role.name}": ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
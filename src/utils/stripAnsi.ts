@@ -0,0 +1,45 @@
+/**
+ * Utility functions for removing terminal control sequences
+ *
+ * @file src/utils/stripAnsi.ts
+ */
+
+// CSI (colors, cursor movement), OSC (window title, hyperlinks) and single-character escapes
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+
+// Same sequences, anchored: used to detect an escape split across chunks
+const COMPLETE_ESCAPE_PATTERN = /^(?:\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_])/;
+
+/**
+ * Remove ANSI escape sequences from terminal output
+ *
+ * @remarks
+ * - Carriage returns are removed as well (a PTY translates `\n` to `\r\n`)
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '').replace(/\r/g, '');
+}
+
+/**
+ * Split terminal output into a part that is safe to strip and an unfinished escape sequence
+ *
+ * Streamed output can end in the middle of an escape sequence; the tail should be
+ * kept and prepended to the next chunk.
+ *
+ * @returns [complete, pending]
+ */
+export function splitPendingEscape(text: string): [string, string] {
+  const lastEscape = text.lastIndexOf('\x1b');
+  if (lastEscape === -1) {
+    return [text, ''];
+  }
+  const tail = text.slice(lastEscape);
+  if (COMPLETE_ESCAPE_PATTERN.test(tail)) {
+    return [text, ''];
+  }
+  // A sequence longer than any real one is not an escape in progress
+  if (tail.length > 256) {
+    return [text, ''];
+  }
+  return [text.slice(0, lastEscape), tail];
+}
@@ -287,4 +287,103 @@ describe.sequential('ServiceInitializer integration', () => {
     expect(team.members).toHaveLength(2);
     expect(coordinator).toBeDefined();
   }, 30000);
+
+  it('runs each AI member in its own baseDir unless workspaces are shared', async () => {
+    const aliceDir = path.join(tempDir, 'dev', 'alice');
+    const bobDir = path.join(tempDir, 'dev', 'bob');
+    const config = (workspaces?: CLIConfig['team']['workspaces']): CLIConfig => ({
+      schemaVersion: '1.1',
+      agents: [{ name: 'claude', args: ['--output-format=stream-json'], usePty: false }],
+      team: {
+        name: 'workspace-team',
+        description: 'workspace test',
+        workspaces,
+        members: [
+          { displayName: 'Alice', name: 'alice', type: 'ai', role: 'developer', agentType: 'claude', baseDir: aliceDir },
+          { displayName: 'Bob', name: 'bob', type: 'ai', role: 'developer', agentType: 'claude', baseDir: bobDir },
+          { displayName: 'Lead', name: 'lead', type: 'human', role: 'lead', baseDir: path.join(tempDir, 'lead') }
+        ]
+      }
+    });
+    const options = {
+      registryPath: tempRegistryPath,
+      executionEnv: mockExecutionEnv,
+      adapterFactory: mockAdapterFactory
+    };
+
+    const isolated = await initializeServices(config(), options);
+    expect(isolated.team.members.map(m => m.workDir)).toEqual([aliceDir, bobDir, undefined]);
+    expect(isolated.workspaceManager).toBeUndefined();
+
+    const shared = await initializeServices(config({ mode: 'shared' }), options);
+    expect(shared.team.members.map(m => m.workDir)).toEqual([process.cwd(), process.cwd(), undefined]);
+  }, 30000);
+
+  it('hot-reloads the team config into the running coordinator', async () => {
+    const member = (name: string, extra: Partial<CLIConfig['team']['members'][number]> = {}) => ({
+      displayName: name, name, type: 'ai' as const, role: 'developer', agentType: 'claude', baseDir: path.join(tempDir, name), ...extra
+    });
+    const lead = { displayName: 'Lead', name: 'lead', type: 'human' as const, role: 'lead', baseDir: path.join(tempDir, 'lead') };
+    const config = (members: CLIConfig['team']['members'], name = 'reload-team'): CLIConfig => ({
+      schemaVersion: '1.2',
+      agents: [{ name: 'claude', args: ['--output-format=stream-json'], usePty: false }],
+      team: { name, description: 'reload test', members }
+    });
+
+    const { coordinator, team, reloadConfig } = await initializeServices(config([member('alice'), member('bob'), lead]), {
+      registryPath: tempRegistryPath,
+      executionEnv: mockExecutionEnv,
+      adapterFactory: mockAdapterFactory
+    });
+    await coordinator.setTeam(team);
+
+    const result = await reloadConfig(config([member('alice', { systemInstruction: 'Review first.' }), member('carol'), lead]));
+
+    expect(result).toEqual({ added: ['carol'], removed: ['bob'], updated: ['alice'], purgedRoutes: 0 });
+    const members = coordinator.getTeam()!.members;
+    expect(members.map(m => m.name)).toEqual(['alice', 'carol', 'lead']);
+    expect(members[0].systemInstruction).toBe('Review first.');
+    expect(members[1].agentConfigId).toBeDefined();
+
+    await reloadConfig({ ...config([member('alice'), member('carol'), lead]), conversation: { maxAgentTurns: 20 } });
+    expect(coordinator.getSessionBudgetLimits()).toMatchObject({ maxAgentTurns: 20, maxTotalTokens: 0 });
+
+    await expect(reloadConfig(config([member('alice'), lead], 'other-team'))).rejects.toThrow(/Cannot reload team "reload-team"/);
+    await expect(reloadConfig({ ...config([lead]), team: { name: 'reload-team', members: [] } } as unknown as CLIConfig))
+      .rejects.toThrow(/Invalid team configuration/);
+  }, 30000);
+
+  it('provisions members invited with [INVITE] from the agent registry', async () => {
+    const config: CLIConfig = {
+      schemaVersion: '1.2',
+      agents: [{ name: 'claude', args: ['--output-format=stream-json'], usePty: false }],
+      team: {
+        name: 'invite-team',
+        description: 'invite test',
+        members: [
+          { displayName: 'Alice', name: 'alice', type: 'ai', role: 'developer', agentType: 'claude', baseDir: path.join(tempDir, 'alice') },
+          { displayName: 'Lead', name: 'lead', type: 'human', role: 'lead', baseDir: path.join(tempDir, 'lead') }
+        ]
+      }
+    };
+
+    const { coordinator, team } = await initializeServices(config, {
+      registryPath: tempRegistryPath,
+      executionEnv: mockExecutionEnv,
+      adapterFactory: mockAdapterFactory
+    });
+    await coordinator.setTeam(team);
+
+    await coordinator.sendMessage('[INVITE: dba as dba using claude, qa as tester using cobol] Welcome');
+
+    const dba = coordinator.getTeam()!.members.find(m => m.name === 'dba');
+    expect(dba).toMatchObject({ id: 'dba', role: 'dba', type: 'ai', agentType: 'claude', order: 2 });
+    expect(dba!.workDir).toBe(path.join(process.cwd(), '.agent-chatter', 'members', 'dba'));
+    expect(fs.existsSync(dba!.workDir!)).toBe(true);
+    expect(dba!.agentConfigId).toBeDefined();
+    expect(coordinator.getSession()!.messages.filter(m => m.speaker.id === 'system').map(m => m.content)).toEqual([
+      'dba joined the team as dba (claude), invited by lead',
+      expect.stringMatching(/^Invitation of qa rejected: agent "cobol" is not registered/)
+    ]);
+  }, 30000);
 });
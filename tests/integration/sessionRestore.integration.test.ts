@@ -69,7 +69,7 @@ describe('Session Restore Integration', () => {
 
       const snapshot = createSessionSnapshot(session, contextSnapshot);
 
-      expect(snapshot.schemaVersion).toBe('1.0');
+      expect(snapshot.schemaVersion).toBe('1.1');
       expect(snapshot.teamId).toBe('team-456');
       expect(snapshot.sessionId).toBe('session-123');
       expect(snapshot.context.messages).toHaveLength(1);
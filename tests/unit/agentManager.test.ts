@@ -5,6 +5,9 @@ import type { IExecutionEnvironment, IProcess, SpawnOptions } from '../../src/in
 import type { IAdapterFactory } from '../../src/interfaces/IAdapterFactory.js';
 import type { IAgentAdapter, AgentConfig } from '../../src/interfaces/IAgentAdapter.js';
 import { EventEmitter } from 'events';
+import { registerStreamParser, unregisterStreamParser } from '../../src/events/StreamParserFactory.js';
+import type { StreamParser } from '../../src/events/StreamParser.js';
+import type { AgentEvent, AgentType } from '../../src/events/AgentEvent.js';
 
 // Mock agent config manager
 function createMockAgentConfigManager() {
@@ -20,6 +23,7 @@ function createMockProcess(): IProcess {
   const stdout = new EventEmitter();
   const stderr = new EventEmitter();
 
+  Object.defineProperty(proc, 'stdin', { value: { write: vi.fn(), end: vi.fn() }, writable: true });
   Object.defineProperty(proc, 'stdout', { value: stdout, writable: true });
   Object.defineProperty(proc, 'stderr', { value: stderr, writable: true });
   Object.defineProperty(proc, 'pid', { value: 12345, writable: true });
@@ -427,6 +431,441 @@ describe('AgentManager', () => {
       expect(events.some(e => e.type === 'turn.completed')).toBe(true);
       expect(events.some(e => e.teamMetadata?.teamName === 'test-team')).toBe(true);
     });
+
+    it('returns usage reported by the stream with the response', async () => {
+      mockAgentConfigManager.getAgentConfig.mockResolvedValue({
+        id: 'cfg',
+        type: 'claude-code',
+        command: 'echo',
+        args: ['--output-format=stream-json']
+      });
+
+      const manager = new AgentManager(
+        mockExecutionEnv,
+        mockAdapterFactory,
+        mockAgentConfigManager as any
+      );
+
+      await manager.ensureAgentStarted('role-usage', 'cfg');
+
+      const events: any[] = [];
+      manager.getEventEmitter().on('agent-event', (ev) => events.push(ev));
+
+      const promise = manager.sendAndReceive('role-usage', 'msg', {
+        maxTimeout: 500,
+        teamContext: createTeamContext('role-usage')
+      });
+
+      setImmediate(() => {
+        const proc = mockExecutionEnv.lastSpawnedProcess!;
+        proc.stdout!.emit('data', Buffer.from(
+          '{"type":"result","stop_reason":"end_turn","total_cost_usd":0.5,"usage":{"input_tokens":100,"output_tokens":20}}\n'
+        ));
+        proc.emit('exit', 0);
+      });
+
+      const response = await promise;
+
+      expect(events.some(e => e.type === 'usage')).toBe(true);
+      expect(response.usage).toMatchObject({ inputTokens: 100, outputTokens: 20, costUsd: 0.5 });
+    });
+  });
+
+  describe('Stateful execution mode', () => {
+    const claudeResult = (text: string) =>
+      Buffer.from(JSON.stringify({ type: 'result', subtype: 'success', result: text }) + '\n');
+
+    async function startStatefulAgent(roleId: string) {
+      mockAgentConfigManager.getAgentConfig.mockResolvedValue({
+        id: 'cfg',
+        type: 'claude-code',
+        command: 'claude',
+        args: []
+      });
+      const adapter = { ...createMockAdapter('claude-code'), executionMode: 'stateful' } as IAgentAdapter;
+      const manager = new AgentManager(
+        mockExecutionEnv,
+        createMockAdapterFactory(adapter),
+        mockAgentConfigManager as any
+      );
+      await manager.ensureAgentStarted(roleId, 'cfg');
+      return manager;
+    }
+
+    async function sendTurn(manager: AgentManager, roleId: string, message: string, output: Buffer) {
+      const promise = manager.sendAndReceive(roleId, message, {
+        maxTimeout: 1000,
+        systemFlag: 'SYS',
+        teamContext: createTeamContext(roleId)
+      });
+      setImmediate(() => mockExecutionEnv.lastSpawnedProcess!.stdout!.emit('data', output));
+      return promise;
+    }
+
+    it('keeps one process alive and writes each turn to stdin', async () => {
+      const manager = await startStatefulAgent('role-live');
+
+      const first = await sendTurn(manager, 'role-live', 'first prompt', claudeResult('one'));
+      const second = await sendTurn(manager, 'role-live', 'delta prompt', claudeResult('two'));
+
+      expect(first).toMatchObject({ success: true, accumulatedText: 'one', sessionRetained: true });
+      expect(second).toMatchObject({ success: true, accumulatedText: 'two', sessionRetained: true });
+      expect(mockExecutionEnv.spawnMock).toHaveBeenCalledTimes(1);
+      expect(manager.hasLiveSession('role-live')).toBe(true);
+
+      const spawnArgs = mockExecutionEnv.spawnMock.mock.calls[0][1];
+      expect(spawnArgs).toEqual(expect.arrayContaining(['-p', '--input-format', 'stream-json', '--append-system-prompt']));
+      expect(spawnArgs).not.toContain('first prompt');
+
+      const writes = (mockExecutionEnv.lastSpawnedProcess!.stdin!.write as ReturnType<typeof vi.fn>).mock.calls;
+      expect(writes.map(([line]) => JSON.parse(line).message.content[0].text)).toEqual(['first prompt', 'delta prompt']);
+    });
+
+    it('uses the adapter stdin format when provided', async () => {
+      mockAgentConfigManager.getAgentConfig.mockResolvedValue({ id: 'cfg', type: 'custom', command: 'x', args: [] });
+      const adapter = {
+        ...createMockAdapter('custom-agent'),
+        executionMode: 'stateful',
+        formatStatefulInput: (message: string) => `>> ${message}\n`
+      } as IAgentAdapter;
+      const manager = new AgentManager(mockExecutionEnv, createMockAdapterFactory(adapter), mockAgentConfigManager as any);
+      await manager.ensureAgentStarted('role-custom', 'cfg');
+
+      const promise = manager.sendAndReceive('role-custom', 'hi', { maxTimeout: 1000, teamContext: createTeamContext('role-custom') });
+      // Wait for spawn to happen
+      await new Promise(resolve => setTimeout(resolve, 10));
+      const proc = mockExecutionEnv.lastSpawnedProcess!;
+      proc.emit('exit', 0);
+      await promise;
+
+      expect(proc.stdin!.write).toHaveBeenCalledWith('>> hi\n');
+    });
+
+    it('runs stateful agents without a stdin protocol once per turn and resumes their session', async () => {
+      mockAgentConfigManager.getAgentConfig.mockResolvedValue({ id: 'cfg', type: 'openai-codex', command: 'codex', args: [] });
+      const codex = {
+        ...createMockAdapter('openai-codex'),
+        executionMode: 'stateful',
+        getDefaultArgs: () => ['exec', '--json']
+      } as IAgentAdapter;
+      const manager = new AgentManager(mockExecutionEnv, createMockAdapterFactory(codex), mockAgentConfigManager as any);
+      await manager.ensureAgentStarted('role-codex-live', 'cfg');
+
+      const runTurn = (message: string) => {
+        const promise = manager.sendAndReceive('role-codex-live', message, { maxTimeout: 1000, teamContext: createTeamContext('role-codex-live') });
+        setImmediate(() => {
+          const proc = mockExecutionEnv.lastSpawnedProcess!;
+          proc.stdout!.emit('data', Buffer.from('{"type":"thread.started","thread_id":"thread-1"}\n'));
+          proc.emit('exit', 0);
+        });
+        return promise;
+      };
+
+      const first = await runTurn('first prompt');
+      expect(first).toMatchObject({ success: true, sessionRetained: true });
+      expect(manager.hasLiveSession('role-codex-live')).toBe(true);
+      const firstProc = mockExecutionEnv.lastSpawnedProcess!;
+      expect(firstProc.stdin!.write).not.toHaveBeenCalled();
+
+      const second = await runTurn('delta prompt');
+      expect(second).toMatchObject({ success: true, sessionRetained: true });
+
+      const spawnArgs: string[][] = mockExecutionEnv.spawnMock.mock.calls.map(call => call[1]);
+      expect(spawnArgs).toEqual([
+        ['exec', '--json', 'first prompt'],
+        ['exec', '--json', 'resume', 'thread-1', 'delta prompt'],
+      ]);
+    });
+
+    it('drops the session when the process exits and respawns on the next turn', async () => {
+      const manager = await startStatefulAgent('role-exit');
+      await sendTurn(manager, 'role-exit', 'first', claudeResult('one'));
+
+      mockExecutionEnv.lastSpawnedProcess!.emit('exit', 0);
+      expect(manager.hasLiveSession('role-exit')).toBe(false);
+
+      await sendTurn(manager, 'role-exit', 'full context again', claudeResult('two'));
+      expect(mockExecutionEnv.spawnMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects a turn when the process crashes mid-turn', async () => {
+      const manager = await startStatefulAgent('role-crash-live');
+
+      const promise = manager.sendAndReceive('role-crash-live', 'go', { teamContext: createTeamContext('role-crash-live') });
+      setImmediate(() => {
+        const proc = mockExecutionEnv.lastSpawnedProcess!;
+        proc.stderr!.emit('data', Buffer.from('fatal'));
+        proc.emit('exit', 2);
+      });
+
+      await expect(promise).rejects.toThrow('process exited unexpectedly with code 2. stderr: fatal');
+      expect(manager.hasLiveSession('role-crash-live')).toBe(false);
+    });
+
+    it('cancels the live process', async () => {
+      const manager = await startStatefulAgent('role-cancel-live');
+
+      const promise = manager.sendAndReceive('role-cancel-live', 'go', { teamContext: createTeamContext('role-cancel-live') });
+      // Wait for spawn to happen
+      await new Promise(resolve => setTimeout(resolve, 10));
+      const proc = mockExecutionEnv.lastSpawnedProcess!;
+      manager.cancelAgent('role-cancel-live');
+
+      await expect(promise).resolves.toMatchObject({ finishReason: 'cancelled', sessionRetained: false });
+      expect(proc.kill).toHaveBeenCalledWith('SIGTERM');
+    });
+
+    it('stopAgent closes stdin and kills the live process', async () => {
+      const manager = await startStatefulAgent('role-stop-live');
+      await sendTurn(manager, 'role-stop-live', 'first', claudeResult('one'));
+      const proc = mockExecutionEnv.lastSpawnedProcess!;
+
+      await manager.stopAgent('role-stop-live');
+
+      expect(proc.stdin!.end).toHaveBeenCalled();
+      expect(proc.kill).toHaveBeenCalledWith('SIGTERM');
+      expect(manager.hasLiveSession('role-stop-live')).toBe(false);
+    });
+  });
+
+  describe('Native CLI sessions', () => {
+    async function startAgent(roleId: string, adapter: IAgentAdapter = createMockAdapter('claude-code')) {
+      mockAgentConfigManager.getAgentConfig.mockResolvedValue({ id: 'cfg', type: 'claude-code', command: 'claude', args: [] });
+      const manager = new AgentManager(mockExecutionEnv, createMockAdapterFactory(adapter), mockAgentConfigManager as any);
+      await manager.ensureAgentStarted(roleId, 'cfg');
+      return manager;
+    }
+
+    function runTurn(manager: AgentManager, roleId: string, resumeSessionId?: string) {
+      const promise = manager.sendAndReceive(roleId, 'prompt', {
+        maxTimeout: 1000,
+        teamContext: createTeamContext(roleId),
+        resumeSessionId
+      });
+      setImmediate(() => {
+        const proc = mockExecutionEnv.lastSpawnedProcess!;
+        proc.stdout!.emit('data', Buffer.from('{"type":"system","subtype":"init","session_id":"native-1"}\n'));
+        proc.emit('exit', 0);
+      });
+      return promise;
+    }
+
+    it('remembers the session ID reported by the agent', async () => {
+      const manager = await startAgent('role-native');
+
+      const result = await runTurn(manager, 'role-native');
+
+      expect(result.nativeSessionId).toBe('native-1');
+      expect(manager.getNativeSessionId('role-native')).toBe('native-1');
+    });
+
+    it('passes --resume to Claude Code when resuming a session', async () => {
+      const manager = await startAgent('role-resume');
+      expect(manager.supportsNativeResume('role-resume')).toBe(true);
+
+      await runTurn(manager, 'role-resume', 'native-0');
+
+      const spawnArgs: string[] = mockExecutionEnv.spawnMock.mock.calls[0][1];
+      expect(spawnArgs.slice(-3)).toEqual(['--resume', 'native-0', 'prompt']);
+    });
+
+    it('uses the adapter resume arguments for other agents', async () => {
+      const codex = { ...createMockAdapter('openai-codex'), getResumeArgs: (id: string) => ['resume', id] } as IAgentAdapter;
+      const manager = await startAgent('role-codex', codex);
+      const plain = await startAgent('role-plain', createMockAdapter('google-gemini'));
+
+      expect(manager.supportsNativeResume('role-codex')).toBe(true);
+      expect(plain.supportsNativeResume('role-plain')).toBe(false);
+
+      await runTurn(manager, 'role-codex', 'thread-9');
+      const spawnArgs: string[] = mockExecutionEnv.spawnMock.mock.calls[0][1];
+      expect(spawnArgs.slice(-3)).toEqual(['resume', 'thread-9', 'prompt']);
+    });
+
+    it('resumes Codex threads with exec resume by default', async () => {
+      const codex = { ...createMockAdapter('openai-codex'), getDefaultArgs: () => ['exec', '--json'] } as IAgentAdapter;
+      const manager = await startAgent('role-codex-default', codex);
+      expect(manager.supportsNativeResume('role-codex-default')).toBe(true);
+
+      await runTurn(manager, 'role-codex-default', 'thread-9');
+
+      const spawnArgs: string[] = mockExecutionEnv.spawnMock.mock.calls[0][1];
+      expect(spawnArgs).toEqual(['exec', '--json', 'resume', 'thread-9', 'prompt']);
+    });
+  });
+
+  describe('PTY execution', () => {
+    function createMockPty() {
+      let dataHandler: (data: string) => void = () => {};
+      let exitHandler: (exitCode: number, signal?: number) => void = () => {};
+      const pty = {
+        pid: 4242,
+        write: vi.fn(),
+        resize: vi.fn(),
+        kill: vi.fn(() => setImmediate(() => exitHandler(0, 15))),
+        onData: (handler: (data: string) => void) => { dataHandler = handler; },
+        onExit: (handler: (exitCode: number, signal?: number) => void) => { exitHandler = handler; },
+        emitData: (data: string) => dataHandler(data),
+        emitExit: (code: number) => exitHandler(code)
+      };
+      return pty;
+    }
+
+    async function startPtyAgent(roleId: string) {
+      mockAgentConfigManager.getAgentConfig.mockResolvedValue({
+        id: 'cfg', type: 'claude-code', command: 'claude', args: [], usePty: true
+      });
+      const pty = createMockPty();
+      const createPty = vi.fn(() => pty);
+      const env = { ...mockExecutionEnv, createPty };
+      const manager = new AgentManager(env, mockAdapterFactory, mockAgentConfigManager as any, {
+        ptySize: { cols: 100, rows: 30 }
+      });
+      await manager.ensureAgentStarted(roleId, 'cfg');
+      return { manager, pty, createPty };
+    }
+
+    it('runs the agent under a PTY and parses the stripped output', async () => {
+      const { manager, pty, createPty } = await startPtyAgent('role-pty');
+      const events: AgentEvent[] = [];
+      manager.getEventEmitter().on('agent-event', (event: AgentEvent) => events.push(event));
+
+      const promise = manager.sendAndReceive('role-pty', 'hello', { teamContext: createTeamContext('role-pty') });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(createPty).toHaveBeenCalledWith(
+        'test-command',
+        expect.arrayContaining(['-p', 'hello']),
+        expect.objectContaining({ cols: 100, rows: 30, agentId: 'role-pty' })
+      );
+      expect(mockExecutionEnv.spawnMock).not.toHaveBeenCalled();
+
+      // Colored output split in the middle of an escape sequence, with PTY line endings
+      pty.emitData('\x1b[32m{"type":"assistant","message":{"content":[{"type":"text","text":"hi from pty"}]}}\x1b');
+      pty.emitData('[0m\r\n{"type":"result","subtype":"success","result":"hi from pty"}\r\n');
+      pty.emitExit(0);
+
+      const result = await promise;
+      expect(result.success).toBe(true);
+      expect(result.accumulatedText).toContain('hi from pty');
+      expect(events.some(e => e.type === 'text' && e.text === 'hi from pty')).toBe(true);
+    });
+
+    it('resizes running PTYs and uses the new size for later ones', async () => {
+      const { manager, pty, createPty } = await startPtyAgent('role-resize');
+
+      const promise = manager.sendAndReceive('role-resize', 'hello', { teamContext: createTeamContext('role-resize') });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      manager.resizeTerminal(160, 50);
+      expect(pty.resize).toHaveBeenCalledWith(160, 50);
+
+      pty.emitExit(0);
+      await promise;
+
+      const second = manager.sendAndReceive('role-resize', 'again', { teamContext: createTeamContext('role-resize') });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(createPty.mock.calls[1][2]).toMatchObject({ cols: 160, rows: 50 });
+      pty.emitExit(0);
+      await second;
+    });
+
+    it('kills the PTY on cancel', async () => {
+      const { manager, pty } = await startPtyAgent('role-cancel');
+
+      const promise = manager.sendAndReceive('role-cancel', 'hello', { teamContext: createTeamContext('role-cancel') });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      manager.cancelAgent('role-cancel');
+
+      expect(pty.kill).toHaveBeenCalledWith('SIGTERM');
+      await expect(promise).resolves.toMatchObject({ success: false, finishReason: 'cancelled' });
+    });
+
+    it('falls back to a plain process when the environment has no PTY support', async () => {
+      mockAgentConfigManager.getAgentConfig.mockResolvedValue({
+        id: 'cfg', type: 'claude-code', command: 'claude', args: [], usePty: true
+      });
+      const manager = new AgentManager(mockExecutionEnv, mockAdapterFactory, mockAgentConfigManager as any);
+      await manager.ensureAgentStarted('role-plain', 'cfg');
+
+      const promise = manager.sendAndReceive('role-plain', 'hello', { teamContext: createTeamContext('role-plain') });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(mockExecutionEnv.spawnMock).toHaveBeenCalledTimes(1);
+      mockExecutionEnv.lastSpawnedProcess!.emit('exit', 0);
+      await expect(promise).resolves.toMatchObject({ success: true });
+    });
+  });
+
+  describe('Registered stream parsers', () => {
+    class KeywordParser implements StreamParser {
+      constructor(private agentId: string, private teamContext: TeamContext) {}
+
+      parseChunk(chunk: Buffer): AgentEvent[] {
+        return chunk.toString().split('\n').filter(Boolean).map(line => {
+          const base = {
+            eventId: line,
+            agentId: this.agentId,
+            agentType: 'acme-cli' as AgentType,
+            teamMetadata: this.teamContext,
+            timestamp: 1,
+          };
+          if (line === 'DONE') {
+            return { ...base, type: 'turn.completed', finishReason: 'done' } as AgentEvent;
+          }
+          if (line.startsWith('TOOL ')) {
+            return { ...base, type: 'tool.started', toolName: line.slice(5), toolId: 't1', input: {} } as AgentEvent;
+          }
+          return { ...base, type: 'text', text: line, category: 'message' } as AgentEvent;
+        });
+      }
+
+      flush(): AgentEvent[] {
+        return [];
+      }
+
+      reset(): void {}
+    }
+
+    afterEach(() => {
+      unregisterStreamParser('acme-cli');
+    });
+
+    it('routes custom agent output through the registered parser', async () => {
+      registerStreamParser('acme-cli', KeywordParser);
+      mockAdapterFactory = createMockAdapterFactory(createMockAdapter('acme-cli'));
+      mockAgentConfigManager.getAgentConfig.mockResolvedValue({
+        id: 'cfg',
+        type: 'acme-cli',
+        command: 'acme',
+        args: []
+      });
+
+      const manager = new AgentManager(
+        mockExecutionEnv,
+        mockAdapterFactory,
+        mockAgentConfigManager as any
+      );
+      await manager.ensureAgentStarted('role-acme', 'cfg');
+
+      const events: any[] = [];
+      manager.getEventEmitter().on('agent-event', (ev) => events.push(ev));
+
+      const promise = manager.sendAndReceive('role-acme', 'msg', {
+        maxTimeout: 500,
+        teamContext: createTeamContext('role-acme')
+      });
+
+      setImmediate(() => {
+        const proc = mockExecutionEnv.lastSpawnedProcess!;
+        proc.stdout!.emit('data', Buffer.from('TOOL grep\nAll good [NEXT: human]\nDONE\n'));
+      });
+
+      const response = await promise;
+      expect(response).toMatchObject({ success: true, finishReason: 'done', accumulatedText: 'All good [NEXT: human]' });
+      expect(events.map(e => e.type)).toEqual(['tool.started', 'text', 'turn.completed']);
+    });
   });
 
   describe('Lifecycle methods', () => {
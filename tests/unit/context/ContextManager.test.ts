@@ -2,6 +2,9 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { ContextManager } from '../../../src/context/ContextManager.js';
 import type { ConversationMessage } from '../../../src/models/ConversationMessage.js';
 import type { ILogger } from '../../../src/interfaces/ILogger.js';
+import type { ISummarizer } from '../../../src/context/ISummarizer.js';
+import type { IContextAssembler } from '../../../src/context/IContextAssembler.js';
+import type { RoutingItem } from '../../../src/models/RoutingItem.js';
 
 // Helper to create a mock logger
 function createMockLogger(): ILogger & { warnCalls: string[] } {
@@ -417,6 +420,234 @@ describe('ContextManager', () => {
     });
   });
 
+  // ==========================================================================
+  // Compaction
+  // ==========================================================================
+
+  describe('Compaction', () => {
+    function addNumbered(target: ContextManager, count: number): ConversationMessage[] {
+      return Array.from({ length: count }, (_, i) =>
+        target.addMessage(createTestMessage({ content: `Message ${i + 1}. Details follow.` }))
+      );
+    }
+
+    it('folds messages outside the window into the summary', async () => {
+      const compacting = new ContextManager({ contextWindowSize: 2 });
+      const messages = addNumbered(compacting, 5);
+
+      const summary = await compacting.compact();
+
+      // Latest message + 2-message window stay verbatim
+      expect(summary).toMatchObject({
+        text: '- TestUser: Message 1.\n- TestUser: Message 2.',
+        throughMessageId: messages[1].id,
+        messageCount: 2,
+      });
+
+      const input = compacting.getContextForAgent('agent', 'claude-code');
+      expect(input.summary).toBe(summary!.text);
+      expect(input.contextMessages.map(m => m.content)).toEqual([
+        'Message 3. Details follow.',
+        'Message 4. Details follow.',
+      ]);
+    });
+
+    it('only folds new evictions into the rolling summary', async () => {
+      const summarize = vi.fn(async ({ previousSummary, messages }) =>
+        [previousSummary, ...messages.map(m => m.content)].filter(Boolean).join(' | '));
+      const compacting = new ContextManager({ contextWindowSize: 1, summarizer: { summarize } });
+      addNumbered(compacting, 3);
+      await compacting.compact();
+      await compacting.compact(); // nothing new
+      addNumbered(compacting, 1);
+      const summary = await compacting.compact();
+
+      expect(summarize).toHaveBeenCalledTimes(2);
+      expect(summary?.text).toBe('Message 1. Details follow. | Message 2. Details follow.');
+      expect(summary?.messageCount).toBe(2);
+    });
+
+    it('adds the summary to route context except in delta mode', async () => {
+      const compacting = new ContextManager({ contextWindowSize: 1 });
+      const messages = addNumbered(compacting, 4);
+      await compacting.compact();
+      const route = {
+        id: 'route-1',
+        targetMemberId: 'agent',
+        parentMessageId: messages[3].id,
+        triggerMessageId: messages[3].id,
+        intent: 'P2_REPLY',
+        enqueuedAt: Date.now(),
+      } as RoutingItem;
+
+      expect(compacting.getContextForRoute('agent', 'claude-code', route).summary)
+        .toContain('Message 2.');
+      expect(compacting.getContextForRoute('agent', 'claude-code', route, { sinceMessageId: messages[2].id }).summary)
+        .toBeUndefined();
+      // Parent older than the summarized messages: the summary would leak later messages
+      expect(compacting.getContextForRoute('agent', 'claude-code', { ...route, parentMessageId: messages[1].id }).summary)
+        .toBeUndefined();
+    });
+
+    it('keeps the previous summary when the summarizer fails', async () => {
+      const logger = createMockLogger();
+      const summarizer: ISummarizer = { summarize: vi.fn().mockRejectedValue(new Error('offline')) };
+      const compacting = new ContextManager({ contextWindowSize: 1, summarizer, logger });
+      addNumbered(compacting, 4);
+
+      await expect(compacting.compact()).resolves.toBeNull();
+      expect(logger.warnCalls[0]).toContain('offline');
+    });
+
+    it('does nothing when compaction is disabled', async () => {
+      const compacting = new ContextManager({ contextWindowSize: 1, compactionEnabled: false });
+      addNumbered(compacting, 5);
+
+      expect(await compacting.compact()).toBeNull();
+      expect(compacting.getContextForAgent('agent', 'claude-code').summary).toBeUndefined();
+    });
+
+    it('persists the summary in snapshots and clears it with the history', async () => {
+      const compacting = new ContextManager({ contextWindowSize: 1 });
+      addNumbered(compacting, 4);
+      await compacting.compact();
+
+      const snapshot = compacting.exportSnapshot();
+      expect(snapshot.summary?.messageCount).toBe(2);
+
+      const restored = new ContextManager({ contextWindowSize: 1 });
+      restored.importSnapshot(snapshot);
+      expect(restored.getSummary()).toEqual(snapshot.summary);
+
+      restored.clear();
+      expect(restored.getSummary()).toBeNull();
+      expect(restored.exportSnapshot().summary).toBeUndefined();
+    });
+  });
+
+  // ==========================================================================
+  // Visibility
+  // ==========================================================================
+
+  describe('Visibility', () => {
+    const speaker = (id: string) => ({ id, name: id, displayName: id, type: 'ai' as const });
+    const routeTo = (targetMemberId: string, parent: ConversationMessage) => ({
+      id: 'route-1',
+      targetMemberId,
+      parentMessageId: parent.id,
+      triggerMessageId: parent.id,
+      intent: 'P2_REPLY',
+      enqueuedAt: Date.now(),
+    } as RoutingItem);
+
+    it('limits whispered messages to the speaker and listed members', () => {
+      manager.addMessage(createTestMessage({
+        speaker: speaker('alice'),
+        content: 'Secret',
+        routing: { rawNextMarkers: [], resolvedAddressees: [], visibleTo: ['bob'] },
+      }));
+      const parent = manager.addMessage(createTestMessage({ content: 'Next step' }));
+
+      const contentFor = (id: string) =>
+        manager.getContextForRoute(id, 'claude-code', routeTo(id, parent)).contextMessages.map(m => m.content);
+
+      expect(contentFor('bob')).toEqual(['Secret']);
+      expect(contentFor('carol')).toEqual([]);
+      expect(manager.isVisibleTo(manager.getMessages()[0], 'alice')).toBe(true);
+    });
+
+    it('filters context, siblings and summary with the visibility filter', async () => {
+      const filtered = new ContextManager({
+        contextWindowSize: 2,
+        visibilityFilter: (message, recipientId) => recipientId !== 'reviewer' || message.speaker.id !== 'planner',
+        visibilityRecipients: ['planner', 'coder', 'reviewer'],
+      });
+      const parent = filtered.addMessage(createTestMessage({ content: 'Start. Go.' }));
+      filtered.addMessage(createTestMessage({
+        speaker: speaker('planner'),
+        content: 'Plan. Steps.',
+        routing: { rawNextMarkers: [], resolvedAddressees: [], parentMessageId: parent.id },
+      }));
+      filtered.addMessage(createTestMessage({
+        speaker: speaker('coder'),
+        content: 'Code. Done.',
+        routing: { rawNextMarkers: [], resolvedAddressees: [], parentMessageId: parent.id },
+      }));
+      const latest = filtered.addMessage(createTestMessage({ content: 'Review it. Now.' }));
+
+      const reviewer = filtered.getContextForRoute('reviewer', 'claude-code', routeTo('reviewer', parent));
+      expect(reviewer.siblingContext.map(m => m.content)).toEqual(['Code. Done.']);
+      expect(reviewer.meta.siblingTotalCount).toBe(1);
+
+      // The window holds the last visible messages, reaching past hidden ones
+      const forLatest = filtered.getContextForRoute('reviewer', 'claude-code', routeTo('reviewer', latest));
+      expect(forLatest.contextMessages.map(m => m.content)).toEqual(['Start. Go.', 'Code. Done.']);
+
+      // The planner's message, hidden from the reviewer, only reaches the other members' summaries
+      filtered.addMessage(createTestMessage({ content: 'More. Later.' }));
+      await filtered.compact();
+      expect(filtered.getContextForAgent('coder', 'claude-code').summary).toBe('- TestUser: Start.\n- planner: Plan.');
+      expect(filtered.getContextForAgent('reviewer', 'claude-code').summary).toBe('- TestUser: Start.');
+    });
+
+    it('keeps restricted messages away from the summarizer and in per-member summaries', async () => {
+      const summarize = vi.fn(async ({ previousSummary, messages }) =>
+        [previousSummary, ...messages.map(m => m.content)].filter(Boolean).join(' | '));
+      const compacting = new ContextManager({
+        contextWindowSize: 1,
+        summarizer: { summarize },
+        visibilityFilter: (message, recipientId) => recipientId !== 'reviewer' || message.speaker.id !== 'planner',
+        visibilityRecipients: ['planner', 'coder', 'reviewer'],
+      });
+      compacting.addMessage(createTestMessage({ content: 'Kick-off.' }));
+      compacting.addMessage(createTestMessage({
+        content: 'Budget is tight.',
+        routing: { rawNextMarkers: [], resolvedAddressees: [], visibleTo: ['coder'] },
+      }));
+      compacting.addMessage(createTestMessage({ speaker: speaker('planner'), content: 'Plan.' }));
+      compacting.addMessage(createTestMessage({ content: 'Build it.' }));
+      const latest = compacting.addMessage(createTestMessage({ content: 'Ship it.' }));
+
+      const summary = await compacting.compact();
+
+      expect(summarize).toHaveBeenCalledTimes(1);
+      expect(summarize.mock.calls[0][0].messages.map(m => m.content)).toEqual(['Kick-off.']);
+      expect(summary).toMatchObject({
+        text: 'Kick-off.',
+        messageCount: 3,
+        restrictedByMember: { planner: '- planner: Plan.', coder: '- TestUser: Budget is tight.\n- planner: Plan.' },
+      });
+      const summaryFor = (id: string) => compacting.getContextForRoute(id, 'claude-code', routeTo(id, latest)).summary;
+      expect(summaryFor('coder')).toBe('Kick-off.\n- TestUser: Budget is tight.\n- planner: Plan.');
+      expect(summaryFor('reviewer')).toBe('Kick-off.');
+      expect(summaryFor('planner')).toBe('Kick-off.\n- planner: Plan.');
+
+      // Later evictions leave restricted messages out as well
+      compacting.addMessage(createTestMessage({
+        content: 'Another secret.',
+        routing: { rawNextMarkers: [], resolvedAddressees: [], visibleTo: ['coder'] },
+      }));
+      compacting.addMessage(createTestMessage({ content: 'Done.' }));
+      compacting.addMessage(createTestMessage({ content: 'Thanks.' }));
+      await compacting.compact();
+      expect(summarize.mock.calls.map(([input]) => input.messages.map(m => m.content))).toEqual([
+        ['Kick-off.'],
+        ['Build it.', 'Ship it.'],
+      ]);
+    });
+
+    it('keeps whisper recipients in snapshots', () => {
+      manager.addMessage(createTestMessage({
+        content: 'Secret',
+        routing: { rawNextMarkers: [], resolvedAddressees: [], visibleTo: ['bob'] },
+      }));
+
+      const restored = new ContextManager();
+      restored.importSnapshot(manager.exportSnapshot());
+      expect(restored.getMessages()[0].routing?.visibleTo).toEqual(['bob']);
+    });
+  });
+
   // ==========================================================================
   // assemblePrompt
   // ==========================================================================
@@ -532,5 +763,29 @@ describe('ContextManager', () => {
       // Should use Gemini assembler
       expect(output.prompt).toContain('Instructions:');
     });
+
+    it('uses assemblers from options for new agent types and built-in overrides', () => {
+      const mockLogger = createMockLogger();
+      const customAssembler = (label: string): IContextAssembler => ({
+        getAgentType: () => label,
+        assemble: input => ({ prompt: `${label}: ${input.currentMessage}` }),
+      });
+      const mgr = new ContextManager({
+        logger: mockLogger,
+        assemblers: { aider: customAssembler('aider'), claude: customAssembler('claude-override') },
+      });
+
+      const input = {
+        contextMessages: [],
+        currentMessage: 'Hello',
+        teamTask: null,
+        maxBytes: 768 * 1024,
+      };
+
+      expect(mgr.assemblePrompt('aider', input).prompt).toBe('aider: Hello');
+      expect(mgr.assemblePrompt('claude-code', input).prompt).toBe('claude-override: Hello');
+      expect(mgr.assemblePrompt('codex', input).prompt).toContain('[MESSAGE]');
+      expect(mockLogger.warnCalls).toHaveLength(0);
+    });
   });
 });
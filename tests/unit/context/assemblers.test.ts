@@ -454,10 +454,221 @@ describe('systemInstruction array support', () => {
   });
 });
 
+describe('handoff section', () => {
+  const handoff = { from: 'coder', payload: { filesTouched: ['src/cache.ts'] } };
+  const body = '```json\n{\n  "filesTouched": [\n    "src/cache.ts"\n  ]\n}\n```';
+
+  it('renders the payload after the message in every assembler', () => {
+    const input = createInput({ currentMessage: 'Please review', handoff });
+
+    const claude = new ClaudeContextAssembler().assemble(input).prompt;
+    const codex = new CodexContextAssembler().assemble(input).prompt;
+    const gemini = new GeminiContextAssembler().assemble(input).prompt;
+    const plain = new PlainTextAssembler().assemble(input).prompt;
+
+    expect(claude).toContain(`[MESSAGE]\nPlease review\n\n[HANDOFF]\n(Structured handoff from coder)\n${body}`);
+    expect(codex).toContain(`[MESSAGE]\nPlease review\n\n[HANDOFF]\n(Structured handoff from coder)\n${body}`);
+    expect(gemini).toContain(`Handoff from coder:\n${body}`);
+    expect(plain).toContain(`Handoff from coder:\n${body}`);
+  });
+
+  it('lists payload problems under the payload', () => {
+    const output = new ClaudeContextAssembler().assemble(createInput({
+      currentMessage: 'Please review',
+      handoff: { ...handoff, errors: ["/ must have required property 'tests'"] },
+    }));
+
+    expect(output.prompt).toContain(
+      `${body}\n(Payload problems - ask coder for the missing details)\n- / must have required property 'tests'`
+    );
+  });
+});
+
+describe('[TEAM] section', () => {
+  const teamRoster = {
+    teamName: 'Platform',
+    members: [
+      { name: 'alice', displayName: 'Alice', type: 'ai' as const, role: 'Security Reviewer', roleDescription: 'Reviews auth code' },
+      { name: 'bob', displayName: 'Bob', type: 'ai' as const, role: 'Developer', self: true },
+      { name: 'kai', displayName: 'kai', type: 'human' as const, role: 'Product Owner' },
+    ],
+  };
+  const roster = [
+    'Team: Platform',
+    'Members (use these names in routing markers):',
+    '- alice (Alice) - Security Reviewer, ai: Reviews auth code',
+    '- bob (Bob) - Developer, ai - you',
+    '- kai - Product Owner, human',
+    'Routing markers:',
+    '- [NEXT: name] or [NEXT: name1, name2] choose who speaks next',
+    '- [NEXT: name!P1] urgent interruption; !P2 direct reply (default); !P3 follow-up when the queue is idle',
+    '- [DROP: name] or [DROP: ALL] cancel pending turns for a member or the whole queue',
+  ].join('\n');
+
+  it('renders the roster after the instructions in every assembler', () => {
+    const input = createInput({ systemInstruction: 'Be brief.', teamTask: 'Ship v2', currentMessage: 'Go', teamRoster });
+
+    const claude = new ClaudeContextAssembler().assemble(input).prompt;
+    const codex = new CodexContextAssembler().assemble(input).prompt;
+    const gemini = new GeminiContextAssembler().assemble(input).prompt;
+    const plain = new PlainTextAssembler().assemble(input).prompt;
+
+    expect(claude).toContain(`[SYSTEM]\nBe brief.\n\n[TEAM]\n${roster}\n\n[TEAM_TASK]`);
+    expect(codex).toContain(`[SYSTEM]\nBe brief.\n\n[TEAM]\n${roster}\n\n[TEAM_TASK]`);
+    expect(gemini).toContain(`Instructions:\nBe brief.\n\n${roster}\n\nTeam Task:`);
+    expect(plain).toBe(`Be brief.\n\n${roster}\n\nShip v2\n\nGo`);
+  });
+
+  it('omits the marker syntax when disabled', () => {
+    const output = new ClaudeContextAssembler().assemble(createInput({
+      currentMessage: 'Go',
+      teamRoster: { ...teamRoster, markerSyntax: false },
+    }));
+
+    expect(output.prompt).toContain('- kai - Product Owner, human\n\n[MESSAGE]');
+    expect(output.prompt).not.toContain('Routing markers:');
+  });
+
+  it('keeps the roster while context can be trimmed', () => {
+    const input = createInput({
+      contextMessages: [{ from: 'alice', content: 'x'.repeat(200) }, { from: 'kai', content: 'x'.repeat(200) }],
+      currentMessage: 'Go',
+      teamRoster,
+      maxBytes: roster.length + 100,
+    });
+
+    for (const assembler of [new ClaudeContextAssembler(), new CodexContextAssembler(), new GeminiContextAssembler(), new PlainTextAssembler()]) {
+      const prompt = assembler.assemble(input).prompt;
+      expect(prompt).toContain(roster);
+      expect(prompt).not.toContain('xxxx');
+    }
+  });
+
+  it('drops the roster before truncating the message', () => {
+    const input = createInput({ currentMessage: 'Review the login flow', teamRoster, maxBytes: 60 });
+
+    for (const assembler of [new ClaudeContextAssembler(), new CodexContextAssembler(), new GeminiContextAssembler(), new PlainTextAssembler()]) {
+      const prompt = assembler.assemble(input).prompt;
+      expect(prompt).toContain('Review the login flow');
+      expect(prompt).not.toContain('Team: Platform');
+    }
+  });
+});
+
+describe('[TEAM_INSTRUCTIONS] section', () => {
+  const teamInstructionText = 'Run the tests before handing off.';
+
+  it('renders team instructions ahead of the member instructions in every assembler', () => {
+    const input = createInput({
+      systemInstruction: 'Be brief.',
+      instructionFileText: 'Own the API.',
+      teamInstructionText,
+      currentMessage: 'Go',
+    });
+
+    const claude = new ClaudeContextAssembler().assemble(input);
+    const codex = new CodexContextAssembler().assemble(input).prompt;
+    const gemini = new GeminiContextAssembler().assemble(input).prompt;
+    const plain = new PlainTextAssembler().assemble(input).prompt;
+
+    const bracketed =
+      '[TEAM_INSTRUCTIONS]\n' +
+      '(Shared by the whole team - where your own [SYSTEM] instructions differ, they take precedence)\n' +
+      `${teamInstructionText}\n\n[SYSTEM]\nBe brief.\n\nOwn the API.`;
+    expect(claude.prompt).toContain(bracketed);
+    expect(claude.systemFlag).not.toContain(teamInstructionText);
+    expect(codex).toContain(bracketed);
+    expect(gemini).toContain(
+      'Team instructions:\n' +
+      '(Shared by the whole team - where your own instructions below differ, they take precedence)\n' +
+      `${teamInstructionText}\n\nInstructions:\nBe brief.`
+    );
+    expect(plain).toBe(
+      'Team instructions:\n' +
+      '(Shared by the whole team - where your own instructions below differ, they take precedence)\n' +
+      `${teamInstructionText}\n\nBe brief.\n\nOwn the API.\n\nGo`
+    );
+  });
+
+  it('keeps team instructions while context is trimmed', () => {
+    const input = createInput({
+      contextMessages: [{ from: 'alice', content: 'x'.repeat(200) }, { from: 'kai', content: 'x'.repeat(200) }],
+      currentMessage: 'Go',
+      teamInstructionText,
+      maxBytes: 200,
+    });
+
+    for (const assembler of [new ClaudeContextAssembler(), new CodexContextAssembler(), new GeminiContextAssembler(), new PlainTextAssembler()]) {
+      const prompt = assembler.assemble(input).prompt;
+      expect(prompt).toContain(teamInstructionText);
+      expect(prompt).not.toContain('xxxx');
+    }
+  });
+
+  it('keeps every paragraph of multi-paragraph team instructions when over budget', () => {
+    const paragraphs = 'Run the tests before handing off.\n\nNever push to main.\n\n[Release] Tag the merge commit.\n\n- keep PRs small';
+    const input = createInput({
+      contextMessages: [{ from: 'alice', content: 'x'.repeat(200) }, { from: 'kai', content: 'x'.repeat(200) }],
+      systemInstruction: 'Own the API.',
+      currentMessage: 'Go',
+      teamInstructionText: paragraphs,
+      maxBytes: 400,
+    });
+
+    for (const assembler of [new ClaudeContextAssembler(), new CodexContextAssembler(), new GeminiContextAssembler(), new PlainTextAssembler()]) {
+      const prompt = assembler.assemble(input).prompt;
+      expect(prompt).toContain(paragraphs);
+      expect(prompt).toContain('Own the API.');
+      expect(prompt).toContain('Go');
+      expect(prompt).not.toContain('xxxx');
+    }
+  });
+});
+
 // =============================================================================
 // Byte Budget Tests (common across assemblers)
 // =============================================================================
 
+describe('[SUMMARY] section', () => {
+  const summary = '- alice: We chose PostgreSQL.';
+
+  it('renders the rolling summary before the context in every assembler', () => {
+    const input = createInput({
+      summary,
+      contextMessages: [{ from: 'bob', content: 'Schema drafted' }],
+      currentMessage: 'Next step?',
+    });
+
+    const claude = new ClaudeContextAssembler().assemble(input).prompt;
+    const codex = new CodexContextAssembler().assemble(input).prompt;
+    const gemini = new GeminiContextAssembler().assemble(input).prompt;
+    const plain = new PlainTextAssembler().assemble(input).prompt;
+
+    expect(claude).toContain(`[SUMMARY]\n(Earlier conversation, summarized)\n${summary}\n\n[CONTEXT]`);
+    expect(codex).toContain(`[SUMMARY]\n(Earlier conversation, summarized)\n${summary}\n\n[CONTEXT]`);
+    expect(gemini).toContain(`Earlier conversation (summary):\n${summary}\n\nConversation so far:`);
+    expect(plain).toContain(`Earlier conversation (summary):\n${summary}\n\nbob: Schema drafted`);
+  });
+
+  it('omits the section without a summary', () => {
+    const output = new ClaudeContextAssembler().assemble(createInput({ currentMessage: 'Hi', summary: '  ' }));
+    expect(output.prompt).not.toContain('[SUMMARY]');
+  });
+
+  it('ClaudeContextAssembler drops the summary before trimming context', () => {
+    const input = createInput({
+      summary: 's'.repeat(300),
+      contextMessages: [{ from: 'A', content: 'recent' }],
+      currentMessage: 'Short',
+      maxBytes: 200,
+    });
+
+    const output = new ClaudeContextAssembler().assemble(input);
+
+    expect(output.prompt).toBe('[CONTEXT]\n- A -> all: recent\n\n[MESSAGE]\nShort');
+  });
+});
+
 describe('Byte Budget', () => {
   it('ClaudeContextAssembler trims context when over budget', () => {
     const assembler = new ClaudeContextAssembler();
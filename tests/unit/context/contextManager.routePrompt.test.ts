@@ -680,3 +680,54 @@ describe('v3 Edge Cases', () => {
     expect(result.contextMessages.length).toBe(0);
   });
 });
+
+// ============================================================================
+// Test Suite 8: Delta Context (sinceMessageId)
+// ============================================================================
+
+describe('v3 Delta Context (sinceMessageId)', () => {
+  it('only includes messages after sinceMessageId, excluding the target agent', () => {
+    const cm = new ContextManager({ contextWindowSize: 2 });
+
+    const first = cm.addMessage(makeMessage('human', 'Human', 'First task', { type: 'human' }));
+    cm.addMessage(makeMessage('ai-target', 'Target', 'My earlier reply'));
+    cm.addMessage(makeMessage('ai-a', 'AI A', 'Comment A'));
+    cm.addMessage(makeMessage('ai-b', 'AI B', 'Comment B'));
+    cm.addMessage(makeMessage('ai-c', 'AI C', 'Comment C'));
+    const parent = cm.addMessage(makeMessage('human', 'Human', 'Follow-up', { type: 'human' }));
+
+    const result = cm.getContextForRoute('ai-target', 'claude-code', makeRoute('ai-target', parent.id), {
+      sinceMessageId: first.id,
+    });
+
+    // Window size (2) does not cap the delta; own reply is skipped
+    expect(result.contextMessages.map(m => m.content)).toEqual(['Comment A', 'Comment B', 'Comment C']);
+    expect(result.currentMessage).toBe('Follow-up');
+  });
+
+  it('returns an empty delta when routed again to the same parent', () => {
+    const cm = new ContextManager({ contextWindowSize: 5 });
+
+    cm.addMessage(makeMessage('ai-a', 'AI A', 'Earlier'));
+    const parent = cm.addMessage(makeMessage('human', 'Human', 'Task', { type: 'human' }));
+
+    const result = cm.getContextForRoute('ai-target', 'claude-code', makeRoute('ai-target', parent.id), {
+      sinceMessageId: parent.id,
+    });
+
+    expect(result.contextMessages).toEqual([]);
+  });
+
+  it('falls back to the regular window when sinceMessageId is unknown', () => {
+    const cm = new ContextManager({ contextWindowSize: 5 });
+
+    cm.addMessage(makeMessage('ai-a', 'AI A', 'Earlier'));
+    const parent = cm.addMessage(makeMessage('human', 'Human', 'Task', { type: 'human' }));
+
+    const result = cm.getContextForRoute('ai-target', 'claude-code', makeRoute('ai-target', parent.id), {
+      sinceMessageId: 'missing',
+    });
+
+    expect(result.contextMessages.map(m => m.content)).toEqual(['Earlier']);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { PromptTemplate, PromptTemplateError } from '../../../src/context/templates/PromptTemplate.js';
+import { TemplateContextAssembler } from '../../../src/context/assemblers/TemplateContextAssembler.js';
+import { ContextManager } from '../../../src/context/ContextManager.js';
+import type { AssemblerInput } from '../../../src/context/types.js';
+
+function createInput(overrides: Partial<AssemblerInput> = {}): AssemblerInput {
+  return {
+    contextMessages: [],
+    currentMessage: '',
+    teamTask: null,
+    maxBytes: 768 * 1024,
+    ...overrides,
+  };
+}
+
+const TEMPLATE = [
+  '{{! Compact layout for small models }}',
+  '{{#if system}}',
+  '<system>{{system}}</system>',
+  '{{/if}}',
+  '{{#each context}}',
+  '{{index}}. {{from}} -> {{to}}: {{content}}',
+  '{{/each}}',
+  '{{#if parent}}',
+  'Replying to {{parent.from}}: {{parent.content}}',
+  '{{/if}}',
+  '{{#unless summary}}',
+  '(no summary)',
+  '{{else}}',
+  'Summary: {{summary}}',
+  '{{/unless}}',
+  'Task: {{message}}',
+].join('\n');
+
+describe('PromptTemplate', () => {
+  it('renders slots, conditionals and per-message formatting without stray blank lines', () => {
+    const prompt = PromptTemplate.parse(TEMPLATE).render(createInput({
+      systemInstruction: ['Be brief.', 'Cite files.'],
+      contextMessages: [
+        { from: 'alice', to: 'bob', content: 'Hi' },
+        { from: 'bob', to: 'alice', content: 'Hello' },
+      ],
+      parentContext: { from: 'alice', content: 'Review PR #12' },
+      currentMessage: 'Go',
+    }));
+
+    expect(prompt).toBe([
+      '<system>Be brief.\nCite files.</system>',
+      '1. alice -> bob: Hi',
+      '2. bob -> alice: Hello',
+      'Replying to alice: Review PR #12',
+      '(no summary)',
+      'Task: Go',
+    ].join('\n'));
+  });
+
+  it('renders the team roster slot', () => {
+    const prompt = PromptTemplate.parse('{{#if team}}\n{{team}}\n{{/if}}\nTask: {{message}}').render(createInput({
+      currentMessage: 'Go',
+      teamRoster: {
+        teamName: 'Core',
+        members: [{ name: 'bob', displayName: 'Bob', type: 'ai', role: 'Reviewer', self: true }],
+        markerSyntax: false,
+      },
+    }));
+
+    expect(prompt).toBe('Team: Core\nMembers (use these names in routing markers):\n- bob (Bob) - Reviewer, ai - you\nTask: Go');
+  });
+
+  it('renders team instructions before member instructions', () => {
+    const prompt = PromptTemplate.parse('{{teamInstructions}}\n{{instructions}}').render(createInput({
+      teamInstructionText: 'Run the tests.\n',
+      instructionFileText: 'Own the API.',
+    }));
+
+    expect(prompt).toBe('Run the tests.\nOwn the API.');
+  });
+
+  it('skips empty sections', () => {
+    const prompt = PromptTemplate.parse(TEMPLATE).render(createInput({ summary: 'Earlier', currentMessage: 'Go' }));
+
+    expect(prompt).toBe('Summary: Earlier\nTask: Go');
+  });
+
+  it.each([
+    ['{{messages}}', 'Unknown template slot "messages" (line 1)'],
+    ['{{parent.body}}', 'Unknown template slot "parent.body" (line 1)'],
+    ['{{content}}', 'Unknown template slot "content" (line 1)'],
+    ['{{context}}', '"context" must be rendered with {{#each}} or a field (e.g. context.content) (line 1)'],
+    ['{{#each summary}}{{/each}}', '"summary" is not a list (line 1)'],
+    ['\n{{#if summary}}\n{{summary}}', 'Unclosed {{#if}} block (line 2)'],
+    ['{{#if summary}}{{/each}}', '{{/each}} does not match {{#if}} (line 1) (line 1)'],
+    ['{{#each context}}{{else}}{{/each}}', 'Unexpected {{else}} (line 1)'],
+    ['{{#with parent}}{{/with}}', 'Unknown block "#with" (line 1)'],
+  ])('rejects %j', (source, message) => {
+    expect(() => PromptTemplate.parse(source)).toThrow(PromptTemplateError);
+    expect(() => PromptTemplate.parse(source)).toThrow(message);
+  });
+});
+
+describe('TemplateContextAssembler', () => {
+  const contextMessages = Array.from({ length: 5 }, (_, i) => ({
+    from: 'alice',
+    to: 'bob',
+    content: `message ${i + 1} ${'x'.repeat(40)}`,
+  }));
+
+  it('validates the template when constructed', () => {
+    expect(() => new TemplateContextAssembler('{{#each context}}')).toThrow(PromptTemplateError);
+    expect(new TemplateContextAssembler('{{message}}', 'claude-code').getAgentType()).toBe('claude-code');
+  });
+
+  it('trims the oldest context to the byte budget', () => {
+    const assembler = new TemplateContextAssembler('{{#each context}}\n{{content}}\n{{/each}}\n{{message}}');
+
+    const { prompt, systemFlag } = assembler.assemble(createInput({ contextMessages, currentMessage: 'Next?', maxBytes: 120 }));
+
+    expect(Buffer.byteLength(prompt, 'utf8')).toBeLessThanOrEqual(120);
+    expect(prompt).toContain('message 5');
+    expect(prompt).not.toContain('message 1');
+    expect(prompt.endsWith('Next?')).toBe(true);
+    expect(systemFlag).toBeUndefined();
+  });
+
+  it('applies the token budget', () => {
+    const assembler = new TemplateContextAssembler('{{#each context}}\n{{content}}\n{{/each}}\n{{message}}');
+
+    const { prompt } = assembler.assemble(createInput({
+      contextMessages,
+      currentMessage: 'Next?',
+      maxTokens: 60,
+      tokenEstimator: { estimate: text => text.length },
+    }));
+
+    expect(prompt).toBe(`message 5 ${'x'.repeat(40)}\nNext?`);
+  });
+});
+
+describe('ContextManager.registerAssembler', () => {
+  it('replaces the assembler for an agent type and accepts a per-call override', () => {
+    const manager = new ContextManager();
+    manager.registerAssembler('codex', new TemplateContextAssembler('CODEX: {{message}}'));
+    const input = createInput({ currentMessage: 'Hello' });
+
+    expect(manager.assemblePrompt('openai-codex', input).prompt).toBe('CODEX: Hello');
+    expect(manager.assemblePrompt('claude-code', input).prompt).toContain('[MESSAGE]');
+    expect(manager.assemblePrompt('claude-code', input, new TemplateContextAssembler('>> {{message}}')).prompt)
+      .toBe('>> Hello');
+  });
+});
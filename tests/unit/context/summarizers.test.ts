@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ExtractiveSummarizer } from '../../../src/context/summarizers/ExtractiveSummarizer.js';
+import { AgentSummarizer } from '../../../src/context/summarizers/AgentSummarizer.js';
+import type { SummarizerInput } from '../../../src/context/ISummarizer.js';
+
+function createInput(overrides: Partial<SummarizerInput> = {}): SummarizerInput {
+  return {
+    previousSummary: null,
+    messages: [
+      { from: 'alice', to: 'bob', content: 'We should use PostgreSQL. It has better JSON support.' },
+      { from: 'bob', to: 'alice', content: 'Agreed!\n```sql\nCREATE TABLE t (id int);\n```' },
+    ],
+    teamTask: 'Design the storage layer',
+    maxLength: 2000,
+    ...overrides,
+  };
+}
+
+describe('ExtractiveSummarizer', () => {
+  const summarizer = new ExtractiveSummarizer();
+
+  it('keeps the lead sentence of each message', async () => {
+    const summary = await summarizer.summarize(createInput());
+
+    expect(summary).toBe('- alice: We should use PostgreSQL.\n- bob: Agreed!');
+  });
+
+  it('appends to the previous summary', async () => {
+    const summary = await summarizer.summarize(createInput({
+      previousSummary: '- carol: Kickoff.',
+      messages: [{ from: 'dave', content: 'Schema drafted' }],
+    }));
+
+    expect(summary).toBe('- carol: Kickoff.\n- dave: Schema drafted');
+  });
+
+  it('drops the oldest lines when the summary exceeds maxLength', async () => {
+    const summary = await summarizer.summarize(createInput({
+      previousSummary: '- carol: An old line that no longer fits.',
+      messages: [{ from: 'dave', content: 'Newest.' }],
+      maxLength: 30,
+    }));
+
+    expect(summary).toBe('- ...\n- dave: Newest.');
+  });
+
+  it('truncates long sentences', async () => {
+    const summary = await new ExtractiveSummarizer(10).summarize(createInput({
+      messages: [{ from: 'eve', content: 'abcdefghijklmnop' }],
+    }));
+
+    expect(summary).toBe('- eve: abcdefghij...');
+  });
+});
+
+describe('AgentSummarizer', () => {
+  it('asks the agent to update the summary', async () => {
+    const runAgent = vi.fn(async () => '  Decided on PostgreSQL.  ');
+    const summarizer = new AgentSummarizer(runAgent);
+
+    const summary = await summarizer.summarize(createInput({ previousSummary: 'Kickoff done.' }));
+
+    expect(summary).toBe('Decided on PostgreSQL.');
+    const prompt = runAgent.mock.calls[0][0] as string;
+    expect(prompt).toContain('[TEAM_TASK]\nDesign the storage layer');
+    expect(prompt).toContain('[SUMMARY]\nKickoff done.');
+    expect(prompt).toContain('- alice -> bob: We should use PostgreSQL.');
+  });
+
+  it('falls back when the agent fails or replies with nothing', async () => {
+    const failing = new AgentSummarizer(async () => { throw new Error('boom'); });
+    const empty = new AgentSummarizer(async () => '   ');
+
+    await expect(failing.summarize(createInput())).resolves.toContain('- alice: We should use PostgreSQL.');
+    await expect(empty.summarize(createInput())).resolves.toContain('- bob: Agreed!');
+  });
+});
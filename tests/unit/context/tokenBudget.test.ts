@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  HeuristicTokenEstimator,
+  createTokenEstimator,
+} from '../../../src/context/tokenizers/HeuristicTokenEstimator.js';
+import { fitToTokenBudget } from '../../../src/context/tokenBudget.js';
+import { ClaudeContextAssembler } from '../../../src/context/assemblers/ClaudeContextAssembler.js';
+import { CodexContextAssembler } from '../../../src/context/assemblers/CodexContextAssembler.js';
+import { GeminiContextAssembler } from '../../../src/context/assemblers/GeminiContextAssembler.js';
+import { PlainTextAssembler } from '../../../src/context/assemblers/PlainTextAssembler.js';
+import { ContextManager } from '../../../src/context/ContextManager.js';
+import type { AssemblerInput } from '../../../src/context/types.js';
+import type { ITokenEstimator } from '../../../src/context/ITokenEstimator.js';
+
+// One token per character keeps budgets easy to reason about
+const charEstimator: ITokenEstimator = { estimate: text => text.length };
+
+function createInput(overrides: Partial<AssemblerInput> = {}): AssemblerInput {
+  return {
+    contextMessages: [],
+    currentMessage: '',
+    teamTask: null,
+    maxBytes: 768 * 1024,
+    ...overrides,
+  };
+}
+
+describe('HeuristicTokenEstimator', () => {
+  it('counts CJK characters individually and Latin text by characters per token', () => {
+    const estimator = new HeuristicTokenEstimator({ charsPerToken: 4, cjkTokensPerChar: 1 });
+
+    expect(estimator.estimate('')).toBe(0);
+    expect(estimator.estimate('abcdefgh')).toBe(2);
+    expect(estimator.estimate('上下文窗口')).toBe(5);
+    expect(estimator.estimate('上下文 window')).toBe(5); // 3 CJK + 7 other chars
+  });
+
+  it('estimates CJK-heavy text well above a bytes/4 proxy', () => {
+    const text = '请帮我检查这段代码的并发问题。'.repeat(20);
+    const bytes = Buffer.byteLength(text, 'utf8');
+
+    expect(createTokenEstimator('claude-code').estimate(text)).toBeGreaterThan(bytes / 4);
+  });
+
+  it('uses per-agent profiles and a conservative default', () => {
+    const text = 'A'.repeat(70) + '漢'.repeat(10);
+
+    expect(createTokenEstimator('claude-code').estimate(text)).toBe(32); // 70/3.5 + 10*1.2
+    expect(createTokenEstimator('openai-codex').estimate(text)).toBe(28); // ceil(70/4) + 10
+    expect(createTokenEstimator('unknown-agent').estimate(text)).toBe(32);
+  });
+});
+
+describe('fitToTokenBudget', () => {
+  // Every piece is 10 characters; the rendered prompt is 70 tokens in total
+  const input = createInput({
+    siblingContext: [{ from: 's', content: 's-newest__' }, { from: 's', content: 's-oldest__' }],
+    summary: 'summary___',
+    contextMessages: [{ from: 'c', content: 'c-oldest__' }, { from: 'c', content: 'c-newest__' }],
+    parentContext: { from: 'p', content: 'parent____' },
+    currentMessage: 'message___',
+    tokenEstimator: charEstimator,
+  });
+  const render = (i: AssemblerInput) => [
+    ...(i.siblingContext ?? []).map(m => m.content),
+    i.summary ?? '',
+    ...i.contextMessages.map(m => m.content),
+    i.parentContext?.content ?? '',
+    i.currentMessage,
+  ].join('');
+  const fit = (maxTokens: number, reservedText?: string) =>
+    fitToTokenBudget({ ...input, maxTokens }, render, reservedText);
+
+  it('returns the input unchanged without a budget or when it fits', () => {
+    expect(fitToTokenBudget(input, render)).toBe(input);
+    const fitting = { ...input, maxTokens: 70 };
+    expect(fitToTokenBudget(fitting, render)).toBe(fitting);
+  });
+
+  it('drops the oldest sibling responses first', () => {
+    const fitted = fit(60);
+    expect(fitted.siblingContext?.map(m => m.content)).toEqual(['s-newest__']);
+    expect(fitted.summary).toBe('summary___');
+  });
+
+  it('then drops the summary and the oldest context messages', () => {
+    expect(fit(40)).toMatchObject({ siblingContext: [], summary: undefined });
+    expect(fit(40).contextMessages).toHaveLength(2);
+    expect(fit(30).contextMessages.map(m => m.content)).toEqual(['c-newest__']);
+    expect(fit(25).contextMessages).toEqual([]);
+    expect(fit(25).parentContext?.content).toBe('parent____');
+  });
+
+  it('truncates the parent context last and removes it when nothing fits', () => {
+    expect(fit(15).parentContext?.content).toBe('pa...');
+    expect(fit(11).parentContext).toBeUndefined();
+    expect(fit(11).currentMessage).toBe('message___');
+  });
+
+  it('counts reserved text against the budget', () => {
+    expect(fit(70, 'x'.repeat(10)).siblingContext?.map(m => m.content)).toEqual(['s-newest__']);
+  });
+
+  it('drops the team roster only when nothing else can be trimmed', () => {
+    const teamRoster = { teamName: 'roster___', members: [] };
+    const renderWithRoster = (i: AssemblerInput) => (i.teamRoster?.teamName ?? '') + render(i);
+    const fitWithRoster = (maxTokens: number) =>
+      fitToTokenBudget({ ...input, teamRoster, maxTokens }, renderWithRoster);
+
+    expect(fitWithRoster(21).teamRoster).toBe(teamRoster);
+    expect(fitWithRoster(21).parentContext).toBeUndefined();
+    expect(fitWithRoster(19).teamRoster).toBe(teamRoster);
+    expect(fitWithRoster(18).teamRoster).toBeUndefined();
+  });
+});
+
+describe('Assembler token budgets', () => {
+  const contextMessages = Array.from({ length: 6 }, (_, i) => ({
+    from: 'alice',
+    to: 'bob',
+    content: `第${i + 1}条消息：我们讨论了数据库的索引设计和查询性能。`,
+  }));
+
+  it('trims the oldest context to the token budget while keeping the message', () => {
+    const estimator = createTokenEstimator('claude-code');
+    const input = createInput({
+      contextMessages,
+      currentMessage: '请总结一下',
+      maxTokens: 120,
+      tokenEstimator: estimator,
+    });
+
+    const output = new ClaudeContextAssembler().assemble(input);
+
+    expect(estimator.estimate(output.prompt)).toBeLessThanOrEqual(120);
+    expect(output.prompt).toContain('[MESSAGE]\n请总结一下');
+    expect(output.prompt).toContain('第6条消息');
+    expect(output.prompt).not.toContain('第1条消息');
+    // The byte budget alone would have kept everything
+    expect(new ClaudeContextAssembler().assemble({ ...input, maxTokens: undefined }).prompt)
+      .toContain('第1条消息');
+  });
+
+  it('applies the budget in every assembler', () => {
+    const input = createInput({ contextMessages, currentMessage: 'Next?', maxTokens: 80, tokenEstimator: charEstimator });
+
+    for (const assembler of [
+      new ClaudeContextAssembler(),
+      new CodexContextAssembler(),
+      new GeminiContextAssembler(),
+      new PlainTextAssembler(),
+    ]) {
+      const { prompt } = assembler.assemble(input);
+      expect(prompt.length).toBeLessThanOrEqual(80);
+      expect(prompt).toContain('Next?');
+    }
+  });
+});
+
+describe('ContextManager token estimators', () => {
+  it('uses the configured estimator for the agent type', () => {
+    const estimate = vi.fn((text: string) => text.length);
+    const manager = new ContextManager({ tokenEstimators: { claude: { estimate } } });
+    manager.addMessage({
+      timestamp: new Date(),
+      speaker: { id: 'human', name: 'human', displayName: 'Human', type: 'human' },
+      content: 'Hello',
+    });
+
+    const input = manager.getContextForAgent('ai-1', 'claude-code', { maxTokens: 500 });
+    manager.assemblePrompt('claude-code', input);
+
+    expect(input.maxTokens).toBe(500);
+    expect(estimate).toHaveBeenCalled();
+    expect(manager.getTokenEstimator('codex')).toBeInstanceOf(HeuristicTokenEstimator);
+  });
+});
@@ -7,9 +7,12 @@ import {
   resolveInstructionFile,
   normalizeMemberPaths,
   loadInstructionContent,
+  loadPromptTemplate,
   hasFlag,
-  withBypassArgs
+  withBypassArgs,
+  diffTeamConfig
 } from '../../src/services/ServiceInitializer.js';
+import type { CoreTeamConfig } from '../../src/models/CoreTeamConfig.js';
 import type { TeamMemberConfig } from '../../src/models/CLIConfig.js';
 
 let tempDir: string;
@@ -83,6 +86,40 @@ describe('ServiceInitializer helpers', () => {
     expect(loadInstructionContent(filePath)).toBe('Hello');
     expect(loadInstructionContent(path.join(tempDir, 'missing.md'))).toBeUndefined();
   });
+
+  it('loadPromptTemplate resolves relative paths and rejects missing or invalid templates', () => {
+    fs.writeFileSync(path.join(tempDir, 'prompt.txt'), '{{message}}');
+    fs.writeFileSync(path.join(tempDir, 'broken.txt'), '{{#if summary}}{{summary}}');
+
+    expect(loadPromptTemplate('prompt.txt', tempDir)).toEqual({
+      path: path.join(tempDir, 'prompt.txt'),
+      text: '{{message}}'
+    });
+    expect(() => loadPromptTemplate('missing.txt', tempDir)).toThrow(/Cannot read prompt template/);
+    expect(() => loadPromptTemplate('broken.txt', tempDir)).toThrow(/Invalid prompt template .*Unclosed \{\{#if\}\} block \(line 1\)/);
+  });
+
+  it('diffTeamConfig reports added, removed and updated members', () => {
+    const config = (members: TeamMemberConfig[], args: string[] = []): CoreTeamConfig => ({
+      agents: [{ name: 'codex', args }],
+      team: { name: 'team', description: 'team', members }
+    });
+    const alice = createMember({ agentType: 'codex' });
+    const bob = { ...createMember(), name: 'bob' };
+    const carol = { ...createMember(), name: 'carol', agentType: 'claude' };
+
+    expect(diffTeamConfig(config([alice, bob]), config([{ ...alice, systemInstruction: 'Be brief.' }, carol]))).toEqual({
+      added: ['carol'],
+      removed: ['bob'],
+      updated: ['member-1']
+    });
+    // Agent definition changes update the members using that agent
+    expect(diffTeamConfig(config([alice, carol]), config([alice, carol], ['--yolo']))).toEqual({
+      added: [],
+      removed: [],
+      updated: ['member-1']
+    });
+  });
 });
 
 // Note: startConversation was removed in the first-message refactor.
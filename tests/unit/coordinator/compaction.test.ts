@@ -0,0 +1,132 @@
+/**
+ * ConversationCoordinator Context Compaction Tests
+ *
+ * Messages that fall out of the context window are folded into a rolling [SUMMARY]
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConversationCoordinator } from '../../../src/services/ConversationCoordinator.js';
+import { MessageRouter } from '../../../src/services/MessageRouter.js';
+import { InMemorySessionStorage } from '../../../src/infrastructure/InMemorySessionStorage.js';
+import type { AgentManager } from '../../../src/services/AgentManager.js';
+import type { ConversationConfig } from '../../../src/models/CLIConfig.js';
+import { buildTeam, createMember, StubAgentManager } from './testUtils.js';
+
+const createTeam = () => buildTeam([
+  createMember({ id: 'human-1', name: 'human', displayName: 'Human', type: 'human', order: 0 }),
+  createMember({ id: 'ai-1', name: 'coder', displayName: 'Coder', type: 'ai', order: 1, agentType: 'claude' }),
+  createMember({ id: 'ai-2', name: 'scribe', displayName: 'Scribe', type: 'ai', order: 2 }),
+]);
+
+async function createCoordinator(storage: InMemorySessionStorage, conversationConfig?: ConversationConfig, contextMessageCount = 2) {
+  const agentManager = new StubAgentManager({}, ({ roleId }, callNumber) =>
+    roleId.endsWith(':summarizer') ? 'Agent summary of the early plan.' : `Reply ${callNumber}.`
+  );
+  const coordinator = new ConversationCoordinator(
+    agentManager as unknown as AgentManager,
+    new MessageRouter(),
+    { sessionStorage: storage, contextMessageCount, conversationConfig }
+  );
+  await coordinator.setTeam(createTeam());
+  return { coordinator, agentManager };
+}
+
+async function talk(coordinator: ConversationCoordinator) {
+  await coordinator.sendMessage('Plan the parser. Keep it small. [NEXT: coder]');
+  await coordinator.sendMessage('Add error recovery [NEXT: coder]');
+  await coordinator.sendMessage('Now write tests [NEXT: coder]');
+}
+
+describe('ConversationCoordinator context compaction', () => {
+  it('summarizes messages that fell out of the window', async () => {
+    const { coordinator, agentManager } = await createCoordinator(new InMemorySessionStorage());
+    await talk(coordinator);
+
+    const last = agentManager.sendCalls.at(-1)!.message;
+    expect(last).toContain('[SUMMARY]\n(Earlier conversation, summarized)\n- human: Plan the parser.\n- coder: Reply 1.');
+    expect(last).toContain('[CONTEXT]\n- human -> coder: Add error recovery\n');
+  });
+
+  it('saves the summary with the session and restores it', async () => {
+    const storage = new InMemorySessionStorage();
+    const { coordinator } = await createCoordinator(storage);
+    await talk(coordinator);
+    await coordinator.saveCurrentSession();
+    const sessionId = coordinator.getSession()!.id;
+
+    const snapshot = await storage.loadSession('team-test', sessionId);
+    expect(snapshot?.context.summary?.messageCount).toBe(2);
+
+    const { coordinator: resumed, agentManager } = await createCoordinator(storage);
+    await resumed.setTeam(createTeam(), { resumeSessionId: sessionId });
+    await resumed.sendMessage('Ship it [NEXT: coder]');
+
+    expect(agentManager.sendCalls[0].message).toContain('- human: Plan the parser.');
+  });
+
+  it('drops the summary when forking before the summarized messages', async () => {
+    const storage = new InMemorySessionStorage();
+    const { coordinator } = await createCoordinator(storage);
+    await talk(coordinator);
+    await coordinator.saveCurrentSession();
+    const [first] = coordinator.getSession()!.messages;
+
+    const forkId = await coordinator.forkSession(first.id);
+
+    const fork = await storage.loadSession('team-test', forkId);
+    expect(fork?.context.summary).toBeUndefined();
+  });
+
+  it('uses the designated summarizer member', async () => {
+    const { coordinator, agentManager } = await createCoordinator(new InMemorySessionStorage(), {
+      summarizerMember: 'scribe',
+    });
+    await talk(coordinator);
+
+    const summarizerCall = agentManager.sendCalls.find(c => c.roleId === 'ai-2:summarizer');
+    expect(summarizerCall?.message).toContain('[NEW_MESSAGES]\n- human -> coder: Plan the parser. Keep it small.');
+    expect(agentManager.stopCalls).toContain('ai-2:summarizer');
+    expect(agentManager.sendCalls.at(-1)!.message).toContain('[SUMMARY]\n(Earlier conversation, summarized)\nAgent summary of the early plan.');
+    // The summary is not part of the conversation history
+    expect(coordinator.getSession()!.messages.some(m => m.content.includes('Agent summary'))).toBe(false);
+  });
+
+  it('never sends whispers to the summarizer member and keeps the summary for everyone', async () => {
+    const { coordinator, agentManager } = await createCoordinator(new InMemorySessionStorage(), {
+      summarizerMember: 'scribe',
+    });
+    await coordinator.sendMessage('The budget is tight [WHISPER: coder]');
+    await talk(coordinator);
+    await coordinator.sendMessage('Write the changelog [NEXT: scribe]');
+
+    const summarizerPrompts = agentManager.sendCalls.filter(c => c.roleId === 'ai-2:summarizer').map(c => c.message);
+    expect(summarizerPrompts.join('\n')).toContain('Plan the parser.');
+    expect(summarizerPrompts.join('\n')).not.toContain('budget');
+    const scribePrompt = agentManager.sendCalls.find(c => c.roleId === 'ai-2')!.message;
+    expect(scribePrompt).toContain('Agent summary of the early plan.');
+    expect(scribePrompt).not.toContain('budget');
+    // The whispered member keeps it in an extractive summary of its own
+    const coderPrompt = agentManager.sendCalls.filter(c => c.roleId === 'ai-1').at(-1)!.message;
+    expect(coderPrompt).toContain('Agent summary of the early plan.\n- human: The budget is tight');
+  });
+
+  it('compacts in batches instead of calling the summarizer member on every turn', async () => {
+    // Window of 8 messages: evictions are folded four at a time
+    const { coordinator, agentManager } = await createCoordinator(new InMemorySessionStorage(), {
+      summarizerMember: 'scribe',
+    }, 8);
+
+    for (let step = 1; step <= 10; step++) {
+      await coordinator.sendMessage(`Step ${step} [NEXT: coder]`);
+    }
+
+    const coderPrompts = agentManager.sendCalls.filter(c => c.roleId === 'ai-1').map(c => c.message);
+    const summarizerCalls = agentManager.sendCalls.filter(c => c.roleId === 'ai-2:summarizer');
+    expect(coderPrompts).toHaveLength(10);
+    // Messages fall out of the window from step 6 on; only steps 7 and 9 complete a batch
+    expect(summarizerCalls).toHaveLength(2);
+    // Evicted messages waiting for the next batch stay in the context
+    expect(coderPrompts[7]).toContain('Agent summary of the early plan.');
+    expect(coderPrompts[7]).toContain('Step 3');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * ConversationCoordinator Session Fork Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConversationCoordinator } from '../../../src/services/ConversationCoordinator.js';
+import { MessageRouter } from '../../../src/services/MessageRouter.js';
+import { InMemorySessionStorage } from '../../../src/infrastructure/InMemorySessionStorage.js';
+import type { AgentManager } from '../../../src/services/AgentManager.js';
+import { aliceBobMembers, buildTeam, StubAgentManager } from './testUtils.js';
+
+function createTeam() {
+  return buildTeam(aliceBobMembers().slice(0, 2));
+}
+
+async function setup() {
+  const storage = new InMemorySessionStorage();
+  const agentManager = new StubAgentManager({}, (_call, callNumber) => ({
+    accumulatedText: `reply ${callNumber}`,
+    usage: { inputTokens: 10, outputTokens: 5 },
+  }));
+  const coordinator = new ConversationCoordinator(
+    agentManager as unknown as AgentManager,
+    new MessageRouter(),
+    { sessionStorage: storage }
+  );
+  await coordinator.setTeam(createTeam());
+
+  await coordinator.sendMessage('Design A [NEXT: alice]');
+  await coordinator.sendMessage('Refine it [NEXT: alice]');
+
+  return { storage, agentManager, coordinator };
+}
+
+describe('ConversationCoordinator forkSession', () => {
+  it('forks at a historical message and switches to the fork', async () => {
+    const { storage, coordinator } = await setup();
+    const original = coordinator.getSession()!;
+    const [, firstReply] = original.messages;
+
+    const forkId = await coordinator.forkSession(firstReply.id);
+
+    expect(forkId).not.toBe(original.id);
+    const session = coordinator.getSession()!;
+    expect(session.id).toBe(forkId);
+    expect(session.messages.map(m => m.content)).toEqual(['Design A', 'reply 1']);
+    expect(session.stats.agentTurns).toBe(1);
+    expect(session.forkedFrom).toMatchObject({ sessionId: original.id, messageId: firstReply.id });
+    expect(coordinator.getStatus()).toBe('paused');
+    expect(coordinator.getWaitingForMemberId()).toBe('human-1');
+
+    // Source session is untouched
+    const source = await storage.loadSession('team-test', original.id);
+    expect(source?.context.messages).toHaveLength(4);
+  });
+
+  it('truncates the context used for the next agent prompt', async () => {
+    const { agentManager, coordinator } = await setup();
+    const [, firstReply] = coordinator.getSession()!.messages;
+
+    await coordinator.forkSession(firstReply.id);
+    await coordinator.sendMessage('Try design B instead [NEXT: alice]');
+
+    const prompt = agentManager.sendCalls.at(-1)!.message;
+    expect(prompt).toContain('Try design B instead');
+    expect(prompt).not.toContain('Refine it');
+    expect(coordinator.getSession()!.messages).toHaveLength(4);
+  });
+
+  it('keeps lineage across saves and lists forks of the source', async () => {
+    const { storage, coordinator } = await setup();
+    const originalId = coordinator.getSession()!.id;
+    const [first] = coordinator.getSession()!.messages;
+
+    const forkId = await coordinator.forkSession(first.id);
+    await coordinator.sendMessage('Another direction [NEXT: alice]');
+    await coordinator.saveCurrentSession();
+
+    const fork = await storage.loadSession('team-test', forkId);
+    expect(fork?.forkedFrom?.sessionId).toBe(originalId);
+
+    const forks = await storage.listForks('team-test', originalId);
+    expect(forks.map(f => f.sessionId)).toEqual([forkId]);
+  });
+
+  it('rejects unknown messages', async () => {
+    const { coordinator } = await setup();
+    await expect(coordinator.forkSession('msg-missing')).rejects.toThrow(/Message 'msg-missing' not found/);
+  });
+
+  it('rejects forking without a session', async () => {
+    const coordinator = new ConversationCoordinator(
+      new StubAgentManager() as unknown as AgentManager,
+      new MessageRouter(),
+      { sessionStorage: new InMemorySessionStorage() }
+    );
+    await coordinator.setTeam(createTeam());
+    await expect(coordinator.forkSession('msg-1')).rejects.toThrow('No session to fork');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * ConversationCoordinator Handoff Tests
+ *
+ * [HANDOFF: member]{json} payloads are validated against the receiving role's
+ * handoffSchema and shown to the receiver as a [HANDOFF] section
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConversationCoordinator } from '../../../src/services/ConversationCoordinator.js';
+import { MessageRouter } from '../../../src/services/MessageRouter.js';
+import type { AgentManager } from '../../../src/services/AgentManager.js';
+import { buildTeam, createMember, StubAgentManager } from './testUtils.js';
+
+async function createCoordinator(coderReply: string) {
+  const agentManager = new StubAgentManager({}, ({ roleId }) => roleId === 'ai-1' ? coderReply : 'Done [NEXT: human]');
+  const coordinator = new ConversationCoordinator(
+    agentManager as unknown as AgentManager,
+    new MessageRouter()
+  );
+  await coordinator.setTeam({
+    ...buildTeam([
+      createMember({ id: 'human-1', name: 'human', displayName: 'Human', type: 'human', role: 'lead', order: 0 }),
+      createMember({ id: 'ai-1', name: 'coder', displayName: 'Coder', type: 'ai', role: 'coder', order: 1, agentType: 'claude-code' }),
+      createMember({ id: 'ai-2', name: 'reviewer', displayName: 'Reviewer', type: 'ai', role: 'reviewer', order: 2, agentType: 'claude-code' }),
+    ]),
+    roleDefinitions: [{
+      name: 'reviewer',
+      handoffSchema: {
+        type: 'object',
+        required: ['filesTouched'],
+        properties: { filesTouched: { type: 'array', items: { type: 'string' } } }
+      }
+    }]
+  });
+  return { coordinator, agentManager };
+}
+
+describe('ConversationCoordinator handoffs', () => {
+  it('delivers the payload to the receiver as a [HANDOFF] section', async () => {
+    const { coordinator, agentManager } = await createCoordinator(
+      'Cache is done. [HANDOFF: reviewer]{"filesTouched": ["src/cache.ts"]}'
+    );
+
+    await coordinator.sendMessage('Implement the cache [NEXT: coder]');
+
+    const reviewerPrompt = agentManager.prompts['ai-2'][0];
+    expect(reviewerPrompt).toContain('[HANDOFF]');
+    expect(reviewerPrompt).toContain('(Structured handoff from coder)');
+    expect(reviewerPrompt).toContain('"src/cache.ts"');
+    expect(reviewerPrompt).not.toContain('[HANDOFF: reviewer]');
+
+    const coderMessage = coordinator.getSession()!.messages.find(m => m.speaker.id === 'ai-1');
+    expect(coderMessage?.routing?.handoffs).toEqual([
+      { memberId: 'ai-2', payload: { filesTouched: ['src/cache.ts'] } }
+    ]);
+  });
+
+  it('shows schema violations to the receiver instead of dropping the handoff', async () => {
+    const { coordinator, agentManager } = await createCoordinator(
+      'Cache is done. [HANDOFF: reviewer]{"summary": "added a cache"}'
+    );
+
+    await coordinator.sendMessage('Implement the cache [NEXT: coder]');
+
+    const reviewerPrompt = agentManager.prompts['ai-2'][0];
+    expect(reviewerPrompt).toContain('"summary": "added a cache"');
+    expect(reviewerPrompt).toContain('(Payload problems - ask coder for the missing details)');
+    expect(reviewerPrompt).toContain("- / must have required property 'filesTouched'");
+  });
+
+  it('ignores handoffs to unknown members', async () => {
+    const { coordinator, agentManager } = await createCoordinator(
+      'Cache is done. [HANDOFF: nobody]{"filesTouched": []} [NEXT: reviewer]'
+    );
+
+    await coordinator.sendMessage('Implement the cache [NEXT: coder]');
+
+    expect(agentManager.prompts['ai-2'][0]).not.toContain('[HANDOFF]');
+    const coderMessage = coordinator.getSession()!.messages.find(m => m.speaker.id === 'ai-1');
+    expect(coderMessage?.routing?.handoffs).toBeUndefined();
+  });
+});
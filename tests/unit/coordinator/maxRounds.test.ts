@@ -0,0 +1,112 @@
+/**
+ * ConversationCoordinator maxRounds Budget Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ConversationCoordinator, type MaxRoundsReachedEvent } from '../../../src/services/ConversationCoordinator.js';
+import { MessageRouter } from '../../../src/services/MessageRouter.js';
+import { InMemorySessionStorage } from '../../../src/infrastructure/InMemorySessionStorage.js';
+import type { AgentManager } from '../../../src/services/AgentManager.js';
+import { createAliceBobTeam, StubAgentManager, type StubReplyScript } from './testUtils.js';
+
+// alice and bob keep handing the turn to each other
+const pingPong: StubReplyScript = ({ roleId }) => roleId === 'ai-1' ? 'Your turn [NEXT: bob]' : 'Back to you [NEXT: alice]';
+
+function createCoordinator(options: {
+  maxRounds?: number;
+  storage?: InMemorySessionStorage;
+  onMaxRoundsReached?: (event: MaxRoundsReachedEvent) => void;
+  defaultReply?: StubReplyScript;
+}) {
+  const agentManager = new StubAgentManager({}, options.defaultReply ?? pingPong);
+  const coordinator = new ConversationCoordinator(
+    agentManager as unknown as AgentManager,
+    new MessageRouter(),
+    {
+      maxRounds: options.maxRounds,
+      sessionStorage: options.storage ?? new InMemorySessionStorage(),
+      onMaxRoundsReached: options.onMaxRoundsReached,
+    }
+  );
+  return { coordinator, agentManager };
+}
+
+describe('ConversationCoordinator maxRounds budget', () => {
+  it('stops AI ping-pong after maxRounds agent turns and pauses for the first human', async () => {
+    const onMaxRoundsReached = vi.fn();
+    const { coordinator, agentManager } = createCoordinator({ maxRounds: 3, onMaxRoundsReached });
+    await coordinator.setTeam(createAliceBobTeam());
+
+    await coordinator.sendMessage('Start [NEXT: alice]');
+
+    expect(agentManager.sentTo()).toEqual(['ai-1', 'ai-2', 'ai-1']);
+    expect(coordinator.getAgentTurnCount()).toBe(3);
+    expect(coordinator.getStatus()).toBe('paused');
+    expect(coordinator.getWaitingForMemberId()).toBe('human-1');
+    expect((coordinator as any).routingQueueV3.isEmpty()).toBe(true);
+
+    expect(onMaxRoundsReached).toHaveBeenCalledTimes(1);
+    expect(onMaxRoundsReached).toHaveBeenCalledWith({
+      agentTurns: 3,
+      maxRounds: 3,
+      droppedRoutes: 1,
+      waitingForMemberId: 'human-1',
+    });
+  });
+
+  it('does not limit turns when maxRounds is 0', async () => {
+    // alice hands back to the human after a few rounds
+    const { coordinator, agentManager } = createCoordinator({
+      maxRounds: 0,
+      defaultReply: ({ roleId }, callNumber) => callNumber >= 6 ? 'Done' : roleId === 'ai-1' ? '[NEXT: bob]' : '[NEXT: alice]',
+    });
+    await coordinator.setTeam(createAliceBobTeam());
+
+    await coordinator.sendMessage('Start [NEXT: alice]');
+
+    expect(agentManager.sendCalls).toHaveLength(6);
+    expect(coordinator.getAgentTurnCount()).toBe(6);
+  });
+
+  it('lets a human raise the budget and continue', async () => {
+    const onMaxRoundsReached = vi.fn();
+    const { coordinator, agentManager } = createCoordinator({ maxRounds: 1, onMaxRoundsReached });
+    await coordinator.setTeam(createAliceBobTeam());
+
+    await coordinator.sendMessage('Start [NEXT: alice]');
+    expect(agentManager.sentTo()).toEqual(['ai-1']);
+
+    coordinator.setMaxRounds(2);
+    await coordinator.sendMessage('Keep going [NEXT: bob]');
+
+    expect(agentManager.sentTo()).toEqual(['ai-1', 'ai-2']);
+    expect(onMaxRoundsReached).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects invalid maxRounds values', () => {
+    const { coordinator } = createCoordinator({});
+    expect(() => coordinator.setMaxRounds(-1)).toThrow('maxRounds must be a number >= 0');
+  });
+
+  it('keeps the turn count across save and restore', async () => {
+    const storage = new InMemorySessionStorage();
+    const first = createCoordinator({ maxRounds: 2, storage });
+    await first.coordinator.setTeam(createAliceBobTeam());
+    await first.coordinator.sendMessage('Start [NEXT: alice]');
+    await first.coordinator.saveCurrentSession();
+
+    const sessionId = first.coordinator.getSession()!.id;
+    const snapshot = await storage.loadSession('team-test', sessionId);
+    expect(snapshot?.metadata.agentTurns).toBe(2);
+
+    const onMaxRoundsReached = vi.fn();
+    const second = createCoordinator({ maxRounds: 2, storage, onMaxRoundsReached });
+    await second.coordinator.setTeam(createAliceBobTeam(), { resumeSessionId: sessionId });
+
+    expect(second.coordinator.getAgentTurnCount()).toBe(2);
+
+    await second.coordinator.sendMessage('Again [NEXT: alice]');
+    expect(second.agentManager.sentTo()).toEqual([]);
+    expect(onMaxRoundsReached).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * ConversationCoordinator Dynamic Membership Tests
+ *
+ * [INVITE: name as role using agent] / [DISMISS: name] change the team
+ * mid-session: humans and team.membership.leads may use them, changes are
+ * validated, recorded as system messages and replayed when the session is restored
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ConversationCoordinator } from '../../../src/services/ConversationCoordinator.js';
+import { MessageRouter } from '../../../src/services/MessageRouter.js';
+import { InMemorySessionStorage } from '../../../src/infrastructure/InMemorySessionStorage.js';
+import type { AgentManager } from '../../../src/services/AgentManager.js';
+import type { ParsedInvite } from '../../../src/services/MessageRouter.js';
+import type { Member, Team } from '../../../src/models/Team.js';
+import { buildTeam, createMember, StubAgentManager } from './testUtils.js';
+
+const human = createMember({ id: 'human-1', name: 'lead', displayName: 'Lead', type: 'human', order: 0 });
+const coder = createMember({ id: 'ai-1', name: 'coder', displayName: 'Coder', type: 'ai', role: 'developer', order: 1 });
+const reviewer = createMember({ id: 'ai-2', name: 'reviewer', displayName: 'Reviewer', type: 'ai', order: 2 });
+
+function provisioner() {
+  return vi.fn(async (invitation: ParsedInvite): Promise<Member> => {
+    if (invitation.agentType !== 'claude') {
+      throw new Error(`agent "${invitation.agentType}" is not registered`);
+    }
+    return createMember({
+      id: invitation.name,
+      name: invitation.name,
+      displayName: invitation.name,
+      role: invitation.role,
+      type: 'ai',
+      agentType: invitation.agentType,
+    });
+  });
+}
+
+async function createCoordinator(options: {
+  scripts?: Record<string, string[]>;
+  team?: Partial<Team>;
+  provisionMember?: ReturnType<typeof provisioner> | null;
+  sessionStorage?: InMemorySessionStorage;
+} = {}) {
+  // Members answer from their script, then hand back to the human
+  const agentManager = new StubAgentManager(options.scripts, () => 'Done [NEXT: lead]');
+  const provisionMember = options.provisionMember === null ? undefined : options.provisionMember ?? provisioner();
+  const coordinator = new ConversationCoordinator(
+    agentManager as unknown as AgentManager,
+    new MessageRouter(),
+    { sessionStorage: options.sessionStorage ?? new InMemorySessionStorage(), provisionMember }
+  );
+  await coordinator.setTeam({ ...buildTeam([human, coder, reviewer]), ...options.team });
+  return { coordinator, agentManager, provisionMember };
+}
+
+function systemMessages(coordinator: ConversationCoordinator): string[] {
+  return coordinator.getSession()!.messages.filter(m => m.speaker.id === 'system').map(m => m.content);
+}
+
+describe('ConversationCoordinator dynamic membership', () => {
+  it('lets a human invite a member that can be addressed in the same message', async () => {
+    const { coordinator, agentManager, provisionMember } = await createCoordinator();
+
+    await coordinator.sendMessage('[INVITE: dba as database expert using claude] Check the indexes [NEXT: dba]');
+
+    expect(provisionMember).toHaveBeenCalledWith({ name: 'dba', role: 'database expert', agentType: 'claude' });
+    expect(coordinator.getTeam()!.members.map(m => m.name)).toEqual(['lead', 'coder', 'reviewer', 'dba']);
+    expect(coordinator.getTeam()!.members.find(m => m.name === 'dba')!.order).toBe(3);
+    expect(agentManager.prompts['dba']).toHaveLength(1);
+    expect(agentManager.prompts['dba'][0]).toContain('- dba - database expert, ai - you');
+    expect(systemMessages(coordinator)).toEqual(['dba joined the team as database expert (claude), invited by lead']);
+
+    const [first] = coordinator.getSession()!.messages;
+    expect(first.content).toBe('Check the indexes');
+    expect(coordinator.getSession()!.membershipChanges).toEqual([
+      expect.objectContaining({ action: 'invite', memberId: 'dba', role: 'database expert', agentType: 'claude', requestedBy: 'human-1', messageId: first.id }),
+    ]);
+  });
+
+  it('only lets humans and team.membership.leads change the membership', async () => {
+    const scripts = {
+      'ai-1': ['Need a second opinion [INVITE: dba as dba using claude] [NEXT: lead]'],
+      'ai-2': ['Done reviewing [DISMISS: coder] [NEXT: lead]'],
+    };
+    const { coordinator } = await createCoordinator({ scripts, team: { membership: { leads: ['reviewer'] } } });
+
+    await coordinator.sendMessage('Start [NEXT: coder]');
+    await coordinator.sendMessage('Review please [NEXT: reviewer]');
+
+    expect(coordinator.getTeam()!.members.map(m => m.name)).toEqual(['lead', 'reviewer']);
+    expect(systemMessages(coordinator)).toEqual([
+      'coder cannot invite or dismiss members (only humans and team.membership.leads can)',
+      'coder was dismissed by reviewer',
+    ]);
+  });
+
+  it('drops queued turns and stops the agent of a dismissed member', async () => {
+    const { coordinator, agentManager } = await createCoordinator({
+      scripts: { 'ai-1': ['Over to the team [NEXT: lead, reviewer]'] },
+    });
+    await coordinator.sendMessage('Start [NEXT: coder]');
+    expect(agentManager.prompts['ai-2']).toBeUndefined();
+    agentManager.stopCalls = [];
+
+    await coordinator.sendMessage('[DISMISS: reviewer] Never mind the review');
+
+    expect(agentManager.stopCalls).toEqual(['ai-2']);
+    expect(systemMessages(coordinator)).toEqual(['reviewer was dismissed by lead (1 queued turn dropped)']);
+    expect(agentManager.prompts['ai-2']).toBeUndefined();
+  });
+
+  it('rejects invalid invitations and dismissals without interrupting routing', async () => {
+    const { coordinator, agentManager, provisionMember } = await createCoordinator();
+
+    await coordinator.sendMessage(
+      '[INVITE: coder as developer using claude, dba! as dba using claude, qa as tester using cobol] ' +
+      '[DISMISS: lead, ghost] Carry on [NEXT: coder]'
+    );
+
+    expect(systemMessages(coordinator)).toEqual([
+      'Invitation of coder rejected: coder is already a member',
+      expect.stringMatching(/^Invitation of dba! rejected: .*dba!/),
+      'Invitation of qa rejected: agent "cobol" is not registered',
+      'Dismissal of lead rejected: members cannot dismiss themselves',
+      'Dismissal of ghost rejected: ghost is not a member',
+    ]);
+    expect(provisionMember).toHaveBeenCalledTimes(1);
+    expect(coordinator.getTeam()!.members).toHaveLength(3);
+    expect(agentManager.prompts['ai-1']).toHaveLength(1);
+  });
+
+  it('keeps the team valid and rejects invitations without a provisioner', async () => {
+    const { coordinator } = await createCoordinator({
+      provisionMember: null,
+      scripts: { 'ai-1': ['Taking over [DISMISS: lead]'] },
+      team: { membership: { leads: ['coder'] } },
+    });
+
+    await coordinator.sendMessage('[DISMISS: reviewer] [INVITE: dba as dba using claude] Go [NEXT: coder]');
+
+    expect(systemMessages(coordinator)).toEqual([
+      'Invitation of dba rejected: inviting members is not enabled',
+      'reviewer was dismissed by lead',
+      'Dismissal of lead rejected: 团队至少需要 2 个成员; 团队至少需要 1 个 Human 成员',
+    ]);
+    expect(coordinator.getTeam()!.members.map(m => m.name)).toEqual(['lead', 'coder']);
+  });
+
+  it('replays membership changes when the session is restored or forked', async () => {
+    const sessionStorage = new InMemorySessionStorage();
+    const { coordinator } = await createCoordinator({ sessionStorage });
+    await coordinator.sendMessage('Kick-off');
+    const kickOff = coordinator.getSession()!.messages[0].id;
+    await coordinator.sendMessage('[INVITE: dba as dba using claude] [DISMISS: reviewer] Reshuffle');
+    await coordinator.saveCurrentSession();
+    const sessionId = coordinator.getSession()!.id;
+
+    const restored = await createCoordinator({ sessionStorage });
+    await restored.coordinator.setTeam(buildTeam([human, coder, reviewer]), { resumeSessionId: sessionId });
+    expect(restored.coordinator.getTeam()!.members.map(m => m.name)).toEqual(['lead', 'coder', 'dba']);
+    expect(restored.provisionMember).toHaveBeenCalledWith({ name: 'dba', role: 'dba', agentType: 'claude' });
+
+    await restored.coordinator.forkSession(kickOff);
+    expect(restored.coordinator.getTeam()!.members.map(m => m.name)).toEqual(['lead', 'coder', 'reviewer']);
+    expect(restored.coordinator.getSession()!.membershipChanges).toBeUndefined();
+  });
+
+  it('keeps invited members across a team reload', async () => {
+    const { coordinator, provisionMember } = await createCoordinator();
+    await coordinator.sendMessage('[INVITE: dba as dba using claude] Welcome');
+
+    const result = await coordinator.reloadTeam(buildTeam([human, { ...coder, systemInstruction: 'Write tests first.' }, reviewer]));
+
+    expect(result).toMatchObject({ added: [], removed: [], updated: ['coder'] });
+    expect(coordinator.getTeam()!.members.map(m => m.name)).toEqual(['lead', 'coder', 'reviewer', 'dba']);
+    expect(provisionMember).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * ConversationCoordinator Native Session Tests
+ *
+ * Native agent CLI session IDs are saved with the session and continued on resume
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConversationCoordinator } from '../../../src/services/ConversationCoordinator.js';
+import { MessageRouter } from '../../../src/services/MessageRouter.js';
+import { InMemorySessionStorage } from '../../../src/infrastructure/InMemorySessionStorage.js';
+import type { AgentManager } from '../../../src/services/AgentManager.js';
+import { buildTeam, createMember, StubAgentManager } from './testUtils.js';
+
+/**
+ * Agent stub reporting a native session ID per turn
+ */
+class NativeSessionAgentManager extends StubAgentManager {
+  constructor() {
+    super({}, ({ roleId, options }, callNumber) => ({
+      accumulatedText: `Reply ${callNumber}`,
+      nativeSessionId: options?.resumeSessionId ?? `native-${roleId}`,
+    }));
+  }
+
+  supportsNativeResume(): boolean {
+    return true;
+  }
+}
+
+const createTeam = () => buildTeam([
+  createMember({ id: 'human-1', name: 'human', displayName: 'Human', type: 'human', order: 0 }),
+  createMember({ id: 'ai-1', name: 'coder', displayName: 'Coder', type: 'ai', order: 1, agentType: 'claude' }),
+]);
+
+function createCoordinator(storage: InMemorySessionStorage) {
+  const agentManager = new NativeSessionAgentManager();
+  const coordinator = new ConversationCoordinator(
+    agentManager as unknown as AgentManager,
+    new MessageRouter(),
+    { sessionStorage: storage }
+  );
+  return { coordinator, agentManager };
+}
+
+async function saveConversation(storage: InMemorySessionStorage) {
+  const { coordinator } = createCoordinator(storage);
+  await coordinator.setTeam(createTeam());
+  await coordinator.sendMessage('Implement the parser [NEXT: coder]');
+  await coordinator.saveCurrentSession();
+  return coordinator.getSession()!;
+}
+
+describe('ConversationCoordinator native sessions', () => {
+  it('persists the native session of each member', async () => {
+    const storage = new InMemorySessionStorage();
+    const session = await saveConversation(storage);
+
+    const snapshot = await storage.loadSession('team-test', session.id);
+    const parentId = snapshot!.context.messages[0].id;
+
+    expect(snapshot?.nativeSessions).toEqual({
+      'ai-1': { sessionId: 'native-ai-1', lastMessageId: parentId },
+    });
+  });
+
+  it('continues the native session with only new messages after resume', async () => {
+    const storage = new InMemorySessionStorage();
+    const session = await saveConversation(storage);
+
+    const { coordinator, agentManager } = createCoordinator(storage);
+    await coordinator.setTeam(createTeam(), { resumeSessionId: session.id, resumeNativeSessions: true });
+    await coordinator.sendMessage('Now add tests [NEXT: coder]');
+    await coordinator.sendMessage('And docs [NEXT: coder]');
+
+    const [resumed, next] = agentManager.sendCalls;
+    expect(resumed.options?.resumeSessionId).toBe('native-ai-1');
+    expect(resumed.message).toContain('Now add tests');
+    expect(resumed.message).not.toContain('Implement the parser');
+
+    // Resume applies once; later turns start a fresh session with the full context
+    expect(next.options?.resumeSessionId).toBeUndefined();
+    expect(next.message).toContain('Implement the parser');
+  });
+
+  it('cold-starts agents unless resumeNativeSessions is set', async () => {
+    const storage = new InMemorySessionStorage();
+    const session = await saveConversation(storage);
+
+    const { coordinator, agentManager } = createCoordinator(storage);
+    await coordinator.setTeam(createTeam(), { resumeSessionId: session.id });
+    await coordinator.sendMessage('Now add tests [NEXT: coder]');
+
+    expect(agentManager.sendCalls[0].options?.resumeSessionId).toBeUndefined();
+    expect(agentManager.sendCalls[0].message).toContain('Implement the parser');
+  });
+});
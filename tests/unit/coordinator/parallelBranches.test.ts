@@ -0,0 +1,128 @@
+/**
+ * ConversationCoordinator Parallel Branch Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ConversationCoordinator } from '../../../src/services/ConversationCoordinator.js';
+import { MessageRouter } from '../../../src/services/MessageRouter.js';
+import { InMemorySessionStorage } from '../../../src/infrastructure/InMemorySessionStorage.js';
+import type { AgentManager } from '../../../src/services/AgentManager.js';
+import type { ConversationMessage } from '../../../src/models/ConversationMessage.js';
+import { buildTeam, createMember, DeferredAgentManager, flush } from './testUtils.js';
+
+function createReviewTeam() {
+  return buildTeam([
+    createMember({ id: 'human-1', name: 'lead', displayName: 'Lead', type: 'human', order: 0 }),
+    createMember({ id: 'ai-1', name: 'alice', displayName: 'Alice', type: 'ai', order: 1 }),
+    createMember({ id: 'ai-2', name: 'bob', displayName: 'Bob', type: 'ai', order: 2 }),
+    createMember({ id: 'ai-3', name: 'carol', displayName: 'Carol', type: 'ai', order: 3 }),
+  ]);
+}
+
+function createCoordinator(maxParallel: number, onMessage?: (message: ConversationMessage) => void) {
+  const agentManager = new DeferredAgentManager();
+  const coordinator = new ConversationCoordinator(
+    agentManager as unknown as AgentManager,
+    new MessageRouter(),
+    {
+      sessionStorage: new InMemorySessionStorage(),
+      routingQueueConfig: { maxParallel },
+      onMessage,
+    }
+  );
+  return { coordinator, agentManager };
+}
+
+describe('ConversationCoordinator parallel branches', () => {
+  it('runs fan-out AI targets sequentially by default', async () => {
+    const { coordinator, agentManager } = createCoordinator(1);
+    await coordinator.setTeam(createReviewTeam());
+
+    const done = coordinator.sendMessage('Please review [NEXT: alice, bob, carol]');
+    await flush();
+    expect(agentManager.sentTo()).toEqual(['ai-1']);
+
+    agentManager.release('ai-1', 'alice ok');
+    await flush();
+    expect(agentManager.sentTo()).toEqual(['ai-1', 'ai-2']);
+
+    agentManager.release('ai-2', 'bob ok');
+    await flush();
+    agentManager.release('ai-3', 'carol ok');
+    await done;
+  });
+
+  it('runs siblings concurrently and commits replies in scheduling order', async () => {
+    const messages: ConversationMessage[] = [];
+    const { coordinator, agentManager } = createCoordinator(3, m => messages.push(m));
+    await coordinator.setTeam(createReviewTeam());
+
+    const done = coordinator.sendMessage('Please review [NEXT: alice, bob, carol]');
+    await flush();
+    expect(agentManager.sentTo()).toEqual(['ai-1', 'ai-2', 'ai-3']);
+
+    // Finish in reverse order
+    agentManager.release('ai-3', 'carol ok');
+    agentManager.release('ai-2', 'bob ok');
+    agentManager.release('ai-1', 'alice ok');
+    await done;
+
+    const parentId = messages[0].id;
+    expect(messages.slice(1).map(m => m.speaker.id)).toEqual(['ai-1', 'ai-2', 'ai-3']);
+    expect(messages.slice(1).every(m => m.routing?.parentMessageId === parentId)).toBe(true);
+    expect(coordinator.getStatus()).toBe('paused');
+    expect(coordinator.getWaitingForMemberId()).toBe('human-1');
+  });
+
+  it('builds every sibling prompt from the shared parent message', async () => {
+    const { coordinator, agentManager } = createCoordinator(3);
+    await coordinator.setTeam(createReviewTeam());
+
+    const done = coordinator.sendMessage('Check the diff [NEXT: alice, bob]');
+    await flush();
+
+    const prompts = agentManager.pending.map(p => p.prompt);
+    expect(prompts).toHaveLength(2);
+    for (const prompt of prompts) {
+      expect(prompt).toContain('Check the diff');
+    }
+
+    agentManager.release('ai-1', 'alice ok');
+    agentManager.release('ai-2', 'bob ok');
+    await done;
+  });
+
+  it('caps concurrency at maxParallel', async () => {
+    const { coordinator, agentManager } = createCoordinator(2);
+    await coordinator.setTeam(createReviewTeam());
+
+    const done = coordinator.sendMessage('Please review [NEXT: alice, bob, carol]');
+    await flush();
+    expect(agentManager.sentTo()).toEqual(['ai-1', 'ai-2']);
+
+    agentManager.release('ai-1', 'alice ok');
+    agentManager.release('ai-2', 'bob ok');
+    await flush();
+    expect(agentManager.sentTo()).toEqual(['ai-1', 'ai-2', 'ai-3']);
+
+    agentManager.release('ai-3', 'carol ok');
+    await done;
+  });
+
+  it('cancels every in-flight sibling on user cancellation', async () => {
+    const onMessage = vi.fn();
+    const { coordinator, agentManager } = createCoordinator(3, onMessage);
+    await coordinator.setTeam(createReviewTeam());
+
+    const done = coordinator.sendMessage('Please review [NEXT: alice, bob]');
+    await flush();
+
+    await coordinator.handleUserCancellation();
+    await done;
+
+    expect(agentManager.cancelCalls.sort()).toEqual(['ai-1', 'ai-2']);
+    expect(coordinator.getStatus()).toBe('paused');
+    // Only the human message was committed
+    expect(onMessage).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * ConversationCoordinator Prompt Template Tests
+ *
+ * Members with promptTemplateText are prompted with their template instead of the built-in layout;
+ * assemblers from the coordinator options shape prompts per agent type
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConversationCoordinator } from '../../../src/services/ConversationCoordinator.js';
+import { MessageRouter } from '../../../src/services/MessageRouter.js';
+import type { AgentManager } from '../../../src/services/AgentManager.js';
+import { TemplateContextAssembler } from '../../../src/context/assemblers/TemplateContextAssembler.js';
+import { buildTeam, createMember, StubAgentManager } from './testUtils.js';
+
+async function createCoordinator(promptTemplateText: string) {
+  const agentManager = new StubAgentManager({}, () => 'Done [NEXT: human]');
+  const coordinator = new ConversationCoordinator(
+    agentManager as unknown as AgentManager,
+    new MessageRouter()
+  );
+  await coordinator.setTeam(buildTeam([
+    createMember({ id: 'human-1', name: 'human', displayName: 'Human', type: 'human', order: 0 }),
+    createMember({ id: 'ai-1', name: 'templated', displayName: 'Templated', type: 'ai', order: 1, promptTemplateText }),
+    createMember({ id: 'ai-2', name: 'builtin', displayName: 'Builtin', type: 'ai', order: 2, agentType: 'claude-code' }),
+  ]));
+  return { coordinator, agentManager };
+}
+
+describe('ConversationCoordinator prompt templates', () => {
+  it('assembles prompts from the member template', async () => {
+    const { coordinator, agentManager } = await createCoordinator(
+      '{{#each context}}\n{{from}}> {{content}}\n{{/each}}\nNOW: {{message}}'
+    );
+
+    await coordinator.sendMessage('Refactor the parser [NEXT: templated]');
+    await coordinator.sendMessage('Review it [NEXT: builtin]');
+
+    expect(agentManager.prompts['ai-1'][0]).toBe('NOW: Refactor the parser');
+    expect(agentManager.prompts['ai-2'][0]).toContain('[MESSAGE]');
+    expect(agentManager.prompts['ai-2'][0]).toContain('Refactor the parser');
+  });
+
+  it('falls back to the built-in layout when the template is invalid', async () => {
+    const { coordinator, agentManager } = await createCoordinator('{{#if summary}}');
+
+    await coordinator.sendMessage('Refactor the parser [NEXT: templated]');
+
+    expect(agentManager.prompts['ai-1'][0]).toContain('Refactor the parser');
+  });
+
+  it('uses assemblers from the coordinator options for new agent types', async () => {
+    const agentManager = new StubAgentManager({}, () => 'Done [NEXT: human]');
+    const coordinator = new ConversationCoordinator(
+      agentManager as unknown as AgentManager,
+      new MessageRouter(),
+      { assemblers: { aider: new TemplateContextAssembler('/ask {{message}}', 'aider') } }
+    );
+    await coordinator.setTeam(buildTeam([
+      createMember({ id: 'human-1', name: 'human', displayName: 'Human', type: 'human', order: 0 }),
+      createMember({ id: 'ai-1', name: 'pair', displayName: 'Pair', type: 'ai', order: 1, agentType: 'aider' }),
+    ]));
+
+    await coordinator.sendMessage('Explain the cache [NEXT: pair]');
+
+    expect(agentManager.prompts['ai-1'][0]).toBe('/ask Explain the cache');
+  });
+});
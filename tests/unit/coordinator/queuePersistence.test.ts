@@ -0,0 +1,109 @@
+/**
+ * ConversationCoordinator Routing Queue Persistence Tests
+ *
+ * Pending routes are saved with the session and optionally rehydrated on resume
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConversationCoordinator } from '../../../src/services/ConversationCoordinator.js';
+import { MessageRouter } from '../../../src/services/MessageRouter.js';
+import { InMemorySessionStorage } from '../../../src/infrastructure/InMemorySessionStorage.js';
+import type { AgentManager } from '../../../src/services/AgentManager.js';
+import type { ConversationConfig } from '../../../src/models/CLIConfig.js';
+import type { QueueUpdateEvent } from '../../../src/models/QueueEvent.js';
+import type { Role } from '../../../src/models/Team.js';
+import { buildTeam, createMember, StubAgentManager } from './testUtils.js';
+
+const reviewTeamMembers = (): Role[] => [
+  createMember({ id: 'human-1', name: 'human', displayName: 'Human', type: 'human', order: 0 }),
+  createMember({ id: 'ai-1', name: 'r1', displayName: 'R1', type: 'ai', order: 1 }),
+  createMember({ id: 'ai-2', name: 'r2', displayName: 'R2', type: 'ai', order: 2 }),
+  createMember({ id: 'ai-3', name: 'r3', displayName: 'R3', type: 'ai', order: 3 }),
+];
+
+function createCoordinator(storage: InMemorySessionStorage, conversationConfig?: ConversationConfig) {
+  const agentManager = new StubAgentManager({}, ({ roleId }) => `Reviewed by ${roleId}`);
+  const queueUpdates: QueueUpdateEvent[] = [];
+  const coordinator = new ConversationCoordinator(
+    agentManager as unknown as AgentManager,
+    new MessageRouter(),
+    {
+      sessionStorage: storage,
+      conversationConfig,
+      onQueueUpdate: event => queueUpdates.push(event),
+    }
+  );
+  return { coordinator, agentManager, queueUpdates };
+}
+
+/**
+ * Fan out to three reviewers and stop after the first one (agent turn budget)
+ */
+async function saveInterruptedFanOut(storage: InMemorySessionStorage): Promise<string> {
+  const { coordinator, agentManager } = createCoordinator(storage, { maxAgentTurns: 1 });
+  await coordinator.setTeam(buildTeam(reviewTeamMembers()));
+
+  await coordinator.sendMessage('Please review [NEXT: r1, r2, r3]');
+  await coordinator.saveCurrentSession();
+
+  expect(agentManager.sentTo()).toEqual(['ai-1']);
+  return coordinator.getSession()!.id;
+}
+
+describe('ConversationCoordinator routing queue persistence', () => {
+  it('saves pending routes with the session', async () => {
+    const storage = new InMemorySessionStorage();
+    const sessionId = await saveInterruptedFanOut(storage);
+
+    const snapshot = await storage.loadSession('team-test', sessionId);
+
+    expect(snapshot?.schemaVersion).toBe('1.1');
+    expect(snapshot?.routingQueue?.items.map(i => [i.targetMemberId, i.intent])).toEqual([
+      ['ai-2', 'P2_REPLY'],
+      ['ai-3', 'P2_REPLY'],
+    ]);
+  });
+
+  it('rehydrates the queue on resume and continues with resumeRouting', async () => {
+    const storage = new InMemorySessionStorage();
+    const sessionId = await saveInterruptedFanOut(storage);
+
+    const { coordinator, agentManager, queueUpdates } = createCoordinator(storage);
+    await coordinator.setTeam(buildTeam(reviewTeamMembers()), {
+      resumeSessionId: sessionId,
+      restoreRoutingQueue: true,
+    });
+
+    expect(coordinator.getStatus()).toBe('paused');
+    expect(agentManager.sentTo()).toEqual([]);
+    expect(queueUpdates.at(-1)?.items.map(i => i.id)).toEqual(['ai-2', 'ai-3']);
+
+    await coordinator.resumeRouting();
+
+    expect(agentManager.sentTo()).toEqual(['ai-2', 'ai-3']);
+    expect(coordinator.getWaitingForMemberId()).toBe('human-1');
+  });
+
+  it('starts with an empty queue unless restoreRoutingQueue is set', async () => {
+    const storage = new InMemorySessionStorage();
+    const sessionId = await saveInterruptedFanOut(storage);
+
+    const { coordinator, agentManager } = createCoordinator(storage);
+    await coordinator.setTeam(buildTeam(reviewTeamMembers()), { resumeSessionId: sessionId });
+    await coordinator.resumeRouting();
+
+    expect(agentManager.sentTo()).toEqual([]);
+  });
+
+  it('drops queued routes for members that left the team', async () => {
+    const storage = new InMemorySessionStorage();
+    const sessionId = await saveInterruptedFanOut(storage);
+
+    const { coordinator, agentManager } = createCoordinator(storage);
+    const members = reviewTeamMembers().filter(m => m.id !== 'ai-2');
+    await coordinator.setTeam(buildTeam(members), { resumeSessionId: sessionId, restoreRoutingQueue: true });
+    await coordinator.resumeRouting();
+
+    expect(agentManager.sentTo()).toEqual(['ai-3']);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * ConversationCoordinator Routing Rules Tests
+ *
+ * Declarative team.routingRules drive routing when agents omit NEXT markers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConversationCoordinator } from '../../../src/services/ConversationCoordinator.js';
+import { MessageRouter } from '../../../src/services/MessageRouter.js';
+import { InMemorySessionStorage } from '../../../src/infrastructure/InMemorySessionStorage.js';
+import type { AgentManager } from '../../../src/services/AgentManager.js';
+import type { RoutingRule } from '../../../src/models/RoutingRule.js';
+import { buildTeam, createMember, StubAgentManager } from './testUtils.js';
+
+async function createCoordinator(replies: Record<string, string>, routingRules?: RoutingRule[]) {
+  const agentManager = new StubAgentManager({}, ({ roleId }) => replies[roleId] ?? 'ok');
+  const coordinator = new ConversationCoordinator(
+    agentManager as unknown as AgentManager,
+    new MessageRouter(),
+    { sessionStorage: new InMemorySessionStorage() }
+  );
+  const team = buildTeam([
+    createMember({ id: 'human-1', name: 'human', displayName: 'Human', type: 'human', role: 'lead', order: 0 }),
+    createMember({ id: 'ai-1', name: 'coder', displayName: 'Coder', type: 'ai', role: 'coder', order: 1 }),
+    createMember({ id: 'ai-2', name: 'reviewer', displayName: 'Reviewer', type: 'ai', role: 'reviewer', order: 2 }),
+    createMember({ id: 'ai-3', name: 'docs', displayName: 'Docs', type: 'ai', role: 'writer', order: 3 }),
+  ]);
+  team.routingRules = routingRules;
+  await coordinator.setTeam(team);
+  return { coordinator, agentManager };
+}
+
+const workflowRules: RoutingRule[] = [
+  { name: 'approved', when: { matches: '\\bLGTM\\b' }, routeTo: '$human' },
+  { name: 'review-code', when: { fromRole: 'coder' }, routeTo: 'role:reviewer' },
+  { name: 'back-to-coder', when: { fromRole: 'reviewer' }, routeTo: 'coder' },
+];
+
+describe('ConversationCoordinator routing rules', () => {
+  it('falls back to the first human without rules', async () => {
+    const { coordinator, agentManager } = await createCoordinator({ 'ai-1': 'Implemented' });
+
+    await coordinator.sendMessage('Build it [NEXT: coder]');
+
+    expect(agentManager.sentTo()).toEqual(['ai-1']);
+    expect(coordinator.getWaitingForMemberId()).toBe('human-1');
+  });
+
+  it('routes coder output to the reviewer and approvals to the human', async () => {
+    const { coordinator, agentManager } = await createCoordinator(
+      { 'ai-1': 'Implemented', 'ai-2': 'LGTM' },
+      workflowRules
+    );
+
+    await coordinator.sendMessage('Build it [NEXT: coder]');
+
+    expect(agentManager.sentTo()).toEqual(['ai-1', 'ai-2']);
+    expect(coordinator.getStatus()).toBe('paused');
+    expect(coordinator.getWaitingForMemberId()).toBe('human-1');
+  });
+
+  it('lets explicit NEXT markers override fallback rules', async () => {
+    const { coordinator, agentManager } = await createCoordinator(
+      { 'ai-1': 'Implemented [NEXT: docs]', 'ai-3': 'Documented' },
+      workflowRules
+    );
+
+    await coordinator.sendMessage('Build it [NEXT: coder]');
+
+    expect(agentManager.sentTo()).toEqual(['ai-1', 'ai-3']);
+  });
+
+  it('adds always-mode targets on top of explicit NEXT markers', async () => {
+    const { coordinator, agentManager } = await createCoordinator(
+      { 'ai-1': 'Implemented [NEXT: docs]', 'ai-2': 'Reviewed', 'ai-3': 'Documented' },
+      [{ when: { fromMember: 'coder' }, routeTo: 'reviewer', mode: 'always' }]
+    );
+
+    await coordinator.sendMessage('Build it [NEXT: coder]');
+
+    expect(agentManager.sentTo()).toEqual(['ai-1', 'ai-3', 'ai-2']);
+  });
+});
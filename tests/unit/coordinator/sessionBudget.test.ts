@@ -0,0 +1,108 @@
+/**
+ * ConversationCoordinator Session Budget Tests
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ConversationCoordinator, type SessionBudgetExceededEvent } from '../../../src/services/ConversationCoordinator.js';
+import { MessageRouter } from '../../../src/services/MessageRouter.js';
+import { InMemorySessionStorage } from '../../../src/infrastructure/InMemorySessionStorage.js';
+import type { AgentManager } from '../../../src/services/AgentManager.js';
+import type { ConversationConfig } from '../../../src/models/CLIConfig.js';
+import { createAliceBobTeam, StubAgentManager } from './testUtils.js';
+
+function createCoordinator(conversationConfig: ConversationConfig, onSessionBudgetExceeded?: (e: SessionBudgetExceededEvent) => void) {
+  // alice and bob keep handing the turn to each other
+  const agentManager = new StubAgentManager({}, ({ roleId }) => ({
+    accumulatedText: roleId === 'ai-1' ? 'Your turn [NEXT: bob]' : 'Back to you [NEXT: alice]',
+    usage: { inputTokens: 80, outputTokens: 20 },
+  }));
+  const coordinator = new ConversationCoordinator(
+    agentManager as unknown as AgentManager,
+    new MessageRouter(),
+    {
+      sessionStorage: new InMemorySessionStorage(),
+      conversationConfig,
+      onSessionBudgetExceeded,
+    }
+  );
+  return { coordinator, agentManager };
+}
+
+describe('ConversationCoordinator session budget', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('pauses on the agent-turn budget and keeps the pending queue', async () => {
+    const onExceeded = vi.fn();
+    const { coordinator, agentManager } = createCoordinator({ maxAgentTurns: 3 }, onExceeded);
+    await coordinator.setTeam(createAliceBobTeam());
+
+    await coordinator.sendMessage('Start [NEXT: alice]');
+
+    expect(agentManager.sentTo()).toEqual(['ai-1', 'ai-2', 'ai-1']);
+    expect(coordinator.getStatus()).toBe('paused');
+    expect(coordinator.getWaitingForMemberId()).toBe('human-1');
+    expect((coordinator as any).routingQueueV3.size()).toBe(1);
+    expect(onExceeded).toHaveBeenCalledWith({
+      reason: 'agent_turns',
+      limit: 3,
+      actual: 3,
+      message: 'Agent turn budget exceeded (3 of 3 turns)',
+      pendingRoutes: 1,
+      waitingForMemberId: 'human-1',
+    });
+  });
+
+  it('resumes the kept queue after the budget is raised', async () => {
+    const onExceeded = vi.fn();
+    const { coordinator, agentManager } = createCoordinator({ maxAgentTurns: 1 }, onExceeded);
+    await coordinator.setTeam(createAliceBobTeam());
+
+    await coordinator.sendMessage('Start [NEXT: alice]');
+    expect(agentManager.sentTo()).toEqual(['ai-1']);
+
+    coordinator.raiseSessionBudget({ maxAgentTurns: 3 });
+    await coordinator.resumeRouting();
+
+    // bob was still queued from alice's reply
+    expect(agentManager.sentTo()).toEqual(['ai-1', 'ai-2', 'ai-1']);
+    expect(onExceeded).toHaveBeenCalledTimes(2);
+    expect(coordinator.getSessionBudgetLimits()).toEqual({ maxAgentTurns: 3 });
+  });
+
+  it('pauses on the token budget', async () => {
+    const onExceeded = vi.fn();
+    const { coordinator, agentManager } = createCoordinator({ maxTotalTokens: 250 }, onExceeded);
+    await coordinator.setTeam(createAliceBobTeam());
+
+    await coordinator.sendMessage('Start [NEXT: alice]');
+
+    expect(agentManager.sentTo()).toHaveLength(3);
+    expect(onExceeded.mock.calls[0][0]).toMatchObject({ reason: 'tokens', limit: 250, actual: 300 });
+  });
+
+  it('pauses on the wall-clock budget', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const onExceeded = vi.fn();
+    const { coordinator, agentManager } = createCoordinator({ maxSessionDuration: 60_000 }, onExceeded);
+    const original = agentManager.sendAndReceive.bind(agentManager);
+    agentManager.sendAndReceive = async (roleId, message, options) => {
+      vi.advanceTimersByTime(40_000);
+      return original(roleId, message, options);
+    };
+    await coordinator.setTeam(createAliceBobTeam());
+
+    await coordinator.sendMessage('Start [NEXT: alice]');
+
+    expect(agentManager.sentTo()).toEqual(['ai-1', 'ai-2']);
+    expect(onExceeded.mock.calls[0][0]).toMatchObject({ reason: 'wall_clock', limit: 60_000, actual: 80_000 });
+  });
+
+  it('does nothing on resumeRouting when the queue is empty', async () => {
+    const { coordinator } = createCoordinator({});
+    await coordinator.setTeam(createAliceBobTeam());
+    await coordinator.resumeRouting();
+    expect(coordinator.getStatus()).toBe('active');
+  });
+});
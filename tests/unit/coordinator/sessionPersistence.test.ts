@@ -162,6 +162,26 @@ describe('ConversationCoordinator Session Persistence', () => {
       // No team set, no session
       await expect(coordinator.saveCurrentSession()).resolves.not.toThrow();
     });
+
+    it('should persist routing lineage (parentMessageId, intent) and restore it', async () => {
+      const { coordinator, agentManager } = createTestCoordinator({ sessionStorage: storage });
+      (agentManager as any).sendAndReceive = async () => ({ success: true, finishReason: 'done', accumulatedText: 'Checked' });
+      await coordinator.setTeam(team);
+      await coordinator.sendMessage('Please check [NEXT: ai-member]', 'human-1');
+      await coordinator.saveCurrentSession();
+
+      const sessionId = coordinator.getSession()!.id;
+      const snapshot = await storage.loadSession(team.id, sessionId);
+      const [humanMessage, aiMessage] = snapshot!.context.messages;
+      expect(aiMessage.routing).toMatchObject({
+        parentMessageId: humanMessage.id,
+        intent: 'P2_REPLY',
+      });
+
+      const restored = createTestCoordinator({ sessionStorage: storage }).coordinator;
+      await restored.setTeam(team, { resumeSessionId: sessionId });
+      expect(restored.getSession()!.messages[1].routing?.parentMessageId).toBe(humanMessage.id);
+    });
   });
 
   describe('member consistency warning', () => {
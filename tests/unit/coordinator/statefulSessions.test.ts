@@ -0,0 +1,107 @@
+/**
+ * ConversationCoordinator Stateful Agent Tests
+ *
+ * Agents that keep a live session receive only new messages and are not stopped
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConversationCoordinator } from '../../../src/services/ConversationCoordinator.js';
+import { MessageRouter } from '../../../src/services/MessageRouter.js';
+import { InMemorySessionStorage } from '../../../src/infrastructure/InMemorySessionStorage.js';
+import type { AgentManager, SendOptions } from '../../../src/services/AgentManager.js';
+import { buildTeam, createMember, StubAgentManager } from './testUtils.js';
+
+/**
+ * Agent stub emulating a stateful adapter: the session stays alive until stopped
+ */
+class LiveSessionAgentManager extends StubAgentManager {
+  private live = new Set<string>();
+
+  constructor() {
+    super({}, (_call, callNumber) => ({ accumulatedText: `Reply ${callNumber}`, sessionRetained: true }));
+  }
+
+  async sendAndReceive(roleId: string, message: string, options?: SendOptions) {
+    this.live.add(roleId);
+    return super.sendAndReceive(roleId, message, options);
+  }
+
+  hasLiveSession(roleId: string): boolean {
+    return this.live.has(roleId);
+  }
+
+  /** Simulate the process exiting while idle */
+  dropSession(roleId: string): void {
+    this.live.delete(roleId);
+  }
+
+  async stopAgent(roleId: string): Promise<void> {
+    await super.stopAgent(roleId);
+    this.live.delete(roleId);
+  }
+}
+
+function createTeam() {
+  return buildTeam([
+    createMember({ id: 'human-1', name: 'human', displayName: 'Human', type: 'human', order: 0 }),
+    createMember({
+      id: 'ai-1',
+      name: 'coder',
+      displayName: 'Coder',
+      type: 'ai',
+      order: 1,
+      agentType: 'claude',
+      systemInstruction: 'You write code.'
+    }),
+  ]);
+}
+
+async function createCoordinator() {
+  const agentManager = new LiveSessionAgentManager();
+  const coordinator = new ConversationCoordinator(
+    agentManager as unknown as AgentManager,
+    new MessageRouter(),
+    { sessionStorage: new InMemorySessionStorage() }
+  );
+  await coordinator.setTeam(createTeam());
+  return { coordinator, agentManager };
+}
+
+describe('ConversationCoordinator stateful agents', () => {
+  it('sends only new messages to a live session and keeps it running', async () => {
+    const { coordinator, agentManager } = await createCoordinator();
+
+    await coordinator.sendMessage('Implement the parser [NEXT: coder]');
+    await coordinator.sendMessage('Now add tests [NEXT: coder]');
+
+    const [first, second] = agentManager.sendCalls;
+    expect(first.message).toContain('Implement the parser');
+    expect(first.options?.systemFlag).toContain('You write code.');
+
+    expect(second.message).toContain('Now add tests');
+    expect(second.message).not.toContain('Implement the parser');
+    expect(second.message).not.toContain('Reply 1');
+    expect(second.options?.systemFlag).toBeUndefined();
+    expect(agentManager.stopCalls).toEqual([]);
+  });
+
+  it('falls back to the full context when the session is gone', async () => {
+    const { coordinator, agentManager } = await createCoordinator();
+
+    await coordinator.sendMessage('Implement the parser [NEXT: coder]');
+    agentManager.dropSession('ai-1');
+    await coordinator.sendMessage('Now add tests [NEXT: coder]');
+
+    expect(agentManager.sendCalls[1].message).toContain('Implement the parser');
+    expect(agentManager.sendCalls[1].options?.systemFlag).toContain('You write code.');
+  });
+
+  it('stops live sessions when the team is replaced', async () => {
+    const { coordinator, agentManager } = await createCoordinator();
+
+    await coordinator.sendMessage('Implement the parser [NEXT: coder]');
+    await coordinator.setTeam(createTeam());
+
+    expect(agentManager.stopCalls).toEqual(['ai-1']);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * ConversationCoordinator Team Instructions Tests
+ *
+ * team.instructionFile is rendered as [TEAM_INSTRUCTIONS] in every prompt and
+ * re-read when the file changes
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConversationCoordinator } from '../../../src/services/ConversationCoordinator.js';
+import { MessageRouter } from '../../../src/services/MessageRouter.js';
+import type { AgentManager } from '../../../src/services/AgentManager.js';
+import { buildTeam, createMember, StubAgentManager } from './testUtils.js';
+
+describe('ConversationCoordinator team instructions', () => {
+  let tempDir: string;
+  let instructionFile: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'team-instructions-'));
+    instructionFile = path.join(tempDir, 'TEAM.md');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function createCoordinator() {
+    const agentManager = new StubAgentManager({}, () => 'Done [NEXT: human]');
+    const coordinator = new ConversationCoordinator(
+      agentManager as unknown as AgentManager,
+      new MessageRouter()
+    );
+    await coordinator.setTeam({
+      ...buildTeam([
+        createMember({ id: 'human-1', name: 'human', displayName: 'Human', type: 'human', order: 0 }),
+        createMember({
+          id: 'ai-1', name: 'coder', displayName: 'Coder', type: 'ai', order: 1, agentType: 'claude-code',
+          systemInstruction: 'You own the API.',
+        }),
+      ]),
+      instructionFile,
+    });
+    return { coordinator, agentManager };
+  }
+
+  it('renders the team instructions ahead of the member instructions', async () => {
+    fs.writeFileSync(instructionFile, 'Run the tests before handing off.');
+    const { coordinator, agentManager } = await createCoordinator();
+
+    await coordinator.sendMessage('Add rate limiting [NEXT: coder]');
+
+    const prompt = agentManager.prompts['ai-1'][0];
+    expect(prompt).toMatch(/\[TEAM_INSTRUCTIONS\]\n.*\nRun the tests before handing off\.\n\n\[SYSTEM\]\nYou own the API\./);
+  });
+
+  it('picks up edits to the instruction file on the next prompt', async () => {
+    fs.writeFileSync(instructionFile, 'Run the tests before handing off.');
+    fs.utimesSync(instructionFile, 1_000, 1_000);
+    const { coordinator, agentManager } = await createCoordinator();
+
+    await coordinator.sendMessage('Add rate limiting [NEXT: coder]');
+    fs.writeFileSync(instructionFile, 'Run the tests and the linter before handing off.');
+    fs.utimesSync(instructionFile, 2_000, 2_000);
+    await coordinator.sendMessage('Now add caching [NEXT: coder]');
+
+    expect(agentManager.prompts['ai-1'][0]).toContain('Run the tests before handing off.');
+    expect(agentManager.prompts['ai-1'][1]).toContain('Run the tests and the linter before handing off.');
+  });
+
+  it('omits the section while the instruction file is missing', async () => {
+    const { coordinator, agentManager } = await createCoordinator();
+
+    await coordinator.sendMessage('Add rate limiting [NEXT: coder]');
+
+    expect(agentManager.prompts['ai-1'][0]).not.toContain('[TEAM_INSTRUCTIONS]');
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * ConversationCoordinator Team Reload Tests
+ *
+ * reloadTeam() applies member additions/removals/updates to a live
+ * conversation: the session is kept, queued routes to removed members are
+ * purged and a system message records the reload
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ConversationCoordinator, type ConversationCoordinatorOptions } from '../../../src/services/ConversationCoordinator.js';
+import { MessageRouter } from '../../../src/services/MessageRouter.js';
+import { InMemorySessionStorage } from '../../../src/infrastructure/InMemorySessionStorage.js';
+import type { AgentManager } from '../../../src/services/AgentManager.js';
+import type { Team } from '../../../src/models/Team.js';
+import { buildTeam, createMember, DeferredAgentManager, flush } from './testUtils.js';
+
+const human = createMember({ id: 'human-1', name: 'lead', displayName: 'Lead', type: 'human', order: 0 });
+const coder = createMember({ id: 'ai-1', name: 'coder', displayName: 'Coder', type: 'ai', order: 1, systemInstruction: 'Write code.' });
+const reviewer = createMember({ id: 'ai-2', name: 'reviewer', displayName: 'Reviewer', type: 'ai', order: 2 });
+
+async function createCoordinator(options: ConversationCoordinatorOptions = {}) {
+  const agentManager = new DeferredAgentManager();
+  const coordinator = new ConversationCoordinator(
+    agentManager as unknown as AgentManager,
+    new MessageRouter(),
+    { sessionStorage: new InMemorySessionStorage(), ...options }
+  );
+  await coordinator.setTeam(buildTeam([human, coder, reviewer]));
+  return { coordinator, agentManager };
+}
+
+describe('ConversationCoordinator.reloadTeam', () => {
+  it('keeps the session, purges routes to removed members and records the reload', async () => {
+    const { coordinator, agentManager } = await createCoordinator();
+    const tester = createMember({ id: 'ai-3', name: 'tester', displayName: 'Tester', type: 'ai', order: 2 });
+
+    const sending = coordinator.sendMessage('Build the cache [NEXT: coder, reviewer]');
+    await flush();
+    const sessionId = coordinator.getSession()!.id;
+
+    const result = await coordinator.reloadTeam(buildTeam([human, coder, tester]));
+
+    expect(result).toEqual({ added: ['tester'], removed: ['reviewer'], updated: [], purgedRoutes: 1 });
+    expect(agentManager.stopCalls).toEqual(['ai-2']);
+    expect(coordinator.getSession()!.id).toBe(sessionId);
+    const messages = coordinator.getSession()!.messages;
+    expect(messages.map(m => m.speaker.id)).toEqual(['human-1', 'system']);
+    expect(messages[1].content).toBe('Team configuration reloaded: added tester; removed reviewer');
+
+    agentManager.release('ai-1', 'Cache done [NEXT: tester]');
+    await flush();
+    agentManager.release('ai-3', 'Tests pass [NEXT: lead]');
+    await sending;
+
+    expect(agentManager.prompts['ai-2']).toBeUndefined();
+    expect(agentManager.prompts['ai-3'][0]).toContain('Team configuration reloaded');
+  });
+
+  it('restarts updated members with their new configuration', async () => {
+    const { coordinator, agentManager } = await createCoordinator();
+
+    const sending = coordinator.sendMessage('Build the cache [NEXT: coder]');
+    await flush();
+    agentManager.release('ai-1', 'Done [NEXT: lead]');
+    await sending;
+    agentManager.stopCalls = [];
+
+    const result = await coordinator.reloadTeam(buildTeam([
+      human,
+      { ...coder, systemInstruction: 'Write code with tests.' },
+      reviewer,
+    ]));
+    expect(result.updated).toEqual(['coder']);
+    expect(agentManager.stopCalls).toEqual(['ai-1']);
+
+    const next = coordinator.sendMessage('Add eviction [NEXT: coder]');
+    await flush();
+    expect(agentManager.prompts['ai-1'][1]).toContain('Write code with tests.');
+    agentManager.release('ai-1', 'Done [NEXT: lead]');
+    await next;
+  });
+
+  it('refuses to remove or update a member while it is executing', async () => {
+    const { coordinator, agentManager } = await createCoordinator();
+
+    const sending = coordinator.sendMessage('Build the cache [NEXT: coder]');
+    await flush();
+
+    await expect(coordinator.reloadTeam(buildTeam([human, reviewer])))
+      .rejects.toThrow('Cannot reload the team while coder is executing');
+    expect(coordinator.getSession()!.messages).toHaveLength(1);
+
+    agentManager.release('ai-1', 'Done [NEXT: lead]');
+    await sending;
+  });
+
+  it('applies new conversation settings', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const { coordinator } = await createCoordinator({
+      logger,
+      conversationConfig: { maxAgentTurns: 5, maxTotalTokens: 1000 },
+    });
+
+    await coordinator.reloadTeam(buildTeam([human, coder, reviewer]), {
+      conversationConfig: { maxAgentTurns: 10, summarizerMember: 'ghost' },
+    });
+
+    expect(coordinator.getSessionBudgetLimits()).toEqual({
+      maxSessionDuration: 0,
+      maxAgentTurns: 10,
+      maxTotalTokens: 0,
+      maxTotalCostUsd: 0,
+    });
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("summarizerMember 'ghost'"));
+  });
+
+  it('rejects a different team', async () => {
+    const { coordinator } = await createCoordinator();
+    const otherTeam: Team = { ...buildTeam([human, coder]), id: 'team-other' };
+
+    await expect(coordinator.reloadTeam(otherTeam)).rejects.toThrow('Cannot reload team team-test with team team-other');
+  });
+});
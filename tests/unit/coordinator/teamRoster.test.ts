@@ -0,0 +1,77 @@
+/**
+ * ConversationCoordinator Team Roster Tests
+ *
+ * Every agent prompt lists the addressable members, their roles and the
+ * routing marker syntax in a [TEAM] section unless team.roster disables it
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConversationCoordinator } from '../../../src/services/ConversationCoordinator.js';
+import { MessageRouter } from '../../../src/services/MessageRouter.js';
+import type { AgentManager } from '../../../src/services/AgentManager.js';
+import type { Team } from '../../../src/models/Team.js';
+import { buildTeam, createMember, StubAgentManager } from './testUtils.js';
+
+async function createCoordinator(roster?: Team['roster'], membership?: Team['membership']) {
+  const agentManager = new StubAgentManager({}, () => 'Done [NEXT: human]');
+  const coordinator = new ConversationCoordinator(
+    agentManager as unknown as AgentManager,
+    new MessageRouter()
+  );
+  await coordinator.setTeam({
+    ...buildTeam([
+      createMember({ id: 'human-1', name: 'human', displayName: 'Human', type: 'human', role: 'lead', order: 0 }),
+      createMember({ id: 'ai-1', name: 'coder', displayName: 'Coder', type: 'ai', role: 'developer', order: 1, agentType: 'claude-code' }),
+      createMember({ id: 'ai-2', name: 'sec', displayName: 'Sec', type: 'ai', role: 'security', displayRole: 'AppSec', order: 2, agentType: 'claude-code' }),
+    ]),
+    roleDefinitions: [
+      { name: 'developer', displayName: 'Developer', description: 'Writes the code' },
+      { name: 'security', displayName: 'Security Reviewer', description: 'Reviews auth changes' },
+    ],
+    roster,
+    membership,
+  });
+  return { coordinator, agentManager };
+}
+
+describe('ConversationCoordinator team roster', () => {
+  it('lists members with their roles and the marker syntax in every prompt', async () => {
+    const { coordinator, agentManager } = await createCoordinator();
+
+    await coordinator.sendMessage('Add rate limiting [NEXT: coder]');
+
+    const prompt = agentManager.prompts['ai-1'][0];
+    expect(prompt).toContain([
+      '[TEAM]',
+      'Team: Test Team',
+      'Members (use these names in routing markers):',
+      '- human (Human) - lead, human',
+      '- coder (Coder) - Developer, ai - you: Writes the code',
+      '- sec (Sec) - AppSec, ai: Reviews auth changes',
+      'Routing markers:',
+    ].join('\n'));
+    expect(prompt).toContain('[DROP: name]');
+  });
+
+  it('omits the marker syntax or the whole section per team config', async () => {
+    const compact = await createCoordinator({ markerSyntax: false });
+    await compact.coordinator.sendMessage('Add rate limiting [NEXT: coder]');
+    expect(compact.agentManager.prompts['ai-1'][0]).toContain('[TEAM]');
+    expect(compact.agentManager.prompts['ai-1'][0]).not.toContain('Routing markers:');
+
+    const disabled = await createCoordinator({ enabled: false });
+    await disabled.coordinator.sendMessage('Add rate limiting [NEXT: coder]');
+    expect(disabled.agentManager.prompts['ai-1'][0]).not.toContain('[TEAM]');
+  });
+
+  it('explains INVITE/DISMISS only to team.membership.leads', async () => {
+    const { coordinator, agentManager } = await createCoordinator(undefined, { leads: ['sec'] });
+
+    await coordinator.sendMessage('Add rate limiting [NEXT: coder]');
+    await coordinator.sendMessage('Review it [NEXT: sec]');
+
+    expect(agentManager.prompts['ai-1'][0]).not.toContain('[INVITE:');
+    expect(agentManager.prompts['ai-2'][0]).toContain('- [INVITE: name as role using agent] add a teammate');
+    expect(agentManager.prompts['ai-2'][0]).toContain('- [DISMISS: name] remove a teammate');
+  });
+});
@@ -5,7 +5,8 @@
 
 import { vi } from 'vitest';
 import type { Team, Role } from '../../../src/models/Team.js';
-import type { AgentManager } from '../../../src/services/AgentManager.js';
+import type { AgentManager, SendOptions } from '../../../src/services/AgentManager.js';
+import type { UsageDelta } from '../../../src/models/UsageStats.js';
 
 // Mock heavy dependencies - must be called before importing ConversationCoordinator
 export function setupMocks() {
@@ -50,17 +51,79 @@ export function buildTeam(members: Role[]): Team {
   };
 }
 
+/**
+ * Three-member team: human (human-1), alice (ai-1) and bob (ai-2)
+ */
+export function aliceBobMembers(): Role[] {
+  return [
+    createMember({ id: 'human-1', name: 'human', displayName: 'Human', type: 'human', order: 0 }),
+    createMember({ id: 'ai-1', name: 'alice', displayName: 'Alice', type: 'ai', order: 1 }),
+    createMember({ id: 'ai-2', name: 'bob', displayName: 'Bob', type: 'ai', order: 2 }),
+  ];
+}
+
+export function createAliceBobTeam(): Team {
+  return buildTeam(aliceBobMembers());
+}
+
+/**
+ * Let pending promise chains (routing, parallel branches) settle
+ */
+export async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+export interface StubAgentReply {
+  success: boolean;
+  finishReason?: string;
+  accumulatedText?: string;
+  usage?: UsageDelta;
+  sessionRetained?: boolean;
+  nativeSessionId?: string;
+}
+
+/**
+ * Scripted reply: a string is the reply text of a successful turn
+ */
+export type StubReply = string | Partial<StubAgentReply>;
+
+export interface StubSendCall {
+  roleId: string;
+  message: string;
+  options?: SendOptions;
+}
+
+/**
+ * Reply for turns without a queued response (callNumber counts all turns, from 1)
+ */
+export type StubReplyScript = (call: StubSendCall, callNumber: number) => StubReply;
+
 export class StubAgentManager {
   public startCalls: Array<{ roleId: string; configId: string }> = [];
-  public sendCalls: Array<{ roleId: string; message: string }> = [];
+  public sendCalls: StubSendCall[] = [];
+  public prompts: Record<string, string[]> = {};
+  public stopCalls: string[] = [];
   public cancelCalls: string[] = [];
-  private responses: Record<string, { success: boolean; finishReason?: string }[]> = {};
+  private responses: Record<string, StubReply[]> = {};
   private shouldRejectWithCancellation: Record<string, boolean> = {};
 
-  constructor(responseMap: Record<string, { success: boolean; finishReason?: string }[]> = {}) {
+  /**
+   * @param responseMap - Replies per member, consumed in order
+   * @param defaultReply - Reply once a member's queue is empty (default: done without text)
+   */
+  constructor(responseMap: Record<string, StubReply[]> = {}, private defaultReply?: StubReplyScript) {
     this.responses = responseMap;
   }
 
+  /**
+   * Member IDs in the order their turns were sent
+   */
+  sentTo(): string[] {
+    return this.sendCalls.map(call => call.roleId);
+  }
+
   setShouldRejectWithCancellation(roleId: string, shouldReject: boolean) {
     this.shouldRejectWithCancellation[roleId] = shouldReject;
   }
@@ -70,21 +133,28 @@ export class StubAgentManager {
     return `process-${roleId}`;
   }
 
-  async sendAndReceive(roleId: string, message: string): Promise<{ success: boolean; finishReason?: string }> {
-    this.sendCalls.push({ roleId, message });
+  async sendAndReceive(roleId: string, message: string, options?: SendOptions): Promise<StubAgentReply> {
+    const call: StubSendCall = { roleId, message, options };
+    this.sendCalls.push(call);
+    (this.prompts[roleId] ??= []).push(message);
 
     if (this.shouldRejectWithCancellation[roleId]) {
       throw new Error('[CANCELLED_BY_USER]');
     }
 
-    const queue = this.responses[roleId] ?? [];
-    if (queue.length === 0) {
+    const queued = this.responses[roleId]?.shift();
+    const reply = queued ?? this.defaultReply?.(call, this.sendCalls.length);
+    if (reply === undefined) {
       return { success: true, finishReason: 'done' };
     }
-    return queue.shift()!;
+    return typeof reply === 'string'
+      ? { success: true, finishReason: 'done', accumulatedText: reply }
+      : { success: true, finishReason: 'done', ...reply };
   }
 
-  async stopAgent(): Promise<void> {}
+  async stopAgent(roleId: string): Promise<void> {
+    this.stopCalls.push(roleId);
+  }
 
   cancelAgent(roleId: string): void {
     this.cancelCalls.push(roleId);
@@ -93,6 +163,44 @@ export class StubAgentManager {
   cleanup(): void {}
 }
 
+interface PendingTurn {
+  roleId: string;
+  prompt: string;
+  resolve: (text: string) => void;
+}
+
+/**
+ * Agent stub that holds every turn open until the test releases (or cancels) it
+ */
+export class DeferredAgentManager extends StubAgentManager {
+  public pending: PendingTurn[] = [];
+  private rejecters = new Map<string, (error: Error) => void>();
+
+  sendAndReceive(roleId: string, message: string, options?: SendOptions): Promise<StubAgentReply> {
+    this.sendCalls.push({ roleId, message, options });
+    (this.prompts[roleId] ??= []).push(message);
+    return new Promise((resolve, reject) => {
+      this.pending.push({
+        roleId,
+        prompt: message,
+        resolve: (text: string) => resolve({ success: true, finishReason: 'done', accumulatedText: text }),
+      });
+      this.rejecters.set(roleId, reject);
+    });
+  }
+
+  release(roleId: string, text: string): void {
+    const index = this.pending.findIndex(p => p.roleId === roleId);
+    const [turn] = this.pending.splice(index, 1);
+    turn.resolve(text);
+  }
+
+  cancelAgent(roleId: string): void {
+    super.cancelAgent(roleId);
+    this.rejecters.get(roleId)?.(new Error('[CANCELLED_BY_USER]'));
+  }
+}
+
 export function createStubAsAgentManager(stub: StubAgentManager): AgentManager {
   return stub as unknown as AgentManager;
 }
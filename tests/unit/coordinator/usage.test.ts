@@ -0,0 +1,75 @@
+/**
+ * ConversationCoordinator Usage Accounting Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConversationCoordinator } from '../../../src/services/ConversationCoordinator.js';
+import { MessageRouter } from '../../../src/services/MessageRouter.js';
+import { InMemorySessionStorage } from '../../../src/infrastructure/InMemorySessionStorage.js';
+import type { AgentManager } from '../../../src/services/AgentManager.js';
+import type { UsageDelta } from '../../../src/models/UsageStats.js';
+import { createAliceBobTeam, StubAgentManager } from './testUtils.js';
+
+function createCoordinator(storage = new InMemorySessionStorage()) {
+  const usage: Record<string, UsageDelta | undefined> = {
+    'ai-1': { inputTokens: 100, outputTokens: 10, cachedInputTokens: 40, costUsd: 0.01 },
+    'ai-2': { inputTokens: 50, outputTokens: 5 },
+  };
+  const agentManager = new StubAgentManager({}, ({ roleId }) => ({ accumulatedText: 'ok', usage: usage[roleId] }));
+  const coordinator = new ConversationCoordinator(
+    agentManager as unknown as AgentManager,
+    new MessageRouter(),
+    { sessionStorage: storage }
+  );
+  return { coordinator, storage };
+}
+
+describe('ConversationCoordinator usage accounting', () => {
+  it('aggregates usage per member and for the session', async () => {
+    const { coordinator } = createCoordinator();
+    await coordinator.setTeam(createAliceBobTeam());
+
+    await coordinator.sendMessage('Review [NEXT: alice, bob]');
+    await coordinator.sendMessage('Again [NEXT: alice]');
+
+    const usage = coordinator.getUsageStats();
+    expect(usage.byMember['ai-1']).toEqual({
+      inputTokens: 200,
+      outputTokens: 20,
+      cachedInputTokens: 80,
+      totalTokens: 220,
+      costUsd: 0.02,
+      turns: 2,
+    });
+    expect(usage.byMember['ai-2']).toMatchObject({ inputTokens: 50, outputTokens: 5, totalTokens: 55, turns: 1 });
+    expect(usage.total).toMatchObject({ inputTokens: 250, outputTokens: 25, totalTokens: 275, turns: 3 });
+  });
+
+  it('returns empty stats before any usage is reported', async () => {
+    const { coordinator } = createCoordinator();
+    await coordinator.setTeam(createAliceBobTeam());
+
+    expect(coordinator.getUsageStats()).toEqual({
+      total: { inputTokens: 0, outputTokens: 0, cachedInputTokens: 0, totalTokens: 0, costUsd: 0, turns: 0 },
+      byMember: {},
+    });
+  });
+
+  it('persists usage in the snapshot and restores it on resume', async () => {
+    const storage = new InMemorySessionStorage();
+    const first = createCoordinator(storage);
+    await first.coordinator.setTeam(createAliceBobTeam());
+    await first.coordinator.sendMessage('Review [NEXT: bob]');
+    await first.coordinator.saveCurrentSession();
+
+    const sessionId = first.coordinator.getSession()!.id;
+    const snapshot = await storage.loadSession('team-test', sessionId);
+    expect(snapshot?.metadata.usage?.byMember['ai-2'].totalTokens).toBe(55);
+
+    const second = createCoordinator(storage);
+    await second.coordinator.setTeam(createAliceBobTeam(), { resumeSessionId: sessionId });
+    await second.coordinator.sendMessage('More [NEXT: bob]');
+
+    expect(second.coordinator.getUsageStats().byMember['ai-2']).toMatchObject({ totalTokens: 110, turns: 2 });
+  });
+});
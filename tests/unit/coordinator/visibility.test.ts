@@ -0,0 +1,84 @@
+/**
+ * ConversationCoordinator Context Visibility Tests
+ *
+ * team.visibilityRules and [WHISPER: ...] markers scope what each agent sees
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConversationCoordinator } from '../../../src/services/ConversationCoordinator.js';
+import { MessageRouter } from '../../../src/services/MessageRouter.js';
+import { InMemorySessionStorage } from '../../../src/infrastructure/InMemorySessionStorage.js';
+import type { AgentManager } from '../../../src/services/AgentManager.js';
+import type { VisibilityRule } from '../../../src/models/VisibilityRule.js';
+import { buildTeam, createMember, StubAgentManager } from './testUtils.js';
+
+const replies: Record<string, string> = {
+  'ai-1': 'Plan: rotate tokens daily [NEXT: coder]',
+  'ai-2': 'Implemented auth [NEXT: security-reviewer]',
+  'ai-3': 'Looks safe [NEXT: human]',
+};
+
+const createTeam = (visibilityRules?: VisibilityRule[]) => {
+  const team = buildTeam([
+    createMember({ id: 'human-1', name: 'human', displayName: 'Human', type: 'human', role: 'lead', order: 0 }),
+    createMember({ id: 'ai-1', name: 'planner', displayName: 'Planner', type: 'ai', role: 'planner', order: 1 }),
+    createMember({ id: 'ai-2', name: 'coder', displayName: 'Coder', type: 'ai', role: 'coder', order: 2 }),
+    createMember({ id: 'ai-3', name: 'security-reviewer', displayName: 'Security', type: 'ai', role: 'reviewer', order: 3 }),
+  ]);
+  team.visibilityRules = visibilityRules;
+  return team;
+};
+
+async function createCoordinator(storage = new InMemorySessionStorage(), visibilityRules?: VisibilityRule[]) {
+  const agentManager = new StubAgentManager({}, ({ roleId }) => replies[roleId] ?? 'ok');
+  const coordinator = new ConversationCoordinator(
+    agentManager as unknown as AgentManager,
+    new MessageRouter(),
+    { sessionStorage: storage }
+  );
+  await coordinator.setTeam(createTeam(visibilityRules));
+  return { coordinator, agentManager };
+}
+
+describe('ConversationCoordinator context visibility', () => {
+  it('scopes a member to messages addressed to it or from selected speakers', async () => {
+    const { coordinator, agentManager } = await createCoordinator(undefined, [
+      { appliesTo: 'security-reviewer', visibleWhen: [{ addressedToSelf: true }, { fromMember: 'coder' }] },
+    ]);
+
+    await coordinator.sendMessage('Draft an auth plan [NEXT: planner]');
+
+    const [coderPrompt] = agentManager.prompts['ai-2'];
+    expect(coderPrompt).toContain('Draft an auth plan');
+
+    const [reviewerPrompt] = agentManager.prompts['ai-3'];
+    expect(reviewerPrompt).toContain('Implemented auth');
+    expect(reviewerPrompt).not.toContain('Draft an auth plan');
+    expect(reviewerPrompt).not.toContain('rotate tokens');
+  });
+
+  it('shows whispered messages only to the listed members, also after resume', async () => {
+    const storage = new InMemorySessionStorage();
+    const { coordinator, agentManager } = await createCoordinator(storage);
+
+    await coordinator.sendMessage('The budget is tight [WHISPER: coder]');
+    await coordinator.sendMessage('Build the login flow [NEXT: planner]');
+
+    expect(agentManager.prompts['ai-1'][0]).not.toContain('budget');
+    expect(agentManager.prompts['ai-2'][0]).toContain('The budget is tight');
+    expect(agentManager.prompts['ai-3'][0]).not.toContain('budget');
+
+    await coordinator.saveCurrentSession();
+    const session = coordinator.getSession()!;
+    const snapshot = await storage.loadSession('team-test', session.id);
+    expect(snapshot?.context.messages[0].routing?.visibleTo).toEqual(['ai-2']);
+
+    const resumed = await createCoordinator(storage);
+    await resumed.coordinator.setTeam(createTeam(), { resumeSessionId: session.id });
+    await resumed.coordinator.sendMessage('Add rate limiting [NEXT: planner]');
+
+    expect(resumed.agentManager.prompts['ai-1'][0]).toContain('Build the login flow');
+    expect(resumed.agentManager.prompts['ai-1'][0]).not.toContain('budget');
+    expect(resumed.agentManager.prompts['ai-2'][0]).toContain('The budget is tight');
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * ConversationCoordinator Workspace Tests
+ *
+ * getWorkspaceDiff() / mergeWorkspace() resolve members by name and delegate to the WorkspaceManager
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ConversationCoordinator } from '../../../src/services/ConversationCoordinator.js';
+import { MessageRouter } from '../../../src/services/MessageRouter.js';
+import type { AgentManager } from '../../../src/services/AgentManager.js';
+import type { WorkspaceManager } from '../../../src/services/WorkspaceManager.js';
+import { buildTeam, createMember, StubAgentManager } from './testUtils.js';
+
+function createWorkspaceManager() {
+  return {
+    getWorkspace: vi.fn((memberId: string) =>
+      memberId === 'ai-1' ? { memberId, path: '/worktrees/coder', branch: 'agent-chatter/coder' } : undefined
+    ),
+    diff: vi.fn(async (memberId: string) => ({ memberId, branch: 'agent-chatter/coder', files: ['cache.ts'], patch: '+ttl' })),
+    merge: vi.fn(async (memberId: string) => ({ memberId, branch: 'agent-chatter/coder', merged: true, conflicts: [] })),
+  };
+}
+
+async function createCoordinator(workspaceManager?: ReturnType<typeof createWorkspaceManager>) {
+  const coordinator = new ConversationCoordinator(
+    new StubAgentManager() as unknown as AgentManager,
+    new MessageRouter(),
+    { workspaceManager: workspaceManager as unknown as WorkspaceManager }
+  );
+  await coordinator.setTeam(buildTeam([
+    createMember({ id: 'human-1', name: 'human', displayName: 'Human', type: 'human', order: 0 }),
+    createMember({ id: 'ai-1', name: 'coder', displayName: 'Coder', type: 'ai', order: 1 }),
+    createMember({ id: 'ai-2', name: 'reviewer', displayName: 'Reviewer', type: 'ai', order: 2 }),
+  ]));
+  return coordinator;
+}
+
+describe('ConversationCoordinator workspaces', () => {
+  it('diffs and merges a member workspace by member name', async () => {
+    const workspaceManager = createWorkspaceManager();
+    const coordinator = await createCoordinator(workspaceManager);
+
+    await expect(coordinator.getWorkspaceDiff('coder')).resolves.toMatchObject({ files: ['cache.ts'] });
+    await expect(coordinator.mergeWorkspace('Coder', 'Add cache')).resolves.toMatchObject({ merged: true });
+
+    expect(workspaceManager.diff).toHaveBeenCalledWith('ai-1');
+    expect(workspaceManager.merge).toHaveBeenCalledWith('ai-1', 'Add cache');
+  });
+
+  it('rejects members without a workspace', async () => {
+    const coordinator = await createCoordinator(createWorkspaceManager());
+
+    await expect(coordinator.getWorkspaceDiff('reviewer')).rejects.toThrow('No workspace for member: reviewer');
+    await expect(coordinator.mergeWorkspace('nobody')).rejects.toThrow('No workspace for member: nobody');
+  });
+
+  it('rejects workspace operations when worktrees are not enabled', async () => {
+    const coordinator = await createCoordinator();
+
+    await expect(coordinator.getWorkspaceDiff('coder')).rejects.toThrow(/Workspaces are not enabled/);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { HandoffValidator } from '../../src/services/HandoffValidator.js';
+import { checkHandoffSchema } from '../../src/utils/handoffSchema.js';
+
+const reviewer = {
+  name: 'reviewer',
+  handoffSchema: {
+    type: 'object',
+    required: ['filesTouched', 'acceptanceCriteria'],
+    properties: {
+      filesTouched: { type: 'array', items: { type: 'string' } },
+      acceptanceCriteria: { type: 'array', items: { type: 'string' } },
+      openQuestions: { type: 'array', items: { type: 'string' } }
+    }
+  }
+};
+
+describe('HandoffValidator', () => {
+  it('accepts payloads matching the receiving role schema', () => {
+    const validator = new HandoffValidator([reviewer, { name: 'coder' }]);
+
+    expect(validator.hasSchema('reviewer')).toBe(true);
+    expect(validator.validate('reviewer', {
+      filesTouched: ['src/cache.ts'],
+      acceptanceCriteria: ['evicts after TTL']
+    })).toEqual([]);
+  });
+
+  it('lists every violation with its path', () => {
+    const validator = new HandoffValidator([reviewer]);
+
+    expect(validator.validate('reviewer', { filesTouched: 'src/cache.ts' })).toEqual([
+      "/ must have required property 'acceptanceCriteria'",
+      '/filesTouched must be array'
+    ]);
+  });
+
+  it('accepts any payload for roles without a schema', () => {
+    const validator = new HandoffValidator([reviewer, { name: 'coder' }]);
+
+    expect(validator.hasSchema('coder')).toBe(false);
+    expect(validator.validate('coder', { anything: true })).toEqual([]);
+    expect(validator.validate('unknown-role', {})).toEqual([]);
+  });
+
+  it('rejects invalid schemas', () => {
+    const broken = { name: 'qa', handoffSchema: { type: 'not-a-type' } };
+
+    expect(() => new HandoffValidator([broken])).toThrow(/Invalid handoffSchema for role "qa"/);
+    expect(checkHandoffSchema(broken)).toMatch(/Invalid handoffSchema for role "qa"/);
+    expect(checkHandoffSchema(reviewer)).toBeUndefined();
+  });
+});
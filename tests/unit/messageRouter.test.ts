@@ -257,4 +257,100 @@ describe('MessageRouter', () => {
       expect(result.dropTargets).toEqual([]);
     });
   });
+
+  describe('WHISPER parsing', () => {
+    it('parses whisper targets and strips the marker', () => {
+      const result = router.parseMessage('Found a secret [WHISPER: Sarah, Max] [NEXT: Max]');
+      expect(result.whisperTargets).toEqual(['Sarah', 'Max']);
+      expect(result.addressees).toEqual(['Max']);
+      expect(result.cleanContent).toBe('Found a secret');
+    });
+
+    it('returns empty array when no WHISPER marker', () => {
+      const result = router.parseMessage('Hello [NEXT: Max]');
+      expect(result.whisperTargets).toEqual([]);
+    });
+
+    it('strips WHISPER markers for context', () => {
+      expect(router.stripAllMarkersForContext('[FROM: Kai] Psst [WHISPER: Max]')).toBe('Psst');
+    });
+  });
+
+  describe('HANDOFF parsing', () => {
+    it('parses the JSON payload, routes to the receiver and strips marker and payload', () => {
+      const result = router.parseMessage(
+        'Implemented the cache.\n[HANDOFF: reviewer !P1] {"filesTouched": ["src/cache.ts"], "note": "braces } in \\"strings\\""}\nThanks'
+      );
+
+      expect(result.handoffs).toEqual([{
+        target: 'reviewer',
+        payload: { filesTouched: ['src/cache.ts'], note: 'braces } in "strings"' },
+        error: undefined,
+      }]);
+      expect(result.addressees).toEqual(['reviewer']);
+      expect(result.parsedAddressees).toEqual([{ name: 'reviewer', intent: 'P1' }]);
+      expect(result.cleanContent).toBe('Implemented the cache.\nThanks');
+    });
+
+    it('does not duplicate receivers already named in NEXT', () => {
+      const result = router.parseMessage('Done [NEXT: Reviewer] [HANDOFF: reviewer, qa]{"pr": 12}');
+
+      expect(result.addressees).toEqual(['Reviewer', 'qa']);
+      expect(result.handoffs.map(h => h.target)).toEqual(['reviewer', 'qa']);
+    });
+
+    it('reports missing and malformed payloads but still routes', () => {
+      const missing = router.parseMessage('Done [HANDOFF: reviewer] see above');
+      expect(missing.handoffs).toEqual([{ target: 'reviewer', payload: undefined, error: 'Missing JSON payload' }]);
+      expect(missing.addressees).toEqual(['reviewer']);
+      expect(missing.cleanContent).toBe('Done see above');
+
+      const malformed = router.parseMessage('Done [HANDOFF: reviewer]{files: 1}');
+      expect(malformed.handoffs[0].error).toMatch(/^Invalid JSON payload/);
+      expect(malformed.cleanContent).toBe('Done');
+
+      const unterminated = router.parseMessage('Done [HANDOFF: reviewer]{"files": [');
+      expect(unterminated.handoffs[0].error).toBe('Unterminated JSON payload');
+    });
+
+    it('returns empty array when no HANDOFF marker', () => {
+      expect(router.parseMessage('Hello [NEXT: Max]').handoffs).toEqual([]);
+    });
+
+    it('strips HANDOFF markers and payloads for context', () => {
+      expect(router.stripAllMarkersForContext('[FROM: Kai] Over to you [HANDOFF: Max]{"a": {"b": 1}}')).toBe('Over to you');
+    });
+  });
+
+  describe('INVITE / DISMISS parsing', () => {
+    it('parses invitations and dismissals and strips the markers', () => {
+      const result = router.parseMessage(
+        'Need help [INVITE: dba as database expert using claude, qa AS tester USING codex] [DISMISS: Max, Sarah!P1] [NEXT: dba]'
+      );
+
+      expect(result.invites).toEqual([
+        { name: 'dba', role: 'database expert', agentType: 'claude' },
+        { name: 'qa', role: 'tester', agentType: 'codex' },
+      ]);
+      expect(result.dismissTargets).toEqual(['Max', 'Sarah']);
+      expect(result.addressees).toEqual(['dba']);
+      expect(result.cleanContent).toBe('Need help');
+    });
+
+    it('skips malformed invitations', () => {
+      const result = router.parseMessage('[INVITE: dba using claude] [INVITE: qa as tester using codex] [INVITE: ]');
+      expect(result.invites).toEqual([{ name: 'qa', role: 'tester', agentType: 'codex' }]);
+      expect(result.cleanContent).toBe('');
+    });
+
+    it('returns empty arrays when no INVITE or DISMISS marker', () => {
+      const result = router.parseMessage('Hello [NEXT: Max]');
+      expect(result.invites).toEqual([]);
+      expect(result.dismissTargets).toEqual([]);
+    });
+
+    it('strips INVITE and DISMISS markers for context', () => {
+      expect(router.stripAllMarkersForContext('[FROM: Kai] Reshuffle [INVITE: dba as dba using claude] [DISMISS: Max]')).toBe('Reshuffle');
+    });
+  });
 });
@@ -0,0 +1,211 @@
+/**
+ * Replay Execution Environment Tests
+ *
+ * Recorded AgentEvent logs are fed back through the real AgentManager
+ * (and ConversationCoordinator) without spawning any agent CLI.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ReplayExecutionEnvironment,
+  groupRecordedTurns,
+  parseRecordedEvents
+} from '../../src/infrastructure/ReplayExecutionEnvironment.js';
+import { ReplayAdapterFactory } from '../../src/infrastructure/ReplayAdapterFactory.js';
+import { AgentManager } from '../../src/services/AgentManager.js';
+import type { AgentConfigManager } from '../../src/services/AgentConfigManager.js';
+import { ContextEventCollector } from '../../src/services/ContextEventCollector.js';
+import { ConversationCoordinator } from '../../src/services/ConversationCoordinator.js';
+import { MessageRouter } from '../../src/services/MessageRouter.js';
+import { InMemorySessionStorage } from '../../src/infrastructure/InMemorySessionStorage.js';
+import type { AgentEvent } from '../../src/events/AgentEvent.js';
+import type { TeamContext } from '../../src/models/Team.js';
+import type { ConversationMessage } from '../../src/models/ConversationMessage.js';
+import { buildTeam, createMember } from './coordinator/testUtils.js';
+
+const teamContext = (memberId: string): TeamContext => ({
+  teamName: 'team-test',
+  memberName: memberId,
+  memberDisplayName: memberId,
+  memberRole: 'reviewer'
+} as TeamContext);
+
+let seq = 0;
+function recorded(agentId: string, event: Record<string, unknown>): AgentEvent {
+  seq++;
+  return {
+    eventId: `evt-${seq}`,
+    agentId,
+    agentType: 'openai-codex',
+    timestamp: 1700000000000 + seq,
+    teamMetadata: teamContext(agentId),
+    ...event
+  } as AgentEvent;
+}
+
+function recordedTurn(agentId: string, text: string): AgentEvent[] {
+  return [
+    recorded(agentId, { type: 'session.started' }),
+    recorded(agentId, { type: 'text', text, category: 'message' }),
+    recorded(agentId, { type: 'usage', inputTokens: 10, outputTokens: 2 }),
+    recorded(agentId, { type: 'turn.completed', finishReason: 'done' })
+  ];
+}
+
+function createAgentManager(env: ReplayExecutionEnvironment) {
+  const configManager = {
+    getAgentConfig: async (id: string) => ({
+      id,
+      name: id,
+      type: 'openai-codex',
+      command: 'codex',
+      args: [],
+      createdAt: new Date(),
+      updatedAt: new Date()
+    })
+  };
+  return new AgentManager(env, new ReplayAdapterFactory(), configManager as unknown as AgentConfigManager);
+}
+
+describe('groupRecordedTurns', () => {
+  it('splits interleaved events into turns per member', () => {
+    const a = recordedTurn('ai-1', 'first');
+    const b = recordedTurn('ai-2', 'second');
+    const interleaved = [a[0], b[0], a[1], b[1], a[2], a[3], b[2], b[3]];
+
+    const turns = groupRecordedTurns(interleaved);
+
+    expect(turns.map(t => t.agentId)).toEqual(['ai-1', 'ai-2']);
+    expect(turns[0].events).toEqual(a);
+    expect(turns[1].events).toEqual(b);
+  });
+
+  it('turns synthetic process errors back into exit codes', () => {
+    const turns = groupRecordedTurns([
+      recorded('ai-1', { type: 'text', text: 'partial' }),
+      recorded('ai-1', {
+        type: 'error',
+        error: 'openai-codex process exited unexpectedly with code 2. stderr: boom',
+        code: 'PROCESS_EXIT'
+      }),
+      recorded('ai-1', {
+        type: 'error',
+        error: 'Failed to spawn openai-codex process: ENOENT',
+        code: 'PROCESS_SPAWN_ERROR'
+      })
+    ]);
+
+    expect(turns).toHaveLength(2);
+    expect(turns[0]).toMatchObject({ exitCode: 2, stderr: 'boom' });
+    expect(turns[0].events).toHaveLength(1);
+    expect(turns[1]).toMatchObject({ spawnError: 'ENOENT', events: [] });
+  });
+
+  it('skips unparseable lines when reading a log', () => {
+    const content = [JSON.stringify(recordedTurn('ai-1', 'x')[0]), '{"type":', ''].join('\n');
+    expect(parseRecordedEvents(content)).toHaveLength(1);
+  });
+});
+
+describe('ReplayExecutionEnvironment with AgentManager', () => {
+  it('replays recorded turns per member and re-emits identical events', async () => {
+    const events = [...recordedTurn('ai-1', 'hello'), ...recordedTurn('ai-2', 'world')];
+    const env = ReplayExecutionEnvironment.fromJsonl(events.map(e => JSON.stringify(e)).join('\n'));
+    const manager = createAgentManager(env);
+    const emitted: AgentEvent[] = [];
+    manager.getEventEmitter().on('agent-event', (ev: AgentEvent) => emitted.push(ev));
+
+    await manager.ensureAgentStarted('ai-2', 'cfg');
+    await manager.ensureAgentStarted('ai-1', 'cfg');
+
+    // Requested out of recorded order: turns are matched by member
+    const second = await manager.sendAndReceive('ai-2', 'prompt for ai-2', { teamContext: teamContext('ai-2') });
+    const first = await manager.sendAndReceive('ai-1', 'prompt for ai-1', { teamContext: teamContext('ai-1') });
+
+    expect(second).toMatchObject({ success: true, finishReason: 'done', accumulatedText: 'world' });
+    expect(first).toMatchObject({ accumulatedText: 'hello', usage: { inputTokens: 10, outputTokens: 2 } });
+    expect(emitted.map(e => JSON.stringify(e)).sort()).toEqual(events.map(e => JSON.stringify(e)).sort());
+    expect(env.getSpawnLog().map(s => [s.agentId, s.prompt])).toEqual([
+      ['ai-2', 'prompt for ai-2'],
+      ['ai-1', 'prompt for ai-1']
+    ]);
+    expect(env.getRemainingTurns()).toBe(0);
+  });
+
+  it('reproduces recorded crashes', async () => {
+    const env = new ReplayExecutionEnvironment([
+      recorded('ai-1', {
+        type: 'error',
+        error: 'openai-codex process exited unexpectedly with code 3. stderr: out of memory',
+        code: 'PROCESS_EXIT'
+      })
+    ]);
+    const manager = createAgentManager(env);
+    await manager.ensureAgentStarted('ai-1', 'cfg');
+
+    await expect(
+      manager.sendAndReceive('ai-1', 'go', { teamContext: teamContext('ai-1') })
+    ).rejects.toThrow('process exited unexpectedly with code 3. stderr: out of memory');
+  });
+
+  it('fails the turn when the log has no turn left for the member', async () => {
+    const env = new ReplayExecutionEnvironment(recordedTurn('ai-1', 'only'));
+    const manager = createAgentManager(env);
+    await manager.ensureAgentStarted('ai-2', 'cfg');
+
+    await expect(
+      manager.sendAndReceive('ai-2', 'go', { teamContext: teamContext('ai-2') })
+    ).rejects.toThrow("Replay log has no recorded turn left for 'ai-2'");
+    expect(env.getRemainingTurns('ai-1')).toBe(1);
+  });
+
+  it('cancels a replayed turn before it is played', async () => {
+    const env = new ReplayExecutionEnvironment(recordedTurn('ai-1', 'never seen'));
+    const manager = createAgentManager(env);
+    await manager.ensureAgentStarted('ai-1', 'cfg');
+
+    const pending = manager.sendAndReceive('ai-1', 'go', { teamContext: teamContext('ai-1') });
+    // Spawn happens after the config lookup; playback is deferred to the next macrotask
+    while (env.getSpawnLog().length === 0) {
+      await Promise.resolve();
+    }
+    manager.cancelAgent('ai-1');
+
+    await expect(pending).resolves.toMatchObject({ success: false, finishReason: 'cancelled', accumulatedText: '' });
+  });
+});
+
+describe('ReplayExecutionEnvironment with ConversationCoordinator', () => {
+  it('re-runs a recorded conversation offline', async () => {
+    const log = [
+      ...recordedTurn('ai-1', 'Looks fine to me [NEXT: bob]'),
+      ...recordedTurn('ai-2', 'Shipped')
+    ];
+    const env = new ReplayExecutionEnvironment(log);
+    const manager = createAgentManager(env);
+    const collector = new ContextEventCollector(manager.getEventEmitter(), { persist: false });
+    const messages: ConversationMessage[] = [];
+
+    const coordinator = new ConversationCoordinator(manager, new MessageRouter(), {
+      sessionStorage: new InMemorySessionStorage(),
+      onMessage: msg => messages.push(msg)
+    });
+    await coordinator.setTeam(buildTeam([
+      createMember({ id: 'human-1', name: 'human', displayName: 'Human', type: 'human', order: 0 }),
+      createMember({ id: 'ai-1', name: 'alice', displayName: 'Alice', type: 'ai', order: 1 }),
+      createMember({ id: 'ai-2', name: 'bob', displayName: 'Bob', type: 'ai', order: 2 })
+    ]));
+
+    await coordinator.sendMessage('Please review [NEXT: alice]');
+
+    expect(messages.map(m => [m.speaker.id, m.content])).toEqual([
+      ['human-1', 'Please review'],
+      ['ai-1', 'Looks fine to me'],
+      ['ai-2', 'Shipped']
+    ]);
+    expect(env.getSpawnLog().map(s => s.agentId)).toEqual(['ai-1', 'ai-2']);
+    expect(env.getSpawnLog()[1].prompt).toContain('Looks fine to me');
+    expect(collector.getRecentEvents(100).map(e => JSON.stringify(e))).toEqual(log.map(e => JSON.stringify(e)));
+    collector.dispose();
+  });
+});
@@ -443,6 +443,58 @@ describe('RoutingQueue', () => {
     });
   });
 
+  describe('exportState / importState', () => {
+    it('round-trips items, counters and dedupe keys', () => {
+      queue.enqueue(
+        [
+          { targetMemberId: 'member-1', intent: 'P2_REPLY' },
+          { targetMemberId: 'member-2', intent: 'P3_EXTEND' },
+        ],
+        'msg-1'
+      );
+      queue.markCompleted('msg-1');
+
+      const state = queue.exportState();
+      const restored = new RoutingQueue({ memberLookup: mockMemberLookup });
+      expect(restored.importState(JSON.parse(JSON.stringify(state)))).toBe(0);
+
+      expect(restored.peek()).toEqual(queue.peek());
+      expect(restored.getLastCompletedMessageId()).toBe('msg-1');
+      expect(restored.exportState()).toEqual(state);
+
+      // Dedupe set restored: the same route is not enqueued twice
+      const result = restored.enqueue([{ targetMemberId: 'member-1', intent: 'P2_REPLY' }], 'msg-1');
+      expect(result.enqueued).toHaveLength(0);
+    });
+
+    it('drops filtered items and rebuilds the dedupe set', () => {
+      queue.enqueue(
+        [
+          { targetMemberId: 'member-1', intent: 'P2_REPLY' },
+          { targetMemberId: 'member-2', intent: 'P2_REPLY' },
+        ],
+        'msg-1'
+      );
+
+      const restored = new RoutingQueue({ memberLookup: mockMemberLookup });
+      const discarded = restored.importState(queue.exportState(), item => item.targetMemberId !== 'member-2');
+
+      expect(discarded).toBe(1);
+      expect(restored.peek().map(i => i.targetMemberId)).toEqual(['member-1']);
+      const result = restored.enqueue([{ targetMemberId: 'member-2', intent: 'P2_REPLY' }], 'msg-1');
+      expect(result.enqueued).toHaveLength(1);
+    });
+
+    it('does not share item objects with the exported state', () => {
+      queue.enqueue([{ targetMemberId: 'member-1', intent: 'P2_REPLY' }], 'msg-1');
+
+      const state = queue.exportState();
+      state.items[0].targetMemberId = 'mutated';
+
+      expect(queue.peek()[0].targetMemberId).toBe('member-1');
+    });
+  });
+
   // v3.1: Queue Cleaning Protocol - removeByTarget tests
   describe('removeByTarget', () => {
     it('removes all items for specified member', () => {
@@ -566,4 +618,89 @@ describe('RoutingQueue', () => {
       expect(queue.peek()[0].targetMemberId).toBe('member-2');
     });
   });
+
+  describe('updateConfig', () => {
+    it('changes only the given limits and applies them to later enqueues', () => {
+      queue.enqueue(
+        [
+          { targetMemberId: 'member-1', intent: 'P2_REPLY' },
+          { targetMemberId: 'member-2', intent: 'P2_REPLY' },
+        ],
+        'msg-1'
+      );
+
+      queue.updateConfig({ maxQueueSize: 2, maxParallel: 3 });
+      const result = queue.enqueue([{ targetMemberId: 'member-3', intent: 'P2_REPLY' }], 'msg-2');
+
+      expect(queue.getMaxParallel()).toBe(3);
+      expect(result.skipped[0].reason).toBe('queue_overflow');
+      expect(queue.size()).toBe(2);
+    });
+  });
+
+  describe('takeParallelSiblings', () => {
+    it('defaults to sequential execution', () => {
+      expect(queue.getMaxParallel()).toBe(1);
+      expect(new RoutingQueue({ config: { maxParallel: 0 } }).getMaxParallel()).toBe(1);
+    });
+
+    it('takes same-parent items in scheduling order', () => {
+      queue.enqueue(
+        [
+          { targetMemberId: 'member-1', intent: 'P2_REPLY' },
+          { targetMemberId: 'member-2', intent: 'P3_EXTEND' },
+          { targetMemberId: 'member-3', intent: 'P2_REPLY' },
+        ],
+        'msg-1'
+      );
+      queue.enqueue([{ targetMemberId: 'member-2', intent: 'P2_REPLY' }], 'msg-other');
+
+      const selected = queue.selectNext()!;
+      expect(selected.targetMemberId).toBe('member-1');
+
+      const siblings = queue.takeParallelSiblings(selected, 5);
+      expect(siblings.map(s => s.targetMemberId)).toEqual(['member-3', 'member-2']);
+      expect(siblings.every(s => s.parentMessageId === 'msg-1')).toBe(true);
+      // Other branch untouched
+      expect(queue.peek().map(i => i.parentMessageId)).toEqual(['msg-other']);
+    });
+
+    it('respects limit and filter', () => {
+      queue.enqueue(
+        [
+          { targetMemberId: 'member-1', intent: 'P2_REPLY' },
+          { targetMemberId: 'human-1', intent: 'P2_REPLY' },
+          { targetMemberId: 'member-2', intent: 'P2_REPLY' },
+          { targetMemberId: 'member-3', intent: 'P2_REPLY' },
+        ],
+        'msg-1'
+      );
+
+      const selected = queue.selectNext()!;
+      const siblings = queue.takeParallelSiblings(
+        selected,
+        1,
+        item => mockMemberLookup(item.targetMemberId)?.type === 'ai'
+      );
+
+      expect(siblings.map(s => s.targetMemberId)).toEqual(['member-2']);
+      expect(queue.peek().map(i => i.targetMemberId)).toEqual(['human-1', 'member-3']);
+    });
+
+    it('never takes a second item for the selected member', () => {
+      queue.enqueue(
+        [
+          { targetMemberId: 'member-1', intent: 'P2_REPLY' },
+          { targetMemberId: 'member-2', intent: 'P2_REPLY' },
+          { targetMemberId: 'member-1', intent: 'P3_EXTEND' },
+        ],
+        'msg-1'
+      );
+
+      const selected = queue.selectNext()!;
+      const siblings = queue.takeParallelSiblings(selected, 5);
+      expect(siblings.map(s => s.targetMemberId)).toEqual(['member-2']);
+      expect(queue.size()).toBe(1);
+    });
+  });
 });
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { RoutingRuleEngine } from '../../src/services/RoutingRuleEngine.js';
+import type { Team, Member } from '../../src/models/Team.js';
+import type { ConversationMessage } from '../../src/models/ConversationMessage.js';
+
+function member(id: string, role: string, type: 'ai' | 'human', order: number): Member {
+  return { id, name: id, displayName: id.toUpperCase(), role, type, order };
+}
+
+const team: Team = {
+  id: 'team-test',
+  name: 'Test Team',
+  description: 'Routing rules',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  members: [
+    member('coder', 'coder', 'ai', 0),
+    member('reviewer-1', 'reviewer', 'ai', 2),
+    member('reviewer-2', 'reviewer', 'ai', 1),
+    member('kai', 'lead', 'human', 3)
+  ]
+};
+
+function messageFrom(speakerId: string, content: string): ConversationMessage {
+  const speaker = team.members.find(m => m.id === speakerId)!;
+  return {
+    id: `msg-${speakerId}`,
+    timestamp: new Date(),
+    speaker: { id: speaker.id, name: speaker.name, displayName: speaker.displayName, type: speaker.type },
+    content
+  };
+}
+
+const targets = (engine: RoutingRuleEngine, msg: ConversationMessage, hasNext = false) =>
+  engine.evaluate(msg, team, hasNext).map(m => m.member.id);
+
+describe('RoutingRuleEngine', () => {
+  it('routes by speaker role to every member of the target role (by order)', () => {
+    const engine = new RoutingRuleEngine([{ when: { fromRole: 'coder' }, routeTo: 'role:reviewer' }]);
+
+    expect(targets(engine, messageFrom('coder', 'done'))).toEqual(['reviewer-2', 'reviewer-1']);
+    expect(targets(engine, messageFrom('reviewer-1', 'done'))).toEqual([]);
+  });
+
+  it('matches message content with a regular expression', () => {
+    const engine = new RoutingRuleEngine([
+      { when: { matches: '\\bLGTM\\b', matchFlags: 'i' }, routeTo: '$human', intent: 'P1' }
+    ]);
+
+    const matches = engine.evaluate(messageFrom('reviewer-1', 'lgtm, ship it'), team, false);
+    expect(matches.map(m => [m.member.id, m.intent])).toEqual([['kai', 'P1']]);
+    expect(targets(engine, messageFrom('reviewer-1', 'needs work'))).toEqual([]);
+  });
+
+  it('applies only the first matching fallback rule', () => {
+    const engine = new RoutingRuleEngine([
+      { name: 'approve', when: { matches: 'LGTM' }, routeTo: '$human' },
+      { name: 'default', when: { speakerType: 'ai' }, routeTo: 'coder' }
+    ]);
+
+    expect(targets(engine, messageFrom('reviewer-1', 'LGTM'))).toEqual(['kai']);
+    expect(targets(engine, messageFrom('reviewer-1', 'please fix'))).toEqual(['coder']);
+  });
+
+  it('skips fallback rules when NEXT is present but keeps always rules', () => {
+    const engine = new RoutingRuleEngine([
+      { when: { fromMember: 'coder' }, routeTo: 'reviewer-1' },
+      { when: { fromMember: ['CODER'] }, routeTo: '$human', mode: 'always' }
+    ]);
+
+    expect(targets(engine, messageFrom('coder', 'x'), true)).toEqual(['kai']);
+    expect(targets(engine, messageFrom('coder', 'x'), false)).toEqual(['reviewer-1', 'kai']);
+  });
+
+  it('never routes back to the speaker', () => {
+    const engine = new RoutingRuleEngine([{ routeTo: ['$human', 'coder'] }]);
+
+    expect(targets(engine, messageFrom('kai', 'hello'))).toEqual(['coder']);
+  });
+
+  it('rejects invalid patterns', () => {
+    expect(() => new RoutingRuleEngine([{ name: 'broken', when: { matches: '(' }, routeTo: 'kai' }]))
+      .toThrow('Routing rule broken has an invalid pattern');
+  });
+});
@@ -4,6 +4,7 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { InMemorySessionStorage } from '../../../src/infrastructure/InMemorySessionStorage.js';
+import { listSessionForks, searchSessionStorage, type ISessionStorage } from '../../../src/infrastructure/ISessionStorage.js';
 import type { SessionSnapshot } from '../../../src/models/SessionSnapshot.js';
 
 describe('InMemorySessionStorage', () => {
@@ -177,6 +178,75 @@ describe('InMemorySessionStorage', () => {
     });
   });
 
+  describe('listForks', () => {
+    it('should list only sessions forked from the given session', async () => {
+      const lineage = { sessionId: 'root', messageId: 'msg-1', forkedAt: '2024-01-15T11:00:00.000Z' };
+      await storage.saveSession('test-team', createTestSnapshot({ sessionId: 'root' }));
+      await storage.saveSession('test-team', createTestSnapshot({ sessionId: 'fork-a', forkedFrom: lineage }));
+      await storage.saveSession('test-team', createTestSnapshot({
+        sessionId: 'fork-b',
+        forkedFrom: { ...lineage, sessionId: 'other' },
+      }));
+
+      const forks = await storage.listForks('test-team', 'root');
+
+      expect(forks.map(f => f.sessionId)).toEqual(['fork-a']);
+      expect(forks[0].forkedFrom).toEqual(lineage);
+    });
+
+    it('should return empty array when there are no forks', async () => {
+      await storage.saveSession('test-team', createTestSnapshot());
+
+      expect(await storage.listForks('test-team', 'test-session-123')).toEqual([]);
+      expect(await storage.listForks('non-existent-team', 'test-session-123')).toEqual([]);
+    });
+
+    it('should fall back to listSessions for storages without listForks', async () => {
+      const lineage = { sessionId: 'root', messageId: 'msg-1', forkedAt: '2024-01-15T11:00:00.000Z' };
+      await storage.saveSession('test-team', createTestSnapshot({ sessionId: 'root' }));
+      await storage.saveSession('test-team', createTestSnapshot({ sessionId: 'fork-a', forkedFrom: lineage }));
+      const customStorage: ISessionStorage = {
+        saveSession: (teamId, snapshot) => storage.saveSession(teamId, snapshot),
+        loadSession: (teamId, sessionId) => storage.loadSession(teamId, sessionId),
+        getLatestSession: teamId => storage.getLatestSession(teamId),
+        listSessions: teamId => storage.listSessions(teamId),
+        deleteSession: (teamId, sessionId) => storage.deleteSession(teamId, sessionId),
+      };
+
+      const forks = await listSessionForks(customStorage, 'test-team', 'root');
+
+      expect(forks.map(f => f.sessionId)).toEqual(['fork-a']);
+    });
+  });
+
+  describe('searchSessions', () => {
+    it('should search saved sessions and forget deleted ones', async () => {
+      await storage.saveSession('test-team', createTestSnapshot());
+
+      const hits = await storage.searchSessions({ text: 'hello' });
+      expect(hits).toMatchObject([{ teamId: 'test-team', sessionId: 'test-session-123', messageId: 'msg-1' }]);
+
+      await storage.deleteSession('test-team', 'test-session-123');
+      expect(await storage.searchSessions({ text: 'hello' })).toEqual([]);
+    });
+
+    it('should index one team on the fly for storages without searchSessions', async () => {
+      await storage.saveSession('test-team', createTestSnapshot());
+      const customStorage: ISessionStorage = {
+        saveSession: (teamId, snapshot) => storage.saveSession(teamId, snapshot),
+        loadSession: (teamId, sessionId) => storage.loadSession(teamId, sessionId),
+        getLatestSession: teamId => storage.getLatestSession(teamId),
+        listSessions: teamId => storage.listSessions(teamId),
+        deleteSession: (teamId, sessionId) => storage.deleteSession(teamId, sessionId),
+      };
+
+      const hits = await searchSessionStorage(customStorage, { text: 'hello', teamId: 'test-team' });
+
+      expect(hits).toMatchObject([{ teamId: 'test-team', sessionId: 'test-session-123', messageId: 'msg-1' }]);
+      await expect(searchSessionStorage(customStorage, { text: 'hello' })).rejects.toThrow('query.teamId');
+    });
+  });
+
   describe('deleteSession', () => {
     it('should delete existing session', async () => {
       await storage.saveSession('test-team', createTestSnapshot());
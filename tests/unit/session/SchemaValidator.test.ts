@@ -275,12 +275,132 @@ describe('SchemaValidator', () => {
 
       expect(result.schemaVersion).toBe('1.0');
     });
+
+    it('should accept 1.1 snapshots with a pending routing queue', () => {
+      const snapshot = createValidSnapshot({
+        schemaVersion: '1.1',
+        routingQueue: {
+          items: [
+            {
+              id: 'route-1',
+              targetMemberId: 'ai-2',
+              parentMessageId: 'msg-1',
+              triggerMessageId: 'msg-1',
+              intent: 'P2_REPLY',
+              enqueuedAt: 1705312800000,
+            },
+          ],
+          lastCompletedMessageId: 'msg-1',
+          localSeqCount: 1,
+          dedupeKeys: ['msg-1:ai-2:P2_REPLY'],
+        },
+      });
+
+      const result = validateSessionSnapshotWithVersion(snapshot);
+
+      expect(result.schemaVersion).toBe('1.1');
+      expect(result.routingQueue?.items).toHaveLength(1);
+    });
+
+    it('should accept native agent sessions by member', () => {
+      const snapshot = createValidSnapshot({
+        schemaVersion: '1.1',
+        nativeSessions: {
+          'ai-1': { sessionId: 'claude-session-1', lastMessageId: 'msg-1' },
+        },
+      });
+
+      expect(validateSessionSnapshotWithVersion(snapshot).nativeSessions?.['ai-1'].sessionId)
+        .toBe('claude-session-1');
+      expect(() => validateSessionSnapshot(createValidSnapshot({
+        schemaVersion: '1.1',
+        nativeSessions: { 'ai-1': { sessionId: '', lastMessageId: 'msg-1' } },
+      }))).toThrow(SchemaValidationError);
+    });
+
+    it('should accept a rolling context summary', () => {
+      const base = createValidSnapshot();
+      const withSummary = (summary: Record<string, unknown>) => createValidSnapshot({
+        schemaVersion: '1.1',
+        context: { ...base.context, summary },
+      });
+
+      const result = validateSessionSnapshotWithVersion(withSummary({
+        text: '- alice: We chose PostgreSQL.',
+        throughMessageId: 'msg-1',
+        messageCount: 1,
+        updatedAt: 1705312800000,
+      }));
+
+      expect(result.context.summary?.throughMessageId).toBe('msg-1');
+      expect(() => validateSessionSnapshot(withSummary({ text: 'missing fields' })))
+        .toThrow(SchemaValidationError);
+    });
+
+    it('should accept whisper recipients in message routing', () => {
+      const base = createValidSnapshot();
+      const [message] = base.context.messages;
+      const snapshot = createValidSnapshot({
+        schemaVersion: '1.1',
+        context: {
+          ...base.context,
+          messages: [{ ...message, routing: { rawNextMarkers: [], resolvedAddressees: [], visibleTo: ['ai-2'] } }],
+        },
+      });
+
+      expect(validateSessionSnapshotWithVersion(snapshot).context.messages[0].routing?.visibleTo)
+        .toEqual(['ai-2']);
+    });
+
+    it('should accept handoff payloads in message routing', () => {
+      const base = createValidSnapshot();
+      const [message] = base.context.messages;
+      const withHandoffs = (handoffs: unknown[]) => createValidSnapshot({
+        schemaVersion: '1.1',
+        context: {
+          ...base.context,
+          messages: [{ ...message, routing: { rawNextMarkers: ['reviewer'], resolvedAddressees: [], handoffs } }],
+        },
+      });
+
+      const result = validateSessionSnapshotWithVersion(withHandoffs([
+        { memberId: 'ai-2', payload: { filesTouched: ['src/a.ts'] } },
+        { memberId: 'ai-3', payload: {}, errors: ['Missing JSON payload'] },
+      ]));
+
+      expect(result.context.messages[0].routing?.handoffs?.[0].payload).toEqual({ filesTouched: ['src/a.ts'] });
+      expect(() => validateSessionSnapshot(withHandoffs([{ memberId: 'ai-2' }]))).toThrow(SchemaValidationError);
+    });
+
+    it('should reject routing items with an unknown intent', () => {
+      const snapshot = createValidSnapshot({
+        schemaVersion: '1.1',
+        routingQueue: {
+          items: [
+            {
+              id: 'route-1',
+              targetMemberId: 'ai-2',
+              parentMessageId: 'msg-1',
+              triggerMessageId: 'msg-1',
+              intent: 'P9',
+              enqueuedAt: 1705312800000,
+            },
+          ],
+          lastCompletedMessageId: null,
+          localSeqCount: 0,
+          dedupeKeys: [],
+        },
+      });
+
+      expect(() => validateSessionSnapshot(snapshot)).toThrow(SchemaValidationError);
+    });
   });
 
   describe('checkSchemaVersion', () => {
     it('should pass for supported version', () => {
       // Should not throw
       checkSchemaVersion('1.0', 'sessionSnapshot');
+      checkSchemaVersion('1.1', 'sessionSnapshot');
     });
 
     it('should throw for version too new', () => {
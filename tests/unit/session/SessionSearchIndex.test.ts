@@ -0,0 +1,148 @@
+/**
+ * SessionSearchIndex Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { SessionSearchIndex, tokenize } from '../../../src/infrastructure/SessionSearchIndex.js';
+import type { SessionSnapshot, PersistedMessage } from '../../../src/models/SessionSnapshot.js';
+
+function message(id: string, speaker: string, content: string, timestamp: string): PersistedMessage {
+  return {
+    id,
+    timestamp,
+    content,
+    speaker: { id: `${speaker}-id`, name: speaker, displayName: speaker.toUpperCase(), type: 'ai' },
+  };
+}
+
+function snapshot(sessionId: string, messages: PersistedMessage[]): SessionSnapshot {
+  return {
+    schemaVersion: '1.0',
+    teamId: 'team-a',
+    sessionId,
+    createdAt: '2024-01-15T10:00:00.000Z',
+    updatedAt: '2024-01-15T10:30:00.000Z',
+    context: { messages, teamTask: null, timestamp: 0, version: 1 },
+    metadata: { messageCount: messages.length },
+  };
+}
+
+describe('SessionSearchIndex', () => {
+  let index: SessionSearchIndex;
+
+  beforeEach(async () => {
+    index = new SessionSearchIndex();
+    await index.upsert('team-a', snapshot('s1', [
+      message('m1', 'reviewer', 'I reject the migration plan: it drops the users table.', '2024-01-10T09:00:00.000Z'),
+      message('m2', 'dev', 'Updated the migration to keep users.', '2024-01-11T09:00:00.000Z'),
+    ]));
+    await index.upsert('team-b', snapshot('s2', [
+      message('m3', 'reviewer', 'Approved. Migration looks good, migration tests pass.', '2024-02-01T09:00:00.000Z'),
+      message('m4', 'dev', '数据库迁移已完成', '2024-02-02T09:00:00.000Z'),
+    ]));
+  });
+
+  it('tokenizes words and CJK characters', () => {
+    expect(tokenize('Reject the Migration-plan!')).toEqual(['reject', 'the', 'migration', 'plan']);
+    expect(tokenize('迁移ok')).toEqual(['迁', '移', 'ok']);
+  });
+
+  it('requires all words and ranks by occurrences', () => {
+    const hits = index.search({ text: 'migration' });
+    expect(hits.map(h => h.messageId)).toEqual(['m3', 'm2', 'm1']);
+    expect(hits[0]).toMatchObject({ teamId: 'team-b', sessionId: 's2', score: 2 });
+
+    expect(index.search({ text: 'reject migration' }).map(h => h.messageId)).toEqual(['m1']);
+  });
+
+  it('matches word prefixes and CJK text without spaces', () => {
+    expect(index.search({ text: 'migrat' })).toHaveLength(3);
+    expect(index.search({ text: '迁移' }).map(h => h.messageId)).toEqual(['m4']);
+  });
+
+  it('filters by speaker, team and date range', () => {
+    expect(index.search({ text: 'migration', speaker: 'REVIEWER' }).map(h => h.messageId)).toEqual(['m3', 'm1']);
+    expect(index.search({ speaker: 'dev-id', teamId: 'team-a' }).map(h => h.messageId)).toEqual(['m2']);
+    expect(index.search({ from: '2024-01-11T00:00:00.000Z', to: new Date('2024-02-01T12:00:00.000Z') })
+      .map(h => h.messageId)).toEqual(['m3', 'm2']);
+  });
+
+  it('returns snippets around the first match', async () => {
+    const [hit] = index.search({ text: 'users table' });
+    expect(hit.snippet).toBe('I reject the migration plan: it drops the users table.');
+
+    const long = 'x '.repeat(100) + 'needle ' + 'y '.repeat(100);
+    await index.upsert('team-a', snapshot('s3', [message('m5', 'dev', long, '2024-03-01T00:00:00.000Z')]));
+    const [longHit] = index.search({ text: 'needle' });
+    expect(longHit.snippet.startsWith('…')).toBe(true);
+    expect(longHit.snippet.endsWith('…')).toBe(true);
+    expect(longHit.snippet).toContain('needle');
+  });
+
+  it('replaces entries on re-index and removes deleted sessions', async () => {
+    await index.upsert('team-a', snapshot('s1', [message('m1', 'reviewer', 'Nothing here', '2024-01-10T09:00:00.000Z')]));
+    expect(index.search({ text: 'reject' })).toEqual([]);
+
+    await index.remove('team-b', 's2');
+    expect(index.search({ text: 'approved' })).toEqual([]);
+    expect(index.size()).toBe(1);
+  });
+
+  it('indexes messages saved with the legacy speaker format', async () => {
+    const legacy = {
+      ...message('m5', 'qa', 'Regression suite is green.', '2024-03-01T00:00:00.000Z'),
+      speaker: { roleId: 'qa-id', roleName: 'qa', roleTitle: 'QA', type: 'ai' },
+    } as unknown as PersistedMessage;
+    await index.upsert('team-a', snapshot('s3', [legacy]));
+
+    expect(index.search({ speaker: 'qa-id' })).toMatchObject([{ messageId: 'm5', speaker: { id: 'qa-id', name: 'qa', displayName: 'QA' } }]);
+  });
+
+  it('rejects empty and invalid queries', () => {
+    expect(() => index.search({})).toThrow('Search query requires text, speaker or a date range');
+    expect(() => index.search({ from: 'not a date' })).toThrow("Invalid 'from' date");
+  });
+
+  describe('journal', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'search-index-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('persists upserts and deletes and replays them on load', async () => {
+      const journal = path.join(tempDir, 'index.jsonl');
+      const first = new SessionSearchIndex(journal);
+      await first.upsert('team-a', snapshot('s1', [message('m1', 'dev', 'alpha', '2024-01-01T00:00:00.000Z')]));
+      await first.upsert('team-a', snapshot('s2', [message('m2', 'dev', 'beta', '2024-01-01T00:00:00.000Z')]));
+      await first.remove('team-a', 's2');
+
+      const second = new SessionSearchIndex(journal);
+      await second.load();
+      expect(second.search({ text: 'alpha' })).toHaveLength(1);
+      expect(second.search({ text: 'beta' })).toEqual([]);
+    });
+
+    it('compacts the journal when it grows well beyond the live sessions', async () => {
+      const journal = path.join(tempDir, 'index.jsonl');
+      const index = new SessionSearchIndex(journal);
+      for (let i = 0; i < 205; i++) {
+        await index.upsert('team-a', snapshot('s1', [message('m1', 'dev', `revision ${i}`, '2024-01-01T00:00:00.000Z')]));
+      }
+
+      const lines = fs.readFileSync(journal, 'utf-8').trim().split('\n');
+      expect(lines.length).toBeLessThan(10);
+
+      const reloaded = new SessionSearchIndex(journal);
+      await reloaded.load();
+      expect(reloaded.search({ text: 'revision' })[0].snippet).toBe('revision 204');
+    });
+  });
+});
@@ -142,6 +142,28 @@ describe('SessionStorageService', () => {
 
       expect(loaded).toBeNull();
     });
+
+    it('should load 1.1 snapshots with a routing queue alongside 1.0 snapshots', async () => {
+      const routingQueue = {
+        items: [{
+          id: 'route-1',
+          targetMemberId: 'ai-1',
+          parentMessageId: 'msg-1',
+          triggerMessageId: 'msg-1',
+          intent: 'P2_REPLY' as const,
+          enqueuedAt: 1705312800000,
+        }],
+        lastCompletedMessageId: null,
+        localSeqCount: 0,
+        dedupeKeys: ['msg-1:ai-1:P2_REPLY'],
+      };
+      await storage.saveSession('test-team', createTestSnapshot({ sessionId: 'old-session' }));
+      await storage.saveSession('test-team', createTestSnapshot({ schemaVersion: '1.1', routingQueue }));
+
+      expect(await storage.loadSession('test-team', 'old-session')).not.toBeNull();
+      const loaded = await storage.loadSession('test-team', 'test-session-123');
+      expect(loaded?.routingQueue).toEqual(routingQueue);
+    });
   });
 
   describe('getLatestSession', () => {
@@ -235,6 +257,86 @@ describe('SessionStorageService', () => {
     });
   });
 
+  describe('listForks', () => {
+    it('should list only sessions forked from the given session', async () => {
+      const lineage = { sessionId: 'root', messageId: 'msg-1', forkedAt: '2024-01-15T11:00:00.000Z' };
+      await storage.saveSession('test-team', createTestSnapshot({ sessionId: 'root' }));
+      await storage.saveSession('test-team', createTestSnapshot({ sessionId: 'fork-a', forkedFrom: lineage }));
+      await storage.saveSession('test-team', createTestSnapshot({
+        sessionId: 'fork-b',
+        forkedFrom: { ...lineage, sessionId: 'other' },
+      }));
+
+      const forks = await storage.listForks('test-team', 'root');
+
+      expect(forks.map(f => f.sessionId)).toEqual(['fork-a']);
+      expect(forks[0].forkedFrom).toEqual(lineage);
+    });
+
+    it('should return empty array when there are no forks', async () => {
+      await storage.saveSession('test-team', createTestSnapshot());
+
+      expect(await storage.listForks('test-team', 'test-session-123')).toEqual([]);
+      expect(await storage.listForks('non-existent-team', 'test-session-123')).toEqual([]);
+    });
+  });
+
+  describe('searchSessions', () => {
+    const withMessages = (sessionId: string, teamId: string, contents: string[]) => createTestSnapshot({
+      sessionId,
+      teamId,
+      context: {
+        messages: contents.map((content, i) => ({
+          id: `${sessionId}-msg-${i}`,
+          content,
+          timestamp: `2024-01-15T10:0${i}:00.000Z`,
+          speaker: { id: 'ai-1', name: 'reviewer', displayName: 'Reviewer', type: 'ai' as const },
+        })),
+        teamTask: null,
+        timestamp: 0,
+        version: 1,
+      },
+    });
+
+    it('should find messages across teams with snippets', async () => {
+      await storage.saveSession('team-a', withMessages('s-a', 'team-a', ['I reject the migration plan']));
+      await storage.saveSession('team-b', withMessages('s-b', 'team-b', ['Unrelated', 'migration approved']));
+
+      const hits = await storage.searchSessions({ text: 'migration' });
+
+      expect(hits.map(h => [h.teamId, h.sessionId, h.messageId]).sort()).toEqual([
+        ['team-a', 's-a', 's-a-msg-0'],
+        ['team-b', 's-b', 's-b-msg-1'],
+      ]);
+      expect(hits.find(h => h.sessionId === 's-a')?.snippet).toBe('I reject the migration plan');
+    });
+
+    it('should index sessions written before the index existed', async () => {
+      await storage.saveSession('test-team', withMessages('s-old', 'test-team', ['legacy reject note']));
+      fs.rmSync(path.join(tempDir, '.search-index.jsonl'));
+
+      const fresh = new SessionStorageService(tempDir);
+      const hits = await fresh.searchSessions({ text: 'reject', speaker: 'reviewer' });
+
+      expect(hits.map(h => h.sessionId)).toEqual(['s-old']);
+      expect(fs.existsSync(path.join(tempDir, '.search-index.jsonl'))).toBe(true);
+    });
+
+    it('should drop deleted sessions from results', async () => {
+      await storage.saveSession('test-team', withMessages('s-del', 'test-team', ['to be removed']));
+      await storage.deleteSession('test-team', 's-del');
+
+      expect(await storage.searchSessions({ text: 'removed' })).toEqual([]);
+    });
+
+    it('should not list the index journal as a session', async () => {
+      await storage.saveSession('test-team', createTestSnapshot());
+
+      const sessions = await storage.listSessions('test-team');
+      expect(sessions).toHaveLength(1);
+    });
+  });
+
   describe('deleteSession', () => {
     it('should delete existing session', async () => {
       await storage.saveSession('test-team', createTestSnapshot());
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { SessionBudget } from '../../src/services/SessionBudget.js';
+
+const noUsage = { agentTurns: 0, totalTokens: 0, totalCostUsd: 0 };
+
+describe('SessionBudget', () => {
+  it('never breaches without limits', () => {
+    const budget = new SessionBudget();
+    expect(budget.check({ agentTurns: 1000, totalTokens: 1e9, totalCostUsd: 1000 })).toBeNull();
+    expect(budget.getRemainingAgentTurns(1000)).toBe(Infinity);
+  });
+
+  it('reports the crossed limit with a readable reason', () => {
+    const budget = new SessionBudget({ maxAgentTurns: 3, maxTotalTokens: 1000 });
+
+    expect(budget.check({ ...noUsage, agentTurns: 2 })).toBeNull();
+    expect(budget.check({ ...noUsage, agentTurns: 3 })).toMatchObject({
+      reason: 'agent_turns',
+      limit: 3,
+      actual: 3,
+      message: 'Agent turn budget exceeded (3 of 3 turns)',
+    });
+    expect(budget.check({ ...noUsage, totalTokens: 1500 })).toMatchObject({ reason: 'tokens', actual: 1500 });
+  });
+
+  it('measures wall-clock time from start()', () => {
+    let now = 1_000;
+    const budget = new SessionBudget({ maxSessionDuration: 60_000 }, { now: () => now });
+
+    now += 90_000;
+    expect(budget.check(noUsage)).toMatchObject({ reason: 'wall_clock', actual: 90_000 });
+
+    budget.start();
+    expect(budget.check(noUsage)).toBeNull();
+  });
+
+  it('checks cost when configured', () => {
+    const budget = new SessionBudget({ maxTotalCostUsd: 5 });
+    expect(budget.check({ ...noUsage, totalCostUsd: 5.5 })).toMatchObject({
+      reason: 'cost',
+      message: 'Cost budget exceeded ($5.50 of $5.00)',
+    });
+  });
+
+  it('raises only the provided limits and treats 0 as unlimited', () => {
+    const budget = new SessionBudget({ maxAgentTurns: 2, maxTotalTokens: 100 });
+    budget.raise({ maxAgentTurns: 0 });
+
+    expect(budget.getLimits()).toEqual({ maxAgentTurns: 0, maxTotalTokens: 100 });
+    expect(budget.check({ ...noUsage, agentTurns: 50 })).toBeNull();
+  });
+
+  it('rejects invalid limits', () => {
+    expect(() => new SessionBudget({ maxTotalTokens: -1 })).toThrow('maxTotalTokens must be a number >= 0');
+    expect(() => new SessionBudget().raise({ maxAgentTurns: NaN })).toThrow('maxAgentTurns');
+  });
+});
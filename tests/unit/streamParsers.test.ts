@@ -1,7 +1,16 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach } from 'vitest';
 import { ClaudeCodeParser } from '../../src/events/parsers/ClaudeCodeParser.js';
 import { GeminiParser } from '../../src/events/parsers/GeminiParser.js';
 import { CodexParser } from '../../src/events/parsers/CodexParser.js';
+import {
+  StreamParserFactory,
+  registerStreamParser,
+  unregisterStreamParser,
+  getRegisteredStreamParserTypes,
+  isStreamParserRegistered,
+} from '../../src/events/StreamParserFactory.js';
+import type { StreamParser } from '../../src/events/StreamParser.js';
+import type { AgentEvent, AgentType } from '../../src/events/AgentEvent.js';
 import type { TeamContext } from '../../src/models/Team.js';
 
 const teamContext: TeamContext = {
@@ -16,7 +25,7 @@ describe('Stream parsers', () => {
     const parser = new ClaudeCodeParser('claude-1', teamContext);
     const events = [
       ...parser.parseChunk(Buffer.from([
-        '{"type":"system","subtype":"init"}',
+        '{"type":"system","subtype":"init","session_id":"claude-session-1"}',
         '{"type":"assistant","message":{"content":[{"type":"text","text":"hi"},{"type":"tool_use","name":"Bash","id":"tool-1","input":{"command":"ls"}}]}}',
         '{"type":"user","message":{"content":[{"type":"tool_result","tool_use_id":"tool-1","content":"ok"}]}}',
         '{"type":"result","stop_reason":"end_turn"}'
@@ -31,6 +40,7 @@ describe('Stream parsers', () => {
       'tool.completed',
       'turn.completed'
     ]);
+    expect(events[0]).toMatchObject({ sessionId: 'claude-session-1' });
     expect(events[1]).toMatchObject({ text: 'hi', agentId: 'claude-1' });
     expect(events[2]).toMatchObject({ toolId: 'tool-1', toolName: 'Bash' });
     expect(events[3]).toMatchObject({ toolId: 'tool-1', output: 'ok' });
@@ -41,7 +51,7 @@ describe('Stream parsers', () => {
     const parser = new GeminiParser('gemini-1', teamContext);
     const events = [
       ...parser.parseChunk(Buffer.from([
-        '{"type":"init","model":"g-1"}',
+        '{"type":"init","model":"g-1","session_id":"gemini-session-1"}',
         '{"type":"message","role":"assistant","content":"hello"}',
         '{"type":"tool_use","tool_name":"bash","tool_id":"t-1","parameters":{"cmd":"pwd"}}',
         '{"type":"tool_result","tool_id":"t-1","output":"ok"}',
@@ -57,6 +67,7 @@ describe('Stream parsers', () => {
       'tool.completed',
       'turn.completed'
     ]);
+    expect(events[0]).toMatchObject({ sessionId: 'gemini-session-1' });
     expect(events[1]).toMatchObject({ text: 'hello', role: 'assistant' });
     expect(events[2]).toMatchObject({ toolId: 't-1' });
     expect(events[3]).toMatchObject({ toolId: 't-1', output: 'ok' });
@@ -83,12 +94,51 @@ describe('Stream parsers', () => {
       'text',
       'turn.completed'
     ]);
+    expect(events[0]).toMatchObject({ sessionId: 't1' });
     expect(events[1]).toMatchObject({ toolId: 'item_1', toolName: 'Bash' });
     expect(events[2]).toMatchObject({ toolId: 'item_1', output: 'ok\n' });
     expect(events[3]).toMatchObject({ text: 'thinking', role: 'assistant' });
     expect(events[4]).toMatchObject({ finishReason: 'done' });
   });
 
+  it('emits usage before turn.completed for Claude Code results', () => {
+    const parser = new ClaudeCodeParser('claude-1', teamContext);
+    const events = parser.parseChunk(Buffer.from(
+      '{"type":"result","stop_reason":"end_turn","total_cost_usd":0.0123,' +
+      '"usage":{"input_tokens":10,"cache_read_input_tokens":90,"cache_creation_input_tokens":5,"output_tokens":42}}\n'
+    ));
+
+    expect(events.map(e => e.type)).toEqual(['usage', 'turn.completed']);
+    expect(events[0]).toMatchObject({
+      agentId: 'claude-1',
+      inputTokens: 105,
+      cachedInputTokens: 90,
+      outputTokens: 42,
+      costUsd: 0.0123
+    });
+  });
+
+  it('emits usage from Codex turn.completed', () => {
+    const parser = new CodexParser('codex-1', teamContext);
+    const events = parser.parseChunk(Buffer.from(
+      '{"type":"turn.completed","usage":{"input_tokens":200,"cached_input_tokens":150,"output_tokens":30}}\n'
+    ));
+
+    expect(events.map(e => e.type)).toEqual(['usage', 'turn.completed']);
+    expect(events[0]).toMatchObject({ inputTokens: 200, cachedInputTokens: 150, outputTokens: 30 });
+    expect((events[0] as any).costUsd).toBeUndefined();
+  });
+
+  it('emits usage from Gemini result stats', () => {
+    const parser = new GeminiParser('gemini-1', teamContext);
+    const events = parser.parseChunk(Buffer.from(
+      '{"type":"result","status":"success","stats":{"input_tokens":12,"output_tokens":8,"total_tokens":20}}\n'
+    ));
+
+    expect(events.map(e => e.type)).toEqual(['usage', 'turn.completed']);
+    expect(events[0]).toMatchObject({ inputTokens: 12, outputTokens: 8, totalTokens: 20 });
+  });
+
   it('emits error event on invalid JSON', () => {
     const parser = new CodexParser('codex-err', teamContext);
     const events = parser.parseChunk(Buffer.from('{"type":"turn.started"}\n{invalid}\n'));
@@ -97,3 +147,101 @@ describe('Stream parsers', () => {
     expect((errorEvent as any).code).toBe('JSONL_PARSE_ERROR');
   });
 });
+
+/**
+ * Minimal parser for a fictional line protocol:
+ *   TOOL <name>  -> tool.started
+ *   TODO <text>  -> todo_list
+ *   SAY <text>   -> text
+ *   DONE         -> turn.completed
+ */
+class AcmeParser implements StreamParser {
+  private buffer = '';
+
+  constructor(private agentId: string, private teamContext: TeamContext) {}
+
+  parseChunk(chunk: Buffer): AgentEvent[] {
+    this.buffer += chunk.toString('utf-8');
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() || '';
+    return lines.filter(l => l.trim()).map(l => this.toEvent(l.trim()));
+  }
+
+  flush(): AgentEvent[] {
+    const rest = this.buffer.trim();
+    this.buffer = '';
+    return rest ? [this.toEvent(rest)] : [];
+  }
+
+  reset(): void {
+    this.buffer = '';
+  }
+
+  private toEvent(line: string): AgentEvent {
+    const base = {
+      eventId: `acme-${line}`,
+      agentId: this.agentId,
+      agentType: 'acme-cli' as AgentType,
+      teamMetadata: this.teamContext,
+      timestamp: 1,
+    };
+    const [keyword, ...rest] = line.split(' ');
+    const payload = rest.join(' ');
+    switch (keyword) {
+      case 'TOOL':
+        return { ...base, type: 'tool.started', toolName: payload, toolId: payload, input: {} };
+      case 'TODO':
+        return { ...base, type: 'todo_list', items: [{ text: payload, status: 'pending' }] };
+      case 'DONE':
+        return { ...base, type: 'turn.completed', finishReason: 'done' };
+      default:
+        return { ...base, type: 'text', text: payload, category: 'message' };
+    }
+  }
+}
+
+describe('StreamParserFactory registry', () => {
+  afterEach(() => {
+    unregisterStreamParser('acme-cli');
+    unregisterStreamParser('claude-code');
+  });
+
+  it('falls back to line parsing for unregistered agent types', () => {
+    const parser = StreamParserFactory.create('acme-cli', 'acme-1', teamContext);
+    const events = parser.parseChunk(Buffer.from('TOOL ls\n'));
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'text', text: 'TOOL ls' });
+  });
+
+  it('creates registered parsers for custom agent types', () => {
+    registerStreamParser('acme-cli', AcmeParser);
+
+    expect(isStreamParserRegistered('acme-cli')).toBe(true);
+    expect(getRegisteredStreamParserTypes()).toContain('acme-cli');
+
+    const parser = StreamParserFactory.create('acme-cli', 'acme-1', teamContext);
+    const events = [
+      ...parser.parseChunk(Buffer.from('TOOL ls\nTODO write tests\nSAY hi\n')),
+      ...parser.parseChunk(Buffer.from('DONE')),
+      ...parser.flush(),
+    ];
+
+    expect(events.map(e => e.type)).toEqual(['tool.started', 'todo_list', 'text', 'turn.completed']);
+    expect(events[0]).toMatchObject({ agentId: 'acme-1', toolName: 'ls', teamMetadata: teamContext });
+  });
+
+  it('lets a registered parser override a built-in parser', () => {
+    registerStreamParser('claude-code', AcmeParser);
+    expect(StreamParserFactory.create('claude-code', 'c-1', teamContext)).toBeInstanceOf(AcmeParser);
+
+    unregisterStreamParser('claude-code');
+    expect(StreamParserFactory.create('claude-code', 'c-1', teamContext)).toBeInstanceOf(ClaudeCodeParser);
+  });
+
+  it('unregisterStreamParser reports whether a parser was removed', () => {
+    registerStreamParser('acme-cli', AcmeParser);
+    expect(unregisterStreamParser('acme-cli')).toBe(true);
+    expect(unregisterStreamParser('acme-cli')).toBe(false);
+    expect(isStreamParserRegistered('acme-cli')).toBe(false);
+  });
+});
@@ -70,6 +70,38 @@ describe('TeamConfigSchema', () => {
       expect(result.errors.some(e => e.path.includes('[0].role'))).toBe(true);
     });
 
+    it('requires member.contextTokenBudget to be a positive integer', () => {
+      const result = validateTeamConfig({
+        team: {
+          name: 'test',
+          members: [
+            { name: 'alice', role: 'dev', type: 'ai', order: 0, contextTokenBudget: 120000 },
+            { name: 'bob', role: 'dev', type: 'ai', order: 1, contextTokenBudget: 0.5 }
+          ]
+        }
+      });
+      expect(result.valid).toBe(false);
+      expect(result.errors.some(e => e.path === 'team.members[1].contextTokenBudget')).toBe(true);
+      expect(result.errors.some(e => e.path.includes('[0].contextTokenBudget'))).toBe(false);
+    });
+
+    it('requires promptTemplate to be a non-empty path', () => {
+      const result = validateTeamConfig({
+        team: {
+          name: 'test',
+          promptTemplate: './prompt.txt',
+          members: [
+            { name: 'alice', role: 'dev', type: 'ai', order: 0, promptTemplate: '' },
+            { name: 'bob', role: 'dev', type: 'ai', order: 1, promptTemplate: 'bob.txt' }
+          ]
+        }
+      });
+      expect(result.valid).toBe(false);
+      expect(result.errors.some(e => e.path === 'team.members[0].promptTemplate')).toBe(true);
+      expect(result.errors.some(e => e.path.includes('[1].promptTemplate'))).toBe(false);
+      expect(result.errors.some(e => e.path === 'team.promptTemplate')).toBe(false);
+    });
+
     it('requires member.type to be "ai" or "human"', () => {
       const result = validateTeamConfig({
         team: {
@@ -358,6 +390,21 @@ describe('TeamConfigSchema', () => {
       expect(result.valid).toBe(true);
     });
 
+    it('rejects negative or non-numeric conversation budgets', () => {
+      const result = validateTeamConfig({
+        team: {
+          name: 'test',
+          members: [
+            { name: 'alice', role: 'dev', type: 'human' },
+            { name: 'bob', role: 'dev', type: 'human' }
+          ]
+        },
+        conversation: { maxSessionDuration: -1, maxAgentTurns: 0, maxTotalTokens: '1000', maxTotalCostUsd: 2.5 }
+      });
+      expect(result.valid).toBe(false);
+      expect(result.errors.map(e => e.path)).toEqual(['conversation.maxSessionDuration', 'conversation.maxTotalTokens']);
+    });
+
     it('validates roleDefinitions if present', () => {
       const result = validateTeamConfig({
         team: {
@@ -488,6 +535,222 @@ describe('TeamConfigSchema', () => {
     });
   });
 
+  describe('routingRules validation', () => {
+    const team = (routingRules: unknown) => ({
+      team: {
+        name: 'test',
+        roleDefinitions: [{ name: 'reviewer' }],
+        members: [
+          { name: 'alice', role: 'coder', type: 'ai', order: 0 },
+          { name: 'kai', role: 'lead', type: 'human', order: 1 }
+        ],
+        routingRules
+      }
+    });
+
+    it('accepts rules with role, member and $human targets', () => {
+      const result = validateTeamConfig(team([
+        { name: 'lgtm', when: { matches: 'LGTM', matchFlags: 'i' }, routeTo: '$human', intent: 'P1' },
+        { when: { fromRole: ['coder'], speakerType: 'ai' }, routeTo: ['role:lead', 'kai'], mode: 'always' },
+        { routeTo: 'role:reviewer' }
+      ]));
+      expect(result.valid).toBe(true);
+    });
+
+    it('rejects unknown member and role targets', () => {
+      const result = validateTeamConfig(team([
+        { routeTo: 'nobody' },
+        { routeTo: 'role:ghost' }
+      ]));
+      expect(result.valid).toBe(false);
+      expect(result.errors.map(e => e.message)).toEqual([
+        'Routing rule targets unknown member: nobody',
+        'Routing rule targets unknown role: ghost'
+      ]);
+    });
+
+    it('rejects invalid regular expressions and enum values', () => {
+      const result = validateTeamConfig(team([
+        { when: { matches: '(unclosed' }, routeTo: 'kai', mode: 'sometimes', intent: 'P9' }
+      ]));
+      expect(result.valid).toBe(false);
+      expect(result.errors.map(e => e.path)).toEqual([
+        'team.routingRules[0].mode',
+        'team.routingRules[0].intent',
+        'team.routingRules[0].when.matches'
+      ]);
+    });
+
+    it('rejects missing routeTo and unknown properties', () => {
+      const result = validateTeamConfig(team([{ when: { fromRoles: 'coder' }, target: 'kai' }]));
+      expect(result.valid).toBe(false);
+      expect(result.errors.map(e => e.path)).toEqual([
+        'team.routingRules[0].target',
+        'team.routingRules[0].routeTo',
+        'team.routingRules[0].when.fromRoles'
+      ]);
+    });
+
+    it('requires routingRules to be an array', () => {
+      const result = validateTeamConfig(team({ routeTo: 'kai' }));
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].path).toBe('team.routingRules');
+    });
+  });
+
+  describe('roster validation', () => {
+    const team = (roster: unknown) => ({
+      team: {
+        name: 'test',
+        roster,
+        members: [
+          { name: 'alice', role: 'coder', type: 'ai', order: 0 },
+          { name: 'bob', role: 'reviewer', type: 'ai', order: 1 }
+        ]
+      }
+    });
+
+    it('accepts boolean switches', () => {
+      expect(validateTeamConfig(team({ enabled: false, markerSyntax: true })).valid).toBe(true);
+    });
+
+    it('rejects non-boolean values and unknown fields', () => {
+      const result = validateTeamConfig(team({ enabled: 'yes', compact: true }));
+      expect(result.valid).toBe(false);
+      expect(result.errors.map(e => e.path)).toEqual(['team.roster.enabled', 'team.roster.compact']);
+    });
+  });
+
+  describe('membership validation', () => {
+    const team = (membership: unknown) => ({
+      team: {
+        name: 'test',
+        membership,
+        members: [
+          { name: 'alice', role: 'coder', type: 'ai', order: 0 },
+          { name: 'bob', role: 'lead', type: 'human', order: 1 }
+        ]
+      }
+    });
+
+    it('accepts AI member names as leads', () => {
+      expect(validateTeamConfig(team({ leads: ['alice'] })).valid).toBe(true);
+      expect(validateTeamConfig(team({})).valid).toBe(true);
+    });
+
+    it('rejects unknown members, human leads and unknown fields', () => {
+      const result = validateTeamConfig(team({ leads: ['carol', 'bob'], admins: [] }));
+      expect(result.valid).toBe(false);
+      expect(result.errors.map(e => e.path)).toEqual([
+        'team.membership.admins',
+        'team.membership.leads[0]',
+        'team.membership.leads[1]'
+      ]);
+    });
+  });
+
+  describe('workspaces validation', () => {
+    const team = (workspaces: unknown) => ({
+      team: {
+        name: 'test',
+        workspaces,
+        members: [
+          { name: 'alice', role: 'coder', type: 'ai', order: 0 },
+          { name: 'bob', role: 'reviewer', type: 'ai', order: 1 }
+        ]
+      }
+    });
+
+    it('accepts worktree settings', () => {
+      const result = validateTeamConfig(team({ mode: 'worktree', root: '../worktrees', baseRef: 'main', branchPrefix: '' }));
+      expect(result.valid).toBe(true);
+    });
+
+    it('rejects unknown modes and fields', () => {
+      const result = validateTeamConfig(team({ mode: 'docker', branch: 'x', root: '' }));
+      expect(result.valid).toBe(false);
+      expect(result.errors.map(e => e.path)).toEqual([
+        'team.workspaces.branch',
+        'team.workspaces.mode',
+        'team.workspaces.root'
+      ]);
+    });
+
+    it('rejects non-object workspaces', () => {
+      const result = validateTeamConfig(team('worktree'));
+      expect(result.errors[0]).toMatchObject({ path: 'team.workspaces', message: 'team.workspaces must be an object' });
+    });
+  });
+
+  describe('roleDefinitions handoffSchema validation', () => {
+    const team = (handoffSchema: unknown) => ({
+      team: {
+        name: 'test',
+        roleDefinitions: [{ name: 'reviewer', handoffSchema }],
+        members: [
+          { name: 'alice', role: 'coder', type: 'ai', order: 0 },
+          { name: 'bob', role: 'reviewer', type: 'ai', order: 1 }
+        ]
+      }
+    });
+
+    it('accepts a JSON schema', () => {
+      const result = validateTeamConfig(team({ type: 'object', required: ['filesTouched'] }));
+      expect(result.valid).toBe(true);
+    });
+
+    it('rejects schemas that do not compile or are not objects', () => {
+      for (const schema of [{ type: 'list' }, 'object', ['object']]) {
+        const result = validateTeamConfig(team(schema));
+        expect(result.valid).toBe(false);
+        expect(result.errors[0].path).toBe('team.roleDefinitions[0].handoffSchema');
+      }
+    });
+  });
+
+  describe('visibilityRules validation', () => {
+    const team = (visibilityRules: unknown) => ({
+      team: {
+        name: 'test',
+        roleDefinitions: [{ name: 'reviewer' }],
+        members: [
+          { name: 'alice', role: 'coder', type: 'ai', order: 0 },
+          { name: 'kai', role: 'lead', type: 'human', order: 1 }
+        ],
+        visibilityRules
+      }
+    });
+
+    it('accepts rules for members, roles and every agent', () => {
+      const result = validateTeamConfig(team([
+        { name: 'scope', appliesTo: 'alice', visibleWhen: [{ addressedToSelf: true }, { fromMember: 'kai' }] },
+        { appliesTo: ['role:reviewer', '*'], hiddenWhen: [{ speakerType: 'human', addressedToSelf: false }] }
+      ]));
+      expect(result.valid).toBe(true);
+    });
+
+    it('rejects unknown recipients and malformed conditions', () => {
+      const result = validateTeamConfig(team([
+        { appliesTo: ['nobody', 'role:ghost'] },
+        { appliesTo: 'alice', visibleWhen: { fromRole: 'coder' }, hiddenWhen: [{ addressedToSelf: 'yes', toMember: 'kai' }] }
+      ]));
+      expect(result.valid).toBe(false);
+      expect(result.errors.map(e => e.message)).toEqual([
+        'Visibility rule applies to unknown member: nobody',
+        'Visibility rule applies to unknown role: ghost',
+        'visibleWhen must be an array of conditions',
+        'Unknown visibility condition: toMember',
+        'addressedToSelf must be a boolean'
+      ]);
+    });
+
+    it('requires appliesTo', () => {
+      const result = validateTeamConfig(team([{ hiddenWhen: [] }]));
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].path).toBe('team.visibilityRules[0].appliesTo');
+    });
+  });
+
   describe('Complete valid configurations', () => {
     it('accepts minimal valid config (no order)', () => {
       const result = validateTeamConfig({
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InstructionFileCache } from '../../../src/utils/InstructionFileCache.js';
+
+describe('InstructionFileCache', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'instruction-cache-'));
+    filePath = path.join(tempDir, 'TEAM.md');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function writeAt(content: string, mtimeSeconds: number): void {
+    fs.writeFileSync(filePath, content);
+    fs.utimesSync(filePath, mtimeSeconds, mtimeSeconds);
+  }
+
+  it('returns undefined for missing files', () => {
+    expect(new InstructionFileCache().read(filePath)).toBeUndefined();
+  });
+
+  it('serves the cached text until the file changes', () => {
+    const cache = new InstructionFileCache();
+    writeAt('Run the tests.', 1_000);
+    expect(cache.read(filePath)).toBe('Run the tests.');
+
+    // Same mtime and size: not read again
+    writeAt('Run the TESTS.', 1_000);
+    expect(cache.read(filePath)).toBe('Run the tests.');
+
+    writeAt('Run the linter.', 2_000);
+    expect(cache.read(filePath)).toBe('Run the linter.');
+  });
+
+  it('reports changes to files read before', () => {
+    const onChange = vi.fn();
+    const cache = new InstructionFileCache(onChange);
+    writeAt('Run the tests.', 1_000);
+
+    cache.read(filePath);
+    expect(onChange).not.toHaveBeenCalled();
+
+    writeAt('Run the tests twice.', 2_000);
+    cache.read(filePath);
+    expect(onChange).toHaveBeenLastCalledWith(filePath, 'Run the tests twice.');
+
+    fs.rmSync(filePath);
+    expect(cache.read(filePath)).toBeUndefined();
+    expect(onChange).toHaveBeenLastCalledWith(filePath, undefined);
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+});
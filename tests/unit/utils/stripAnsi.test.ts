@@ -0,0 +1,36 @@
+/**
+ * Unit tests for ANSI stripping utilities
+ *
+ * @file tests/unit/utils/stripAnsi.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { splitPendingEscape, stripAnsi } from '../../../src/utils/stripAnsi.js';
+
+describe('stripAnsi', () => {
+  it('removes colors, cursor movement and carriage returns', () => {
+    expect(stripAnsi('\x1b[1;32m{"type":"result"}\x1b[0m\r\n')).toBe('{"type":"result"}\n');
+    expect(stripAnsi('\x1b[2K\x1b[1Gready')).toBe('ready');
+  });
+
+  it('removes OSC sequences such as window titles', () => {
+    expect(stripAnsi('\x1b]0;claude\x07hello')).toBe('hello');
+    expect(stripAnsi('\x1b]8;;https://example.com\x1b\\link\x1b]8;;\x1b\\')).toBe('link');
+  });
+
+  it('leaves plain text untouched', () => {
+    expect(stripAnsi('{"a":"[NEXT: bob]"}\n')).toBe('{"a":"[NEXT: bob]"}\n');
+  });
+});
+
+describe('splitPendingEscape', () => {
+  it('keeps an unfinished escape sequence for the next chunk', () => {
+    expect(splitPendingEscape('text\x1b[3')).toEqual(['text', '\x1b[3']);
+    expect(splitPendingEscape('text\x1b')).toEqual(['text', '\x1b']);
+  });
+
+  it('returns the whole text when every sequence is complete', () => {
+    expect(splitPendingEscape('a\x1b[31mb')).toEqual(['a\x1b[31mb', '']);
+    expect(splitPendingEscape('plain')).toEqual(['plain', '']);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Unit tests for TranscriptExporter
+ *
+ * @file tests/unit/utils/transcriptExporter.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildTranscript,
+  exportTranscript,
+  parseContextSummaries,
+} from '../../../src/utils/TranscriptExporter.js';
+import type { SessionSnapshot } from '../../../src/models/SessionSnapshot.js';
+import type { ContextSummary } from '../../../src/services/ContextEventCollector.js';
+
+const members = [
+  { id: 'human-1', displayName: 'Lead', role: 'owner' },
+  { id: 'ai-1', displayName: 'Alice', role: 'reviewer', displayRole: 'Code Reviewer' },
+  { id: 'ai-2', displayName: 'Bob', role: 'dev' },
+];
+
+function createSnapshot(): SessionSnapshot {
+  return {
+    schemaVersion: '1.0',
+    teamId: 'team-a',
+    sessionId: 'session-1',
+    createdAt: '2024-01-15T10:00:00.000Z',
+    updatedAt: '2024-01-15T10:30:00.000Z',
+    context: {
+      messages: [
+        {
+          id: 'msg-1',
+          timestamp: '2024-01-15T10:00:00.000Z',
+          speaker: { id: 'human-1', name: 'lead', displayName: 'Lead', type: 'human' },
+          content: 'Please review <the> patch',
+          routing: {
+            rawNextMarkers: ['alice', 'ghost'],
+            resolvedAddressees: [
+              { identifier: 'alice', memberId: 'ai-1', memberName: 'alice' },
+              { identifier: 'ghost', memberId: null, memberName: null },
+            ],
+          },
+        },
+        {
+          id: 'msg-2',
+          timestamp: '2024-01-15T10:01:00.000Z',
+          speaker: { id: 'ai-1', name: 'alice', displayName: 'Alice', type: 'ai' },
+          content: 'Looks good, over to Bob',
+          routing: {
+            rawNextMarkers: ['bob'],
+            resolvedAddressees: [{ identifier: 'bob', memberId: 'ai-2', memberName: 'bob' }],
+            parentMessageId: 'msg-1',
+            intent: 'P2_REPLY',
+          },
+        },
+      ],
+      teamTask: 'Ship v2',
+      timestamp: 0,
+      version: 1,
+    },
+    metadata: { messageCount: 2 },
+  };
+}
+
+const summaries: ContextSummary[] = [
+  {
+    agentId: 'ai-1',
+    finishReason: 'cancelled',
+    text: '',
+    tools: [],
+    errors: [],
+    timestamp: 1,
+  },
+  {
+    agentId: 'ai-1',
+    finishReason: 'done',
+    text: 'Looks good',
+    tools: [
+      { name: 'Bash', id: 't-1', input: { command: 'npm test' } },
+      { name: 'tool-result', id: 't-1', output: 'all passed' },
+    ],
+    errors: [],
+    usage: { inputTokens: 100, outputTokens: 20 },
+    timestamp: 2,
+  },
+];
+
+describe('TranscriptExporter', () => {
+  describe('buildTranscript', () => {
+    it('normalizes speakers, roles and routing arrows', () => {
+      const transcript = buildTranscript(createSnapshot(), { members });
+
+      expect(transcript.header).toMatchObject({ sessionId: 'session-1', teamTask: 'Ship v2', messageCount: 2 });
+      expect(transcript.messages[0].speaker).toMatchObject({ displayName: 'Lead', role: 'owner' });
+      expect(transcript.messages[0].routedTo).toEqual([
+        { identifier: 'alice', memberId: 'ai-1', displayName: 'Alice' },
+        { identifier: 'ghost', memberId: null, displayName: 'ghost' },
+      ]);
+      expect(transcript.messages[1]).toMatchObject({
+        speaker: { role: 'Code Reviewer' },
+        parentMessageId: 'msg-1',
+        intent: 'P2_REPLY',
+      });
+    });
+
+    it('reads legacy speaker and addressee fields', () => {
+      const snapshot = createSnapshot();
+      const [first] = snapshot.context.messages;
+      Object.assign(first, {
+        speaker: { roleId: 'human-1', roleName: 'lead', roleTitle: 'Lead', type: 'human' },
+        routing: {
+          rawNextMarkers: ['alice'],
+          resolvedAddressees: [{ identifier: 'alice', roleId: 'ai-1', roleName: 'alice' }],
+        },
+      });
+
+      const transcript = buildTranscript(snapshot, { members });
+
+      expect(transcript.messages[0].speaker).toEqual({ id: 'human-1', name: 'lead', displayName: 'Lead', type: 'human', role: 'owner' });
+      expect(transcript.messages[0].routedTo).toEqual([{ identifier: 'alice', memberId: 'ai-1', displayName: 'Alice' }]);
+    });
+
+    it('folds tool calls from summaries under the matching agent turn', () => {
+      const transcript = buildTranscript(createSnapshot(), { members, summaries });
+
+      expect(transcript.messages[0].tools).toBeUndefined();
+      expect(transcript.messages[1].tools).toEqual([
+        { name: 'Bash', id: 't-1', input: { command: 'npm test' }, output: 'all passed', error: undefined },
+      ]);
+      expect(transcript.messages[1].usage).toEqual({ inputTokens: 100, outputTokens: 20 });
+    });
+  });
+
+  describe('exportTranscript', () => {
+    it('renders markdown with arrows, intents and folded tools', () => {
+      const markdown = exportTranscript(createSnapshot(), 'markdown', { members, summaries, title: 'Review' });
+
+      expect(markdown).toContain('# Review');
+      expect(markdown).toContain('### Lead (owner) → Alice, ghost (unresolved)');
+      expect(markdown).toContain('### Alice (Code Reviewer) → Bob');
+      expect(markdown).toContain('P2_REPLY · reply to msg-1 · 120 tokens');
+      expect(markdown).toContain('<summary>Tool calls (1)</summary>');
+      expect(markdown).toContain('- **Bash** `{"command":"npm test"}`');
+      expect(markdown).toContain('all passed');
+    });
+
+    it('renders a self-contained, escaped html page', () => {
+      const html = exportTranscript(createSnapshot(), 'html', { members, summaries });
+
+      expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+      expect(html).toContain('<style>');
+      expect(html).not.toMatch(/<link|<script/);
+      expect(html).toContain('Please review &lt;the&gt; patch');
+      expect(html).toContain('→ Alice, ghost (unresolved)');
+      expect(html).toContain('<details class="tools">');
+    });
+
+    it('renders normalized jsonl with a session header', () => {
+      const jsonl = exportTranscript(createSnapshot(), 'jsonl', { members });
+      const records = jsonl.trim().split('\n').map(line => JSON.parse(line));
+
+      expect(records).toHaveLength(3);
+      expect(records[0]).toMatchObject({ type: 'session', sessionId: 'session-1', teamId: 'team-a' });
+      expect(records[1]).toMatchObject({ type: 'message', id: 'msg-1', content: 'Please review <the> patch' });
+      expect(records[2]).toMatchObject({ type: 'message', intent: 'P2_REPLY' });
+    });
+
+    it('rejects unknown formats', () => {
+      expect(() => exportTranscript(createSnapshot(), 'pdf' as any)).toThrow('Unsupported transcript format: pdf');
+    });
+  });
+
+  describe('parseContextSummaries', () => {
+    it('parses summary log lines and skips invalid ones', () => {
+      const log = [
+        JSON.stringify(summaries[1]),
+        '{not json',
+        JSON.stringify({ unrelated: true }),
+        '',
+      ].join('\n');
+
+      const parsed = parseContextSummaries(log);
+      expect(parsed).toHaveLength(1);
+      expect(parsed[0].agentId).toBe('ai-1');
+    });
+  });
+});
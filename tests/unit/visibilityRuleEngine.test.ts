@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { VisibilityRuleEngine } from '../../src/services/VisibilityRuleEngine.js';
+import type { Team, Member } from '../../src/models/Team.js';
+import type { ConversationMessage } from '../../src/models/ConversationMessage.js';
+
+function member(id: string, role: string, type: 'ai' | 'human', order: number): Member {
+  return { id, name: id, displayName: id.toUpperCase(), role, type, order };
+}
+
+const team: Team = {
+  id: 'team-test',
+  name: 'Test Team',
+  description: 'Visibility rules',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  members: [
+    member('coder', 'coder', 'ai', 0),
+    member('security-reviewer', 'reviewer', 'ai', 1),
+    member('planner', 'planner', 'ai', 2),
+    member('kai', 'lead', 'human', 3)
+  ]
+};
+
+function messageFrom(speakerId: string, addressedTo: string[] = []): ConversationMessage {
+  const speaker = team.members.find(m => m.id === speakerId)!;
+  return {
+    id: `msg-${speakerId}`,
+    timestamp: new Date(),
+    speaker: { id: speaker.id, name: speaker.name, displayName: speaker.displayName, type: speaker.type },
+    content: 'content',
+    routing: {
+      rawNextMarkers: addressedTo,
+      resolvedAddressees: addressedTo.map(id => ({ identifier: id, memberId: id, memberName: id }))
+    }
+  };
+}
+
+describe('VisibilityRuleEngine', () => {
+  it('lets everyone see everything without rules', () => {
+    const engine = new VisibilityRuleEngine();
+
+    expect(engine.hasRules()).toBe(false);
+    expect(engine.canSee(messageFrom('planner'), 'coder', team)).toBe(true);
+  });
+
+  it('limits a member to messages addressed to it or from selected speakers', () => {
+    const engine = new VisibilityRuleEngine([{
+      appliesTo: 'security-reviewer',
+      visibleWhen: [{ addressedToSelf: true }, { fromMember: 'coder' }]
+    }]);
+
+    expect(engine.canSee(messageFrom('coder'), 'security-reviewer', team)).toBe(true);
+    expect(engine.canSee(messageFrom('planner', ['security-reviewer']), 'security-reviewer', team)).toBe(true);
+    expect(engine.canSee(messageFrom('planner', ['coder']), 'security-reviewer', team)).toBe(false);
+    // Other members are unaffected
+    expect(engine.canSee(messageFrom('planner'), 'coder', team)).toBe(true);
+  });
+
+  it('hides human side notes from every agent but never from humans', () => {
+    const engine = new VisibilityRuleEngine([{
+      appliesTo: '*',
+      hiddenWhen: [{ speakerType: 'human', addressedToSelf: false }]
+    }]);
+
+    expect(engine.canSee(messageFrom('kai'), 'coder', team)).toBe(false);
+    expect(engine.canSee(messageFrom('kai', ['coder']), 'coder', team)).toBe(true);
+    expect(engine.canSee(messageFrom('kai', ['coder']), 'planner', team)).toBe(false);
+    expect(engine.canSee(messageFrom('coder'), 'planner', team)).toBe(true);
+  });
+
+  it('requires a message to pass every rule that applies to the recipient', () => {
+    const engine = new VisibilityRuleEngine([
+      { appliesTo: 'role:reviewer', visibleWhen: [{ speakerType: 'ai' }] },
+      { appliesTo: ['security-reviewer'], hiddenWhen: [{ fromRole: 'planner' }] }
+    ]);
+
+    expect(engine.canSee(messageFrom('coder'), 'security-reviewer', team)).toBe(true);
+    expect(engine.canSee(messageFrom('planner'), 'security-reviewer', team)).toBe(false);
+    expect(engine.canSee(messageFrom('kai'), 'security-reviewer', team)).toBe(false);
+  });
+
+  it('always shows members their own messages', () => {
+    const engine = new VisibilityRuleEngine([{ appliesTo: 'coder', visibleWhen: [{ speakerType: 'human' }] }]);
+
+    expect(engine.canSee(messageFrom('coder'), 'coder', team)).toBe(true);
+  });
+});
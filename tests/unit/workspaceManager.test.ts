@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync, spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WorkspaceManager } from '../../src/services/WorkspaceManager.js';
+import type { IExecutionEnvironment, IProcess } from '../../src/interfaces/IExecutionEnvironment.js';
+
+const localEnv: IExecutionEnvironment = {
+  type: 'local',
+  spawn: (command, args, options) =>
+    spawn(command, args, { cwd: options?.cwd, env: process.env }) as unknown as IProcess
+};
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim();
+}
+
+describe('WorkspaceManager', () => {
+  let tempDir: string;
+  let repoDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'workspace-manager-')));
+    repoDir = path.join(tempDir, 'project');
+    fs.mkdirSync(repoDir);
+    git(repoDir, 'init', '-q', '-b', 'main');
+    git(repoDir, 'config', 'user.email', 'dev@example.com');
+    git(repoDir, 'config', 'user.name', 'Dev');
+    git(repoDir, 'config', 'commit.gpgsign', 'false');
+    fs.writeFileSync(path.join(repoDir, 'cache.ts'), 'export const ttl = 10;\n');
+    git(repoDir, 'add', '-A');
+    git(repoDir, 'commit', '-q', '-m', 'initial');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function createManager() {
+    return new WorkspaceManager({ executionEnv: localEnv, projectRoot: repoDir, config: { mode: 'worktree' } });
+  }
+
+  it('provisions a worktree per member on its own branch', async () => {
+    const manager = createManager();
+
+    const alice = await manager.provision('alice');
+    const bob = await manager.provision('bob');
+
+    expect(alice).toEqual({ memberId: 'alice', path: path.join(tempDir, 'project-worktrees', 'alice'), branch: 'agent-chatter/alice' });
+    expect(git(alice.path, 'rev-parse', '--abbrev-ref', 'HEAD')).toBe('agent-chatter/alice');
+    expect(git(bob.path, 'rev-parse', '--abbrev-ref', 'HEAD')).toBe('agent-chatter/bob');
+
+    fs.writeFileSync(path.join(alice.path, 'cache.ts'), 'export const ttl = 60;\n');
+    expect(fs.readFileSync(path.join(bob.path, 'cache.ts'), 'utf-8')).toBe('export const ttl = 10;\n');
+    expect(fs.readFileSync(path.join(repoDir, 'cache.ts'), 'utf-8')).toBe('export const ttl = 10;\n');
+  });
+
+  it('reuses existing worktrees', async () => {
+    const first = await createManager().provision('alice');
+    fs.writeFileSync(path.join(first.path, 'notes.md'), 'wip\n');
+
+    const second = await createManager().provision('alice');
+
+    expect(second.path).toBe(first.path);
+    expect(fs.existsSync(path.join(second.path, 'notes.md'))).toBe(true);
+  });
+
+  it('diffs committed and uncommitted changes, including new files', async () => {
+    const manager = createManager();
+    const alice = await manager.provision('alice');
+    fs.writeFileSync(path.join(alice.path, 'cache.ts'), 'export const ttl = 60;\n');
+    fs.writeFileSync(path.join(alice.path, 'evict.ts'), 'export {};\n');
+
+    const diff = await manager.diff('alice');
+
+    expect(diff.files).toEqual(['cache.ts', 'evict.ts']);
+    expect(diff.patch).toContain('+export const ttl = 60;');
+    expect(diff.patch).toContain('+export {};');
+    // The workspace index is untouched
+    expect(git(alice.path, 'status', '--porcelain')).toBe('M cache.ts\n?? evict.ts');
+
+    const untouched = await manager.provision('bob');
+    expect((await manager.diff(untouched.memberId)).files).toEqual([]);
+  });
+
+  it('merges a member branch into the project checkout', async () => {
+    const manager = createManager();
+    const alice = await manager.provision('alice');
+    fs.writeFileSync(path.join(alice.path, 'cache.ts'), 'export const ttl = 60;\n');
+
+    const result = await manager.merge('alice', 'Raise cache TTL');
+
+    expect(result.merged).toBe(true);
+    expect(result.workspaceCommit).toBe(git(alice.path, 'rev-parse', 'HEAD'));
+    expect(fs.readFileSync(path.join(repoDir, 'cache.ts'), 'utf-8')).toBe('export const ttl = 60;\n');
+    expect(git(repoDir, 'log', '-1', '--format=%s', 'HEAD^2')).toBe('Raise cache TTL');
+  });
+
+  it('aborts conflicting merges and reports the conflicting files', async () => {
+    const manager = createManager();
+    const alice = await manager.provision('alice');
+    const bob = await manager.provision('bob');
+    fs.writeFileSync(path.join(alice.path, 'cache.ts'), 'export const ttl = 60;\n');
+    fs.writeFileSync(path.join(bob.path, 'cache.ts'), 'export const ttl = 5;\n');
+
+    expect((await manager.merge('alice')).merged).toBe(true);
+    const result = await manager.merge('bob');
+
+    expect(result).toMatchObject({ merged: false, conflicts: ['cache.ts'] });
+    expect(fs.readFileSync(path.join(repoDir, 'cache.ts'), 'utf-8')).toBe('export const ttl = 60;\n');
+    expect(git(repoDir, 'status', '--porcelain')).toBe('');
+  });
+
+  it('removes worktrees on release', async () => {
+    const manager = createManager();
+    const alice = await manager.provision('alice');
+
+    await manager.release('alice', true);
+
+    expect(fs.existsSync(alice.path)).toBe(false);
+    expect(git(repoDir, 'branch', '--list', 'agent-chatter/alice')).toBe('');
+    expect(manager.getWorkspace('alice')).toBeUndefined();
+  });
+
+  it('requires a git repository', async () => {
+    const manager = new WorkspaceManager({ executionEnv: localEnv, projectRoot: tempDir, config: { mode: 'worktree' } });
+
+    await expect(manager.provision('alice')).rejects.toThrow(/require a git repository/);
+  });
+});